@@ -1,13 +1,17 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { usePagePermissions } from "@/hooks/use-page-permissions";
+import { UserRole, type AuthUser } from "@shared/schema";
 import Login from "@/pages/login";
+import ResetPassword from "@/pages/reset-password";
 import Home from "@/pages/home";
 import CampaignsPage from "@/pages/campaigns";
+import CampaignSpendGridPage from "@/pages/campaign-spend-grid";
+import SpendReconciliationPage from "@/pages/spend-reconciliation";
 import CampaignDetailsPage from "@/pages/campaign-details";
 import ClientsPage from "@/pages/clients";
 import AdAccountsPage from "@/pages/ad-accounts";
@@ -79,6 +83,15 @@ function AuthenticatedRoute({ component: Component }: { component: React.Compone
   return <Component />;
 }
 
+// Pages tried in order when a user cannot see the dashboard
+const DASHBOARD_FALLBACKS = [
+  { pageKey: 'campaigns', path: '/campaigns' },
+  { pageKey: 'clients', path: '/clients' },
+  { pageKey: 'ad_accounts', path: '/ad-accounts' },
+  { pageKey: 'work_reports', path: '/work-reports' },
+  { pageKey: 'finance', path: '/finance/dashboard' },
+];
+
 // Protected route with permission checking
 function ProtectedRoute({ component: Component, pageKey }: { component: React.ComponentType, pageKey: string }) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
@@ -115,68 +128,29 @@ function ProtectedRoute({ component: Component, pageKey }: { component: React.Co
     };
   }, []);
 
-  // Check page permissions
-  const { data: hasPermission, isLoading: permissionLoading, isError } = useQuery({
-    queryKey: [`/api/permissions/check/${pageKey}`],
+  // Current role comes from the server, so role changes apply without logging in again
+  const { data: currentUser, isLoading: currentUserLoading } = useQuery<AuthUser>({
+    queryKey: ["/api/auth/user"],
     enabled: !!isAuthenticated && !!user,
     retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-  });
-
-  // Check alternative pages if current page is denied and it's the dashboard
-  const { data: campaignsPermission } = useQuery({
-    queryKey: [`/api/permissions/check/campaigns`],
-    enabled: !!isAuthenticated && !!user && pageKey === 'dashboard' && !permissionLoading && !hasPermission,
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-  });
-
-  const { data: clientsPermission } = useQuery({
-    queryKey: [`/api/permissions/check/clients`],
-    enabled: !!isAuthenticated && !!user && pageKey === 'dashboard' && !permissionLoading && !hasPermission,
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-  });
-
-  const { data: adAccountsPermission } = useQuery({
-    queryKey: [`/api/permissions/check/ad_accounts`],
-    enabled: !!isAuthenticated && !!user && pageKey === 'dashboard' && !permissionLoading && !hasPermission,
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-  });
-
-  const { data: workReportsPermission } = useQuery({
-    queryKey: [`/api/permissions/check/work_reports`],
-    enabled: !!isAuthenticated && !!user && pageKey === 'dashboard' && !permissionLoading && !hasPermission,
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
   });
+  const isSuperAdmin = (currentUser?.role ?? user?.role) === UserRole.SUPER_ADMIN;
 
-  const { data: financePermission } = useQuery({
-    queryKey: [`/api/permissions/check/finance`],
-    enabled: !!isAuthenticated && !!user && pageKey === 'dashboard' && !permissionLoading && !hasPermission,
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-  });
+  // Check page permissions
+  const { permissions, isLoading: permissionLoading, isError, can } = usePagePermissions(!!isAuthenticated && !!user);
+  const hasPermission = isSuperAdmin || can(pageKey);
+  const dashboardFallback = pageKey === 'dashboard' && !hasPermission
+    ? DASHBOARD_FALLBACKS.find(fallback => can(fallback.pageKey))
+    : undefined;
 
   // Redirect to first accessible page if dashboard is denied
   useEffect(() => {
-    if (pageKey === 'dashboard' && !permissionLoading && !hasPermission && isAuthenticated) {
-      if (campaignsPermission) {
-        window.location.href = '/campaigns';
-      } else if (clientsPermission) {
-        window.location.href = '/clients';
-      } else if (adAccountsPermission) {
-        window.location.href = '/ad-accounts';
-      } else if (workReportsPermission) {
-        window.location.href = '/work-reports';
-      } else if (financePermission) {
-        window.location.href = '/finance/dashboard';
-      }
+    if (permissions && dashboardFallback && isAuthenticated) {
+      window.location.href = dashboardFallback.path;
     }
-  }, [pageKey, permissionLoading, hasPermission, isAuthenticated, campaignsPermission, clientsPermission, adAccountsPermission, workReportsPermission, financePermission]);
+  }, [permissions, dashboardFallback, isAuthenticated]);
 
-  if (isAuthenticated === null || (isAuthenticated && permissionLoading)) {
+  if (isAuthenticated === null || (isAuthenticated && (permissionLoading || currentUserLoading))) {
     // Loading state
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex items-center justify-center">
@@ -193,14 +167,14 @@ function ProtectedRoute({ component: Component, pageKey }: { component: React.Co
   }
 
   // Super Admin bypass only for admin page (emergency access)
-  if (user?.role === 'super_admin' && pageKey === 'admin') {
+  if (isSuperAdmin && pageKey === 'admin') {
     return <Component />;
   }
 
   // Check if user has permission for this page
   if (isError || !hasPermission) {
-    // For dashboard, show loading while checking alternative pages
-    if (pageKey === 'dashboard' && (campaignsPermission === undefined || clientsPermission === undefined)) {
+    // For dashboard, show loading while redirecting to an accessible page
+    if (dashboardFallback) {
       return (
         <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex items-center justify-center">
           <div className="text-center">
@@ -237,6 +211,9 @@ function Router() {
   return (
     <Switch>
       <Route path="/login" component={Login} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/campaigns/spend-grid" component={() => <ProtectedRoute component={CampaignSpendGridPage} pageKey="campaigns" />} />
+      <Route path="/campaigns/reconciliation" component={() => <ProtectedRoute component={SpendReconciliationPage} pageKey="campaigns" />} />
       <Route path="/campaigns/:id" component={() => <ProtectedRoute component={CampaignDetailsPage} pageKey="campaigns" />} />
       <Route path="/campaigns" component={() => <ProtectedRoute component={CampaignsPage} pageKey="campaigns" />} />
       <Route path="/clients" component={() => <ProtectedRoute component={ClientsPage} pageKey="clients" />} />
@@ -252,8 +229,8 @@ function Router() {
       <Route path="/finance/reports" component={() => <ProtectedRoute component={FinanceReports} pageKey="finance" />} />
       <Route path="/fb-ad-management" component={() => <ProtectedRoute component={FBAdManagementPage} pageKey="fb_ad_management" />} />
       <Route path="/advantix-ads" component={() => <ProtectedRoute component={AdvantixAdsManager} pageKey="advantix_ads_manager" />} />
-      <Route path="/own-farming/new-created" component={() => <ProtectedRoute component={NewCreatedPage} pageKey="ownFarming" />} />
-      <Route path="/own-farming/farming-accounts" component={() => <ProtectedRoute component={FarmingAccountsPage} pageKey="ownFarming" />} />
+      <Route path="/own-farming/new-created" component={() => <ProtectedRoute component={NewCreatedPage} pageKey="new_created" />} />
+      <Route path="/own-farming/farming-accounts" component={() => <ProtectedRoute component={FarmingAccountsPage} pageKey="farming_accounts" />} />
       <Route path="/admin" component={() => <ProtectedRoute component={AdminPage} pageKey="admin" />} />
       <Route path="/" component={() => <ProtectedRoute component={Home} pageKey="dashboard" />} />
       <Route component={NotFound} />
@@ -0,0 +1,150 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Monitor, LogOut } from "lucide-react";
+
+interface ActiveSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+// Rough, human readable device label from a user agent string
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "Unknown OS";
+  return `${browser} on ${os}`;
+}
+
+export function ActiveSessionsDialog({ open, onOpenChange }: ActiveSessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest("DELETE", `/api/auth/sessions/${sessionId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Session revoked",
+        description: "That device has been signed out.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error revoking session",
+        description: error.message || "Failed to revoke session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/logout-all", {});
+      return response.json();
+    },
+    onSettled: () => {
+      localStorage.removeItem("authToken");
+      localStorage.removeItem("user");
+      window.dispatchEvent(new Event("auth-change"));
+      window.location.href = "/login";
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in to your account. Sessions expire after a period of inactivity.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                data-testid={`session-${session.id}`}
+              >
+                <div className="flex items-start gap-3">
+                  <Monitor className="h-5 w-5 mt-0.5 text-gray-500" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium">{describeDevice(session.userAgent)}</p>
+                      {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || "Unknown IP"} · Last active{" "}
+                      {session.lastActivityAt ? new Date(session.lastActivityAt).toLocaleString() : "unknown"}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeSessionMutation.mutate(session.id)}
+                    disabled={revokeSessionMutation.isPending}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <Button
+            variant="destructive"
+            onClick={() => logoutAllMutation.mutate()}
+            disabled={logoutAllMutation.isPending}
+            data-testid="button-logout-everywhere"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {logoutAllMutation.isPending ? "Logging out..." : "Log out everywhere"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Link2, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { AdAccountLimitEntryType, type AdAccount, type AdAccountLimitEntryWithPayment, type AdAccountWithMonitoredSpend, type FinancePayment } from "@shared/schema";
+
+interface AdAccountLimitLedgerProps {
+  adAccount: AdAccount;
+}
+
+const entryTypeLabels: Record<string, string> = {
+  [AdAccountLimitEntryType.OPENING]: "Opening Limit",
+  [AdAccountLimitEntryType.LIMIT_INCREASE]: "Limit Increase",
+  [AdAccountLimitEntryType.TOP_UP]: "Top-up",
+  [AdAccountLimitEntryType.ADJUSTMENT]: "Adjustment",
+};
+
+const NO_PAYMENT = "none";
+
+function formatCurrency(value: number | string, currency = "USD") {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(typeof value === "string" ? parseFloat(value) : value);
+}
+
+const emptyForm = () => ({
+  type: AdAccountLimitEntryType.TOP_UP as string,
+  amount: "",
+  date: format(new Date(), "yyyy-MM-dd"),
+  financePaymentId: NO_PAYMENT,
+  notes: "",
+});
+
+export function AdAccountLimitLedger({ adAccount: initialAdAccount }: AdAccountLimitLedgerProps) {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const ledgerQueryKey = ["/api/ad-accounts", initialAdAccount.id, "limit-entries"];
+
+  // The limit changes as entries are added, so read the account back instead of relying on the prop.
+  // It also carries the spend the monitor uses, which the stored total spend does not track.
+  const { data: adAccount } = useQuery<AdAccountWithMonitoredSpend>({
+    queryKey: ["/api/ad-accounts", initialAdAccount.id],
+  });
+
+  const { data: entries = [], isLoading } = useQuery<AdAccountLimitEntryWithPayment[]>({
+    queryKey: ledgerQueryKey,
+  });
+
+  // Needs finance access. Without it entries can still be added, just not linked to a payment.
+  const { data: payments = [] } = useQuery<FinancePayment[]>({
+    queryKey: ["/api/finance/payments"],
+    enabled: isAdding,
+    retry: false,
+  });
+  const clientPayments = payments.filter(payment => payment.clientId === initialAdAccount.clientId);
+
+  const addEntryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ad-accounts/${initialAdAccount.id}/limit-entries`, {
+        type: form.type,
+        amount: form.amount,
+        date: form.date,
+        financePaymentId: form.financePaymentId === NO_PAYMENT ? null : form.financePaymentId,
+        notes: form.notes.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ad-accounts"] });
+      setIsAdding(false);
+      setForm(emptyForm());
+      toast({
+        title: "Success",
+        description: "Spend limit updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the spend limit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddEntry = () => {
+    const amount = parseFloat(form.amount);
+    if (isNaN(amount) || amount === 0 || (form.type !== AdAccountLimitEntryType.ADJUSTMENT && amount < 0)) {
+      toast({
+        title: "Error",
+        description: form.type === AdAccountLimitEntryType.ADJUSTMENT
+          ? "Please enter a non-zero amount"
+          : "Please enter a positive amount",
+        variant: "destructive",
+      });
+      return;
+    }
+    addEntryMutation.mutate();
+  };
+
+  const spendLimit = parseFloat((adAccount ?? initialAdAccount).spendLimit || "0");
+  const totalSpend = parseFloat(adAccount ? adAccount.monitoredSpend : initialAdAccount.totalSpend || "0");
+  const headroom = spendLimit - totalSpend;
+  const usedPercentage = spendLimit > 0 ? Math.min(100, (totalSpend / spendLimit) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {formatCurrency(totalSpend)} of {formatCurrency(spendLimit)} spent
+          </span>
+          <span className={`font-semibold ${headroom < 0 ? 'text-red-600' : 'text-green-600'}`} data-testid="text-spend-headroom">
+            {formatCurrency(headroom)} headroom
+          </span>
+        </div>
+        <Progress value={usedPercentage} className="h-2" />
+      </div>
+
+      {isAdding ? (
+        <div className="grid gap-3 rounded border p-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="grid gap-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={form.type} onValueChange={(value) => setForm(prev => ({ ...prev, type: value }))}>
+                <SelectTrigger data-testid="select-limit-entry-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AdAccountLimitEntryType.TOP_UP}>Top-up</SelectItem>
+                  <SelectItem value={AdAccountLimitEntryType.LIMIT_INCREASE}>Limit Increase</SelectItem>
+                  <SelectItem value={AdAccountLimitEntryType.ADJUSTMENT}>Adjustment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Amount ($)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                placeholder={form.type === AdAccountLimitEntryType.ADJUSTMENT ? "e.g. -100" : "e.g. 500"}
+                data-testid="input-limit-entry-amount"
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Date</Label>
+              <Input
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                data-testid="input-limit-entry-date"
+              />
+            </div>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-xs">Funded by Payment</Label>
+            <Select value={form.financePaymentId} onValueChange={(value) => setForm(prev => ({ ...prev, financePaymentId: value }))}>
+              <SelectTrigger data-testid="select-limit-entry-payment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PAYMENT}>No linked payment</SelectItem>
+                {clientPayments.map(payment => (
+                  <SelectItem key={payment.id} value={payment.id}>
+                    {format(new Date(payment.date), "MMM d, yyyy")} · {formatCurrency(payment.amount, payment.currency)}
+                    {payment.notes ? ` · ${payment.notes}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label className="text-xs">Notes</Label>
+            <Input
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="Optional"
+              data-testid="input-limit-entry-notes"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => { setIsAdding(false); setForm(emptyForm()); }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddEntry} disabled={addEntryMutation.isPending} data-testid="button-save-limit-entry">
+              {addEntryMutation.isPending ? "Saving..." : "Save Entry"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsAdding(true)} data-testid="button-add-limit-entry">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Top-up or Limit Increase
+        </Button>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ledger...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No ledger entries yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-56 overflow-y-auto">
+          {entries.map((entry) => {
+            const amount = parseFloat(entry.amount);
+            return (
+              <div key={entry.id} className="flex items-start justify-between gap-3 rounded border p-2 text-sm" data-testid={`limit-entry-${entry.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{entryTypeLabels[entry.type] || entry.type}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.date), "MMM d, yyyy")} by {entry.createdByName}
+                    </span>
+                  </div>
+                  {entry.payment && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Link2 className="h-3 w-3" />
+                      Payment of {formatCurrency(entry.payment.amount, entry.payment.currency)} on {format(new Date(entry.payment.date), "MMM d, yyyy")}
+                    </div>
+                  )}
+                  {entry.notes && <p className="text-xs text-muted-foreground">{entry.notes}</p>}
+                </div>
+                <span className={`font-semibold whitespace-nowrap ${amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {amount < 0 ? "−" : "+"}{formatCurrency(Math.abs(amount))}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Mail, MessageSquare } from "lucide-react";
+import { format } from "date-fns";
+import type { AdAccountStatusChange } from "@shared/schema";
+
+interface AdAccountStatusHistoryProps {
+  adAccountId: string;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge
+      variant={status === 'active' ? "default" : "secondary"}
+      className={status === 'active'
+        ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+        : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"}
+    >
+      {status === 'active' ? 'Active' : status === 'suspended' ? 'Suspended' : status}
+    </Badge>
+  );
+}
+
+export function AdAccountStatusHistory({ adAccountId }: AdAccountStatusHistoryProps) {
+  const { data: changes = [], isLoading } = useQuery<AdAccountStatusChange[]>({
+    queryKey: ["/api/ad-accounts", adAccountId, "status-history"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading status history...</p>;
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground" data-testid="text-no-status-changes">The status has not been changed yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-48 overflow-y-auto">
+      {changes.map((change) => (
+        <div key={change.id} className="space-y-1 rounded border p-2 text-sm" data-testid={`status-change-${change.id}`}>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <StatusBadge status={change.fromStatus} />
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <StatusBadge status={change.toStatus} />
+            </div>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {change.createdAt ? format(new Date(change.createdAt), "MMM d, yyyy HH:mm") : ""} by {change.changedByName}
+            </span>
+          </div>
+          {change.reason && <p className="text-xs">{change.reason}</p>}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Mail className="h-3 w-3" />
+              {change.emailSentTo || "No email"}
+            </span>
+            <span className="flex items-center gap-1">
+              <MessageSquare className="h-3 w-3" />
+              {change.smsSentTo || "No SMS"}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
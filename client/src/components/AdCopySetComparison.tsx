@@ -0,0 +1,159 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, Trophy } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { AdCopySet, AdCopySetPerformance } from "@shared/schema";
+
+interface AdCopySetComparisonProps {
+  campaignId: string;
+  onSetActive: (setId: string) => void;
+  isSettingActive: boolean;
+}
+
+type WinnerMetric = "ctr" | "cpc" | "conversions";
+
+// Higher CTR and conversions win, lower CPC wins
+function findWinner(performance: AdCopySetPerformance[], metric: WinnerMetric): string | null {
+  const candidates = performance.filter(set => set[metric] !== null && (metric !== "conversions" || set.conversions > 0));
+  // A winner needs something to beat
+  if (candidates.length < 2) return null;
+  const best = candidates.reduce((winner, set) => {
+    const value = set[metric] as number;
+    const winnerValue = winner[metric] as number;
+    return (metric === "cpc" ? value < winnerValue : value > winnerValue) ? set : winner;
+  });
+  return best.adCopySetId;
+}
+
+const formatCurrency = (amount: number | null) => {
+  if (amount === null) return "—";
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const formatNumber = (value: number) => new Intl.NumberFormat('en-US').format(value);
+
+export function AdCopySetComparison({ campaignId, onSetActive, isSettingActive }: AdCopySetComparisonProps) {
+  const { data: adCopySets = [] } = useQuery<AdCopySet[]>({
+    queryKey: ["/api/campaigns", campaignId, "ad-copy-sets"],
+  });
+
+  const { data: performance = [], isLoading } = useQuery<AdCopySetPerformance[]>({
+    queryKey: ["/api/campaigns", campaignId, "ad-copy-sets", "performance"],
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (performance.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No ad copy sets for this campaign yet.
+      </div>
+    );
+  }
+
+  const winners: Record<WinnerMetric, string | null> = {
+    ctr: findWinner(performance, "ctr"),
+    cpc: findWinner(performance, "cpc"),
+    conversions: findWinner(performance, "conversions"),
+  };
+
+  const metricRow = (label: string, value: string, winner?: boolean) => (
+    <div
+      className={cn(
+        "flex items-center justify-between text-sm px-2 py-1 rounded",
+        winner && "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 font-semibold"
+      )}
+    >
+      <span className={cn(!winner && "text-gray-500 dark:text-gray-400")}>{label}</span>
+      <span className="flex items-center gap-1">
+        {winner && <Trophy className="h-3 w-3" />}
+        {value}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+      {performance.map(result => {
+        const set = adCopySets.find(adCopySet => adCopySet.id === result.adCopySetId);
+        return (
+          <Card
+            key={result.adCopySetId}
+            className={cn("rounded-lg", result.isActive && "ring-2 ring-green-500")}
+            data-testid={`ad-copy-comparison-${result.adCopySetId}`}
+          >
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base font-medium truncate">{result.setName}</CardTitle>
+                {result.isActive ? (
+                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">Active</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSetActive(result.adCopySetId)}
+                    disabled={isSettingActive}
+                    data-testid={`button-set-active-${result.adCopySetId}`}
+                  >
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Set Active
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {set && (
+                <div className="space-y-1 text-sm">
+                  <p className="font-semibold text-gray-900 dark:text-white">{set.headline || "No headline"}</p>
+                  {set.description && <p className="text-gray-600 dark:text-gray-400">{set.description}</p>}
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {set.callToAction && <Badge variant="outline">{set.callToAction}</Badge>}
+                    {set.targetAudience && <Badge variant="outline">{set.targetAudience}</Badge>}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1 border-t border-gray-200 dark:border-gray-700 pt-3">
+                {metricRow("Active Days", formatNumber(result.activeDays))}
+                {metricRow("Spend", formatCurrency(result.spend))}
+                {metricRow("Facebook Spend", formatCurrency(result.facebookSpend))}
+                {metricRow("Impressions", formatNumber(result.impressions))}
+                {metricRow("Clicks", formatNumber(result.clicks))}
+                {metricRow("CTR", result.ctr === null ? "—" : `${result.ctr.toFixed(2)}%`, winners.ctr === result.adCopySetId)}
+                {metricRow("CPC", formatCurrency(result.cpc), winners.cpc === result.adCopySetId)}
+                {metricRow("Conversions", formatNumber(result.conversions), winners.conversions === result.adCopySetId)}
+                {metricRow("Cost / Conversion", formatCurrency(result.costPerConversion))}
+              </div>
+
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Active Periods</p>
+                {result.periods.length === 0 ? (
+                  <p className="text-xs text-gray-500">Never active</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {result.periods.map(period => (
+                      <li key={period.startedAt} className="text-xs text-gray-600 dark:text-gray-400">
+                        {format(new Date(period.startedAt), "MMM dd, yyyy HH:mm")}
+                        {" – "}
+                        {period.endedAt ? format(new Date(period.endedAt), "MMM dd, yyyy HH:mm") : "now"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
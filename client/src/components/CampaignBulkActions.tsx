@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Trash2, X, XCircle } from "lucide-react";
+import {
+  CampaignBulkOperation,
+  type AdAccount,
+  type BulkCampaignOperation,
+  type BulkCampaignResult,
+  type Client,
+} from "@shared/schema";
+
+interface CampaignBulkActionsProps {
+  selectedIds: string[];
+  clients: Client[];
+  adAccounts: AdAccount[];
+  onClearSelection: () => void;
+}
+
+interface BulkCampaignResponse {
+  operation: string;
+  succeeded: number;
+  failed: number;
+  results: BulkCampaignResult[];
+}
+
+const NO_CLIENT = "none";
+
+export function CampaignBulkActions({ selectedIds, clients, adAccounts, onClearSelection }: CampaignBulkActionsProps) {
+  const { toast } = useToast();
+  const [budgetMode, setBudgetMode] = useState<"percent" | "absolute">("percent");
+  const [budgetValue, setBudgetValue] = useState("");
+  const [report, setReport] = useState<BulkCampaignResponse | null>(null);
+
+  const bulkMutation = useMutation({
+    mutationFn: async (operation: BulkCampaignOperation) => {
+      const response = await apiRequest("POST", "/api/campaigns/bulk", operation);
+      return response.json() as Promise<BulkCampaignResponse>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/pacing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/analytics"] });
+      setBudgetValue("");
+      if (data.failed === 0) {
+        toast({
+          title: "Success!",
+          description: `Updated ${data.succeeded} campaign(s).`,
+        });
+        onClearSelection();
+      } else {
+        // Keep the selection so failed rows can be retried
+        setReport(data);
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Bulk operation failed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleBudgetApply = () => {
+    const value = parseFloat(budgetValue);
+    if (isNaN(value) || value === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a non-zero adjustment.",
+        variant: "destructive",
+      });
+      return;
+    }
+    bulkMutation.mutate({ operation: CampaignBulkOperation.BUDGET, campaignIds: selectedIds, mode: budgetMode, value });
+  };
+
+  return (
+    <>
+      <div
+        className="flex items-center gap-3 flex-wrap p-3 mb-4 rounded-lg border border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950/30"
+        data-testid="bulk-actions-bar"
+      >
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          {selectedIds.length} selected
+        </span>
+
+        <Select
+          value=""
+          onValueChange={(status) => bulkMutation.mutate({ operation: CampaignBulkOperation.STATUS, campaignIds: selectedIds, status: status as "active" | "paused" | "completed" | "draft" })}
+          disabled={bulkMutation.isPending}
+        >
+          <SelectTrigger className="w-[150px] bg-white dark:bg-gray-900" data-testid="select-bulk-status">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Active</SelectItem>
+            <SelectItem value="paused">Paused</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+            <SelectItem value="draft">Draft</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(clientId) => bulkMutation.mutate({ operation: CampaignBulkOperation.CLIENT, campaignIds: selectedIds, clientId: clientId === NO_CLIENT ? null : clientId })}
+          disabled={bulkMutation.isPending}
+        >
+          <SelectTrigger className="w-[170px] bg-white dark:bg-gray-900" data-testid="select-bulk-client">
+            <SelectValue placeholder="Move to client" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CLIENT}>No Client</SelectItem>
+            {clients.map((client) => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.clientName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(adAccountId) => bulkMutation.mutate({ operation: CampaignBulkOperation.AD_ACCOUNT, campaignIds: selectedIds, adAccountId })}
+          disabled={bulkMutation.isPending}
+        >
+          <SelectTrigger className="w-[190px] bg-white dark:bg-gray-900" data-testid="select-bulk-ad-account">
+            <SelectValue placeholder="Move to ad account" />
+          </SelectTrigger>
+          <SelectContent>
+            {adAccounts.map((account) => (
+              <SelectItem key={account.id} value={account.id}>
+                {account.accountName} ({account.platform})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Select value={budgetMode} onValueChange={(value) => setBudgetMode(value as "percent" | "absolute")}>
+            <SelectTrigger className="w-[110px] bg-white dark:bg-gray-900" data-testid="select-bulk-budget-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Budget %</SelectItem>
+              <SelectItem value="absolute">Budget $</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            value={budgetValue}
+            onChange={(e) => setBudgetValue(e.target.value)}
+            placeholder={budgetMode === "percent" ? "+10 or -10" : "+100 or -100"}
+            className="w-[120px] bg-white dark:bg-gray-900"
+            data-testid="input-bulk-budget"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleBudgetApply}
+            disabled={bulkMutation.isPending || !budgetValue}
+            data-testid="button-bulk-budget"
+          >
+            Apply
+          </Button>
+        </div>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              disabled={bulkMutation.isPending}
+              data-testid="button-bulk-delete"
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Campaigns</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete {selectedIds.length} campaign(s)? This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => bulkMutation.mutate({ operation: CampaignBulkOperation.DELETE, campaignIds: selectedIds })}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={onClearSelection}
+          data-testid="button-clear-selection"
+        >
+          <X className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      {/* Per-row report when some campaigns were not changed */}
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Bulk Operation Results</DialogTitle>
+            <DialogDescription>
+              {report?.succeeded ?? 0} succeeded, {report?.failed ?? 0} failed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {report?.results.map((result) => (
+              <div
+                key={result.campaignId}
+                className="flex items-center justify-between gap-2 text-sm p-2 rounded bg-gray-50 dark:bg-gray-800"
+                data-testid={`bulk-result-${result.campaignId}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {result.success ? (
+                    <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+                  )}
+                  <span className="truncate">{result.campaignName || result.campaignId}</span>
+                </div>
+                {result.message && (
+                  <Badge variant="outline" className="text-xs flex-shrink-0">{result.message}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRight, CalendarClock, RefreshCw, RotateCcw, User } from "lucide-react";
+import { format } from "date-fns";
+import { CampaignChangeSource, type Campaign, type CampaignFieldChange } from "@shared/schema";
+
+interface CampaignChangeTimelineProps {
+  campaign: Campaign;
+}
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  status: "Status",
+  objective: "Objective",
+  budget: "Budget",
+  dailyBudget: "Daily Budget",
+  lifetimeBudget: "Lifetime Budget",
+};
+
+const currencyFields = new Set(["budget", "dailyBudget", "lifetimeBudget"]);
+
+function formatValue(field: string, value: string | null) {
+  if (value === null) return "—";
+  if (currencyFields.has(field)) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(parseFloat(value));
+  }
+  return value;
+}
+
+// Decimals come back as "1500.00" from the campaign but may differ in form, so compare amounts
+function isCurrentValue(campaign: Campaign, field: string, value: string | null) {
+  const current = (campaign as Record<string, unknown>)[field];
+  if (current === null || current === undefined || current === "") return value === null;
+  if (value === null) return false;
+  return currencyFields.has(field)
+    ? parseFloat(String(current)) === parseFloat(value)
+    : String(current) === value;
+}
+
+export function CampaignChangeTimeline({ campaign }: CampaignChangeTimelineProps) {
+  const { toast } = useToast();
+  const historyQueryKey = ["/api/campaigns", campaign.id, "history"];
+
+  const { data: changes = [], isLoading } = useQuery<CampaignFieldChange[]>({
+    queryKey: historyQueryKey,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (changeId: string) => {
+      const response = await apiRequest("POST", `/api/campaigns/${campaign.id}/history/${changeId}/revert`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaign.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      toast({
+        title: "Success!",
+        description: "Field reverted successfully.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revert change.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Loading history...</p>;
+  }
+
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+        No changes recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {changes.map((change) => {
+        const isSync = change.source === CampaignChangeSource.FACEBOOK_SYNC;
+        const isSchedule = change.source === CampaignChangeSource.SCHEDULE;
+        const alreadyCurrent = isCurrentValue(campaign, change.field, change.oldValue);
+
+        return (
+          <div key={change.id} className="relative pl-6" data-testid={`history-change-${change.id}`}>
+            <div className={`absolute -left-[7px] top-1.5 h-3 w-3 rounded-full ${isSync ? "bg-blue-500" : isSchedule ? "bg-purple-500" : "bg-green-500"}`} />
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                    {fieldLabels[change.field] || change.field}
+                  </span>
+                  {isSync ? (
+                    <Badge variant="secondary" className="text-xs">
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                      Facebook Sync
+                    </Badge>
+                  ) : isSchedule ? (
+                    <Badge variant="secondary" className="text-xs">
+                      <CalendarClock className="h-3 w-3 mr-1" />
+                      Schedule
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      <User className="h-3 w-3 mr-1" />
+                      User
+                    </Badge>
+                  )}
+                  {change.revertedChangeId && (
+                    <Badge variant="outline" className="text-xs">Revert</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm flex-wrap">
+                  <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700 line-through dark:bg-red-900/20 dark:text-red-400">
+                    {formatValue(change.field, change.oldValue)}
+                  </span>
+                  <ArrowRight className="h-3 w-3 text-gray-400" />
+                  <span className="px-1.5 py-0.5 rounded bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400">
+                    {formatValue(change.field, change.newValue)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {change.createdAt ? format(new Date(change.createdAt), "MMM dd, yyyy HH:mm") : ""} • {change.changedByName}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revertMutation.mutate(change.id)}
+                disabled={revertMutation.isPending || alreadyCurrent}
+                title={alreadyCurrent ? "The field already has this value" : `Set ${fieldLabels[change.field] || change.field} back to ${formatValue(change.field, change.oldValue)}`}
+                data-testid={`button-revert-change-${change.id}`}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Revert
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquare, Reply, Edit3, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { AuthUser, CampaignComment } from "@shared/schema";
+
+interface CampaignCommentThreadProps {
+  campaignId: string;
+}
+
+// Highlights @username mentions within a comment body
+function CommentBody({ body }: { body: string }) {
+  const parts = body.split(/(@[A-Za-z0-9_.-]+)/g);
+  return (
+    <p className="text-xs text-gray-900 dark:text-white whitespace-pre-wrap break-words">
+      {parts.map((part, index) => part.startsWith("@")
+        ? <span key={index} className="font-medium text-blue-600 dark:text-blue-400">{part}</span>
+        : part)}
+    </p>
+  );
+}
+
+export function CampaignCommentThread({ campaignId }: CampaignCommentThreadProps) {
+  const { toast } = useToast();
+  const [newComment, setNewComment] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  const commentsQueryKey = ["/api/campaigns", campaignId, "comments"];
+
+  const { data: comments = [], isLoading } = useQuery<CampaignComment[]>({
+    queryKey: commentsQueryKey,
+  });
+
+  const { data: currentUser } = useQuery<AuthUser>({
+    queryKey: ["/api/auth/user"],
+  });
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addCommentMutation = useMutation({
+    mutationFn: async ({ body, parentId }: { body: string; parentId?: string }) => {
+      const response = await apiRequest("POST", `/api/campaigns/${campaignId}/comments`, { body, parentId });
+      return response.json();
+    },
+    onSuccess: (_, { parentId }) => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+      if (parentId) {
+        setReplyingTo(null);
+        setReplyText("");
+      } else {
+        setNewComment("");
+      }
+    },
+    onError: onMutationError("Failed to add comment."),
+  });
+
+  const editCommentMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: string; body: string }) => {
+      const response = await apiRequest("PUT", `/api/campaigns/${campaignId}/comments/${id}`, { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+      setEditingId(null);
+      setEditText("");
+    },
+    onError: onMutationError("Failed to update comment."),
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/campaigns/${campaignId}/comments/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+    },
+    onError: onMutationError("Failed to delete comment."),
+  });
+
+  // Newest threads first, replies in the order they were written
+  const threads = comments
+    .filter(comment => !comment.parentId)
+    .reverse()
+    .map(root => ({ root, replies: comments.filter(comment => comment.parentId === root.id) }))
+    // A deleted comment only stays to hold its replies
+    .filter(({ root, replies }) => !root.deletedAt || replies.some(reply => !reply.deletedAt));
+
+  const renderComment = (comment: CampaignComment, isReply: boolean) => {
+    if (comment.deletedAt) {
+      return (
+        <div key={comment.id} className={cn("p-2 text-xs italic text-gray-400", isReply && "ml-6")}>
+          Comment deleted
+        </div>
+      );
+    }
+
+    const isAuthor = !!currentUser && comment.authorId === currentUser.id;
+    const canDelete = isAuthor || !!currentUser?.isAdmin;
+
+    return (
+      <div
+        key={comment.id}
+        className={cn("flex items-start gap-2 p-2 rounded bg-gray-50 dark:bg-gray-800", isReply && "ml-6")}
+        data-testid={`comment-${comment.id}`}
+      >
+        <MessageSquare className="h-3 w-3 text-green-600 mt-1 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          {editingId === comment.id ? (
+            <div className="space-y-2">
+              <Textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                rows={2}
+                className="text-sm"
+                data-testid={`textarea-edit-comment-${comment.id}`}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => editCommentMutation.mutate({ id: comment.id, body: editText })}
+                  disabled={editCommentMutation.isPending || !editText.trim()}
+                >
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <CommentBody body={comment.body} />
+          )}
+          <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+            <span>{comment.createdAt ? format(new Date(comment.createdAt), "MMM dd, HH:mm") : ""}</span>
+            <span>•</span>
+            <span>{comment.authorName}</span>
+            {comment.editedAt && <span title={format(new Date(comment.editedAt), "MMM dd, HH:mm")}>(edited)</span>}
+            {editingId !== comment.id && (
+              <div className="ml-auto flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1"
+                  title="Reply"
+                  onClick={() => {
+                    setReplyingTo(comment.parentId ?? comment.id);
+                    setReplyText(isReply ? `@${comment.authorName} ` : "");
+                  }}
+                  data-testid={`button-reply-comment-${comment.id}`}
+                >
+                  <Reply className="h-3 w-3" />
+                </Button>
+                {isAuthor && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1"
+                    title="Edit"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditText(comment.body);
+                    }}
+                    data-testid={`button-edit-comment-${comment.id}`}
+                  >
+                    <Edit3 className="h-3 w-3" />
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1 text-red-600 hover:text-red-700"
+                    title="Delete"
+                    onClick={() => deleteCommentMutation.mutate(comment.id)}
+                    disabled={deleteCommentMutation.isPending}
+                    data-testid={`button-delete-comment-${comment.id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Add Comment Form - Compact */}
+      <div className="flex gap-2">
+        <Textarea
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          placeholder="Add a comment... Use @username to mention someone"
+          rows={2}
+          className="flex-1 text-sm"
+          data-testid="textarea-new-comment"
+        />
+        <Button
+          onClick={() => addCommentMutation.mutate({ body: newComment })}
+          disabled={addCommentMutation.isPending || !newComment.trim()}
+          size="sm"
+          className="self-end"
+          data-testid="button-add-comment"
+        >
+          {addCommentMutation.isPending ? "Adding..." : "Add"}
+        </Button>
+      </div>
+
+      {/* Threads - newest first */}
+      <div className="max-h-96 overflow-y-auto space-y-3">
+        {isLoading ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">Loading comments...</p>
+        ) : threads.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+            No comments yet
+          </p>
+        ) : (
+          threads.map(({ root, replies }) => (
+            <div key={root.id} className="space-y-1 border-l-2 border-green-200 dark:border-green-900 pl-2" data-testid={`thread-${root.id}`}>
+              {renderComment(root, false)}
+              {replies.map(reply => renderComment(reply, true))}
+              {replyingTo === root.id && (
+                <div className="ml-6 flex gap-2">
+                  <Textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="Write a reply..."
+                    rows={2}
+                    className="flex-1 text-sm"
+                    autoFocus
+                    data-testid={`textarea-reply-${root.id}`}
+                  />
+                  <div className="flex flex-col gap-1 self-end">
+                    <Button
+                      size="sm"
+                      onClick={() => addCommentMutation.mutate({ body: replyText, parentId: root.id })}
+                      disabled={addCommentMutation.isPending || !replyText.trim()}
+                    >
+                      Reply
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
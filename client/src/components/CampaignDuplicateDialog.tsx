@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { AdAccount, Campaign, Client, DuplicateCampaign } from "@shared/schema";
+
+interface CampaignDuplicateDialogProps {
+  campaign: Campaign | null;
+  clients: Client[];
+  adAccounts: AdAccount[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_CLIENT = "none";
+
+export function CampaignDuplicateDialog({ campaign, clients, adAccounts, onOpenChange }: CampaignDuplicateDialogProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [clientId, setClientId] = useState(NO_CLIENT);
+  const [adAccountId, setAdAccountId] = useState("");
+  const [includeAdCopySets, setIncludeAdCopySets] = useState(true);
+  const [includeComments, setIncludeComments] = useState(false);
+
+  // Start from the source campaign each time the dialog opens
+  useEffect(() => {
+    if (!campaign) return;
+    setName(`${campaign.name} (Copy)`);
+    setClientId(campaign.clientId || NO_CLIENT);
+    setAdAccountId(campaign.adAccountId);
+    setIncludeAdCopySets(true);
+    setIncludeComments(false);
+  }, [campaign]);
+
+  const duplicateMutation = useMutation({
+    mutationFn: async (data: DuplicateCampaign) => {
+      const response = await apiRequest("POST", `/api/campaigns/${campaign!.id}/duplicate`, data);
+      return response.json() as Promise<Campaign>;
+    },
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      onOpenChange(false);
+      toast({
+        title: "Success!",
+        description: `Created ${copy.name} as a draft.`,
+      });
+      setLocation(`/campaigns/${copy.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to duplicate campaign.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server moves the copy to the client of a different ad account, so show that client
+  const handleAdAccountChange = (value: string) => {
+    setAdAccountId(value);
+    if (campaign && value !== campaign.adAccountId) {
+      setClientId(adAccounts.find(account => account.id === value)?.clientId || NO_CLIENT);
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Campaign name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    duplicateMutation.mutate({
+      name: name.trim(),
+      clientId: clientId === NO_CLIENT ? null : clientId,
+      adAccountId,
+      includeAdCopySets,
+      includeComments,
+    });
+  };
+
+  return (
+    <Dialog open={campaign !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate Campaign</DialogTitle>
+          <DialogDescription>
+            The copy starts as a draft with no spend and is not linked to Facebook.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="duplicate-name">Campaign Name</Label>
+            <Input
+              id="duplicate-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-duplicate-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger data-testid="select-duplicate-client">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CLIENT}>No Client</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.clientName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Ad Account</Label>
+            <Select value={adAccountId} onValueChange={handleAdAccountChange}>
+              <SelectTrigger data-testid="select-duplicate-ad-account">
+                <SelectValue placeholder="Select ad account" />
+              </SelectTrigger>
+              <SelectContent>
+                {adAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.accountName} ({account.platform})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="duplicate-ad-copy-sets"
+              checked={includeAdCopySets}
+              onCheckedChange={(checked) => setIncludeAdCopySets(checked === true)}
+              data-testid="checkbox-duplicate-ad-copy-sets"
+            />
+            <Label htmlFor="duplicate-ad-copy-sets" className="font-normal">Copy ad copy sets</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="duplicate-comments"
+              checked={includeComments}
+              onCheckedChange={(checked) => setIncludeComments(checked === true)}
+              data-testid="checkbox-duplicate-comments"
+            />
+            <Label htmlFor="duplicate-comments" className="font-normal">Copy comments</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDuplicate}
+            disabled={duplicateMutation.isPending || !adAccountId}
+            data-testid="button-confirm-duplicate"
+          >
+            {duplicateMutation.isPending ? "Duplicating..." : "Duplicate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { addMonths, eachDayOfInterval, endOfMonth, format, startOfMonth } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { Campaign, CampaignFlight } from "@shared/schema";
+
+interface CampaignFlightCalendarProps {
+  campaigns: Campaign[];
+}
+
+const flightColors: Record<string, string> = {
+  active: "bg-green-500",
+  paused: "bg-yellow-400",
+  completed: "bg-blue-400",
+  draft: "bg-gray-400",
+};
+
+// Flight and campaign dates are UTC days
+const toDay = (date: string | Date) => new Date(date).toISOString().split("T")[0];
+
+/**
+ * Month grid with one row per campaign. Campaigns with flights are shown on
+ * their flight days, others from the start date to the end date.
+ */
+export function CampaignFlightCalendar({ campaigns }: CampaignFlightCalendarProps) {
+  const [, setLocation] = useLocation();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) }).map(day => format(day, "yyyy-MM-dd"));
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: flights = [] } = useQuery<CampaignFlight[]>({
+    queryKey: ["/api/campaigns/flights"],
+  });
+
+  const flightsByCampaign = new Map<string, { start: string; end: string }[]>();
+  for (const flight of flights) {
+    flightsByCampaign.set(flight.campaignId, [
+      ...(flightsByCampaign.get(flight.campaignId) || []),
+      { start: toDay(flight.startDate), end: toDay(flight.endDate) },
+    ]);
+  }
+
+  const isRunning = (campaign: Campaign, day: string) => {
+    const campaignFlights = flightsByCampaign.get(campaign.id);
+    if (campaignFlights) {
+      return campaignFlights.some(flight => flight.start <= day && flight.end >= day);
+    }
+    return toDay(campaign.startDate) <= day && (!campaign.endDate || toDay(campaign.endDate) >= day);
+  };
+
+  // Only campaigns that run at some point this month
+  const rows = campaigns.filter(campaign => days.some(day => isRunning(campaign, day)));
+  const gridTemplateColumns = `12rem repeat(${days.length}, minmax(1.25rem, 1fr))`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, -1))} data-testid="button-calendar-previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-semibold text-gray-900 dark:text-white w-32 text-center">
+            {format(month, "MMMM yyyy")}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))} data-testid="button-calendar-next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+            Today
+          </Button>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+          {Object.entries(flightColors).map(([status, color]) => (
+            <span key={status} className="flex items-center gap-1 capitalize">
+              <span className={cn("h-2 w-3 rounded-sm", color)} />
+              {status}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[900px]">
+          <div className="grid text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700 pb-1" style={{ gridTemplateColumns }}>
+            <div>Campaign</div>
+            {days.map(day => (
+              <div key={day} className={cn("text-center", day === today && "font-bold text-blue-600")}>
+                {day.slice(8)}
+              </div>
+            ))}
+          </div>
+          {rows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No campaigns run this month.</div>
+          ) : (
+            rows.map(campaign => (
+              <div
+                key={campaign.id}
+                className="grid items-center py-1 border-b border-gray-100 dark:border-gray-800"
+                style={{ gridTemplateColumns }}
+                data-testid={`calendar-row-${campaign.id}`}
+              >
+                <button
+                  className="text-left text-sm truncate pr-2 text-blue-600 hover:text-blue-800 hover:underline"
+                  onClick={() => setLocation(`/campaigns/${campaign.id}`)}
+                  title={campaign.name}
+                >
+                  {campaign.name}
+                </button>
+                {days.map(day => (
+                  <div
+                    key={day}
+                    className={cn("h-4", day === today && "bg-blue-50 dark:bg-blue-900/20")}
+                  >
+                    {isRunning(campaign, day) && (
+                      <div className={cn("h-full", flightColors[campaign.status] || flightColors.draft)} />
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Save, Trash2 } from "lucide-react";
+import type { CampaignFlight } from "@shared/schema";
+
+interface CampaignFlightsEditorProps {
+  campaignId: string;
+}
+
+// Days as yyyy-MM-dd, matching the UTC dates flights are stored at
+interface FlightRow {
+  startDate: string;
+  endDate: string;
+}
+
+const toDay = (date: string | Date) => new Date(date).toISOString().split("T")[0];
+
+export function CampaignFlightsEditor({ campaignId }: CampaignFlightsEditorProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<FlightRow[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const flightsQueryKey = ["/api/campaigns", campaignId, "flights"];
+
+  const { data: flights, isLoading } = useQuery<CampaignFlight[]>({
+    queryKey: flightsQueryKey,
+  });
+
+  useEffect(() => {
+    if (!flights) return;
+    setRows(flights.map(flight => ({ startDate: toDay(flight.startDate), endDate: toDay(flight.endDate) })));
+    setIsDirty(false);
+  }, [flights]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FlightRow[]) => {
+      const response = await apiRequest("PUT", `/api/campaigns/${campaignId}/flights`, { flights: data });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: flightsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/flights"] });
+      toast({
+        title: "Success!",
+        description: "Flight schedule saved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save flights.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, field: keyof FlightRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    setIsDirty(true);
+  };
+
+  const addRow = () => {
+    // A new flight starts the day after the last one ends
+    const last = rows[rows.length - 1];
+    const start = last?.endDate ? new Date(new Date(`${last.endDate}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000) : new Date();
+    setRows([...rows, { startDate: toDay(start), endDate: "" }]);
+    setIsDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (rows.some(row => !row.startDate || !row.endDate || row.endDate < row.startDate)) {
+      toast({
+        title: "Error",
+        description: "Every flight needs a start and an end date on or after it.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(rows);
+  };
+
+  const today = toDay(new Date());
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No flights. The campaign runs continuously from its start date.
+        </p>
+      ) : (
+        rows.map((row, index) => {
+          const isCurrent = row.startDate <= today && row.endDate >= today;
+          const isPast = !!row.endDate && row.endDate < today;
+          return (
+            <div key={index} className="flex items-center gap-2 flex-wrap" data-testid={`flight-row-${index}`}>
+              <Input
+                type="date"
+                value={row.startDate}
+                onChange={(e) => updateRow(index, "startDate", e.target.value)}
+                className="w-[160px]"
+                data-testid={`input-flight-start-${index}`}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <Input
+                type="date"
+                value={row.endDate}
+                min={row.startDate}
+                onChange={(e) => updateRow(index, "endDate", e.target.value)}
+                className="w-[160px]"
+                data-testid={`input-flight-end-${index}`}
+              />
+              {isCurrent && <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">Running</Badge>}
+              {isPast && <Badge variant="outline">Ended</Badge>}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRow(index)}
+                className="text-red-600 hover:text-red-800"
+                data-testid={`button-remove-flight-${index}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })
+      )}
+      <div className="flex items-center gap-2 pt-1">
+        <Button variant="outline" size="sm" onClick={addRow} data-testid="button-add-flight">
+          <Plus className="h-3 w-3 mr-1" />
+          Add Flight
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || saveMutation.isPending}
+          data-testid="button-save-flights"
+        >
+          <Save className="h-3 w-3 mr-1" />
+          {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { describePasswordPolicy, getApiErrorMessage, type PasswordPolicy } from "@/lib/password-policy";
+import { useToast } from "@/hooks/use-toast";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ChangePasswordDialog({ open, onOpenChange }: ChangePasswordDialogProps) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/settings/password-policy"],
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) resetForm();
+    onOpenChange(value);
+  };
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/change-password", { currentPassword, newPassword });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Password changed",
+        description: data.revoked > 0
+          ? `You have been logged out of ${data.revoked} other device${data.revoked === 1 ? "" : "s"}.`
+          : "Your password has been updated.",
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error changing password",
+        description: getApiErrorMessage(error, "Failed to change password"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordsMatch = newPassword === confirmPassword;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentPassword || !newPassword || !passwordsMatch) return;
+    changePasswordMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            Other devices will be logged out once your password is changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current Password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              data-testid="input-current-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              data-testid="input-new-password"
+            />
+            {policy && (
+              <ul className="list-disc pl-5 text-xs text-gray-500">
+                {describePasswordPolicy(policy).map((rule) => (
+                  <li key={rule}>{rule}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm New Password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              data-testid="input-confirm-password"
+            />
+            {confirmPassword && !passwordsMatch && (
+              <p className="text-sm text-red-600">Passwords do not match</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!currentPassword || !newPassword || !passwordsMatch || changePasswordMutation.isPending}
+              data-testid="button-change-password"
+            >
+              {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
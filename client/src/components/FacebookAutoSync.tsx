@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Clock, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { SyncRunStatus, type FacebookSetting, type SyncRun, type SyncRunError } from "@shared/schema";
+
+interface FacebookAutoSyncProps {
+  settings: FacebookSetting;
+}
+
+const intervalOptions = [
+  { minutes: 30, label: "Every 30 minutes" },
+  { minutes: 60, label: "Every hour" },
+  { minutes: 180, label: "Every 3 hours" },
+  { minutes: 360, label: "Every 6 hours" },
+  { minutes: 720, label: "Every 12 hours" },
+  { minutes: 1440, label: "Once a day" },
+];
+
+const statusStyles: Record<string, string> = {
+  [SyncRunStatus.RUNNING]: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  [SyncRunStatus.SUCCESS]: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  [SyncRunStatus.PARTIAL]: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  [SyncRunStatus.FAILED]: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+};
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return "—";
+  if (durationMs < 1000) return `${durationMs} ms`;
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function parseErrors(errors: string | null): SyncRunError[] {
+  if (!errors) return [];
+  try {
+    return JSON.parse(errors);
+  } catch {
+    return [];
+  }
+}
+
+export function FacebookAutoSync({ settings }: FacebookAutoSyncProps) {
+  const { toast } = useToast();
+  const [autoSyncEnabled, setAutoSyncEnabled] = useState(settings.autoSyncEnabled);
+  const [intervalMinutes, setIntervalMinutes] = useState(String(settings.autoSyncIntervalMinutes));
+  const [resyncWindowDays, setResyncWindowDays] = useState(String(settings.resyncWindowDays));
+
+  useEffect(() => {
+    setAutoSyncEnabled(settings.autoSyncEnabled);
+    setIntervalMinutes(String(settings.autoSyncIntervalMinutes));
+    setResyncWindowDays(String(settings.resyncWindowDays));
+  }, [settings]);
+
+  // Polls while a run is in progress so its result shows up without a reload
+  const { data: runs = [], isLoading } = useQuery<SyncRun[]>({
+    queryKey: ["/api/facebook/sync-runs"],
+    refetchInterval: (query) =>
+      query.state.data?.some(run => run.status === SyncRunStatus.RUNNING) ? 5000 : false,
+  });
+  const isRunning = runs.some(run => run.status === SyncRunStatus.RUNNING);
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/facebook/settings/sync-schedule", {
+        autoSyncEnabled,
+        autoSyncIntervalMinutes: intervalMinutes,
+        resyncWindowDays,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facebook/settings"] });
+      toast({
+        title: "Success",
+        description: "Sync schedule saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the sync schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runSyncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/facebook/sync-runs");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facebook/sync-runs"] });
+      toast({
+        title: "Sync Started",
+        description: "All Facebook ad accounts are being synced",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sync Failed",
+        description: error.message || "Failed to start the sync",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveSchedule = () => {
+    const days = parseInt(resyncWindowDays);
+    if (isNaN(days) || days < 0 || days > 28) {
+      toast({
+        title: "Validation Error",
+        description: "The re-pull window must be between 0 and 28 days",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveScheduleMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Automatic Insight Sync
+        </CardTitle>
+        <CardDescription>
+          Sync insights of every Facebook ad account in the background. Each run fetches from the last synced date, going back a few days to pick up conversions Facebook attributes late.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="fb-auto-sync">Enable automatic sync</Label>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Runs only while Facebook is connected
+              </p>
+            </div>
+            <Switch
+              id="fb-auto-sync"
+              checked={autoSyncEnabled}
+              onCheckedChange={setAutoSyncEnabled}
+              data-testid="switch-fb-auto-sync"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Sync Interval</Label>
+              <Select value={intervalMinutes} onValueChange={setIntervalMinutes} disabled={!autoSyncEnabled}>
+                <SelectTrigger data-testid="select-fb-sync-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!intervalOptions.some(option => String(option.minutes) === intervalMinutes) && (
+                    <SelectItem value={intervalMinutes}>Every {intervalMinutes} minutes</SelectItem>
+                  )}
+                  {intervalOptions.map(option => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fb-resync-window">Re-pull Window (days)</Label>
+              <Input
+                id="fb-resync-window"
+                type="number"
+                min={0}
+                max={28}
+                value={resyncWindowDays}
+                onChange={(e) => setResyncWindowDays(e.target.value)}
+                data-testid="input-fb-resync-window"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleSaveSchedule}
+              disabled={saveScheduleMutation.isPending}
+              className="flex-1"
+              data-testid="button-save-fb-sync-schedule"
+            >
+              {saveScheduleMutation.isPending ? "Saving..." : "Save Schedule"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => runSyncMutation.mutate()}
+              disabled={runSyncMutation.isPending || isRunning || !settings.isConnected}
+              data-testid="button-run-fb-sync"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRunning ? 'animate-spin' : ''}`} />
+              {isRunning ? "Syncing..." : "Run Sync Now"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-900 dark:text-white">Recent Sync Runs</h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading sync runs...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-fb-sync-runs">No sync has run yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Accounts</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => {
+                  const errors = parseErrors(run.errors);
+                  return (
+                    <TableRow key={run.id} data-testid={`row-fb-sync-run-${run.id}`}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(run.startedAt), "MMM d, yyyy HH:mm")}</TableCell>
+                      <TableCell className="capitalize">{run.trigger}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={statusStyles[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDuration(run.durationMs)}</TableCell>
+                      <TableCell className="text-right">{run.accountsSynced}</TableCell>
+                      <TableCell className="text-right">{run.rowsUpserted.toLocaleString()}</TableCell>
+                      <TableCell className="max-w-xs">
+                        {errors.length === 0 ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <div className="space-y-1 text-xs text-red-600 dark:text-red-400">
+                            {errors.map((error, index) => (
+                              <p key={index}>
+                                {error.accountName ? `${error.accountName}: ` : ""}{error.message}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
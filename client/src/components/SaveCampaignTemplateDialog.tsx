@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Campaign, SaveCampaignTemplate } from "@shared/schema";
+
+interface SaveCampaignTemplateDialogProps {
+  campaign: Campaign | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveCampaignTemplateDialog({ campaign, onOpenChange }: SaveCampaignTemplateDialogProps) {
+  const { toast } = useToast();
+  const [templateName, setTemplateName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isShared, setIsShared] = useState(false);
+
+  useEffect(() => {
+    if (!campaign) return;
+    setTemplateName(campaign.name);
+    setDescription("");
+    setIsShared(false);
+  }, [campaign]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: SaveCampaignTemplate) => {
+      const response = await apiRequest("POST", `/api/campaigns/${campaign!.id}/save-as-template`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaign-templates"] });
+      onOpenChange(false);
+      toast({
+        title: "Success!",
+        description: "Template saved. Start a new draft from it in Advantix Ads Manager.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!templateName.trim()) {
+      toast({
+        title: "Error",
+        description: "Template name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveTemplateMutation.mutate({
+      templateName: templateName.trim(),
+      description: description.trim() || undefined,
+      isShared,
+    });
+  };
+
+  return (
+    <Dialog open={campaign !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Objective, budget and the active ad copy set are saved for new Ads Manager drafts.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input
+              id="template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              data-testid="input-template-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              data-testid="input-template-description"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="template-shared"
+              checked={isShared}
+              onCheckedChange={(checked) => setIsShared(checked === true)}
+              data-testid="checkbox-template-shared"
+            />
+            <Label htmlFor="template-shared" className="font-normal">Share with the team</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saveTemplateMutation.isPending}
+            data-testid="button-confirm-save-template"
+          >
+            {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Mail, Send } from "lucide-react";
+import { format } from "date-fns";
+import type { SpendAlert } from "@shared/schema";
+
+interface SpendAlertHistoryProps {
+  adAccountId: string;
+}
+
+function formatCurrency(value: string) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(value));
+}
+
+export function SpendAlertHistory({ adAccountId }: SpendAlertHistoryProps) {
+  const { data: alerts = [], isLoading } = useQuery<SpendAlert[]>({
+    queryKey: ["/api/ad-accounts", adAccountId, "spend-alerts"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading spend alerts...</p>;
+  }
+
+  if (alerts.length === 0) {
+    return <p className="text-sm text-muted-foreground" data-testid="text-no-spend-alerts">No spend alerts have been sent.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-48 overflow-y-auto">
+      {alerts.map((alert) => (
+        <div key={alert.id} className="flex items-start justify-between gap-3 rounded border p-2 text-sm" data-testid={`spend-alert-${alert.id}`}>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant={alert.threshold >= 100 ? "destructive" : "secondary"}>{alert.threshold}%</Badge>
+              <span>
+                {formatCurrency(alert.totalSpend)} of {formatCurrency(alert.spendLimit)}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Mail className="h-3 w-3" />
+                {alert.emailSentTo || "No email"}
+              </span>
+              <span className="flex items-center gap-1">
+                <Send className="h-3 w-3" />
+                {alert.telegramSent ? "Telegram sent" : "No Telegram"}
+              </span>
+            </div>
+          </div>
+          <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+            <div>{alert.createdAt ? format(new Date(alert.createdAt), "MMM d, yyyy HH:mm") : ""}</div>
+            <div>{alert.resolvedAt ? `Resolved ${format(new Date(alert.resolvedAt), "MMM d")}` : "Open"}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
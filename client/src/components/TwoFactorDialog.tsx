@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setupData, setSetupData] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setSetupData(null);
+      setRecoveryCodes(null);
+      setCode("");
+    }
+    onOpenChange(value);
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+    setCode("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup", {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSetupData(data);
+      setCode("");
+    },
+    onError: onError("Error starting setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setSetupData(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes before closing this window.",
+      });
+    },
+    onError: onError("Error enabling 2FA"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+    },
+    onError: onError("Error generating recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/disable", { code });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setCode("");
+      toast({
+        title: "Two-factor authentication disabled",
+      });
+    },
+    onError: onError("Error disabling 2FA"),
+  });
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-manage-code">Verification Code</Label>
+      <Input
+        id="two-factor-manage-code"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        data-testid="input-2fa-manage-code"
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Protect your account with a code from an authenticator app in addition to your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !status ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Save these recovery codes somewhere safe. Each code can be used once, and they will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm" data-testid="manage-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button className="w-full" onClick={() => setRecoveryCodes(null)}>
+              Done
+            </Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-green-600" />
+              <span className="font-medium">Enabled</span>
+              {status.required && <Badge variant="secondary">Required for your role</Badge>}
+            </div>
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} remaining.
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code.trim() || regenerateMutation.isPending}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!code.trim() || disableMutation.isPending}
+                  data-testid="button-disable-2fa"
+                >
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : setupData ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Add this key to your authenticator app, then enter the 6-digit code it shows to finish setup.
+            </p>
+            <p className="break-all rounded-lg bg-gray-50 p-3 font-mono text-base tracking-wider" data-testid="text-manage-2fa-secret">
+              {setupData.secret}
+            </p>
+            <a href={setupData.otpauthUrl} className="text-sm text-blue-600 hover:underline">
+              Open in authenticator app
+            </a>
+            {codeInput}
+            <Button
+              className="w-full"
+              onClick={() => enableMutation.mutate()}
+              disabled={!code.trim() || enableMutation.isPending}
+              data-testid="button-enable-2fa"
+            >
+              {enableMutation.isPending ? "Verifying..." : "Verify & Enable"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <ShieldOff className="h-5 w-5 text-gray-400" />
+              <span className="font-medium">Not enabled</span>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              data-testid="button-setup-2fa"
+            >
+              {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,18 +23,25 @@ import {
   Building2,
   Mail,
   Leaf,
-  Sparkles
+  Sparkles,
+  Monitor,
+  ShieldCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { usePagePermissions } from "@/hooks/use-page-permissions";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import type { Role } from "@shared/schema";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { ActiveSessionsDialog } from "@/components/ActiveSessionsDialog";
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { TwoFactorDialog } from "@/components/TwoFactorDialog";
 
 interface SidebarProps {
   children: React.ReactNode;
@@ -42,6 +49,9 @@ interface SidebarProps {
 
 export default function Sidebar({ children }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -64,6 +74,12 @@ export default function Sidebar({ children }: SidebarProps) {
   const userStr = localStorage.getItem("user");
   const user = userStr ? JSON.parse(userStr) : null;
 
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    enabled: !!user,
+  });
+  const roleName = roles.find(role => role.key === user?.role)?.name;
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/auth/logout", {});
@@ -178,7 +194,7 @@ export default function Sidebar({ children }: SidebarProps) {
       label: "Own Farming",
       icon: Leaf,
       testId: "nav-own-farming",
-      pageKey: "ownFarming",
+      pageKey: "own_farming",
       isSection: true,
       subItems: [
         {
@@ -186,14 +202,14 @@ export default function Sidebar({ children }: SidebarProps) {
           icon: Sparkles,
           label: "New Created",
           testId: "nav-own-farming-new-created",
-          pageKey: "newCreated"
+          pageKey: "new_created"
         },
         {
           href: "/own-farming/farming-accounts",
           icon: Leaf,
           label: "Farming Accounts",
           testId: "nav-own-farming-farming-accounts",
-          pageKey: "farmingAccounts"
+          pageKey: "farming_accounts"
         }
       ]
     },
@@ -258,121 +274,9 @@ export default function Sidebar({ children }: SidebarProps) {
     },
   ];
 
-  // Check permissions for all menu items at top level (Rules of Hooks compliance)
-  const dashboardPermission = useQuery({
-    queryKey: [`/api/permissions/check/dashboard`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const campaignsPermission = useQuery({
-    queryKey: [`/api/permissions/check/campaigns`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const clientsPermission = useQuery({
-    queryKey: [`/api/permissions/check/clients`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const adAccountsPermission = useQuery({
-    queryKey: [`/api/permissions/check/ad_accounts`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const workReportsPermission = useQuery({
-    queryKey: [`/api/permissions/check/work_reports`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const ownFarmingPermission = useQuery({
-    queryKey: [`/api/permissions/check/ownFarming`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const newCreatedPermission = useQuery({
-    queryKey: [`/api/permissions/check/newCreated`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const farmingAccountsPermission = useQuery({
-    queryKey: [`/api/permissions/check/farmingAccounts`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const fbAdManagementPermission = useQuery({
-    queryKey: [`/api/permissions/check/fb_ad_management`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const financePermission = useQuery({
-    queryKey: [`/api/permissions/check/finance`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const fishfirePermission = useQuery({
-    queryKey: [`/api/permissions/check/fishfire`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const clientMailboxPermission = useQuery({
-    queryKey: [`/api/permissions/check/client_mailbox`],
-    enabled: !!user && user.role !== 'super_admin',
-    retry: false,
-    select: (data: any) => data?.hasPermission ?? false,
-    staleTime: 5 * 60 * 1000,
-  });
-
-  // Helper function to get permission for each page
-  const getPermissionForPage = (pageKey: string) => {
-    switch (pageKey) {
-      case 'dashboard': return dashboardPermission.data;
-      case 'campaigns': return campaignsPermission.data;
-      case 'clients': return clientsPermission.data;
-      case 'ad_accounts': return adAccountsPermission.data;
-      case 'work_reports': return workReportsPermission.data;
-      case 'ownFarming': return ownFarmingPermission.data;
-      case 'newCreated': return newCreatedPermission.data;
-      case 'farmingAccounts': return farmingAccountsPermission.data;
-      case 'client_mailbox': return clientMailboxPermission.data;
-      case 'fb_ad_management': return fbAdManagementPermission.data;
-      case 'finance': return financePermission.data;
-      case 'fishfire': return fishfirePermission.data;
-      default: return false;
-    }
-  };
+  // Effective page permissions (role defaults plus user overrides), super admins see everything
+  const { can } = usePagePermissions(!!user && user.role !== 'super_admin');
+  const getPermissionForPage = (pageKey: string) => can(pageKey);
 
   const isActive = (href: string) => {
     if (href === "/") {
@@ -573,10 +477,30 @@ export default function Sidebar({ children }: SidebarProps) {
                 </TooltipContent>
               </Tooltip>
               <DropdownMenuContent side="right" align="end">
-                <DropdownMenuItem className="cursor-pointer">
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsChangePasswordOpen(true)}
+                  data-testid="menu-change-password"
+                >
                   <Settings className="h-4 w-4 mr-2" />
                   Change Password
                 </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsSessionsOpen(true)}
+                  data-testid="menu-active-sessions"
+                >
+                  <Monitor className="h-4 w-4 mr-2" />
+                  Active Sessions
+                </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsTwoFactorOpen(true)}
+                  data-testid="menu-two-factor"
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Two-Factor Auth
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   className="cursor-pointer text-red-600 dark:text-red-400"
                   onClick={handleLogout}
@@ -602,7 +526,7 @@ export default function Sidebar({ children }: SidebarProps) {
                         {user?.username || "Admin"}
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
-                        {user?.role?.replace('_', ' ') || "Admin"}
+                        {roleName || user?.role?.replace('_', ' ') || "Admin"}
                       </p>
                     </div>
                   </div>
@@ -610,10 +534,30 @@ export default function Sidebar({ children }: SidebarProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent side="top" align="start" className="w-48">
-                <DropdownMenuItem className="cursor-pointer">
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsChangePasswordOpen(true)}
+                  data-testid="menu-change-password"
+                >
                   <Settings className="h-4 w-4 mr-2" />
                   Change Password
                 </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsSessionsOpen(true)}
+                  data-testid="menu-active-sessions"
+                >
+                  <Monitor className="h-4 w-4 mr-2" />
+                  Active Sessions
+                </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="cursor-pointer"
+                  onClick={() => setIsTwoFactorOpen(true)}
+                  data-testid="menu-two-factor"
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Two-Factor Auth
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   className="cursor-pointer text-red-600 dark:text-red-400"
                   onClick={handleLogout}
@@ -628,6 +572,10 @@ export default function Sidebar({ children }: SidebarProps) {
         </div>
       </div>
 
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen} />
+      <ActiveSessionsDialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
+
       {/* Main Content */}
       <div className="flex-1 min-h-0 flex flex-col">
         {children}
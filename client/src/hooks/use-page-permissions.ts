@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PageAction, PagePermissionMap } from "@shared/schema";
+
+// Effective permissions of the logged in user for every page, loaded in one request
+export function usePagePermissions(enabled = true) {
+  const { data: permissions, isLoading, isError } = useQuery<PagePermissionMap>({
+    queryKey: ["/api/permissions/me"],
+    enabled,
+    retry: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const can = (pageKey: string, action: PageAction = "view") => permissions?.[pageKey]?.[action] ?? false;
+
+  return { permissions, isLoading, isError, can };
+}
@@ -0,0 +1,28 @@
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+}
+
+// Human readable list of the rules, shown next to password fields
+export function describePasswordPolicy(policy: PasswordPolicy): string[] {
+  const rules = [`At least ${policy.minLength} characters`];
+  if (policy.requireUppercase) rules.push("An uppercase letter");
+  if (policy.requireLowercase) rules.push("A lowercase letter");
+  if (policy.requireNumber) rules.push("A number");
+  if (policy.requireSymbol) rules.push("A symbol");
+  if (policy.historyCount > 0) rules.push(`Not one of your last ${policy.historyCount} passwords`);
+  return rules;
+}
+
+// apiRequest errors look like "400: {json}" - pull out the server message
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -62,9 +62,13 @@ import {
   Pause,
   Play,
   DollarSign,
-  Upload
+  Upload,
+  CloudDownload
 } from "lucide-react";
 import type { AdAccount, InsertAdAccount, Client } from "@shared/schema";
+import { AdAccountLimitLedger } from "@/components/AdAccountLimitLedger";
+import { AdAccountStatusHistory } from "@/components/AdAccountStatusHistory";
+import { SpendAlertHistory } from "@/components/SpendAlertHistory";
 
 interface AdAccountFormData {
   platform: string;
@@ -86,6 +90,9 @@ const PLATFORMS = [
   { value: "youtube", label: "YouTube Ads" },
 ];
 
+// Platforms whose insights can be synced through an API adapter
+const SYNCED_PLATFORMS = ["facebook", "tiktok"];
+
 export default function AdAccountsPage() {
   const { toast } = useToast();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -93,6 +100,8 @@ export default function AdAccountsPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [viewingAdAccount, setViewingAdAccount] = useState<AdAccount | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [statusChangeAccount, setStatusChangeAccount] = useState<AdAccount | null>(null);
+  const [statusReason, setStatusReason] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
   const [platformFilter, setPlatformFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -212,11 +221,13 @@ export default function AdAccountsPage() {
 
   // Toggle ad account status mutation
   const toggleAdAccountStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const response = await apiRequest("PUT", `/api/ad-accounts/${id}`, { status });
+    mutationFn: async ({ id, status, statusReason }: { id: string; status: string; statusReason?: string }) => {
+      const response = await apiRequest("PUT", `/api/ad-accounts/${id}`, { status, statusReason });
       return response.json();
     },
     onSuccess: (data, variables) => {
+      setStatusChangeAccount(null);
+      setStatusReason("");
       toast({
         title: "Success",
         description: `Ad account ${variables.status === 'active' ? 'activated' : 'suspended'} successfully`,
@@ -232,6 +243,27 @@ export default function AdAccountsPage() {
     },
   });
 
+  // Sync the last 30 days of insights from the account's platform
+  const syncInsightsMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/ad-accounts/${id}/sync-insights`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: `Synced ${data.totalRecords} insight record(s)`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync insights",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetForm = () => {
     setFormData({
       platform: "",
@@ -320,8 +352,18 @@ export default function AdAccountsPage() {
   };
 
   const handleToggleStatus = (adAccount: AdAccount) => {
-    const newStatus = adAccount.status === 'active' ? 'suspended' : 'active';
-    toggleAdAccountStatusMutation.mutate({ id: adAccount.id, status: newStatus });
+    setStatusChangeAccount(adAccount);
+    setStatusReason("");
+  };
+
+  const handleConfirmStatusChange = () => {
+    if (!statusChangeAccount) return;
+    const newStatus = statusChangeAccount.status === 'active' ? 'suspended' : 'active';
+    toggleAdAccountStatusMutation.mutate({
+      id: statusChangeAccount.id,
+      status: newStatus,
+      statusReason: statusReason.trim() || undefined,
+    });
   };
 
   const getClientName = (clientId: string) => {
@@ -859,6 +901,18 @@ export default function AdAccountsPage() {
                                     <Play className="h-4 w-4" />
                                   )}
                                 </Button>
+                                {SYNCED_PLATFORMS.includes(adAccount.platform) && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => syncInsightsMutation.mutate(adAccount.id)}
+                                    disabled={syncInsightsMutation.isPending}
+                                    title="Sync insights"
+                                    data-testid={`button-sync-insights-${adAccount.id}`}
+                                  >
+                                    <CloudDownload className="h-4 w-4" />
+                                  </Button>
+                                )}
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <Button
@@ -901,6 +955,46 @@ export default function AdAccountsPage() {
             </CardContent>
           </Card>
 
+          {/* Status Change Dialog */}
+          <Dialog open={!!statusChangeAccount} onOpenChange={(open) => !open && setStatusChangeAccount(null)}>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {statusChangeAccount?.status === 'active' ? 'Suspend' : 'Activate'} Ad Account
+                </DialogTitle>
+                <DialogDescription>
+                  {statusChangeAccount?.accountName} will be {statusChangeAccount?.status === 'active' ? 'suspended' : 'activated'}.
+                  The client is notified by email and SMS if they opted into these alerts.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-2 py-2">
+                <Label htmlFor="status-reason">Reason</Label>
+                <Textarea
+                  id="status-reason"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                  placeholder="Why is the status changing? (optional)"
+                  maxLength={500}
+                  data-testid="input-status-reason"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setStatusChangeAccount(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirmStatusChange}
+                  disabled={toggleAdAccountStatusMutation.isPending}
+                  data-testid="button-confirm-status-change"
+                >
+                  {toggleAdAccountStatusMutation.isPending
+                    ? "Saving..."
+                    : statusChangeAccount?.status === 'active' ? "Suspend" : "Activate"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           {/* Edit Ad Account Dialog */}
           <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
             <DialogContent className="sm:max-w-[600px]">
@@ -973,8 +1067,12 @@ export default function AdAccountsPage() {
                     value={formData.spendLimit}
                     onChange={(e) => setFormData(prev => ({ ...prev, spendLimit: e.target.value }))}
                     placeholder="Enter spend limit"
+                    disabled
                     data-testid="input-edit-spend-limit"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    The limit is the total of the account's ledger. Add limit increases and top-ups from the account details.
+                  </p>
                 </div>
                 <div className="grid gap-2">
                   <Label htmlFor="edit-notes">Notes</Label>
@@ -1005,7 +1103,7 @@ export default function AdAccountsPage() {
 
           {/* View Ad Account Dialog */}
           <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
-            <DialogContent className="sm:max-w-[600px]">
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Ad Account Details</DialogTitle>
                 <DialogDescription>
@@ -1076,6 +1174,21 @@ export default function AdAccountsPage() {
                     </div>
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-gray-500">Spend Limit Ledger</Label>
+                    <AdAccountLimitLedger adAccount={viewingAdAccount} />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-gray-500">Status History</Label>
+                    <AdAccountStatusHistory adAccountId={viewingAdAccount.id} />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-gray-500">Spend Alerts</Label>
+                    <SpendAlertHistory adAccountId={viewingAdAccount.id} />
+                  </div>
+
                   {viewingAdAccount.notes && (
                     <div className="space-y-2">
                       <Label className="text-sm font-medium text-gray-500">Notes</Label>
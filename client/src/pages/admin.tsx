@@ -51,8 +51,10 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { UserPlus, Edit3, Trash2, Users, Shield, RefreshCw, Settings, Lock, DollarSign, Tag as TagIcon, Plus, Database, Download, Upload, FileText, AlertCircle, Send, MessageSquare, Bot, Mail, Bell } from "lucide-react";
-import type { User, InsertUserWithRole, Page, RolePermission, Tag, InsertTag, UserMenuPermission, InsertUserMenuPermission, Employee, InsertEmployee, TelegramConfig, InsertTelegramConfig, TelegramChatId, InsertTelegramChatId } from "@shared/schema";
+import { UserPlus, Edit3, Trash2, Users, Shield, RefreshCw, Settings, Lock, DollarSign, Tag as TagIcon, Plus, Database, Download, Upload, FileText, AlertCircle, Send, MessageSquare, Bot, Mail, Bell, LogOut, ShieldOff, ShieldCheck, Unlock, KeyRound, History, Building2 } from "lucide-react";
+import type { PasswordPolicy as PasswordPolicySettings } from "@/lib/password-policy";
+import { FacebookAutoSync } from "@/components/FacebookAutoSync";
+import type { ApiKey, AuditLog, AuthUser, Client, UserClientAssignment, User, InsertUserWithRole, Page, Role, RolePermission, UserPagePermission, Tag, InsertTag, Employee, InsertEmployee, TelegramConfig, InsertTelegramConfig, TelegramChatId, InsertTelegramChatId, TiktokSetting } from "@shared/schema";
 
 interface UserFormData {
   name: string;
@@ -69,25 +71,10 @@ function UserManagement() {
   const [createUserFormData, setCreateUserFormData] = useState({
     name: "",
     username: "",
+    email: "",
     password: "",
     role: "user",
-    menuPermissions: {
-      dashboard: false,
-      campaignManagement: false,
-      clientManagement: false,
-      adAccounts: false,
-      workReports: false,
-      ownFarming: false,
-      newCreated: false,
-      farmingAccounts: false,
-      advantixDashboard: false,
-      projects: false,
-      payments: false,
-      expensesSalaries: false,
-      salaryManagement: false,
-      reports: false,
-      adminPanel: false,
-    }
+    pageAccess: {} as Record<string, boolean>, // Page views that differ from the role default
   });
 
   // User editing state
@@ -96,6 +83,7 @@ function UserManagement() {
   const [editUserFormData, setEditUserFormData] = useState({
     name: "",
     username: "",
+    email: "",
     password: "",
     role: "user",
   });
@@ -104,8 +92,15 @@ function UserManagement() {
   const [isDeleteUserOpen, setIsDeleteUserOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
 
+  // Force logout state
+  const [userToForceLogout, setUserToForceLogout] = useState<User | null>(null);
+
+  // Client assignment state
+  const [userForClients, setUserForClients] = useState<User | null>(null);
+  const [assignedClientIds, setAssignedClientIds] = useState<string[]>([]);
+
   // Get current user to check permissions
-  const { data: currentUser } = useQuery<{ id: string; username: string; role: string }>({
+  const { data: currentUser } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
   });
 
@@ -118,55 +113,77 @@ function UserManagement() {
     queryKey: ["/api/users"],
   });
 
-  // Fetch all user menu permissions
+  // Fetch usernames locked out by failed logins
+  const { data: lockouts = [] } = useQuery<{ username: string; failureCount: number; lockedUntil: string }[]>({
+    queryKey: ["/api/auth/lockouts"],
+    staleTime: 0,
+  });
+
+  // Fetch roles for the role pickers and labels
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+  const staffRoles = roles.filter(role => role.key !== 'client');
+  const getRole = (key: string) => roles.find(role => role.key === key);
+
+  // Fetch pages, role defaults and per-user overrides
+  const { data: pages = [], isLoading: pagesLoading } = useQuery<Page[]>({
+    queryKey: ["/api/pages"],
+  });
+
+  const { data: rolePermissions = [] } = useQuery<RolePermission[]>({
+    queryKey: ["/api/role-permissions"],
+  });
+
   const { 
-    data: userMenuPermissions = [], 
-    isLoading: permissionsLoading,
+    data: userPagePermissions = [], 
+    isLoading: overridesLoading,
     refetch: refetchPermissions 
-  } = useQuery<UserMenuPermission[]>({
-    queryKey: ["/api/user-menu-permissions"],
+  } = useQuery<UserPagePermission[]>({
+    queryKey: ["/api/user-page-permissions"],
   });
 
-  // Update user menu permission mutation
-  const updatePermissionMutation = useMutation({
-    mutationFn: async ({ userId, permission, value }: { userId: string; permission: string; value: boolean }) => {
-      // Get existing permissions for this user
-      const existing = userMenuPermissions.find(p => p.userId === userId);
-      
+  const permissionsLoading = pagesLoading || overridesLoading;
+  const activePages = pages.filter(page => page.isActive);
+
+  const getRoleDefaultView = (role: string, pageId: string) =>
+    rolePermissions.find(permission => permission.role === role && permission.pageId === pageId)?.canView ?? false;
+
+  const getUserOverride = (userId: string, pageId: string) =>
+    userPagePermissions.find(permission => permission.userId === userId && permission.pageId === pageId);
+
+  const getEffectiveView = (user: User, pageId: string) => {
+    if (user.role === 'super_admin') return true;
+    return getUserOverride(user.id, pageId)?.canView ?? getRoleDefaultView(user.role, pageId);
+  };
+
+  // Save a page view override, or drop it when it matches the role default
+  const saveViewOverride = async (user: User, pageId: string, value: boolean) => {
+    const existing = getUserOverride(user.id, pageId);
+    const canView = value === getRoleDefaultView(user.role, pageId) ? null : value;
+    if (canView === null && existing?.canEdit == null && existing?.canDelete == null) {
       if (existing) {
-        // Update existing permission
-        const updateData = { [permission]: value };
-        const response = await apiRequest("PUT", `/api/user-menu-permissions/${userId}`, updateData);
-        return response.json();
-      } else {
-        // Create new permission record
-        const newPermission = {
-          userId,
-          dashboard: permission === 'dashboard' ? value : false,
-          campaignManagement: permission === 'campaignManagement' ? value : false,
-          clientManagement: permission === 'clientManagement' ? value : false,
-          adAccounts: permission === 'adAccounts' ? value : false,
-          workReports: permission === 'workReports' ? value : false,
-          ownFarming: permission === 'ownFarming' ? value : false,
-          newCreated: permission === 'newCreated' ? value : false,
-          farmingAccounts: permission === 'farmingAccounts' ? value : false,
-          advantixDashboard: permission === 'advantixDashboard' ? value : false,
-          projects: permission === 'projects' ? value : false,
-          payments: permission === 'payments' ? value : false,
-          expensesSalaries: permission === 'expensesSalaries' ? value : false,
-          salaryManagement: permission === 'salaryManagement' ? value : false,
-          reports: permission === 'reports' ? value : false,
-          adminPanel: permission === 'adminPanel' ? value : false,
-        };
-        const response = await apiRequest("POST", "/api/user-menu-permissions", newPermission);
-        return response.json();
+        await apiRequest("DELETE", `/api/users/${user.id}/page-permissions/${pageId}`);
       }
+      return;
+    }
+    await apiRequest("PUT", `/api/users/${user.id}/page-permissions/${pageId}`, {
+      canView,
+      canEdit: existing?.canEdit ?? null,
+      canDelete: existing?.canDelete ?? null,
+    });
+  };
+
+  // Update user page permission mutation
+  const updatePermissionMutation = useMutation({
+    mutationFn: async ({ user, pageId, value }: { user: User; pageId: string; value: boolean }) => {
+      await saveViewOverride(user, pageId, value);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/user-menu-permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user-page-permissions"] });
       toast({
         title: "Permission updated",
-        description: "User menu permission has been updated successfully.",
+        description: "User page permission has been updated successfully.",
       });
     },
     onError: (error: any) => {
@@ -178,51 +195,24 @@ function UserManagement() {
     },
   });
 
-  const getUserPermissions = (userId: string) => {
-    const permission = userMenuPermissions.find(p => p.userId === userId);
-    if (!permission) {
-      return {
-        dashboard: false,
-        campaignManagement: false,
-        clientManagement: false,
-        adAccounts: false,
-        workReports: false,
-        ownFarming: false,
-        newCreated: false,
-        farmingAccounts: false,
-        advantixDashboard: false,
-        projects: false,
-        payments: false,
-        expensesSalaries: false,
-        salaryManagement: false,
-        reports: false,
-        adminPanel: false,
-      };
-    }
-    return permission;
-  };
-
-  const handlePermissionToggle = (userId: string, permission: string, value: boolean) => {
-    updatePermissionMutation.mutate({ userId, permission, value });
+  const handlePermissionToggle = (user: User, pageId: string, value: boolean) => {
+    updatePermissionMutation.mutate({ user, pageId, value });
   };
 
   // Create user mutation
   const createUserMutation = useMutation({
-    mutationFn: async (userData: { name: string; username: string; password: string; role: string }) => {
+    mutationFn: async (userData: { name: string; username: string; email: string | null; password: string; role: string }) => {
       const response = await apiRequest("POST", "/api/users", userData);
       return response.json();
     },
-    onSuccess: async (newUser) => {
-      // Create menu permissions for the new user
-      const menuPermissionsData = {
-        userId: newUser.id,
-        ...createUserFormData.menuPermissions
-      };
-      
-      const permissionsResponse = await apiRequest("POST", "/api/user-menu-permissions", menuPermissionsData);
+    onSuccess: async (newUser: User) => {
+      // Store the page views chosen in the dialog that differ from the role default
+      for (const [pageId, value] of Object.entries(createUserFormData.pageAccess)) {
+        await saveViewOverride(newUser, pageId, value);
+      }
       
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user-menu-permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user-page-permissions"] });
       
       toast({
         title: "User created successfully",
@@ -243,7 +233,7 @@ function UserManagement() {
 
   // Edit user mutation
   const editUserMutation = useMutation({
-    mutationFn: async (userData: { id: string; name: string; username: string; password?: string; role: string }) => {
+    mutationFn: async (userData: { id: string; name: string; username: string; email: string | null; password?: string; role: string }) => {
       const response = await apiRequest("PUT", `/api/users/${userData.id}`, userData);
       return response.json();
     },
@@ -274,7 +264,7 @@ function UserManagement() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user-menu-permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user-page-permissions"] });
       toast({
         title: "User deleted successfully",
         description: "User has been removed from the system.",
@@ -291,29 +281,145 @@ function UserManagement() {
     },
   });
 
+  // Force logout mutation (revokes every session of the user)
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/force-logout`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "User logged out",
+        description: `${data.message} (${data.revoked} session${data.revoked === 1 ? "" : "s"} revoked).`,
+      });
+      setUserToForceLogout(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error logging out user",
+        description: error.message || "Failed to force logout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Unlock mutation (clears failed login lockout)
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/unlock`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/lockouts"] });
+      toast({
+        title: "User unlocked",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error unlocking user",
+        description: error.message || "Failed to unlock user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset 2FA mutation (for users who lost their authenticator device)
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const response = await apiRequest("POST", `/api/users/${user.id}/reset-2fa`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Two-factor authentication reset",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error resetting 2FA",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Fetch clients and user client assignments
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: clientAssignments = [] } = useQuery<UserClientAssignment[]>({
+    queryKey: ["/api/user-client-assignments"],
+  });
+
+  const getAssignedClientIds = (userId: string) =>
+    clientAssignments.filter(assignment => assignment.userId === userId).map(assignment => assignment.clientId);
+
+  // Client assignment mutation (replaces the clients a user is restricted to)
+  const setClientAssignmentsMutation = useMutation({
+    mutationFn: async ({ userId, clientIds }: { userId: string; clientIds: string[] }) => {
+      const response = await apiRequest("PUT", `/api/users/${userId}/client-assignments`, { clientIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user-client-assignments"] });
+      toast({
+        title: "Client access updated",
+        description: `Client assignments for ${userForClients?.username} have been saved.`,
+      });
+      setUserForClients(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating client access",
+        description: error.message || "Failed to update client assignments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditClients = (user: User) => {
+    setAssignedClientIds(getAssignedClientIds(user.id));
+    setUserForClients(user);
+  };
+
+  const toggleAssignedClient = (clientId: string, checked: boolean) => {
+    setAssignedClientIds(prev => checked ? [...prev, clientId] : prev.filter(id => id !== clientId));
+  };
+
+  // Password reset link mutation (emails a one-time link to the user)
+  const sendPasswordResetMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const response = await apiRequest("POST", `/api/users/${user.id}/password-reset`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Reset link sent",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error sending reset link",
+        description: error.message || "Failed to send password reset link",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetCreateUserForm = () => {
     setCreateUserFormData({
       name: "",
       username: "",
+      email: "",
       password: "",
       role: "user",
-      menuPermissions: {
-        dashboard: false,
-        campaignManagement: false,
-        clientManagement: false,
-        adAccounts: false,
-        workReports: false,
-        ownFarming: false,
-        newCreated: false,
-        farmingAccounts: false,
-        advantixDashboard: false,
-        projects: false,
-        payments: false,
-        expensesSalaries: false,
-        salaryManagement: false,
-        reports: false,
-        adminPanel: false,
-      }
+      pageAccess: {},
     });
   };
 
@@ -321,6 +427,7 @@ function UserManagement() {
     setEditUserFormData({
       name: "",
       username: "",
+      email: "",
       password: "",
       role: "user",
     });
@@ -331,6 +438,7 @@ function UserManagement() {
     setEditUserFormData({
       name: user.name || "",
       username: user.username,
+      email: user.email || "",
       password: "",
       role: user.role,
     });
@@ -358,6 +466,7 @@ function UserManagement() {
       id: editingUser.id,
       name: editUserFormData.name,
       username: editUserFormData.username,
+      email: editUserFormData.email.trim() || null,
       role: editUserFormData.role
     };
 
@@ -387,17 +496,18 @@ function UserManagement() {
     createUserMutation.mutate({
       name: createUserFormData.name,
       username: createUserFormData.username,
+      email: createUserFormData.email.trim() || null,
       password: createUserFormData.password,
       role: createUserFormData.role
     });
   };
 
-  const handleMenuPermissionChange = (permission: string, value: boolean) => {
+  const handlePageAccessChange = (pageId: string, value: boolean) => {
     setCreateUserFormData(prev => ({
       ...prev,
-      menuPermissions: {
-        ...prev.menuPermissions,
-        [permission]: value
+      pageAccess: {
+        ...prev.pageAccess,
+        [pageId]: value
       }
     }));
   };
@@ -459,6 +569,7 @@ function UserManagement() {
                 onClick={() => {
                   refetchUsers();
                   refetchPermissions();
+                  queryClient.invalidateQueries({ queryKey: ["/api/auth/lockouts"] });
                 }}
                 disabled={usersLoading || permissionsLoading}
                 data-testid="button-refresh-permissions"
@@ -475,241 +586,77 @@ function UserManagement() {
                 <TableRow>
                   <TableHead className="font-semibold">Username</TableHead>
                   <TableHead className="font-semibold">Role</TableHead>
-                  <TableHead className="text-center font-semibold">Dashboard</TableHead>
-                  <TableHead className="text-center font-semibold">Campaign Mgmt</TableHead>
-                  <TableHead className="text-center font-semibold">Client Mgmt</TableHead>
-                  <TableHead className="text-center font-semibold">Ad Accounts</TableHead>
-                  <TableHead className="text-center font-semibold">Work Reports</TableHead>
-                  <TableHead className="text-center font-semibold">Advantix Dashboard</TableHead>
-                  <TableHead className="text-center font-semibold">Projects</TableHead>
-                  <TableHead className="text-center font-semibold">Payments</TableHead>
-                  <TableHead className="text-center font-semibold">Expenses & Salaries</TableHead>
-                  <TableHead className="text-center font-semibold">Salary Management</TableHead>
-                  <TableHead className="text-center font-semibold">Reports</TableHead>
-                  <TableHead className="text-center font-semibold">Own Farming</TableHead>
-                  <TableHead className="text-center font-semibold">New Created</TableHead>
-                  <TableHead className="text-center font-semibold">Farming Accounts</TableHead>
-                  <TableHead className="text-center font-semibold">Admin Panel</TableHead>
+                  {activePages.map((page) => (
+                    <TableHead key={page.id} className="text-center font-semibold">{page.displayName}</TableHead>
+                  ))}
                   <TableHead className="text-center font-semibold">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {users.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={18} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={activePages.length + 3} className="text-center py-8 text-gray-500">
                       No users found
                     </TableCell>
                   </TableRow>
                 ) : (
                   users.map((user) => {
-                    const permissions = getUserPermissions(user.id);
+                    const lockout = lockouts.find(l => l.username === user.username);
                     const getRoleBadgeVariant = (role: string) => {
-                      switch (role) {
-                        case 'super_admin': return 'destructive';
-                        case 'admin': return 'default';
-                        case 'manager': return 'secondary';
-                        default: return 'outline';
-                      }
-                    };
-                    const getRoleLabel = (role: string) => {
-                      switch (role) {
-                        case 'super_admin': return 'Super Admin';
-                        case 'admin': return 'Admin';
-                        case 'manager': return 'Manager';
-                        case 'user': return 'User';
-                        default: return role;
-                      }
+                      if (role === 'super_admin') return 'destructive';
+                      if (getRole(role)?.isAdmin) return 'default';
+                      if (role === 'manager') return 'secondary';
+                      return 'outline';
                     };
+                    const getRoleLabel = (role: string) => getRole(role)?.name ?? role;
                     return (
                       <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
                         <TableCell className="font-medium" data-testid={`text-username-${user.id}`}>
                           {user.username}
                         </TableCell>
                         <TableCell data-testid={`text-role-${user.id}`}>
-                          <Badge variant={getRoleBadgeVariant(user.role)}>
-                            {getRoleLabel(user.role)}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.dashboard || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'dashboard', checked)}
-                              data-testid={`switch-dashboard-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.dashboard ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.dashboard ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.campaignManagement || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'campaignManagement', checked)}
-                              data-testid={`switch-campaign-management-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.campaignManagement ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.campaignManagement ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.clientManagement || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'clientManagement', checked)}
-                              data-testid={`switch-client-management-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.clientManagement ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.clientManagement ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.adAccounts || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'adAccounts', checked)}
-                              data-testid={`switch-ad-accounts-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.adAccounts ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.adAccounts ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.workReports || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'workReports', checked)}
-                              data-testid={`switch-work-reports-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.workReports ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.workReports ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.advantixDashboard || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'advantixDashboard', checked)}
-                              data-testid={`switch-advantix-dashboard-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.advantixDashboard ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.advantixDashboard ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.projects || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'projects', checked)}
-                              data-testid={`switch-projects-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.projects ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.projects ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.payments || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'payments', checked)}
-                              data-testid={`switch-payments-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.payments ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.payments ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.expensesSalaries || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'expensesSalaries', checked)}
-                              data-testid={`switch-expenses-salaries-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.expensesSalaries ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.expensesSalaries ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.salaryManagement || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'salaryManagement', checked)}
-                              data-testid={`switch-salary-management-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.salaryManagement ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.salaryManagement ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.reports || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'reports', checked)}
-                              data-testid={`switch-reports-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.reports ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.reports ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.ownFarming || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'ownFarming', checked)}
-                              data-testid={`switch-own-farming-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.ownFarming ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.ownFarming ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.newCreated || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'newCreated', checked)}
-                              data-testid={`switch-new-created-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.newCreated ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.newCreated ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.farmingAccounts || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'farmingAccounts', checked)}
-                              data-testid={`switch-farming-accounts-${user.id}`}
-                            />
-                          </div>
-                          <span className={`text-sm font-medium ${permissions.farmingAccounts ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.farmingAccounts ? 'Yes' : 'No'}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <div className="flex justify-center">
-                            <Switch
-                              checked={permissions.adminPanel || false}
-                              onCheckedChange={(checked) => handlePermissionToggle(user.id, 'adminPanel', checked)}
-                              data-testid={`switch-admin-panel-${user.id}`}
-                            />
+                          <div className="flex items-center gap-1">
+                            <Badge variant={getRoleBadgeVariant(user.role)}>
+                              {getRoleLabel(user.role)}
+                            </Badge>
+                            {user.twoFactorEnabled && (
+                              <Badge variant="outline" className="text-green-700 border-green-300" title="Two-factor authentication enabled">
+                                2FA
+                              </Badge>
+                            )}
+                            {lockout && (
+                              <Badge
+                                variant="destructive"
+                                title={`${lockout.failureCount} failed logins - locked until ${new Date(lockout.lockedUntil).toLocaleString()}`}
+                                data-testid={`badge-locked-${user.id}`}
+                              >
+                                Locked
+                              </Badge>
+                            )}
                           </div>
-                          <span className={`text-sm font-medium ${permissions.adminPanel ? 'text-green-600' : 'text-red-600'}`}>
-                            {permissions.adminPanel ? 'Yes' : 'No'}
-                          </span>
                         </TableCell>
+                        {activePages.map((page) => {
+                          const canView = getEffectiveView(user, page.id);
+                          const isOverridden = getUserOverride(user.id, page.id)?.canView != null;
+                          return (
+                            <TableCell key={page.id} className="text-center">
+                              <div className="flex justify-center">
+                                <Switch
+                                  checked={canView}
+                                  onCheckedChange={(checked) => handlePermissionToggle(user, page.id, checked)}
+                                  disabled={user.role === 'super_admin'}
+                                  data-testid={`switch-${page.pageKey}-${user.id}`}
+                                />
+                              </div>
+                              <span
+                                className={`text-sm font-medium ${canView ? 'text-green-600' : 'text-red-600'}`}
+                                title={isOverridden ? "Set for this user" : "Role default"}
+                              >
+                                {canView ? 'Yes' : 'No'}{isOverridden && '*'}
+                              </span>
+                            </TableCell>
+                          );
+                        })}
                         <TableCell className="text-center">
                           <div className="flex items-center justify-center gap-2">
                             <Button
@@ -720,6 +667,64 @@ function UserManagement() {
                             >
                               <Edit3 className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Force logout from all devices"
+                              onClick={() => setUserToForceLogout(user)}
+                              data-testid={`button-force-logout-${user.id}`}
+                            >
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                            {!getRole(user.role)?.isAdmin && user.role !== 'client' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={getAssignedClientIds(user.id).length > 0
+                                  ? `Assigned to ${getAssignedClientIds(user.id).length} client(s)`
+                                  : "No clients assigned"}
+                                onClick={() => handleEditClients(user)}
+                                data-testid={`button-client-access-${user.id}`}
+                              >
+                                <Building2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {user.email && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title={`Email a password reset link to ${user.email}`}
+                                onClick={() => sendPasswordResetMutation.mutate(user)}
+                                disabled={sendPasswordResetMutation.isPending}
+                                data-testid={`button-send-reset-${user.id}`}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {lockout && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Unlock account"
+                                onClick={() => unlockUserMutation.mutate(user.id)}
+                                disabled={unlockUserMutation.isPending}
+                                data-testid={`button-unlock-${user.id}`}
+                              >
+                                <Unlock className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {user.twoFactorEnabled && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Reset two-factor authentication"
+                                onClick={() => resetTwoFactorMutation.mutate(user)}
+                                disabled={resetTwoFactorMutation.isPending}
+                                data-testid={`button-reset-2fa-${user.id}`}
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
@@ -774,6 +779,17 @@ function UserManagement() {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="create-email">Email</Label>
+                <Input
+                  id="create-email"
+                  type="email"
+                  value={createUserFormData.email}
+                  onChange={(e) => setCreateUserFormData(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="Used for password reset links"
+                  data-testid="input-create-email"
+                />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="create-password">Password *</Label>
                 <Input
@@ -793,10 +809,9 @@ function UserManagement() {
                     <SelectValue placeholder="Select role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="manager">Manager</SelectItem>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="super_admin">Super Admin</SelectItem>
+                    {staffRoles.map((role) => (
+                      <SelectItem key={role.id} value={role.key}>{role.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -808,54 +823,23 @@ function UserManagement() {
                 <Shield className="h-4 w-4" />
                 <Label className="text-base font-semibold">Menu Access Permissions</Label>
               </div>
-              <div className="grid grid-cols-2 gap-4 border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
-                <div className="space-y-3">
-                  <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300">Main Navigation</h4>
-                  {[
-                    { key: 'dashboard', label: 'Dashboard' },
-                    { key: 'campaignManagement', label: 'Campaign Management' },
-                    { key: 'clientManagement', label: 'Client Management' },
-                    { key: 'adAccounts', label: 'Ad Accounts' },
-                    { key: 'workReports', label: 'Work Reports' },
-                    { key: 'ownFarming', label: 'Own Farming' },
-                  ].map((permission) => (
-                    <div key={permission.key} className="flex items-center justify-between">
-                      <Label htmlFor={`create-${permission.key}`} className="text-sm">
-                        {permission.label}
-                      </Label>
-                      <Switch
-                        id={`create-${permission.key}`}
-                        checked={createUserFormData.menuPermissions[permission.key as keyof typeof createUserFormData.menuPermissions]}
-                        onCheckedChange={(checked) => handleMenuPermissionChange(permission.key, checked)}
-                        data-testid={`switch-create-${permission.key}`}
-                      />
-                    </div>
-                  ))}
-                </div>
-                
-                <div className="space-y-3">
-                  <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300">Advantix Finance</h4>
-                  {[
-                    { key: 'advantixDashboard', label: 'Advantix Dashboard' },
-                    { key: 'projects', label: 'Projects' },
-                    { key: 'payments', label: 'Payments' },
-                    { key: 'expensesSalaries', label: 'Expenses & Salaries' },
-                    { key: 'reports', label: 'Reports' },
-                    { key: 'adminPanel', label: 'Admin Panel' },
-                  ].map((permission) => (
-                    <div key={permission.key} className="flex items-center justify-between">
-                      <Label htmlFor={`create-${permission.key}`} className="text-sm">
-                        {permission.label}
-                      </Label>
-                      <Switch
-                        id={`create-${permission.key}`}
-                        checked={createUserFormData.menuPermissions[permission.key as keyof typeof createUserFormData.menuPermissions]}
-                        onCheckedChange={(checked) => handleMenuPermissionChange(permission.key, checked)}
-                        data-testid={`switch-create-${permission.key}`}
-                      />
-                    </div>
-                  ))}
-                </div>
+              <p className="text-sm text-gray-500">
+                Defaults come from the role's page permissions. Changes here are saved as overrides for this user.
+              </p>
+              <div className="grid grid-cols-2 gap-x-8 gap-y-3 border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
+                {activePages.map((page) => (
+                  <div key={page.id} className="flex items-center justify-between">
+                    <Label htmlFor={`create-${page.pageKey}`} className="text-sm">
+                      {page.displayName}
+                    </Label>
+                    <Switch
+                      id={`create-${page.pageKey}`}
+                      checked={createUserFormData.pageAccess[page.id] ?? getRoleDefaultView(createUserFormData.role, page.id)}
+                      onCheckedChange={(checked) => handlePageAccessChange(page.id, checked)}
+                      data-testid={`switch-create-${page.pageKey}`}
+                    />
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -905,6 +889,17 @@ function UserManagement() {
                 required
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-email">Email</Label>
+              <Input
+                id="edit-email"
+                type="email"
+                value={editUserFormData.email}
+                onChange={(e) => setEditUserFormData(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="Used for password reset links"
+                data-testid="input-edit-email"
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-password">New Password</Label>
               <Input
@@ -924,10 +919,9 @@ function UserManagement() {
                   <SelectValue placeholder="Select role" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="user">User</SelectItem>
-                  <SelectItem value="manager">Manager</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="super_admin">Super Admin</SelectItem>
+                  {staffRoles.map((role) => (
+                    <SelectItem key={role.id} value={role.key}>{role.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -973,13 +967,550 @@ function UserManagement() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-    </>
-  );
-}
 
-// Access Control Component
-function AccessControl() {
-  const { toast } = useToast();
+      {/* Force Logout Confirmation Dialog */}
+      <AlertDialog open={!!userToForceLogout} onOpenChange={(open) => !open && setUserToForceLogout(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Force Logout</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sign "{userToForceLogout?.username}" out of every device? They will need to log in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-force-logout">Cancel</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => userToForceLogout && forceLogoutMutation.mutate(userToForceLogout.id)}
+              disabled={forceLogoutMutation.isPending}
+              data-testid="button-confirm-force-logout"
+            >
+              {forceLogoutMutation.isPending ? "Logging out..." : "Force Logout"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Client Access Dialog */}
+      <Dialog open={!!userForClients} onOpenChange={(open) => !open && setUserForClients(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Client Access</DialogTitle>
+            <DialogDescription>
+              Limit "{userForClients?.username}" to campaigns, ad accounts, finance records and work reports of the selected clients.
+              With no clients selected the user cannot see any client records.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {clients.length === 0 ? (
+              <p className="text-sm text-gray-500">No clients found</p>
+            ) : (
+              clients.map((client) => (
+                <div key={client.id} className="flex items-center justify-between">
+                  <Label htmlFor={`client-access-${client.id}`}>{client.clientName}</Label>
+                  <Switch
+                    id={`client-access-${client.id}`}
+                    checked={assignedClientIds.includes(client.id)}
+                    onCheckedChange={(checked) => toggleAssignedClient(client.id, checked)}
+                    data-testid={`switch-client-access-${client.id}`}
+                  />
+                </div>
+              ))
+            )}
+            <p className="text-sm text-gray-500" data-testid="text-client-access-summary">
+              {assignedClientIds.length === 0 ? "No clients selected" : `${assignedClientIds.length} client(s) selected`}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUserForClients(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => userForClients && setClientAssignmentsMutation.mutate({ userId: userForClients.id, clientIds: assignedClientIds })}
+              disabled={setClientAssignmentsMutation.isPending}
+              data-testid="button-save-client-access"
+            >
+              {setClientAssignmentsMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+// Two-Factor Policy Component
+function TwoFactorPolicy() {
+  const { toast } = useToast();
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+  const policyRoles = roles.map(role => ({ value: role.key, label: role.name }));
+
+  const { data: policy, isLoading } = useQuery<{ requiredRoles: string[] }>({
+    queryKey: ["/api/settings/two-factor"],
+  });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (requiredRoles: string[]) => {
+      const response = await apiRequest("PUT", "/api/settings/two-factor", { requiredRoles });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/two-factor"] });
+      toast({
+        title: "Two-factor policy updated",
+        description: "Users in the selected roles will be asked to enroll at their next login.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating policy",
+        description: error.message || "Failed to update two-factor policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requiredRoles = policy?.requiredRoles || [];
+
+  const handleToggle = (role: string, required: boolean) => {
+    const next = required
+      ? Array.from(new Set([...requiredRoles, role]))
+      : requiredRoles.filter(r => r !== role);
+    updatePolicyMutation.mutate(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication Policy
+        </CardTitle>
+        <CardDescription>
+          Require an authenticator app code at login for the selected roles
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        ) : (
+          <div className="flex flex-wrap gap-6">
+            {policyRoles.map(role => (
+              <div key={role.value} className="flex items-center gap-2">
+                <Switch
+                  checked={requiredRoles.includes(role.value)}
+                  onCheckedChange={(checked) => handleToggle(role.value, checked)}
+                  disabled={updatePolicyMutation.isPending}
+                  data-testid={`switch-2fa-required-${role.value}`}
+                />
+                <Label>{role.label}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Password Policy Component
+function PasswordPolicy() {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<PasswordPolicySettings | null>(null);
+
+  const { data: policy, isLoading } = useQuery<PasswordPolicySettings>({
+    queryKey: ["/api/settings/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setFormData(policy);
+  }, [policy]);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (data: PasswordPolicySettings) => {
+      const response = await apiRequest("PUT", "/api/settings/password-policy", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/password-policy"] });
+      toast({
+        title: "Password policy updated",
+        description: "New and changed passwords must follow the updated rules.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating policy",
+        description: error.message || "Failed to update password policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const characterRules: { key: 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol'; label: string }[] = [
+    { key: 'requireUppercase', label: 'Uppercase letter' },
+    { key: 'requireLowercase', label: 'Lowercase letter' },
+    { key: 'requireNumber', label: 'Number' },
+    { key: 'requireSymbol', label: 'Symbol' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password Policy
+        </CardTitle>
+        <CardDescription>
+          Rules applied when users are created, change their password or use a reset link
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !formData ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <div className="space-y-2">
+                <Label htmlFor="password-min-length">Minimum Length</Label>
+                <Input
+                  id="password-min-length"
+                  type="number"
+                  min={6}
+                  max={128}
+                  value={formData.minLength}
+                  onChange={(e) => setFormData({ ...formData, minLength: parseInt(e.target.value) || 0 })}
+                  data-testid="input-password-min-length"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password-history-count">Remembered Passwords</Label>
+                <Input
+                  id="password-history-count"
+                  type="number"
+                  min={0}
+                  max={24}
+                  value={formData.historyCount}
+                  onChange={(e) => setFormData({ ...formData, historyCount: parseInt(e.target.value) || 0 })}
+                  data-testid="input-password-history-count"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              {characterRules.map(rule => (
+                <div key={rule.key} className="flex items-center gap-2">
+                  <Switch
+                    checked={formData[rule.key]}
+                    onCheckedChange={(checked) => setFormData({ ...formData, [rule.key]: checked })}
+                    data-testid={`switch-password-${rule.key}`}
+                  />
+                  <Label>{rule.label}</Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={() => updatePolicyMutation.mutate(formData)}
+              disabled={updatePolicyMutation.isPending}
+              data-testid="button-save-password-policy"
+            >
+              {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Role Management Component
+function RoleManagement() {
+  const { toast } = useToast();
+  const [isRoleDialogOpen, setIsRoleDialogOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [roleFormData, setRoleFormData] = useState({ key: "", name: "", description: "", isAdmin: false });
+
+  const { data: roles = [], isLoading: rolesLoading } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  // Only a Super Admin can grant or remove admin access
+  const { data: currentUser } = useQuery<AuthUser>({
+    queryKey: ["/api/auth/user"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async () => {
+      const roleData = {
+        name: roleFormData.name,
+        description: roleFormData.description || null,
+        isAdmin: roleFormData.isAdmin,
+      };
+      const response = editingRole
+        ? await apiRequest("PUT", `/api/roles/${editingRole.id}`, roleData)
+        : await apiRequest("POST", "/api/roles", { ...roleData, key: roleFormData.key });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingRole ? "Role updated successfully" : "Role created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      setIsRoleDialogOpen(false);
+      setEditingRole(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/roles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Role deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/role-permissions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Role keys are stored on users, so derive one from the name while creating
+  const toRoleKey = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^[0-9_]+/, "");
+
+  const handleCreateRole = () => {
+    setEditingRole(null);
+    setRoleFormData({ key: "", name: "", description: "", isAdmin: false });
+    setIsRoleDialogOpen(true);
+  };
+
+  const handleEditRole = (role: Role) => {
+    setEditingRole(role);
+    setRoleFormData({
+      key: role.key,
+      name: role.name,
+      description: role.description || "",
+      isAdmin: role.isAdmin,
+    });
+    setIsRoleDialogOpen(true);
+  };
+
+  const handleSaveRole = () => {
+    if (!roleFormData.name.trim() || !roleFormData.key) {
+      toast({
+        title: "Error",
+        description: "Role name and key are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveRoleMutation.mutate();
+  };
+
+  const getUserCount = (roleKey: string) => users.filter(user => user.role === roleKey).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5" />
+              Roles
+            </CardTitle>
+            <CardDescription>
+              Create roles for your team. Page access for each role is set in Access Control below.
+            </CardDescription>
+          </div>
+          <Button onClick={handleCreateRole} data-testid="button-create-role">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rolesLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.map((role) => (
+                <TableRow key={role.id} data-testid={`row-role-${role.key}`}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {role.name}
+                      {role.isSystem && <Badge variant="outline">Built-in</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{role.key}</TableCell>
+                  <TableCell>{role.description || "No description"}</TableCell>
+                  <TableCell>
+                    <Badge variant={role.isAdmin ? "default" : "secondary"}>
+                      {role.isAdmin ? "Admin" : "Standard"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{getUserCount(role.key)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditRole(role)}
+                        data-testid={`button-edit-role-${role.key}`}
+                      >
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      {!role.isSystem && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              data-testid={`button-delete-role-${role.key}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Role</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete the role "{role.name}"? Its page permissions will be removed as well.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteRoleMutation.mutate(role.id)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isRoleDialogOpen} onOpenChange={setIsRoleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRole ? "Edit Role" : "Create Role"}</DialogTitle>
+            <DialogDescription>
+              {editingRole ? "Update the role details" : "Add a new role that users can be assigned to"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={roleFormData.name}
+                onChange={(e) => setRoleFormData(prev => ({
+                  ...prev,
+                  name: e.target.value,
+                  key: editingRole ? prev.key : toRoleKey(e.target.value),
+                }))}
+                placeholder="e.g. Media Buyer"
+                data-testid="input-role-name"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="role-key">Key</Label>
+              <Input
+                id="role-key"
+                value={roleFormData.key}
+                onChange={(e) => setRoleFormData(prev => ({ ...prev, key: toRoleKey(e.target.value) }))}
+                disabled={!!editingRole}
+                placeholder="e.g. media_buyer"
+                data-testid="input-role-key"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="role-description">Description (optional)</Label>
+              <Input
+                id="role-description"
+                value={roleFormData.description}
+                onChange={(e) => setRoleFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Enter role description"
+                data-testid="input-role-description"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="role-is-admin">Admin access</Label>
+                <p className="text-sm text-gray-500">Allows admin-only actions such as managing all work reports</p>
+              </div>
+              <Switch
+                id="role-is-admin"
+                checked={roleFormData.isAdmin}
+                onCheckedChange={(checked) => setRoleFormData(prev => ({ ...prev, isAdmin: checked }))}
+                disabled={!!editingRole?.isSystem || currentUser?.role !== 'super_admin'}
+                data-testid="switch-role-is-admin"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRoleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveRole}
+              disabled={saveRoleMutation.isPending}
+              data-testid="button-save-role"
+            >
+              {saveRoleMutation.isPending ? "Saving..." : editingRole ? "Update Role" : "Create Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// Access Control Component
+function AccessControl() {
+  const { toast } = useToast();
   
   // Fetch pages and role permissions
   const { data: pages = [], isLoading: pagesLoading } = useQuery<Page[]>({
@@ -1016,17 +1547,31 @@ function AccessControl() {
     },
   });
 
-  const roles = ["user", "manager", "admin", "super_admin"];
+  // Roles without a row for a page (e.g. newly created roles) get one on first use
+  const createPermissionMutation = useMutation({
+    mutationFn: async ({ role, pageId }: { role: string, pageId: string }) => {
+      const response = await apiRequest("POST", "/api/role-permissions", { role, pageId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/role-permissions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create permission",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: roleList = [], isLoading: rolesLoading } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const roles = roleList.filter(role => role.key !== "client").map(role => role.key);
 
-  const getRoleDisplayName = (role: string) => {
-    switch (role) {
-      case "user": return "User";
-      case "manager": return "Manager";
-      case "admin": return "Admin";
-      case "super_admin": return "Super Admin";
-      default: return role;
-    }
-  };
+  const getRoleDisplayName = (role: string) => roleList.find(r => r.key === role)?.name ?? role;
 
   const getPermissionForRoleAndPage = (role: string, pageId: string) => {
     return rolePermissions.find(p => p.role === role && p.pageId === pageId);
@@ -1038,7 +1583,7 @@ function AccessControl() {
     updatePermissionMutation.mutate(updateData);
   };
 
-  if (pagesLoading || permissionsLoading) {
+  if (pagesLoading || permissionsLoading || rolesLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -1109,8 +1654,18 @@ function AccessControl() {
                         const permission = getPermissionForRoleAndPage(role, page.id);
                         if (!permission) return (
                           <TableCell key={role} className="text-center text-gray-400 px-4">
-                            <div className="py-4">No permission found</div>
-                          </TableCell>
+                            <div className="py-4">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => createPermissionMutation.mutate({ role, pageId: page.id })}
+                                disabled={createPermissionMutation.isPending}
+                                data-testid={`button-add-permission-${role}-${page.pageKey}`}
+                              >
+                                Set up
+                              </Button>
+                            </div>
+                          </TableCell>
                         );
 
                         return (
@@ -1193,7 +1748,15 @@ function AccessControl() {
                           const permission = getPermissionForRoleAndPage(role, page.id);
                           if (!permission) return (
                             <TableCell key={role} className="text-center text-gray-400">
-                              No permission found
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => createPermissionMutation.mutate({ role, pageId: page.id })}
+                                disabled={createPermissionMutation.isPending}
+                                data-testid={`button-add-permission-${role}-${page.pageKey}`}
+                              >
+                                Set up
+                              </Button>
                             </TableCell>
                           );
 
@@ -1261,7 +1824,15 @@ function AccessControl() {
                       if (!permission) return (
                         <div key={role} className="text-center text-gray-400 p-2">
                           <div className="font-medium mb-2">{getRoleDisplayName(role)}</div>
-                          <div>No permission found</div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => createPermissionMutation.mutate({ role, pageId: page.id })}
+                            disabled={createPermissionMutation.isPending}
+                            data-testid={`button-add-permission-${role}-${page.pageKey}`}
+                          >
+                            Set up
+                          </Button>
                         </div>
                       );
 
@@ -1361,6 +1932,10 @@ function FinanceAccessControl() {
     queryKey: ["/api/employees"],
   });
 
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
   // Fetch finance page and role permissions
   const { data: pages = [] } = useQuery<Page[]>({
     queryKey: ["/api/pages"],
@@ -1727,9 +2302,7 @@ function FinanceAccessControl() {
                         variant={user.role === 'super_admin' ? 'default' : 'secondary'}
                         className={user.role === 'super_admin' ? 'bg-purple-100 text-purple-800' : ''}
                       >
-                        {user.role === 'super_admin' ? 'Super Admin' : 
-                         user.role === 'admin' ? 'Admin' :
-                         user.role === 'manager' ? 'Manager' : 'User'}
+                        {roles.find(role => role.key === user.role)?.name ?? user.role}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -2269,11 +2842,11 @@ function DataImportExport() {
   const [importResults, setImportResults] = useState<any>(null);
 
   // Get current user to check permissions
-  const { data: currentUser } = useQuery<{ id: string; username: string; role: string }>({
+  const { data: currentUser } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
   });
 
-  const isAdminOrSuperAdmin = currentUser?.role === 'admin' || currentUser?.role === 'super_admin';
+  const isAdminOrSuperAdmin = currentUser?.isAdmin ?? false;
 
   // Export data function
   const handleExport = async () => {
@@ -3594,6 +4167,239 @@ function FacebookSettings() {
           </div>
         </CardContent>
       </Card>
+
+      {settings && <FacebookAutoSync settings={settings} />}
+    </div>
+  );
+}
+
+function TiktokSettings() {
+  const { toast } = useToast();
+  const [appId, setAppId] = useState("");
+  const [appSecret, setAppSecret] = useState("");
+  const [accessToken, setAccessToken] = useState("");
+  const [apiBaseUrl, setApiBaseUrl] = useState("");
+
+  const { data: settings } = useQuery<TiktokSetting | null>({
+    queryKey: ["/api/tiktok/settings"],
+  });
+
+  // Secrets come back masked, so they are entered again on every save
+  useEffect(() => {
+    if (settings) {
+      setAppId(settings.appId || "");
+      setApiBaseUrl(settings.apiBaseUrl || "");
+    }
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tiktok/settings", {
+        appId,
+        appSecret,
+        accessToken,
+        apiBaseUrl: apiBaseUrl.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "TikTok settings saved successfully",
+      });
+      setAppSecret("");
+      setAccessToken("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tiktok/settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testConnectionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tiktok/test-connection");
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Connection Successful",
+        description: `Connected as: ${data.userName || 'User'}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tiktok/settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Connection Failed",
+        description: error.message || "Failed to connect to TikTok",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tiktok/settings"] });
+    },
+  });
+
+  const syncAdAccountsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tiktok/sync-accounts");
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Sync Successful",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/ad-accounts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sync Failed",
+        description: error.message || "Failed to sync ad accounts",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveSettings = () => {
+    if (!appId || !appSecret || !accessToken) {
+      toast({
+        title: "Validation Error",
+        description: "App ID, App Secret and Access Token are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveSettingsMutation.mutate();
+  };
+
+  const isConnected = !!settings?.isConnected;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            TikTok Ads Settings
+          </CardTitle>
+          <CardDescription>
+            Configure your TikTok for Business app to sync TikTok ad accounts, campaigns and insights
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Connection Status */}
+          <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            <div className="flex items-center gap-3">
+              <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {isConnected ? 'Connected' : 'Not Connected'}
+                </p>
+                {settings?.lastTestedAt && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Last tested: {new Date(settings.lastTestedAt).toLocaleString()}
+                  </p>
+                )}
+                {settings?.connectionError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Error: {settings.connectionError}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => testConnectionMutation.mutate()}
+                disabled={testConnectionMutation.isPending || !settings}
+                variant="outline"
+                data-testid="button-test-tiktok-connection"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${testConnectionMutation.isPending ? 'animate-spin' : ''}`} />
+                {testConnectionMutation.isPending ? "Testing..." : "Test Connection"}
+              </Button>
+              <Button
+                onClick={() => syncAdAccountsMutation.mutate()}
+                disabled={syncAdAccountsMutation.isPending || !isConnected}
+                variant={isConnected ? "default" : "outline"}
+                data-testid="button-sync-tiktok-accounts"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${syncAdAccountsMutation.isPending ? 'animate-spin' : ''}`} />
+                {syncAdAccountsMutation.isPending ? "Syncing..." : "Sync Ad Accounts"}
+              </Button>
+            </div>
+          </div>
+
+          {/* Settings Form */}
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tiktok-app-id">TikTok App ID</Label>
+              <Input
+                id="tiktok-app-id"
+                value={appId}
+                onChange={(e) => setAppId(e.target.value)}
+                placeholder="Enter your TikTok App ID"
+                data-testid="input-tiktok-app-id"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tiktok-app-secret">TikTok App Secret</Label>
+              <Input
+                id="tiktok-app-secret"
+                type="password"
+                value={appSecret}
+                onChange={(e) => setAppSecret(e.target.value)}
+                placeholder={settings ? "Saved. Enter again to change settings" : "Enter your TikTok App Secret"}
+                data-testid="input-tiktok-app-secret"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tiktok-access-token">Access Token</Label>
+              <Input
+                id="tiktok-access-token"
+                type="password"
+                value={accessToken}
+                onChange={(e) => setAccessToken(e.target.value)}
+                placeholder={settings ? "Saved. Enter again to change settings" : "Enter your TikTok Access Token"}
+                data-testid="input-tiktok-access-token"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                A long-term advertiser access token with Ad Account Management, Campaign Management and Reporting scopes
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tiktok-api-base-url">API Base URL (optional)</Label>
+              <Input
+                id="tiktok-api-base-url"
+                value={apiBaseUrl}
+                onChange={(e) => setApiBaseUrl(e.target.value)}
+                placeholder="https://business-api.tiktok.com/open_api/v1.3"
+                data-testid="input-tiktok-api-base-url"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Leave empty for the TikTok Business API. Use http://localhost:5055/open_api/v1.3 with the local mock server (npm run tiktok:mock).
+              </p>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <Button
+                onClick={handleSaveSettings}
+                disabled={saveSettingsMutation.isPending}
+                className="flex-1"
+                data-testid="button-save-tiktok-settings"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -4797,6 +5603,604 @@ function ClientEmailNotifications() {
   );
 }
 
+// API Key Management Component
+type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'pageKeys'> & { pageKeys: string[] };
+
+function ApiKeyManagement() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [apiKeyFormData, setApiKeyFormData] = useState({
+    name: "",
+    scope: "read",
+    expiresAt: "",
+    pageKeys: [] as string[],
+  });
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKeySummary[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const { data: pages = [] } = useQuery<Page[]>({
+    queryKey: ["/api/pages"],
+  });
+  const activePages = pages.filter(page => page.isActive);
+
+  const createApiKeyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-keys", {
+        ...apiKeyFormData,
+        // End of the chosen day in local time
+        expiresAt: new Date(`${apiKeyFormData.expiresAt}T23:59:59`).toISOString(),
+      });
+      return response.json() as Promise<ApiKeySummary & { key: string }>;
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setIsCreateOpen(false);
+      setCreatedKey(apiKey.key);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeApiKeyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/api-keys/${id}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "API key revoked",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenCreate = () => {
+    setApiKeyFormData({ name: "", scope: "read", expiresAt: "", pageKeys: [] });
+    setIsCreateOpen(true);
+  };
+
+  const handleCreate = () => {
+    if (!apiKeyFormData.name.trim() || !apiKeyFormData.expiresAt || apiKeyFormData.pageKeys.length === 0) {
+      toast({
+        title: "Error",
+        description: "Name, expiry and at least one page are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    createApiKeyMutation.mutate();
+  };
+
+  const togglePage = (pageKey: string, checked: boolean) => {
+    setApiKeyFormData(prev => ({
+      ...prev,
+      pageKeys: checked ? [...prev.pageKeys, pageKey] : prev.pageKeys.filter(key => key !== pageKey),
+    }));
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({
+      title: "Copied",
+      description: "API key copied to clipboard",
+    });
+  };
+
+  const getStatus = (apiKey: ApiKeySummary) => {
+    if (apiKey.revokedAt) return { label: "Revoked", variant: "destructive" as const };
+    if (new Date(apiKey.expiresAt).getTime() <= Date.now()) return { label: "Expired", variant: "secondary" as const };
+    return { label: "Active", variant: "default" as const };
+  };
+
+  const getPageName = (pageKey: string) => pages.find(page => page.pageKey === pageKey)?.displayName ?? pageKey;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Keys for scripts and integrations. Send them as <code>Authorization: Bearer &lt;key&gt;</code>.
+              Requests act as the super admin who created the key, limited to its pages and scope.
+            </CardDescription>
+          </div>
+          <Button onClick={handleOpenCreate} data-testid="button-create-api-key">
+            <Plus className="h-4 w-4 mr-2" />
+            Create API Key
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Pages</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Requests</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                    No API keys created
+                  </TableCell>
+                </TableRow>
+              ) : (
+                apiKeys.map((apiKey) => {
+                  const status = getStatus(apiKey);
+                  return (
+                    <TableRow key={apiKey.id} data-testid={`row-api-key-${apiKey.id}`}>
+                      <TableCell className="font-medium">{apiKey.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{apiKey.keyPrefix}…</TableCell>
+                      <TableCell>
+                        <Badge variant={apiKey.scope === "write" ? "default" : "outline"}>
+                          {apiKey.scope === "write" ? "Read & Write" : "Read only"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        {apiKey.pageKeys.map(getPageName).join(", ")}
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(apiKey.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-sm">
+                        {apiKey.lastUsedAt ? (
+                          <div>
+                            <div>{new Date(apiKey.lastUsedAt).toLocaleString()}</div>
+                            {apiKey.lastUsedIp && <div className="text-xs text-gray-500">{apiKey.lastUsedIp}</div>}
+                          </div>
+                        ) : "Never"}
+                      </TableCell>
+                      <TableCell>{apiKey.usageCount}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {!apiKey.revokedAt && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                data-testid={`button-revoke-api-key-${apiKey.id}`}
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Integrations using "{apiKey.name}" will stop working immediately. This cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => revokeApiKeyMutation.mutate(apiKey.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Revoke
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>
+              Choose what the key can reach. The key is shown once after it is created.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  value={apiKeyFormData.name}
+                  onChange={(e) => setApiKeyFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Zapier reporting"
+                  data-testid="input-api-key-name"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="api-key-expires">Expires On</Label>
+                <Input
+                  id="api-key-expires"
+                  type="date"
+                  value={apiKeyFormData.expiresAt}
+                  min={new Date().toISOString().split("T")[0]}
+                  onChange={(e) => setApiKeyFormData(prev => ({ ...prev, expiresAt: e.target.value }))}
+                  data-testid="input-api-key-expires"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Scope</Label>
+              <Select value={apiKeyFormData.scope} onValueChange={(value) => setApiKeyFormData(prev => ({ ...prev, scope: value }))}>
+                <SelectTrigger data-testid="select-api-key-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read">Read only</SelectItem>
+                  <SelectItem value="write">Read & Write</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Pages</Label>
+              <div className="grid grid-cols-2 gap-x-8 gap-y-3 border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
+                {activePages.map((page) => (
+                  <div key={page.id} className="flex items-center justify-between">
+                    <Label htmlFor={`api-key-page-${page.pageKey}`} className="text-sm">{page.displayName}</Label>
+                    <Switch
+                      id={`api-key-page-${page.pageKey}`}
+                      checked={apiKeyFormData.pageKeys.includes(page.pageKey)}
+                      onCheckedChange={(checked) => togglePage(page.pageKey, checked)}
+                      data-testid={`switch-api-key-page-${page.pageKey}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={createApiKeyMutation.isPending}
+              data-testid="button-save-api-key"
+            >
+              {createApiKeyMutation.isPending ? "Creating..." : "Create API Key"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>
+              Copy the key now. It is stored hashed and cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="font-mono text-sm break-all border rounded-lg p-3 bg-gray-50 dark:bg-gray-800" data-testid="text-created-api-key">
+            {createdKey}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyCreatedKey}>
+              Copy
+            </Button>
+            <Button onClick={() => setCreatedKey(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// Audit Log Component
+function AuditLogViewer() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState({ userId: "all", entityType: "all", entityId: "", from: "", to: "" });
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const buildQueryString = () => {
+    const params = new URLSearchParams();
+    if (filters.userId !== "all") params.set("userId", filters.userId);
+    if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+    if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+    if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+    return params.toString();
+  };
+
+  const queryString = buildQueryString();
+
+  const { data: logs = [], isLoading, refetch } = useQuery<AuditLog[]>({
+    queryKey: [`/api/audit-logs?${queryString}`],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: entityTypes = [] } = useQuery<string[]>({
+    queryKey: ["/api/audit-logs/entity-types"],
+  });
+
+  const parseChanges = (log: AuditLog): Record<string, { before: unknown; after: unknown }> => {
+    if (!log.changes) return {};
+    try {
+      return JSON.parse(log.changes);
+    } catch {
+      return {};
+    }
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return "—";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", `/api/audit-logs/export/csv?${queryString}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(link);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const methodColors: Record<string, string> = {
+    POST: "bg-green-100 text-green-800",
+    PUT: "bg-blue-100 text-blue-800",
+    PATCH: "bg-blue-100 text-blue-800",
+    DELETE: "bg-red-100 text-red-800",
+    GET: "bg-gray-100 text-gray-800",
+  };
+
+  const selectedChanges = selectedLog ? parseChanges(selectedLog) : {};
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Every change made through the API, with the user and the fields that changed
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} data-testid="button-refresh-audit-log">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={handleExport} disabled={isExporting} data-testid="button-export-audit-log">
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? "Exporting..." : "Export CSV"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={filters.userId} onValueChange={(value) => setFilters(prev => ({ ...prev, userId: value }))}>
+              <SelectTrigger data-testid="select-audit-user">
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>{user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Entity</Label>
+            <Select value={filters.entityType} onValueChange={(value) => setFilters(prev => ({ ...prev, entityType: value }))}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue placeholder="All entities" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {entityTypes.map(entityType => (
+                  <SelectItem key={entityType} value={entityType}>{entityType.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-id">Entity ID</Label>
+            <Input
+              id="audit-entity-id"
+              value={filters.entityId}
+              onChange={(e) => setFilters(prev => ({ ...prev, entityId: e.target.value }))}
+              placeholder="Any"
+              data-testid="input-audit-entity-id"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </div>
+
+        {/* Log Table */}
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Route</TableHead>
+                <TableHead className="text-center">Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+                  </TableCell>
+                </TableRow>
+              ) : logs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    No audit entries match these filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                logs.map(log => {
+                  const changedFields = Object.keys(parseChanges(log));
+                  return (
+                    <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {log.createdAt ? new Date(log.createdAt).toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell>{log.username || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge className={methodColors[log.method] || methodColors.GET}>{log.method}</Badge>
+                          <span className="text-sm">{log.action}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{log.entityType.replace(/_/g, ' ')}</div>
+                        {log.entityId && <div className="text-xs text-gray-500 font-mono">{log.entityId}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono text-gray-600">{log.route}</TableCell>
+                      <TableCell className="text-center">
+                        {changedFields.length > 0 ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedLog(log)}
+                            data-testid={`button-audit-changes-${log.id}`}
+                          >
+                            {changedFields.length} field{changedFields.length === 1 ? "" : "s"}
+                          </Button>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {logs.length >= 500 && (
+          <p className="text-xs text-gray-500">Showing the latest 500 entries. Narrow the filters or export to CSV to see more.</p>
+        )}
+      </CardContent>
+
+      {/* Changes Dialog */}
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Changes</DialogTitle>
+            <DialogDescription>
+              {selectedLog && `${selectedLog.username || "Unknown user"} · ${selectedLog.method} ${selectedLog.path}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Before</TableHead>
+                <TableHead>After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(selectedChanges).map(([field, change]) => (
+                <TableRow key={field}>
+                  <TableCell className="font-medium">{field}</TableCell>
+                  <TableCell className="text-sm text-red-700 break-all">{formatValue(change.before)}</TableCell>
+                  <TableCell className="text-sm text-green-700 break-all">{formatValue(change.after)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
 export default function AdminPage() {
   return (
     <Sidebar>
@@ -4815,11 +6219,15 @@ export default function AdminPage() {
 
           {/* Tabs */}
           <Tabs defaultValue="users" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-7 max-w-7xl">
+            <TabsList className="grid w-full grid-cols-11 max-w-7xl">
               <TabsTrigger value="users" className="flex items-center gap-2">
                 <Users className="w-4 h-4" />
                 User Management
               </TabsTrigger>
+              <TabsTrigger value="roles" className="flex items-center gap-2">
+                <Shield className="w-4 h-4" />
+                Roles
+              </TabsTrigger>
               <TabsTrigger value="data" className="flex items-center gap-2">
                 <Database className="w-4 h-4" />
                 Data Import/Export
@@ -4836,6 +6244,10 @@ export default function AdminPage() {
                 </svg>
                 FB Settings
               </TabsTrigger>
+              <TabsTrigger value="tiktok" className="flex items-center gap-2">
+                <Settings className="w-4 h-4" />
+                TikTok
+              </TabsTrigger>
               <TabsTrigger value="email" className="flex items-center gap-2">
                 <Mail className="w-4 h-4" />
                 Email Settings
@@ -4848,12 +6260,31 @@ export default function AdminPage() {
                 <Bell className="w-4 h-4" />
                 Client Emails
               </TabsTrigger>
+              <TabsTrigger value="audit-log" className="flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Audit Log
+              </TabsTrigger>
+              <TabsTrigger value="api-keys" className="flex items-center gap-2">
+                <KeyRound className="w-4 h-4" />
+                API Keys
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="users">
-              <UserManagement />
+              <div className="space-y-6">
+                <UserManagement />
+                <TwoFactorPolicy />
+                <PasswordPolicy />
+              </div>
             </TabsContent>
             
+            <TabsContent value="roles">
+              <div className="space-y-6">
+                <RoleManagement />
+                <AccessControl />
+              </div>
+            </TabsContent>
+
             <TabsContent value="data">
               <DataImportExport />
             </TabsContent>
@@ -4866,6 +6297,10 @@ export default function AdminPage() {
               <FacebookSettings />
             </TabsContent>
 
+            <TabsContent value="tiktok">
+              <TiktokSettings />
+            </TabsContent>
+
             <TabsContent value="email">
               <EmailSettings />
             </TabsContent>
@@ -4877,6 +6312,14 @@ export default function AdminPage() {
             <TabsContent value="client-email">
               <ClientEmailNotifications />
             </TabsContent>
+
+            <TabsContent value="audit-log">
+              <AuditLogViewer />
+            </TabsContent>
+
+            <TabsContent value="api-keys">
+              <ApiKeyManagement />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
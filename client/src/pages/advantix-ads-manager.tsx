@@ -13,6 +13,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
 import Sidebar from "@/components/layout/Sidebar";
+import type { CampaignTemplate } from "@shared/schema";
 
 export default function AdvantixAdsManager() {
   const { toast } = useToast();
@@ -65,6 +66,11 @@ export default function AdvantixAdsManager() {
     queryKey: ["/api/campaign-drafts"],
   });
 
+  // Fetch campaign templates, e.g. saved from existing campaigns
+  const { data: templates = [] } = useQuery<CampaignTemplate[]>({
+    queryKey: ["/api/campaign-templates"],
+  });
+
   // Create/Update draft mutation
   const saveDraftMutation = useMutation({
     mutationFn: async (draftData: any) => {
@@ -213,6 +219,38 @@ export default function AdvantixAdsManager() {
     setCurrentStep(1);
   };
 
+  // Prefill the wizard from a template, leaving account and page to pick
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    setObjective(template.objective || "");
+    setBudgetType(template.budgetType || "daily");
+    setDailyBudget(template.defaultDailyBudget ? template.defaultDailyBudget.toString() : "");
+    if (template.targeting) {
+      try {
+        const targeting = JSON.parse(template.targeting);
+        setAgeMin(targeting.age_min || 18);
+        setAgeMax(targeting.age_max || 65);
+        setGenders(targeting.genders || ["all"]);
+        setCountries(targeting.geo_locations?.countries?.join(', ') || "");
+        setInterests(targeting.interests?.join(', ') || "");
+      } catch (e) {
+        console.error("Error parsing template targeting:", e);
+      }
+    }
+    setAdCopy(template.adCopy || "");
+    setHeadline(template.headline || "");
+    setDescription(template.adDescription || "");
+    setCallToAction(template.callToAction || "LEARN_MORE");
+    if (!draftName) setDraftName(template.templateName);
+
+    apiRequest("POST", `/api/campaign-templates/${template.id}/use`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/campaign-templates"] }))
+      .catch((error) => console.error("Error recording template use:", error));
+    toast({ title: "Template applied", description: `Started from "${template.templateName}"` });
+  };
+
   const handleSaveDraft = () => {
     if (!draftName || !adAccountId || !objective || !campaignName) {
       toast({ title: "Error", description: "Please fill in all required fields", variant: "destructive" });
@@ -345,6 +383,24 @@ export default function AdvantixAdsManager() {
           <CardContent className="space-y-6">
             {currentStep === 1 && (
               <div className="space-y-4">
+                {!editingDraftId && templates.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template">Start from Template</Label>
+                    <Select value="" onValueChange={applyTemplate}>
+                      <SelectTrigger id="template" data-testid="select-template">
+                        <SelectValue placeholder="Select a template (optional)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.templateName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="draft-name">Draft Name *</Label>
                   <Input
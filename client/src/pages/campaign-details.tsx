@@ -3,10 +3,15 @@ import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/layout/Sidebar";
+import { CampaignCommentThread } from "@/components/CampaignCommentThread";
+import { CampaignChangeTimeline } from "@/components/CampaignChangeTimeline";
+import { AdCopySetComparison } from "@/components/AdCopySetComparison";
+import { CampaignDuplicateDialog } from "@/components/CampaignDuplicateDialog";
+import { SaveCampaignTemplateDialog } from "@/components/SaveCampaignTemplateDialog";
+import { CampaignFlightsEditor } from "@/components/CampaignFlightsEditor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Card,
   CardContent,
@@ -39,6 +44,9 @@ import {
   Edit3,
   MessageSquare,
   History,
+  CalendarClock,
+  Copy,
+  BookmarkPlus,
   DollarSign,
   Target,
   TrendingUp,
@@ -71,17 +79,6 @@ interface DailySpend {
   amount: number;
 }
 
-interface CampaignHistory {
-  id: string;
-  date: string;
-  type: "comment" | "edit" | "system";
-  field?: string;
-  oldValue?: string;
-  newValue?: string;
-  comment?: string;
-  user: string;
-}
-
 const statusColors = {
   active: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
   paused: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
@@ -94,13 +91,14 @@ export default function CampaignDetailsPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("summary");
-  const [newComment, setNewComment] = useState("");
   const [editingDay, setEditingDay] = useState<string | null>(null);
   const [editingSpend, setEditingSpend] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isCreateSetDialogOpen, setIsCreateSetDialogOpen] = useState(false);
   const [isEditSetDialogOpen, setIsEditSetDialogOpen] = useState(false);
   const [editingSet, setEditingSet] = useState<AdCopySet | null>(null);
+  const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
   
   const campaignId = params?.id;
 
@@ -161,35 +159,6 @@ export default function CampaignDetailsPage() {
     setDailySpends(days);
   }, [dailySpendsFromDB]); // Re-run when database data changes
 
-  // Mock campaign history (in real app, this would come from API)
-  const [campaignHistory] = useState<CampaignHistory[]>([
-    {
-      id: "1",
-      date: new Date().toISOString(),
-      type: "comment",
-      comment: "Campaign performing well, will increase budget next week",
-      user: "Admin",
-    },
-    {
-      id: "2",
-      date: new Date(Date.now() - 86400000).toISOString(),
-      type: "edit",
-      field: "Budget",
-      oldValue: "$1,000",
-      newValue: "$1,500",
-      user: "Admin",
-    },
-    {
-      id: "3",
-      date: new Date(Date.now() - 172800000).toISOString(),
-      type: "system",
-      field: "Status",
-      oldValue: "Draft",
-      newValue: "Active",
-      user: "System",
-    },
-  ]);
-
   const getClientName = (clientId: string | null) => {
     if (!clientId) return "No Client";
     const client = clients.find(c => c.id === clientId);
@@ -364,31 +333,6 @@ export default function CampaignDetailsPage() {
     },
   });
 
-  // Add comment mutation - syncs with campaign comments
-  const addCommentMutation = useMutation({
-    mutationFn: async (comment: string) => {
-      const response = await apiRequest("POST", `/api/campaigns/${campaignId}/comments`, { comment });
-      return response.json();
-    },
-    onSuccess: () => {
-      // Invalidate both queries to update the campaign data and campaign list
-      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaignId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
-      setNewComment("");
-      toast({
-        title: "Success!",
-        description: "Comment added successfully and synced to Campaign Management.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to add comment.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Update daily spend mutation - saves to database
   const updateDailySpendMutation = useMutation({
     mutationFn: async ({ date, amount }: { date: string; amount: number }) => {
@@ -460,18 +404,6 @@ export default function CampaignDetailsPage() {
     deleteAdCopySetMutation.mutate(setId);
   };
 
-  const handleAddComment = () => {
-    if (!newComment.trim()) {
-      toast({
-        title: "Error",
-        description: "Please enter a comment.",
-        variant: "destructive",
-      });
-      return;
-    }
-    addCommentMutation.mutate(newComment);
-  };
-
   const handleEditDaySpend = (date: string, currentAmount: number) => {
     setEditingDay(date);
     setEditingSpend(currentAmount.toString());
@@ -592,13 +524,33 @@ export default function CampaignDetailsPage() {
               Back to Campaign Management
             </Button>
             
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-                {campaign.name}
-              </h1>
-              <p className="text-gray-600 dark:text-gray-400">
-                Campaign Details & Management
-              </p>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+                  {campaign.name}
+                </h1>
+                <p className="text-gray-600 dark:text-gray-400">
+                  Campaign Details & Management
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsDuplicateDialogOpen(true)}
+                  data-testid="button-duplicate-campaign"
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Duplicate
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsTemplateDialogOpen(true)}
+                  data-testid="button-save-as-template"
+                >
+                  <BookmarkPlus className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -644,10 +596,48 @@ export default function CampaignDetailsPage() {
                 <Calendar className="h-4 w-4" />
                 Calendar View
               </button>
+              <button
+                onClick={() => setActiveTab("history")}
+                className={cn(
+                  "flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all",
+                  activeTab === "history"
+                    ? "bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm"
+                    : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                )}
+                data-testid="tab-history"
+              >
+                <History className="h-4 w-4" />
+                History
+              </button>
             </div>
           </div>
 
           {/* Tab Content */}
+          {activeTab === "adcopy" && (
+            <div className="space-y-6">
+              <Card className="rounded-xl shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5 text-blue-600" />
+                    Ad Copy Comparison
+                  </CardTitle>
+                  <CardDescription>
+                    Spend and Facebook insights from the days each set was active. Best CTR, CPC and conversions are highlighted.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {campaignId && (
+                    <AdCopySetComparison
+                      campaignId={campaignId}
+                      onSetActive={handleSetActive}
+                      isSettingActive={setActiveAdCopySetMutation.isPending}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           {activeTab === "summary" && (
             <div className="space-y-4">
               {/* Campaign Status at the very top */}
@@ -729,6 +719,25 @@ export default function CampaignDetailsPage() {
                 </CardContent>
               </Card>
 
+              {/* Schedule */}
+              <Card className="rounded-lg">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2 text-base font-medium">
+                    <CalendarClock className="h-4 w-4 text-purple-600" />
+                    Schedule
+                  </CardTitle>
+                  <CardDescription>
+                    {campaign.endDate
+                      ? `Runs until ${format(new Date(campaign.endDate), "MMM dd, yyyy")}. `
+                      : "No end date. "}
+                    Active campaigns are paused between flights and completed after the last one.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {campaignId && <CampaignFlightsEditor campaignId={campaignId} />}
+                </CardContent>
+              </Card>
+
               {/* Comments Section */}
               <Card className="rounded-lg">
                 <CardHeader className="pb-2">
@@ -738,105 +747,7 @@ export default function CampaignDetailsPage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-3">
-                    {/* Add Comment Form - Compact */}
-                    <div className="flex gap-2">
-                      <Textarea
-                        value={newComment}
-                        onChange={(e) => setNewComment(e.target.value)}
-                        placeholder="Add a comment..."
-                        rows={2}
-                        className="flex-1 text-sm"
-                        data-testid="textarea-new-comment"
-                      />
-                      <Button 
-                        onClick={handleAddComment}
-                        disabled={addCommentMutation.isPending || !newComment.trim()}
-                        size="sm"
-                        className="self-end"
-                        data-testid="button-add-comment"
-                      >
-                        {addCommentMutation.isPending ? "Adding..." : "Add"}
-                      </Button>
-                    </div>
-                    
-                    {/* Comments List - Show first 3, then scrollable */}
-                    <div className="space-y-2">
-                      {campaign?.comments ? (
-                        (() => {
-                          const parsedComments = campaign.comments.split('\n\n')
-                            .map((commentEntry, index) => {
-                              const match = commentEntry.match(/\[(.+?)\] (.+?): (.+)/);
-                              if (match) {
-                                const [, timestamp, username, comment] = match;
-                                return {
-                                  id: index,
-                                  timestamp,
-                                  username,
-                                  comment
-                                };
-                              }
-                              return null;
-                            })
-                            .filter((comment): comment is NonNullable<typeof comment> => comment !== null)
-                            .reverse(); // Show newest first
-                          
-                          const firstThree = parsedComments.slice(0, 3);
-                          const remaining = parsedComments.slice(3);
-                          
-                          return (
-                            <>
-                              {/* First 3 comments - always visible */}
-                              {firstThree.map((comment) => (
-                                <div 
-                                  key={comment.id}
-                                  className="flex items-start gap-2 p-2 rounded bg-gray-50 dark:bg-gray-800"
-                                  data-testid={`comment-visible-${comment.id}`}
-                                >
-                                  <MessageSquare className="h-3 w-3 text-green-600 mt-1 flex-shrink-0" />
-                                  <div className="flex-1 min-w-0">
-                                    <p className="text-xs text-gray-900 dark:text-white">{comment.comment}</p>
-                                    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                      <span>{format(new Date(comment.timestamp), "MMM dd, HH:mm")}</span>
-                                      <span>•</span>
-                                      <span>{comment.username}</span>
-                                    </div>
-                                  </div>
-                                </div>
-                              ))}
-                              
-                              {/* Remaining comments - scrollable area */}
-                              {remaining.length > 0 && (
-                                <div className="max-h-24 overflow-y-auto space-y-2 border-t border-gray-200 dark:border-gray-700 pt-2">
-                                  {remaining.map((comment) => (
-                                    <div 
-                                      key={comment.id}
-                                      className="flex items-start gap-2 p-2 rounded bg-gray-50 dark:bg-gray-800"
-                                      data-testid={`comment-scroll-${comment.id}`}
-                                    >
-                                      <MessageSquare className="h-3 w-3 text-green-600 mt-1 flex-shrink-0" />
-                                      <div className="flex-1 min-w-0">
-                                        <p className="text-xs text-gray-900 dark:text-white">{comment.comment}</p>
-                                        <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                          <span>{format(new Date(comment.timestamp), "MMM dd, HH:mm")}</span>
-                                          <span>•</span>
-                                          <span>{comment.username}</span>
-                                        </div>
-                                      </div>
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </>
-                          );
-                        })()
-                      ) : (
-                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
-                          No comments yet
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                  {campaignId && <CampaignCommentThread campaignId={campaignId} />}
                 </CardContent>
               </Card>
 
@@ -927,6 +838,25 @@ export default function CampaignDetailsPage() {
             </div>
           )}
 
+          {activeTab === "history" && (
+            <div className="space-y-6">
+              <Card className="rounded-xl shadow-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5 text-blue-600" />
+                    Change History
+                  </CardTitle>
+                  <CardDescription>
+                    Budget, status and objective changes made by users or by Facebook sync. Revert sets a single field back to its previous value.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CampaignChangeTimeline campaign={campaign} />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           {/* Edit Daily Spend Modal */}
           <Dialog open={editingDay !== null} onOpenChange={() => setEditingDay(null)}>
             <DialogContent>
@@ -966,6 +896,18 @@ export default function CampaignDetailsPage() {
             </DialogContent>
           </Dialog>
 
+          <CampaignDuplicateDialog
+            campaign={isDuplicateDialogOpen ? campaign : null}
+            clients={clients}
+            adAccounts={adAccounts}
+            onOpenChange={setIsDuplicateDialogOpen}
+          />
+
+          <SaveCampaignTemplateDialog
+            campaign={isTemplateDialogOpen ? campaign : null}
+            onOpenChange={setIsTemplateDialogOpen}
+          />
+
           {/* Loading Overlay */}
           {isLoading && (
             <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
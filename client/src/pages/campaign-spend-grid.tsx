@@ -0,0 +1,365 @@
+import { useState, type ClipboardEvent } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import Sidebar from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ChevronLeft, ChevronRight, Save, Search, Table as TableIcon, Undo2 } from "lucide-react";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { cn } from "@/lib/utils";
+import type { Campaign, CampaignDailySpend } from "@shared/schema";
+
+type GridPeriod = "week" | "month";
+
+// Cell key for a campaign-day, days as yyyy-MM-dd
+const cellKey = (campaignId: string, day: string) => `${campaignId}|${day}`;
+
+// Pasted spreadsheet ranges are tab separated columns and newline separated rows
+function parseClipboardGrid(text: string): string[][] {
+  return text
+    .replace(/\r/g, "")
+    .split("\n")
+    .filter((line, index, lines) => line !== "" || index < lines.length - 1)
+    .map(line => line.split("\t").map(value => value.replace(/[$,\s]/g, "")));
+}
+
+export default function CampaignSpendGridPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<GridPeriod>("week");
+  const [anchorDate, setAnchorDate] = useState(new Date());
+  const [searchQuery, setSearchQuery] = useState("");
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  const periodStart = period === "week" ? startOfWeek(anchorDate, { weekStartsOn: 1 }) : startOfMonth(anchorDate);
+  const periodEnd = period === "week" ? endOfWeek(anchorDate, { weekStartsOn: 1 }) : endOfMonth(anchorDate);
+  const days = eachDayOfInterval({ start: periodStart, end: periodEnd }).map(day => format(day, "yyyy-MM-dd"));
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: campaigns = [], isLoading: campaignsLoading } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const spendsQueryKey = ["/api/campaigns/daily-spends", days[0], days[days.length - 1]];
+  const { data: spends = [], isLoading: spendsLoading } = useQuery<CampaignDailySpend[]>({
+    queryKey: spendsQueryKey,
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate: days[0], endDate: days[days.length - 1] });
+      const response = await apiRequest("GET", `/api/campaigns/daily-spends?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  // Saved amounts by cell. Spend dates are stored at UTC midnight.
+  const savedAmounts = new Map(spends.map(spend => [
+    cellKey(spend.campaignId, new Date(spend.date).toISOString().split("T")[0]),
+    parseFloat(spend.amount),
+  ]));
+
+  const rows = campaigns
+    .filter(campaign => campaign.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const dirtyKeys = Object.keys(edits);
+
+  const getCellValue = (campaignId: string, day: string) => {
+    const key = cellKey(campaignId, day);
+    if (key in edits) return edits[key];
+    const saved = savedAmounts.get(key);
+    return saved !== undefined && saved !== 0 ? saved.toString() : "";
+  };
+
+  const getCellAmount = (campaignId: string, day: string) => {
+    const amount = parseFloat(getCellValue(campaignId, day));
+    return isNaN(amount) ? 0 : amount;
+  };
+
+  const setCellValue = (campaignId: string, day: string, value: string, next: Record<string, string>) => {
+    const key = cellKey(campaignId, day);
+    const saved = savedAmounts.get(key) ?? 0;
+    const amount = value === "" ? 0 : parseFloat(value);
+    // Edits matching what is saved are not changes
+    if (!isNaN(amount) && amount === saved) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  };
+
+  const handleCellChange = (campaignId: string, day: string, value: string) => {
+    const next = { ...edits };
+    setCellValue(campaignId, day, value, next);
+    setEdits(next);
+  };
+
+  // Fill a pasted range starting at the focused cell, skipping future days
+  const handlePaste = (event: ClipboardEvent<HTMLInputElement>, rowIndex: number, dayIndex: number) => {
+    const grid = parseClipboardGrid(event.clipboardData.getData("text"));
+    if (grid.length <= 1 && (grid[0]?.length ?? 0) <= 1) return;
+    event.preventDefault();
+
+    const next = { ...edits };
+    grid.forEach((values, rowOffset) => {
+      const campaign = rows[rowIndex + rowOffset];
+      if (!campaign) return;
+      values.forEach((value, dayOffset) => {
+        const day = days[dayIndex + dayOffset];
+        if (!day || day > today) return;
+        if (value !== "" && isNaN(parseFloat(value))) return;
+        setCellValue(campaign.id, day, value, next);
+      });
+    });
+    setEdits(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const entries = dirtyKeys.map(key => {
+        const [campaignId, date] = key.split("|");
+        return { campaignId, date, amount: edits[key] === "" ? 0 : parseFloat(edits[key]) };
+      });
+      const response = await apiRequest("POST", "/api/campaigns/daily-spends/batch", { entries });
+      return response.json();
+    },
+    onSuccess: (data: { saved: number }) => {
+      setEdits({});
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/daily-spends"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/pacing"] });
+      toast({
+        title: "Success!",
+        description: `Saved ${data.saved} daily spend entr${data.saved === 1 ? "y" : "ies"}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save daily spends.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasInvalidEdits = dirtyKeys.some(key => edits[key] !== "" && (isNaN(parseFloat(edits[key])) || parseFloat(edits[key]) < 0));
+
+  const movePeriod = (direction: 1 | -1) => {
+    if (dirtyKeys.length > 0 && !window.confirm("You have unsaved changes. Discard them?")) return;
+    setEdits({});
+    setAnchorDate(period === "week" ? addWeeks(anchorDate, direction) : addMonths(anchorDate, direction));
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const grandTotal = rows.reduce((sum, campaign) => sum + days.reduce((rowSum, day) => rowSum + getCellAmount(campaign.id, day), 0), 0);
+
+  return (
+    <Sidebar>
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          <div className="mb-6">
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/campaigns")}
+              className="mb-4"
+              data-testid="button-back-to-campaigns"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Campaign Management
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Daily Spend Grid
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Enter or paste daily spend for many campaigns at once
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <TableIcon className="h-5 w-5 text-blue-600" />
+                    {period === "week"
+                      ? `${format(periodStart, "MMM dd")} – ${format(periodEnd, "MMM dd, yyyy")}`
+                      : format(periodStart, "MMMM yyyy")}
+                  </CardTitle>
+                  <CardDescription>
+                    Paste a range copied from a spreadsheet into any cell to fill the cells to its right and below.
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Select
+                    value={period}
+                    onValueChange={(value) => {
+                      if (dirtyKeys.length > 0 && !window.confirm("You have unsaved changes. Discard them?")) return;
+                      setEdits({});
+                      setPeriod(value as GridPeriod);
+                    }}
+                  >
+                    <SelectTrigger className="w-[120px]" data-testid="select-grid-period">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="week">Week</SelectItem>
+                      <SelectItem value="month">Month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => movePeriod(-1)} data-testid="button-previous-period">
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => movePeriod(1)} data-testid="button-next-period">
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      placeholder="Filter campaigns..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10 w-[200px]"
+                      data-testid="input-grid-search"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => setEdits({})}
+                    disabled={dirtyKeys.length === 0 || saveMutation.isPending}
+                    data-testid="button-discard-grid"
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Discard
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={dirtyKeys.length === 0 || hasInvalidEdits || saveMutation.isPending}
+                    data-testid="button-save-grid"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : `Save${dirtyKeys.length > 0 ? ` (${dirtyKeys.length})` : ""}`}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="sticky left-0 bg-white dark:bg-gray-950 min-w-[200px]">Campaign</TableHead>
+                      {days.map(day => (
+                        <TableHead key={day} className={cn("text-center min-w-[90px]", day === today && "text-blue-600")}>
+                          <div>{format(new Date(`${day}T00:00:00`), "EEE")}</div>
+                          <div className="text-xs font-normal">{format(new Date(`${day}T00:00:00`), "MMM dd")}</div>
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right min-w-[100px]">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {campaignsLoading || spendsLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={days.length + 2} className="text-center py-8 text-gray-500">
+                          Loading...
+                        </TableCell>
+                      </TableRow>
+                    ) : rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={days.length + 2} className="text-center py-8 text-gray-500">
+                          No campaigns found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      rows.map((campaign, rowIndex) => (
+                        <TableRow key={campaign.id} data-testid={`grid-row-${campaign.id}`}>
+                          <TableCell className="sticky left-0 bg-white dark:bg-gray-950 font-medium">
+                            <div className="max-w-[220px] truncate" title={campaign.name}>{campaign.name}</div>
+                          </TableCell>
+                          {days.map((day, dayIndex) => {
+                            const key = cellKey(campaign.id, day);
+                            const isDirty = key in edits;
+                            return (
+                              <TableCell key={day} className="p-1">
+                                <Input
+                                  type="text"
+                                  inputMode="decimal"
+                                  value={getCellValue(campaign.id, day)}
+                                  onChange={(e) => handleCellChange(campaign.id, day, e.target.value.trim())}
+                                  onPaste={(e) => handlePaste(e, rowIndex, dayIndex)}
+                                  disabled={day > today}
+                                  placeholder="0"
+                                  className={cn(
+                                    "h-8 text-right text-sm",
+                                    isDirty && "bg-yellow-50 border-yellow-400 dark:bg-yellow-900/20",
+                                    isDirty && edits[key] !== "" && (isNaN(parseFloat(edits[key])) || parseFloat(edits[key]) < 0) && "border-red-500"
+                                  )}
+                                  data-testid={`grid-cell-${campaign.id}-${day}`}
+                                />
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(days.reduce((sum, day) => sum + getCellAmount(campaign.id, day), 0))}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                  {rows.length > 0 && (
+                    <TableFooter>
+                      <TableRow className="font-semibold">
+                        <TableCell className="sticky left-0 bg-white dark:bg-gray-950">Total</TableCell>
+                        {days.map(day => (
+                          <TableCell key={day} className="text-right text-sm">
+                            {formatCurrency(rows.reduce((sum, campaign) => sum + getCellAmount(campaign.id, day), 0))}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right" data-testid="grid-grand-total">
+                          {formatCurrency(grandTotal)}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  )}
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Sidebar>
+  );
+}
@@ -35,6 +35,7 @@ import {
 import { 
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -48,6 +49,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -67,6 +69,11 @@ import {
   DollarSign,
   TrendingUp,
   Filter,
+  Table2,
+  GitCompare,
+  Copy,
+  List,
+  CalendarRange,
   X
 } from "lucide-react";
 import { format } from "date-fns";
@@ -74,14 +81,18 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { z } from "zod";
-import { insertCampaignSchema, type Campaign, type Client, type AdAccount } from "@shared/schema";
+import { insertCampaignSchema, CampaignPacingStatus, type Campaign, type CampaignPacing, type Client, type AdAccount } from "@shared/schema";
 import Sidebar from "@/components/layout/Sidebar";
+import { CampaignBulkActions } from "@/components/CampaignBulkActions";
+import { CampaignDuplicateDialog } from "@/components/CampaignDuplicateDialog";
+import { CampaignFlightCalendar } from "@/components/CampaignFlightCalendar";
 
 // Form schemas
 const campaignFormSchema = insertCampaignSchema.extend({
   startDate: z.date({
     required_error: "Start date is required",
   }),
+  endDate: z.date().nullable().optional(),
 });
 
 type CampaignFormData = z.infer<typeof campaignFormSchema>;
@@ -94,12 +105,33 @@ const statusColors = {
   draft: "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300",
 };
 
+// Pacing badge labels and colors
+const pacingLabels: Record<string, string> = {
+  [CampaignPacingStatus.AHEAD]: "Ahead",
+  [CampaignPacingStatus.ON_TRACK]: "On Track",
+  [CampaignPacingStatus.BEHIND]: "Behind",
+  [CampaignPacingStatus.NO_BUDGET]: "No Budget",
+  [CampaignPacingStatus.INACTIVE]: "Not Running",
+};
+
+const pacingColors: Record<string, string> = {
+  [CampaignPacingStatus.AHEAD]: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  [CampaignPacingStatus.ON_TRACK]: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+  [CampaignPacingStatus.BEHIND]: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300",
+  [CampaignPacingStatus.NO_BUDGET]: "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300",
+  [CampaignPacingStatus.INACTIVE]: "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300",
+};
+
 export default function CampaignsPage() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const [pacingFilter, setPacingFilter] = useState<string>("all");
+  const [selectedCampaignIds, setSelectedCampaignIds] = useState<string[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [duplicatingCampaign, setDuplicatingCampaign] = useState<Campaign | null>(null);
+  const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
   const [isImporting, setIsImporting] = useState(false);
   const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
   const [syncAdAccountId, setSyncAdAccountId] = useState("");
@@ -165,6 +197,18 @@ export default function CampaignsPage() {
     },
   });
 
+  // Fetch pacing projections
+  const { data: pacing = [] } = useQuery({
+    queryKey: ["/api/campaigns/pacing"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/campaigns/pacing");
+      const data = await response.json();
+      return data as CampaignPacing[];
+    },
+  });
+
+  const pacingByCampaign = new Map(pacing.map(entry => [entry.campaignId, entry]));
+
   // Fetch campaign analytics
   const { data: analyticsData, isLoading: analyticsLoading } = useQuery({
     queryKey: [
@@ -206,6 +250,7 @@ export default function CampaignsPage() {
       const response = await apiRequest("POST", "/api/campaigns", {
         ...data,
         startDate: data.startDate.toISOString(),
+        endDate: data.endDate ? data.endDate.toISOString() : null,
       });
       return response.json();
     },
@@ -233,6 +278,7 @@ export default function CampaignsPage() {
       const response = await apiRequest("PUT", `/api/campaigns/${id}`, {
         ...data,
         ...(data.startDate && { startDate: data.startDate.toISOString() }),
+        ...(data.endDate !== undefined && { endDate: data.endDate ? data.endDate.toISOString() : null }),
       });
       return response.json();
     },
@@ -284,8 +330,11 @@ export default function CampaignsPage() {
     return adAccount ? `${adAccount.accountName} (${adAccount.platform})` : "Unknown Ad Account";
   };
 
-  // Filter campaigns based on search query
+  // Filter campaigns based on search query and pacing
   const filteredCampaigns = campaigns.filter((campaign) => {
+    if (pacingFilter !== "all" && pacingByCampaign.get(campaign.id)?.status !== pacingFilter) {
+      return false;
+    }
     const searchLower = searchQuery.toLowerCase();
     const adAccountName = getAdAccountName(campaign.adAccountId);
     return (
@@ -296,6 +345,23 @@ export default function CampaignsPage() {
     );
   });
 
+  // Selection survives filtering, but campaigns that no longer exist drop out of it
+  const selectedIds = selectedCampaignIds.filter(id => campaigns.some(campaign => campaign.id === id));
+  const allFilteredSelected = filteredCampaigns.length > 0 && filteredCampaigns.every(campaign => selectedIds.includes(campaign.id));
+
+  const toggleCampaignSelection = (campaignId: string, checked: boolean) => {
+    setSelectedCampaignIds(checked
+      ? [...selectedIds, campaignId]
+      : selectedIds.filter(id => id !== campaignId));
+  };
+
+  const toggleAllFiltered = (checked: boolean) => {
+    const filteredIds = filteredCampaigns.map(campaign => campaign.id);
+    setSelectedCampaignIds(checked
+      ? Array.from(new Set([...selectedIds, ...filteredIds]))
+      : selectedIds.filter(id => !filteredIds.includes(id)));
+  };
+
   // Get client name by ID
   const getClientName = (clientId: string | null) => {
     if (!clientId) return "No Client";
@@ -340,6 +406,7 @@ export default function CampaignsPage() {
     editForm.reset({
       name: campaign.name,
       startDate: new Date(campaign.startDate),
+      endDate: campaign.endDate ? new Date(campaign.endDate) : null,
       comments: campaign.comments || "",
       adAccountId: campaign.adAccountId,
       clientId: campaign.clientId || "",
@@ -530,6 +597,17 @@ export default function CampaignsPage() {
                     />
                   </div>
                 </div>
+                <Select value={pacingFilter} onValueChange={setPacingFilter}>
+                  <SelectTrigger className="w-[180px]" data-testid="select-pacing-filter">
+                    <SelectValue placeholder="Pacing" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Pacing</SelectItem>
+                    {Object.entries(pacingLabels).map(([status, label]) => (
+                      <SelectItem key={status} value={status}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button 
                   variant="outline" 
                   onClick={() => refetchCampaigns()}
@@ -539,6 +617,22 @@ export default function CampaignsPage() {
                   <RefreshCw className={cn("h-4 w-4 mr-2", campaignsLoading && "animate-spin")} />
                   Refresh
                 </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setLocation("/campaigns/spend-grid")}
+                  data-testid="button-spend-grid"
+                >
+                  <Table2 className="h-4 w-4 mr-2" />
+                  Spend Grid
+                </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setLocation("/campaigns/reconciliation")}
+                  data-testid="button-spend-reconciliation"
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Reconcile
+                </Button>
                 <Button 
                   variant="outline" 
                   onClick={handleExport}
@@ -822,6 +916,55 @@ export default function CampaignsPage() {
                             )}
                           />
 
+                          <FormField
+                            control={createForm.control}
+                            name="endDate"
+                            render={({ field }) => (
+                              <FormItem className="flex flex-col">
+                                <FormLabel>End Date (optional)</FormLabel>
+                                <div className="flex gap-2">
+                                  <Popover>
+                                    <PopoverTrigger asChild>
+                                      <FormControl>
+                                        <Button
+                                          variant={"outline"}
+                                          className={cn(
+                                            "w-full pl-3 text-left font-normal",
+                                            !field.value && "text-muted-foreground"
+                                          )}
+                                          data-testid="button-end-date"
+                                        >
+                                          {field.value ? (
+                                            format(field.value, "PPP")
+                                          ) : (
+                                            <span>No end date</span>
+                                          )}
+                                          <Calendar className="ml-auto h-4 w-4 opacity-50" />
+                                        </Button>
+                                      </FormControl>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0" align="start">
+                                      <CalendarComponent
+                                        mode="single"
+                                        selected={field.value ?? undefined}
+                                        onSelect={(date) => field.onChange(date ?? null)}
+                                        disabled={(date) => date < createForm.getValues("startDate")}
+                                        initialFocus
+                                      />
+                                    </PopoverContent>
+                                  </Popover>
+                                  {field.value && (
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => field.onChange(null)}>
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                                <FormDescription>The campaign is completed automatically after this day.</FormDescription>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
                           <FormField
                             control={createForm.control}
                             name="comments"
@@ -1089,15 +1232,57 @@ export default function CampaignsPage() {
           {/* Campaigns Table */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-xl">
-                Campaigns ({filteredCampaigns.length})
-              </CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-xl">
+                  Campaigns ({filteredCampaigns.length})
+                </CardTitle>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={viewMode === "list" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("list")}
+                    data-testid="button-view-list"
+                  >
+                    <List className="h-4 w-4 mr-1" />
+                    List
+                  </Button>
+                  <Button
+                    variant={viewMode === "calendar" ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setViewMode("calendar")}
+                    data-testid="button-view-calendar"
+                  >
+                    <CalendarRange className="h-4 w-4 mr-1" />
+                    Calendar
+                  </Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
+              {viewMode === "calendar" ? (
+                <CampaignFlightCalendar campaigns={filteredCampaigns} />
+              ) : (
+              <>
+              {selectedIds.length > 0 && (
+                <CampaignBulkActions
+                  selectedIds={selectedIds}
+                  clients={clients}
+                  adAccounts={adAccounts}
+                  onClearSelection={() => setSelectedCampaignIds([])}
+                />
+              )}
               <div className="overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allFilteredSelected}
+                          onCheckedChange={(checked) => toggleAllFiltered(checked === true)}
+                          aria-label="Select all campaigns"
+                          data-testid="checkbox-select-all-campaigns"
+                        />
+                      </TableHead>
                       <TableHead>Campaign Name</TableHead>
                       <TableHead>Start Date</TableHead>
                       <TableHead>Comments</TableHead>
@@ -1108,13 +1293,14 @@ export default function CampaignsPage() {
                       <TableHead>Budget</TableHead>
                       <TableHead>Available Balance</TableHead>
                       <TableHead>Total Spend</TableHead>
+                      <TableHead>Pacing</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {campaignsLoading ? (
                       <TableRow>
-                        <TableCell colSpan={11} className="text-center py-8">
+                        <TableCell colSpan={13} className="text-center py-8">
                           <div className="flex items-center justify-center gap-2">
                             <RefreshCw className="h-4 w-4 animate-spin" />
                             Loading campaigns...
@@ -1123,14 +1309,15 @@ export default function CampaignsPage() {
                       </TableRow>
                     ) : filteredCampaigns.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={11} className="text-center py-8 text-gray-500">
-                          {searchQuery ? "No campaigns match your search." : "No campaigns found."}
+                        <TableCell colSpan={13} className="text-center py-8 text-gray-500">
+                          {searchQuery || pacingFilter !== "all" ? "No campaigns match your filters." : "No campaigns found."}
                         </TableCell>
                       </TableRow>
                     ) : (
                       filteredCampaigns.map((campaign) => {
                         const availableBalance = getCampaignAvailableBalance(campaign.adAccountId, campaign.spend);
                         const clientName = getClientName(campaign.clientId);
+                        const campaignPacing = pacingByCampaign.get(campaign.id);
                         
                         return (
                           <TableRow 
@@ -1138,6 +1325,14 @@ export default function CampaignsPage() {
                             className="hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
                             data-testid={`campaign-row-${campaign.id}`}
                           >
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedIds.includes(campaign.id)}
+                                onCheckedChange={(checked) => toggleCampaignSelection(campaign.id, checked === true)}
+                                aria-label={`Select ${campaign.name}`}
+                                data-testid={`checkbox-campaign-${campaign.id}`}
+                              />
+                            </TableCell>
                             <TableCell className="font-medium">
                               <div className="flex items-center gap-2">
                                 <Button
@@ -1214,6 +1409,30 @@ export default function CampaignsPage() {
                             <TableCell data-testid={`total-spend-${campaign.id}`}>
                               {formatCurrency(campaign.spend || "0")}
                             </TableCell>
+                            <TableCell data-testid={`pacing-${campaign.id}`}>
+                              {campaignPacing ? (
+                                <div
+                                  className="space-y-1"
+                                  title={`Run rate ${formatCurrency(campaignPacing.dailyRunRate)}/day • ${campaignPacing.budgetType === "daily" ? "Monthly" : "Total"} budget ${formatCurrency(campaignPacing.monthBudget)}`}
+                                >
+                                  <Badge className={pacingColors[campaignPacing.status]}>
+                                    {pacingLabels[campaignPacing.status]}
+                                  </Badge>
+                                  {campaignPacing.monthBudget > 0 && (
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                                      {formatCurrency(campaignPacing.projectedSpend)} projected
+                                    </div>
+                                  )}
+                                  {campaignPacing.projectedExhaustionDate && campaignPacing.status !== CampaignPacingStatus.INACTIVE && (
+                                    <div className="text-xs text-red-600 dark:text-red-400">
+                                      Runs out {format(new Date(`${campaignPacing.projectedExhaustionDate}T00:00:00`), "MMM dd")}
+                                    </div>
+                                  )}
+                                </div>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
                             <TableCell className="text-right">
                               <div className="flex items-center justify-end gap-2">
                                 <Button
@@ -1224,6 +1443,14 @@ export default function CampaignsPage() {
                                 >
                                   <Edit className="h-3 w-3" />
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setDuplicatingCampaign(campaign)}
+                                  data-testid={`button-duplicate-${campaign.id}`}
+                                >
+                                  <Copy className="h-3 w-3" />
+                                </Button>
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <Button
@@ -1264,6 +1491,8 @@ export default function CampaignsPage() {
                   </TableBody>
                 </Table>
               </div>
+              </>
+              )}
             </CardContent>
           </Card>
 
@@ -1457,6 +1686,55 @@ export default function CampaignsPage() {
                         )}
                       />
 
+                      <FormField
+                        control={editForm.control}
+                        name="endDate"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-col">
+                            <FormLabel>End Date (optional)</FormLabel>
+                            <div className="flex gap-2">
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <FormControl>
+                                    <Button
+                                      variant={"outline"}
+                                      className={cn(
+                                        "w-full pl-3 text-left font-normal",
+                                        !field.value && "text-muted-foreground"
+                                      )}
+                                      data-testid="button-edit-end-date"
+                                    >
+                                      {field.value ? (
+                                        format(field.value, "PPP")
+                                      ) : (
+                                        <span>No end date</span>
+                                      )}
+                                      <Calendar className="ml-auto h-4 w-4 opacity-50" />
+                                    </Button>
+                                  </FormControl>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0" align="start">
+                                  <CalendarComponent
+                                    mode="single"
+                                    selected={field.value ?? undefined}
+                                    onSelect={(date) => field.onChange(date ?? null)}
+                                    disabled={(date) => date < editForm.getValues("startDate")}
+                                    initialFocus
+                                  />
+                                </PopoverContent>
+                              </Popover>
+                              {field.value && (
+                                <Button type="button" variant="ghost" size="sm" onClick={() => field.onChange(null)}>
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                            <FormDescription>The campaign is completed automatically after this day.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={editForm.control}
                         name="comments"
@@ -1496,6 +1774,13 @@ export default function CampaignsPage() {
               )}
             </DialogContent>
           </Dialog>
+
+          <CampaignDuplicateDialog
+            campaign={duplicatingCampaign}
+            clients={clients}
+            adAccounts={adAccounts}
+            onOpenChange={(open) => !open && setDuplicatingCampaign(null)}
+          />
         </div>
       </div>
     </Sidebar>
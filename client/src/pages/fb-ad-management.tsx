@@ -8,7 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { RefreshCw, TrendingUp, MousePointer, Eye, DollarSign, Target, BarChart3, CalendarIcon, Filter } from "lucide-react";
+import { RefreshCw, TrendingUp, MousePointer, Eye, DollarSign, Target, BarChart3, CalendarIcon, Filter, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
@@ -38,7 +38,7 @@ interface AccountInsight {
 interface CampaignInsight {
   id: string;
   adAccountId: string;
-  campaignId: string;
+  fbCampaignId: string;
   campaignName: string;
   status?: string;
   objective?: string;
@@ -53,11 +53,132 @@ interface CampaignInsight {
   roas?: string;
 }
 
+interface AdSetInsight {
+  id: string;
+  fbCampaignId: string;
+  fbAdSetId: string;
+  adSetName: string;
+  date: Date;
+  spend: string;
+  impressions: number;
+  clicks: number;
+  conversions?: number;
+  roas?: string;
+}
+
+interface AdInsight {
+  id: string;
+  fbAdSetId: string;
+  fbAdId: string;
+  adName: string;
+  date: Date;
+  spend: string;
+  impressions: number;
+  clicks: number;
+  conversions?: number;
+  roas?: string;
+}
+
+interface DrillDownRow {
+  id: string;
+  name: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  cpc: number;
+  cpm: number;
+  conversions: number;
+  roas: number;
+}
+
+interface DrillDownSelection {
+  id: string;
+  name: string;
+}
+
+type DailyInsight = Pick<CampaignInsight, 'spend' | 'impressions' | 'clicks' | 'conversions' | 'roas'>;
+
+// Totals per campaign, ad set or ad over the selected period. ROAS is weighted by spend.
+function aggregateInsights<T extends DailyInsight>(insights: T[], getId: (insight: T) => string, getName: (insight: T) => string): DrillDownRow[] {
+  const rows = new Map<string, DrillDownRow & { revenue: number }>();
+  for (const insight of insights) {
+    const id = getId(insight);
+    const row = rows.get(id) || { id, name: getName(insight), spend: 0, impressions: 0, clicks: 0, ctr: 0, cpc: 0, cpm: 0, conversions: 0, roas: 0, revenue: 0 };
+    const spend = parseFloat(insight.spend || "0");
+    row.spend += spend;
+    row.impressions += insight.impressions || 0;
+    row.clicks += insight.clicks || 0;
+    row.conversions += insight.conversions || 0;
+    row.revenue += spend * parseFloat(insight.roas || "0");
+    rows.set(id, row);
+  }
+  return Array.from(rows.values())
+    .map(({ revenue, ...row }) => ({
+      ...row,
+      ctr: row.impressions > 0 ? (row.clicks / row.impressions) * 100 : 0,
+      cpc: row.clicks > 0 ? row.spend / row.clicks : 0,
+      cpm: row.impressions > 0 ? (row.spend / row.impressions) * 1000 : 0,
+      roas: row.spend > 0 ? revenue / row.spend : 0,
+    }))
+    .sort((a, b) => b.spend - a.spend);
+}
+
+function DrillDownTable({ rows, label, onSelect }: { rows: DrillDownRow[]; label: string; onSelect?: (row: DrillDownRow) => void }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Spend</TableHead>
+            <TableHead className="text-right">Impressions</TableHead>
+            <TableHead className="text-right">Clicks</TableHead>
+            <TableHead className="text-right">CTR</TableHead>
+            <TableHead className="text-right">CPC</TableHead>
+            <TableHead className="text-right">CPM</TableHead>
+            <TableHead className="text-right">Conversions</TableHead>
+            <TableHead className="text-right">ROAS</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.id} data-testid={`drilldown-row-${row.id}`}>
+              <TableCell className="font-medium">
+                {onSelect ? (
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-left text-blue-600 hover:underline dark:text-blue-400"
+                    onClick={() => onSelect(row)}
+                  >
+                    {row.name}
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                ) : row.name}
+              </TableCell>
+              <TableCell className="text-right">${row.spend.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{row.impressions.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.clicks.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.ctr.toFixed(2)}%</TableCell>
+              <TableCell className="text-right">${row.cpc.toFixed(2)}</TableCell>
+              <TableCell className="text-right">${row.cpm.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{row.conversions.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.roas > 0 ? `${row.roas.toFixed(2)}x` : '-'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
 export default function FBAdManagementPage() {
   const { toast } = useToast();
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
   const [startDate, setStartDate] = useState<Date>(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
   const [endDate, setEndDate] = useState<Date>(new Date());
+  const [drillCampaign, setDrillCampaign] = useState<DrillDownSelection | null>(null);
+  const [drillAdSet, setDrillAdSet] = useState<DrillDownSelection | null>(null);
 
   // Fetch Facebook ad accounts
   const { data: adAccounts = [], isLoading: accountsLoading } = useQuery<AdAccount[]>({
@@ -102,6 +223,52 @@ export default function FBAdManagementPage() {
     enabled: !!selectedAccountId,
   });
 
+  // Fetch ad set insights of the campaign being drilled into
+  const { data: adSetInsights = [], isLoading: adSetsLoading } = useQuery<AdSetInsight[]>({
+    queryKey: ["/api/facebook/adsets", selectedAccountId, drillCampaign?.id, startDate.toISOString(), endDate.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        fbCampaignId: drillCampaign!.id,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      const response = await fetch(`/api/facebook/adsets/${selectedAccountId}?${params}`, {
+        headers: {
+          "Authorization": `Bearer ${localStorage.getItem("authToken")}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch ad sets");
+      return response.json();
+    },
+    enabled: !!selectedAccountId && !!drillCampaign,
+  });
+
+  // Fetch ad insights of the ad set being drilled into
+  const { data: adInsights = [], isLoading: adsLoading } = useQuery<AdInsight[]>({
+    queryKey: ["/api/facebook/ads", selectedAccountId, drillAdSet?.id, startDate.toISOString(), endDate.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        fbAdSetId: drillAdSet!.id,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      const response = await fetch(`/api/facebook/ads/${selectedAccountId}?${params}`, {
+        headers: {
+          "Authorization": `Bearer ${localStorage.getItem("authToken")}`,
+        },
+      });
+      if (!response.ok) throw new Error("Failed to fetch ads");
+      return response.json();
+    },
+    enabled: !!selectedAccountId && !!drillAdSet,
+  });
+
+  const handleAccountChange = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    setDrillCampaign(null);
+    setDrillAdSet(null);
+  };
+
   // Sync data mutation
   const syncMutation = useMutation({
     mutationFn: async () => {
@@ -124,6 +291,8 @@ export default function FBAdManagementPage() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/facebook/insights"] });
       queryClient.invalidateQueries({ queryKey: ["/api/facebook/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facebook/adsets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facebook/ads"] });
     },
     onError: (error: any) => {
       toast({
@@ -231,7 +400,7 @@ export default function FBAdManagementPage() {
                 </p>
               </div>
               <div className="flex gap-3">
-                <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+                <Select value={selectedAccountId} onValueChange={handleAccountChange}>
                   <SelectTrigger className="w-64" data-testid="select-fb-account">
                     <SelectValue placeholder="Select ad account" />
                   </SelectTrigger>
@@ -479,6 +648,7 @@ export default function FBAdManagementPage() {
                 <TabsList>
                   <TabsTrigger value="account">Account Insights</TabsTrigger>
                   <TabsTrigger value="campaigns">Campaign Insights</TabsTrigger>
+                  <TabsTrigger value="drilldown">Drill-down</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="account" className="space-y-4">
@@ -612,6 +782,93 @@ export default function FBAdManagementPage() {
                     </CardContent>
                   </Card>
                 </TabsContent>
+
+                <TabsContent value="drilldown" className="space-y-4">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Campaign Drill-down</CardTitle>
+                      <CardDescription>
+                        <span className="flex flex-wrap items-center gap-1">
+                          <button
+                            type="button"
+                            className={drillCampaign ? "text-blue-600 hover:underline dark:text-blue-400" : ""}
+                            onClick={() => { setDrillCampaign(null); setDrillAdSet(null); }}
+                            data-testid="breadcrumb-campaigns"
+                          >
+                            All Campaigns
+                          </button>
+                          {drillCampaign && (
+                            <>
+                              <ChevronRight className="w-4 h-4" />
+                              <button
+                                type="button"
+                                className={drillAdSet ? "text-blue-600 hover:underline dark:text-blue-400" : ""}
+                                onClick={() => setDrillAdSet(null)}
+                                data-testid="breadcrumb-campaign"
+                              >
+                                {drillCampaign.name}
+                              </button>
+                            </>
+                          )}
+                          {drillAdSet && (
+                            <>
+                              <ChevronRight className="w-4 h-4" />
+                              <span>{drillAdSet.name}</span>
+                            </>
+                          )}
+                        </span>
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {drillAdSet ? (
+                        adsLoading ? (
+                          <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                            Loading ads...
+                          </div>
+                        ) : adInsights.length === 0 ? (
+                          <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                            No ad data for this ad set in the selected period.
+                          </div>
+                        ) : (
+                          <DrillDownTable
+                            label="Ad"
+                            rows={aggregateInsights(adInsights, insight => insight.fbAdId, insight => insight.adName)}
+                          />
+                        )
+                      ) : drillCampaign ? (
+                        adSetsLoading ? (
+                          <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                            Loading ad sets...
+                          </div>
+                        ) : adSetInsights.length === 0 ? (
+                          <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                            No ad set data for this campaign in the selected period. Click "Sync Data" to fetch the latest insights.
+                          </div>
+                        ) : (
+                          <DrillDownTable
+                            label="Ad Set"
+                            rows={aggregateInsights(adSetInsights, insight => insight.fbAdSetId, insight => insight.adSetName)}
+                            onSelect={(row) => setDrillAdSet({ id: row.id, name: row.name })}
+                          />
+                        )
+                      ) : campaignsLoading ? (
+                        <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                          Loading campaigns...
+                        </div>
+                      ) : campaignInsights.length === 0 ? (
+                        <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+                          No campaign data available. Click "Sync Data" to fetch the latest insights.
+                        </div>
+                      ) : (
+                        <DrillDownTable
+                          label="Campaign"
+                          rows={aggregateInsights(campaignInsights, insight => insight.fbCampaignId, insight => insight.campaignName)}
+                          onSelect={(row) => setDrillCampaign({ id: row.id, name: row.name })}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
               </Tabs>
             </>
           )}
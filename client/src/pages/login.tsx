@@ -7,7 +7,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
-import { Loader2, Eye, EyeOff } from "lucide-react";
+import { Loader2, Eye, EyeOff, ShieldCheck } from "lucide-react";
 
 interface LoginResponse {
   user: {
@@ -16,6 +16,15 @@ interface LoginResponse {
   };
   token: string;
   expiresAt: string;
+  recoveryCodes?: string[];
+}
+
+interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  setupRequired?: boolean;
+  secret?: string;
+  otpauthUrl?: string;
 }
 
 export default function Login() {
@@ -23,6 +32,9 @@ export default function Login() {
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState({ username: "", password: "" });
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [pendingLogin, setPendingLogin] = useState<LoginResponse | null>(null);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
@@ -61,39 +73,95 @@ export default function Login() {
     setErrors(prev => ({ ...prev, password: error }));
   };
 
+  const completeLogin = (data: LoginResponse) => {
+    // Store token in localStorage
+    localStorage.setItem("authToken", data.token);
+    localStorage.setItem("user", JSON.stringify(data.user));
+    
+    // Dispatch custom event to notify auth state change
+    window.dispatchEvent(new Event("auth-change"));
+    
+    toast({
+      title: "Login successful!",
+      description: "Welcome to Advantix Admin.",
+    });
+    
+    // Redirect to home after a short delay
+    setTimeout(() => {
+      setLocation("/");
+    }, 1000);
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: { username: string; password: string }) => {
       const response = await apiRequest("POST", "/api/auth/login", credentials);
-      return response.json() as Promise<LoginResponse>;
+      return response.json() as Promise<LoginResponse | TwoFactorChallenge>;
     },
     onSuccess: (data) => {
-      // Store token in localStorage
-      localStorage.setItem("authToken", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
-      
-      // Dispatch custom event to notify auth state change
-      window.dispatchEvent(new Event("auth-change"));
-      
-      toast({
-        title: "Login successful!",
-        description: "Welcome to Advantix Admin.",
-      });
-      
-      // Redirect to home after a short delay
-      setTimeout(() => {
-        setLocation("/");
-      }, 1000);
+      if ("twoFactorRequired" in data) {
+        // Password accepted - continue with the authenticator code step
+        setTwoFactorChallenge(data);
+        setTwoFactorCode("");
+        return;
+      }
+      completeLogin(data);
     },
     onError: (error) => {
+      // Throttled attempts (429) carry a message with the wait time
+      let description = "Invalid username or password. Please try again.";
+      if (error.message.startsWith("429")) {
+        try {
+          description = JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+        } catch {
+          description = "Too many failed login attempts. Please try again later.";
+        }
+      }
       toast({
         title: "Login failed",
-        description: "Invalid username or password. Please try again.",
+        description,
         variant: "destructive",
       });
       setPassword("");
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (payload: { challengeToken: string; code: string }) => {
+      const response = await apiRequest("POST", "/api/auth/login/2fa", payload);
+      return response.json() as Promise<LoginResponse>;
+    },
+    onSuccess: (data) => {
+      if (data.recoveryCodes?.length) {
+        // Just enrolled - show the recovery codes before continuing
+        setPendingLogin(data);
+        return;
+      }
+      completeLogin(data);
+    },
+    onError: (error: any) => {
+      const expired = error.message?.includes("expired");
+      toast({
+        title: "Verification failed",
+        description: expired ? "Your verification expired. Please log in again." : "Invalid verification code. Please try again.",
+        variant: "destructive",
+      });
+      setTwoFactorCode("");
+      if (expired) {
+        setTwoFactorChallenge(null);
+        setPassword("");
+      }
+    },
+  });
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge || !twoFactorCode.trim()) return;
+    verifyTwoFactorMutation.mutate({
+      challengeToken: twoFactorChallenge.challengeToken,
+      code: twoFactorCode.trim(),
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -134,7 +202,103 @@ export default function Login() {
               </p>
             </div>
 
-            {/* Login Form */}
+            {pendingLogin ? (
+              /* Recovery codes shown once after enrolling during login */
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-green-700">
+                  <ShieldCheck className="h-5 w-5" />
+                  <p className="font-medium">Two-factor authentication enabled</p>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Save these recovery codes somewhere safe. Each code can be used once if you lose access to your authenticator app.
+                </p>
+                <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm" data-testid="recovery-codes">
+                  {pendingLogin.recoveryCodes?.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => completeLogin(pendingLogin)}
+                  data-testid="button-recovery-codes-continue"
+                >
+                  I have saved my codes
+                </Button>
+              </div>
+            ) : twoFactorChallenge ? (
+              /* Second step - authenticator code */
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-5">
+                {twoFactorChallenge.setupRequired && (
+                  <div className="space-y-2 rounded-lg border border-blue-100 bg-blue-50 p-4 text-sm text-gray-700">
+                    <p className="font-medium text-gray-900">Two-factor authentication is required for your account</p>
+                    <p>
+                      Add this key to an authenticator app (Google Authenticator, Authy, 1Password...), then enter the 6-digit code it shows.
+                    </p>
+                    <p className="break-all font-mono text-base tracking-wider text-gray-900" data-testid="text-2fa-secret">
+                      {twoFactorChallenge.secret}
+                    </p>
+                    {twoFactorChallenge.otpauthUrl && (
+                      <a href={twoFactorChallenge.otpauthUrl} className="text-blue-600 hover:underline">
+                        Open in authenticator app
+                      </a>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code" className="text-sm font-medium text-gray-700">
+                    Verification Code
+                  </Label>
+                  <Input
+                    id="two-factor-code"
+                    name="two-factor-code"
+                    type="text"
+                    inputMode="text"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="w-full px-4 py-3 border rounded-lg bg-gray-50 focus:bg-white text-gray-900 tracking-widest"
+                    autoFocus
+                    data-testid="input-2fa-code"
+                  />
+                  {!twoFactorChallenge.setupRequired && (
+                    <p className="text-xs text-gray-500">
+                      Enter the code from your authenticator app, or one of your recovery codes.
+                    </p>
+                  )}
+                </div>
+                <Button
+                  type="submit"
+                  disabled={verifyTwoFactorMutation.isPending || !twoFactorCode.trim()}
+                  className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold py-3 px-4 rounded-lg"
+                  data-testid="button-verify-2fa"
+                >
+                  {verifyTwoFactorMutation.isPending ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Verify"
+                  )}
+                </Button>
+                <div className="text-center">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTwoFactorChallenge(null);
+                      setTwoFactorCode("");
+                      setPassword("");
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-700 hover:underline"
+                    data-testid="button-2fa-back"
+                  >
+                    Back to login
+                  </button>
+                </div>
+              </form>
+            ) : (
+            /* Login Form */
             <form onSubmit={handleSubmit} className="space-y-5">
               {/* Username Field */}
               <div className="space-y-2">
@@ -227,7 +391,7 @@ export default function Login() {
                   type="button"
                   onClick={() => toast({
                     title: "Password Reset",
-                    description: "In production, this would send a reset email to your registered email address.",
+                    description: "Ask an administrator to send a password reset link to your email address.",
                     duration: 5000,
                   })}
                   className="text-sm text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-200"
@@ -237,6 +401,7 @@ export default function Login() {
                 </button>
               </div>
             </form>
+            )}
           </CardContent>
         </Card>
 
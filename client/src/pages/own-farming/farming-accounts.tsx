@@ -53,7 +53,7 @@ import {
   Filter,
   X
 } from "lucide-react";
-import type { FarmingAccount, InsertFarmingAccount, FarmingAccountWithSecrets, User as UserType } from "@shared/schema";
+import type { FarmingAccount, InsertFarmingAccount, FarmingAccountWithSecrets, User as UserType, AuthUser } from "@shared/schema";
 import Sidebar from "@/components/layout/Sidebar";
 
 interface FarmingAccountsPageProps {
@@ -97,11 +97,11 @@ export default function FarmingAccountsPage({
   });
 
   // Get current user
-  const { data: currentUser } = useQuery<UserType>({
+  const { data: currentUser } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
   });
 
-  const isAdmin = currentUser?.role === 'admin' || currentUser?.role === 'super_admin';
+  const isAdmin = currentUser?.isAdmin ?? false;
 
   // Fetch farming accounts
   const { data: accounts = [], isLoading } = useQuery<FarmingAccount[]>({
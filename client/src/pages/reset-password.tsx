@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { describePasswordPolicy, getApiErrorMessage, type PasswordPolicy } from "@/lib/password-policy";
+import { useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+
+interface PasswordResetInfo {
+  username: string;
+  expiresAt: string;
+  policy: PasswordPolicy;
+}
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: resetInfo, isLoading, error } = useQuery<PasswordResetInfo>({
+    queryKey: ["/api/auth/password-reset", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/password-reset", { token, newPassword });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Password reset",
+        description: data.message,
+      });
+      setLocation("/login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error resetting password",
+        description: getApiErrorMessage(error, "Failed to reset password"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordsMatch = newPassword === confirmPassword;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPassword || !passwordsMatch) return;
+    resetMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-md">
+        <Card className="bg-white rounded-2xl shadow-xl border border-gray-100">
+          <CardContent className="p-8 space-y-6">
+            <div className="text-center space-y-2">
+              <h1 className="text-3xl font-bold text-gray-900 tracking-tight">
+                Reset Password
+              </h1>
+              {resetInfo && (
+                <p className="text-gray-600 text-sm">
+                  Choose a new password for <strong>{resetInfo.username}</strong>
+                </p>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : !token || error || !resetInfo ? (
+              <div className="space-y-4 text-center">
+                <p className="text-sm text-gray-600" data-testid="text-reset-invalid">
+                  This reset link is invalid or has expired. Ask an administrator to send you a new one.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setLocation("/login")}>
+                  Back to login
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-new-password" className="text-sm font-medium text-gray-700">
+                    New Password
+                  </Label>
+                  <Input
+                    id="reset-new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className="w-full px-4 py-3 border rounded-lg bg-gray-50 focus:bg-white text-gray-900"
+                    autoFocus
+                    data-testid="input-reset-new-password"
+                  />
+                  <ul className="list-disc pl-5 text-xs text-gray-500">
+                    {describePasswordPolicy(resetInfo.policy).map((rule) => (
+                      <li key={rule}>{rule}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-password" className="text-sm font-medium text-gray-700">
+                    Confirm Password
+                  </Label>
+                  <Input
+                    id="reset-confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full px-4 py-3 border rounded-lg bg-gray-50 focus:bg-white text-gray-900"
+                    data-testid="input-reset-confirm-password"
+                  />
+                  {confirmPassword && !passwordsMatch && (
+                    <p className="text-sm text-red-600">Passwords do not match</p>
+                  )}
+                </div>
+                <Button
+                  type="submit"
+                  disabled={!newPassword || !passwordsMatch || resetMutation.isPending}
+                  className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold py-3 px-4 rounded-lg"
+                  data-testid="button-reset-password"
+                >
+                  {resetMutation.isPending ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Reset Password"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
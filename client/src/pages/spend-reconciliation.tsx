@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import Sidebar from "@/components/layout/Sidebar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, CheckCircle, GitCompare, History, RefreshCw } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  ReconciliationDecision,
+  type Campaign,
+  type SpendReconciliationDecision,
+  type SpendReconciliationRow,
+} from "@shared/schema";
+
+type DecisionValue = typeof ReconciliationDecision[keyof typeof ReconciliationDecision];
+
+const UNDECIDED = "undecided";
+
+const decisionLabels: Record<string, string> = {
+  [ReconciliationDecision.ACCEPT_FACEBOOK]: "Accept Facebook",
+  [ReconciliationDecision.KEEP_MANUAL]: "Keep Manual",
+};
+
+const rowKey = (row: { campaignId: string; date: string }) => `${row.campaignId}|${row.date}`;
+
+export default function SpendReconciliationPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [tolerance, setTolerance] = useState("1");
+  const [choices, setChoices] = useState<Record<string, DecisionValue>>({});
+
+  const toleranceValue = tolerance === "" ? "0" : tolerance;
+  const rangeParams = new URLSearchParams({ startDate, endDate }).toString();
+
+  const { data: rows = [], isLoading, refetch, isFetching } = useQuery<SpendReconciliationRow[]>({
+    queryKey: ["/api/campaigns/reconciliation", startDate, endDate, toleranceValue],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/campaigns/reconciliation?${rangeParams}&tolerance=${encodeURIComponent(toleranceValue)}`);
+      return response.json();
+    },
+  });
+
+  const { data: decisionLog = [] } = useQuery<SpendReconciliationDecision[]>({
+    queryKey: ["/api/campaigns/reconciliation/decisions", startDate, endDate],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/campaigns/reconciliation/decisions?${rangeParams}`);
+      return response.json();
+    },
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const getCampaignName = (campaignId: string) => campaigns.find(campaign => campaign.id === campaignId)?.name || "Unknown Campaign";
+
+  const chosenRows = rows.filter(row => choices[rowKey(row)]);
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const decisions = chosenRows.map(row => ({
+        campaignId: row.campaignId,
+        date: row.date,
+        decision: choices[rowKey(row)],
+      }));
+      const response = await apiRequest("POST", "/api/campaigns/reconciliation/decisions", { decisions });
+      return response.json();
+    },
+    onSuccess: (data: { accepted: number; kept: number }) => {
+      setChoices({});
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/reconciliation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/reconciliation/decisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/daily-spends"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns/pacing"] });
+      toast({
+        title: "Success!",
+        description: `Accepted ${data.accepted} Facebook amount(s), kept ${data.kept} manual amount(s).`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply decisions.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setChoice = (row: SpendReconciliationRow, value: string) => {
+    const next = { ...choices };
+    if (value === UNDECIDED) {
+      delete next[rowKey(row)];
+    } else {
+      next[rowKey(row)] = value as DecisionValue;
+    }
+    setChoices(next);
+  };
+
+  const chooseAll = (decision: DecisionValue) => {
+    setChoices(Object.fromEntries(rows.map(row => [rowKey(row), decision])));
+  };
+
+  const formatCurrency = (amount: number | string) => {
+    const numAmount = typeof amount === "string" ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(numAmount);
+  };
+
+  // Days are UTC dates, shown as calendar days
+  const formatDay = (day: string | Date) => {
+    const dayString = typeof day === "string" ? day : new Date(day).toISOString().split("T")[0];
+    return format(new Date(`${dayString}T00:00:00`), "MMM dd, yyyy");
+  };
+
+  return (
+    <Sidebar>
+      <div className="flex-1 overflow-auto">
+        <div className="p-6 space-y-6">
+          <div>
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/campaigns")}
+              className="mb-4"
+              data-testid="button-back-to-campaigns"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Campaign Management
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Spend Reconciliation
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Compare manual daily spend with Facebook reported spend
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-end gap-4 flex-wrap">
+                <div className="space-y-1">
+                  <Label htmlFor="reconciliation-start">Start Date</Label>
+                  <Input
+                    id="reconciliation-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => { setStartDate(e.target.value); setChoices({}); }}
+                    data-testid="input-reconciliation-start"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reconciliation-end">End Date</Label>
+                  <Input
+                    id="reconciliation-end"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => { setEndDate(e.target.value); setChoices({}); }}
+                    data-testid="input-reconciliation-end"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reconciliation-tolerance">Tolerance ($)</Label>
+                  <Input
+                    id="reconciliation-tolerance"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={tolerance}
+                    onChange={(e) => setTolerance(e.target.value)}
+                    className="w-[120px]"
+                    data-testid="input-reconciliation-tolerance"
+                  />
+                </div>
+                <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-reconciliation">
+                  <RefreshCw className={cn("h-4 w-4 mr-2", isFetching && "animate-spin")} />
+                  Refresh
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitCompare className="h-5 w-5 text-blue-600" />
+                    Differences ({rows.length})
+                  </CardTitle>
+                  <CardDescription>
+                    Days kept as manual stay hidden until either amount changes.
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Button variant="outline" size="sm" onClick={() => chooseAll(ReconciliationDecision.ACCEPT_FACEBOOK)} disabled={rows.length === 0} data-testid="button-accept-all-facebook">
+                    Accept All Facebook
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => chooseAll(ReconciliationDecision.KEEP_MANUAL)} disabled={rows.length === 0} data-testid="button-keep-all-manual">
+                    Keep All Manual
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setChoices({})} disabled={chosenRows.length === 0} data-testid="button-clear-choices">
+                    Clear
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => applyMutation.mutate()}
+                    disabled={chosenRows.length === 0 || applyMutation.isPending}
+                    data-testid="button-apply-decisions"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {applyMutation.isPending ? "Applying..." : `Apply (${chosenRows.length})`}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead className="text-right">Manual</TableHead>
+                      <TableHead className="text-right">Facebook</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead>Decision</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                          Loading...
+                        </TableCell>
+                      </TableRow>
+                    ) : rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                          Manual and Facebook spend match for this period.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      rows.map(row => (
+                        <TableRow key={rowKey(row)} data-testid={`reconciliation-row-${rowKey(row)}`}>
+                          <TableCell>{formatDay(row.date)}</TableCell>
+                          <TableCell className="font-medium">{row.campaignName}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.manualAmount)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.facebookAmount)}</TableCell>
+                          <TableCell className={cn("text-right font-medium", row.difference > 0 ? "text-red-600" : "text-green-600")}>
+                            {row.difference > 0 ? "+" : ""}{formatCurrency(row.difference)}
+                          </TableCell>
+                          <TableCell>
+                            <Select value={choices[rowKey(row)] || UNDECIDED} onValueChange={(value) => setChoice(row, value)}>
+                              <SelectTrigger className="w-[170px]" data-testid={`select-decision-${rowKey(row)}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNDECIDED}>Undecided</SelectItem>
+                                <SelectItem value={ReconciliationDecision.ACCEPT_FACEBOOK}>Accept Facebook</SelectItem>
+                                <SelectItem value={ReconciliationDecision.KEEP_MANUAL}>Keep Manual</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5 text-blue-600" />
+                Decision Log
+              </CardTitle>
+              <CardDescription>
+                Decisions taken for days in the selected period, newest first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Decided</TableHead>
+                      <TableHead>Day</TableHead>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead className="text-right">Manual</TableHead>
+                      <TableHead className="text-right">Facebook</TableHead>
+                      <TableHead>Decision</TableHead>
+                      <TableHead>By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {decisionLog.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                          No decisions recorded yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      decisionLog.map(entry => (
+                        <TableRow key={entry.id} data-testid={`decision-log-${entry.id}`}>
+                          <TableCell>{entry.createdAt ? format(new Date(entry.createdAt), "MMM dd, HH:mm") : ""}</TableCell>
+                          <TableCell>{formatDay(entry.date)}</TableCell>
+                          <TableCell>{getCampaignName(entry.campaignId)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(entry.manualAmount)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(entry.facebookAmount)}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.decision === ReconciliationDecision.ACCEPT_FACEBOOK ? "default" : "secondary"}>
+                              {decisionLabels[entry.decision] || entry.decision}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{entry.decidedByName}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Sidebar>
+  );
+}
@@ -69,7 +69,7 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { z } from "zod";
-import { insertWorkReportSchema, type WorkReport, type User, UserRole } from "@shared/schema";
+import { insertWorkReportSchema, type WorkReport, type User, type Client, type AuthUser } from "@shared/schema";
 import Sidebar from "@/components/layout/Sidebar";
 
 // Form schemas
@@ -113,7 +113,10 @@ export default function WorkReportsPage() {
   // Get current user info
   const userStr = localStorage.getItem("user");
   const currentUser = userStr ? JSON.parse(userStr) : null;
-  const isAdmin = currentUser?.role === UserRole.ADMIN || currentUser?.role === UserRole.SUPER_ADMIN;
+  const { data: authUser } = useQuery<AuthUser>({
+    queryKey: ["/api/auth/user"],
+  });
+  const isAdmin = authUser?.isAdmin ?? false;
 
   // Fetch work reports
   const { data: workReports = [], isLoading, error, refetch } = useQuery<WorkReport[]>({
@@ -126,6 +129,11 @@ export default function WorkReportsPage() {
     enabled: isAdmin, // Only fetch if user is admin
   });
 
+  // Fetch clients the user can link a work report to (already limited to their assigned clients)
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
   // Create work report mutation
   const createMutation = useMutation({
     mutationFn: async (data: WorkReportFormData) => {
@@ -141,6 +149,7 @@ export default function WorkReportsPage() {
         hoursWorked: hoursWorked.toString(),
         status: data.status,
         userId: data.userId,
+        clientId: data.clientId || null,
       });
       return response.json();
     },
@@ -176,6 +185,7 @@ export default function WorkReportsPage() {
         hoursWorked: hoursWorked.toString(),
         status: data.status,
         userId: data.userId,
+        clientId: data.clientId || null,
       });
       return response.json();
     },
@@ -230,6 +240,7 @@ export default function WorkReportsPage() {
       date: new Date(),
       status: "submitted",
       userId: currentUser?.id || "",
+      clientId: null,
     },
   });
 
@@ -266,6 +277,7 @@ export default function WorkReportsPage() {
       date: new Date(workReport.date),
       status: workReport.status,
       userId: workReport.userId,
+      clientId: workReport.clientId,
     });
     setIsEditDialogOpen(true);
   };
@@ -546,6 +558,7 @@ export default function WorkReportsPage() {
       date: new Date(),
       status: "submitted",
       userId: currentUser?.id || "",
+      clientId: null,
     });
     setIsCreateDialogOpen(true);
   };
@@ -944,6 +957,34 @@ export default function WorkReportsPage() {
                   />
                 )}
 
+                {clients.length > 0 && (
+                  <FormField
+                    control={createForm.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Client (optional)</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(value === "none" ? null : value)} value={field.value || "none"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-client">
+                              <SelectValue placeholder="Select client" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No client</SelectItem>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id}>
+                                {client.clientName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={createForm.control}
                   name="date"
@@ -1130,6 +1171,34 @@ export default function WorkReportsPage() {
                   />
                 )}
 
+                {clients.length > 0 && (
+                  <FormField
+                    control={editForm.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Client (optional)</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(value === "none" ? null : value)} value={field.value || "none"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-edit-client">
+                              <SelectValue placeholder="Select client" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No client</SelectItem>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id}>
+                                {client.clientName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={editForm.control}
                   name="date"
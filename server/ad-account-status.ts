@@ -0,0 +1,34 @@
+import type { AdAccount, AdAccountStatusChange } from "@shared/schema";
+import { storage } from "./storage";
+import { sendAdAccountActivationEmail, sendAdAccountSuspensionEmail } from "./email-sender";
+import { sendAdAccountStatusSms } from "./sms-sender";
+
+// Email and SMS go out only for the alerts the client opted into
+async function notifyClient(change: AdAccountStatusChange, adAccount: AdAccount): Promise<void> {
+  if (!adAccount.clientId) return;
+  const client = await storage.getClient(adAccount.clientId);
+  if (!client) return;
+
+  const preferences = await storage.getClientEmailPreferences(client.id);
+  const isActivation = change.toStatus === 'active';
+  const wantsAlert = isActivation ? preferences?.enableAdAccountActivationAlerts : preferences?.enableAdAccountSuspensionAlerts;
+  if (!preferences?.enableNotifications || !wantsAlert) {
+    console.log(`[Ad Account Status] ${client.clientName} has not opted into ${isActivation ? 'activation' : 'suspension'} alerts`);
+    return;
+  }
+
+  const sendEmail = isActivation ? sendAdAccountActivationEmail : sendAdAccountSuspensionEmail;
+  const emailSent = client.email ? await sendEmail(adAccount, client) : false;
+  const smsSent = await sendAdAccountStatusSms(adAccount, client, change.toStatus);
+  await storage.updateAdAccountStatusChangeNotifications(change.id, {
+    emailSentTo: emailSent ? client.email : null,
+    smsSentTo: smsSent ? client.phone : null,
+  });
+}
+
+// Notifies the client of a recorded status change in the background
+export function notifyAdAccountStatusChange(change: AdAccountStatusChange, adAccount: AdAccount): void {
+  notifyClient(change, adAccount).catch(error => {
+    console.error(`[Ad Account Status] Failed to notify the client of ad account ${adAccount.id}:`, error);
+  });
+}
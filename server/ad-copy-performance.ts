@@ -0,0 +1,103 @@
+import type {
+  AdCopySet,
+  AdCopySetPerformance,
+  AdCopySetPeriod,
+  CampaignDailySpend,
+  FacebookCampaignInsight,
+} from "@shared/schema";
+import { toDayKey } from "./spend-reconciliation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toAmount(value: string | null | undefined): number {
+  const amount = parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Earliest day any period touches, for loading insights
+export function getPeriodsStart(periods: AdCopySetPeriod[]): Date | null {
+  if (periods.length === 0) return null;
+  const start = new Date(Math.min(...periods.map(period => period.startedAt.getTime())));
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * A day belongs to the set that was live at the end of it (or now, for
+ * today), so the day a set is switched counts for the new set. Days are
+ * listed from the first period start until today.
+ */
+function attributeDays(periods: AdCopySetPeriod[], now: Date): Map<string, Set<string>> {
+  const daysBySet = new Map<string, Set<string>>();
+  const start = getPeriodsStart(periods);
+  if (!start) return daysBySet;
+
+  for (let day = start; day <= now; day = new Date(day.getTime() + DAY_MS)) {
+    const dayEnd = new Date(day.getTime() + DAY_MS);
+    const cutoff = dayEnd < now ? dayEnd : now;
+    for (const period of periods) {
+      if (period.startedAt > cutoff) continue;
+      if (period.endedAt && period.endedAt < cutoff) continue;
+      const days = daysBySet.get(period.adCopySetId) || new Set<string>();
+      days.add(toDayKey(day));
+      daysBySet.set(period.adCopySetId, days);
+    }
+  }
+  return daysBySet;
+}
+
+// Spend and insight totals for each ad copy set over the days it was live
+export function attributeAdCopyPerformance(
+  sets: AdCopySet[],
+  periods: AdCopySetPeriod[],
+  spends: CampaignDailySpend[],
+  insights: FacebookCampaignInsight[],
+  now: Date = new Date(),
+): AdCopySetPerformance[] {
+  const daysBySet = attributeDays(periods, now);
+  const spendByDay = new Map(spends.map(spend => [toDayKey(spend.date), toAmount(spend.amount)]));
+  const insightByDay = new Map(insights.map(insight => [toDayKey(insight.date), insight]));
+
+  return sets.map(set => {
+    const days = Array.from(daysBySet.get(set.id) || []);
+    let spend = 0;
+    let facebookSpend = 0;
+    let impressions = 0;
+    let clicks = 0;
+    let conversions = 0;
+    for (const day of days) {
+      spend += spendByDay.get(day) || 0;
+      const insight = insightByDay.get(day);
+      if (!insight) continue;
+      facebookSpend += toAmount(insight.spend);
+      impressions += insight.impressions || 0;
+      clicks += insight.clicks || 0;
+      conversions += insight.conversions || 0;
+    }
+
+    return {
+      adCopySetId: set.id,
+      setName: set.setName,
+      isActive: set.isActive || false,
+      periods: periods
+        .filter(period => period.adCopySetId === set.id)
+        .map(period => ({
+          startedAt: period.startedAt.toISOString(),
+          endedAt: period.endedAt ? period.endedAt.toISOString() : null,
+        })),
+      activeDays: days.length,
+      spend: round(spend),
+      facebookSpend: round(facebookSpend),
+      impressions,
+      clicks,
+      conversions,
+      ctr: impressions > 0 ? Math.round((clicks / impressions) * 10000) / 100 : null,
+      cpc: clicks > 0 ? round(facebookSpend / clicks) : null,
+      costPerConversion: conversions > 0 ? round(facebookSpend / conversions) : null,
+    };
+  });
+}
@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { AD_PLATFORM_LABELS, isSupportedAdPlatform, type AdPlatformAdapter } from "./ad-platforms";
+import { FacebookAdapter } from "./facebook-adapter";
+import { TiktokAdapter } from "./tiktok-adapter";
+
+export async function getFacebookAdapter(): Promise<FacebookAdapter | null> {
+  const settings = await storage.getFacebookSettings();
+  if (!settings || !settings.accessToken) return null;
+  return new FacebookAdapter(settings.accessToken);
+}
+
+// Adapter built from the saved settings, or null when the platform is not set up
+export async function getAdPlatformAdapter(platform: string): Promise<AdPlatformAdapter | null> {
+  switch (platform.toLowerCase()) {
+    case 'facebook':
+      return getFacebookAdapter();
+    case 'tiktok': {
+      const settings = await storage.getTiktokSettings();
+      if (!settings || !settings.accessToken) return null;
+      return new TiktokAdapter(settings);
+    }
+    default:
+      return null;
+  }
+}
+
+export function getNotConfiguredMessage(platform: string): string {
+  const key = platform.toLowerCase();
+  return isSupportedAdPlatform(key)
+    ? `${AD_PLATFORM_LABELS[key]} settings not configured`
+    : `The ${platform} platform is not supported`;
+}
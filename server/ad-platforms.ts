@@ -0,0 +1,101 @@
+// Platforms with an adapter. Ad accounts on any other platform are managed by hand.
+export const SUPPORTED_AD_PLATFORMS = ['facebook', 'tiktok'] as const;
+export type AdPlatform = typeof SUPPORTED_AD_PLATFORMS[number];
+
+export const AD_PLATFORM_LABELS: Record<AdPlatform, string> = {
+  facebook: 'Facebook',
+  tiktok: 'TikTok',
+};
+
+// Error reported by a platform API, as opposed to a failure on our side
+export class AdPlatformError extends Error {
+  constructor(public platform: AdPlatform, message: string) {
+    super(message);
+    this.name = 'AdPlatformError';
+  }
+}
+
+export interface PlatformAccount {
+  accountId: string;
+  name: string;
+  status: 'active' | 'suspended';
+}
+
+export interface PlatformCampaign {
+  id: string;
+  name: string;
+  status: 'active' | 'paused' | 'completed';
+  platformStatus: string;
+  effectiveStatus: string | null;
+  objective: string | null;
+  dailyBudget: string | null;
+  lifetimeBudget: string | null;
+  budgetRemaining: string | null;
+  spend: string; // Lifetime spend, only filled in when requested
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+// One day of delivery, in the account currency
+export interface PlatformInsight {
+  date: Date;
+  spend: string;
+  impressions: number;
+  clicks: number;
+  ctr: string;
+  cpc: string;
+  cpm: string;
+  reach: number;
+  frequency: string;
+  conversions: number;
+  roas: string;
+}
+
+export interface PlatformCampaignInsight extends PlatformInsight {
+  campaignId: string;
+  campaignName: string;
+}
+
+export interface PlatformAdSetInsight extends PlatformInsight {
+  campaignId: string;
+  adSetId: string;
+  adSetName: string;
+}
+
+export interface PlatformAdInsight extends PlatformInsight {
+  adSetId: string;
+  adId: string;
+  adName: string;
+}
+
+export interface InsightDateRange {
+  since: string; // yyyy-MM-dd
+  until: string;
+}
+
+export interface NewPlatformCampaign {
+  name: string;
+  objective: string;
+}
+
+/**
+ * What every ad platform implements. Account ids are the platform's own ids
+ * (adAccounts.accountId), not ours. Campaigns are always created paused.
+ */
+export interface AdPlatformAdapter {
+  readonly platform: AdPlatform;
+  testConnection(): Promise<{ id: string; name: string }>;
+  listAccounts(): Promise<PlatformAccount[]>;
+  listCampaigns(accountId: string, options?: { includeSpend?: boolean }): Promise<PlatformCampaign[]>;
+  getAccountInsights(accountId: string, range: InsightDateRange): Promise<PlatformInsight[]>;
+  getCampaignInsights(accountId: string, range: InsightDateRange): Promise<PlatformCampaignInsight[]>;
+  // Ad set and ad level insights, where the platform adapter supports them
+  getAdSetInsights?(accountId: string, range: InsightDateRange): Promise<PlatformAdSetInsight[]>;
+  getAdInsights?(accountId: string, range: InsightDateRange): Promise<PlatformAdInsight[]>;
+  updateCampaignStatus(accountId: string, campaignId: string, status: 'active' | 'paused'): Promise<void>;
+  createCampaign(accountId: string, campaign: NewPlatformCampaign): Promise<string>;
+}
+
+export function isSupportedAdPlatform(platform: string): platform is AdPlatform {
+  return (SUPPORTED_AD_PLATFORMS as readonly string[]).includes(platform);
+}
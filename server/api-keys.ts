@@ -0,0 +1,88 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiKeyScope, type ApiKey, type PagePermissionMap } from "@shared/schema";
+import { storage } from "./storage";
+
+// Keys carry a recognisable prefix so authenticate can tell them apart from session tokens
+export const API_KEY_PREFIX = 'adx_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Role reported for requests made with a key. It is not a real role, so no role defaults or admin checks apply.
+export const API_KEY_ROLE = 'api_key';
+
+// Account, access and key management stays with people, whatever pages a key was given
+const BLOCKED_PATH_PREFIXES = [
+  '/api/auth/',
+  '/api/api-keys',
+  '/api/users',
+  '/api/client-users',
+  '/api/user-page-permissions',
+  '/api/user-client-assignments',
+  '/api/roles',
+  '/api/role-permissions',
+  '/api/pages',
+];
+const ALLOWED_PATHS = ['/api/auth/user'];
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// The plain key is only ever returned once, at creation
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('hex')}`;
+  return { key, keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Active key for a bearer token, or null if it is unknown, revoked or expired
+export async function resolveApiKey(token: string): Promise<ApiKey | null> {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(token));
+  if (!apiKey || apiKey.revokedAt || apiKey.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return apiKey;
+}
+
+export function getApiKeyPageKeys(apiKey: ApiKey): string[] {
+  try {
+    const pageKeys = JSON.parse(apiKey.pageKeys);
+    return Array.isArray(pageKeys) ? pageKeys : [];
+  } catch {
+    return [];
+  }
+}
+
+// Read keys may view their pages, write keys may also edit and delete on them
+export function getApiKeyPermissions(apiKey: ApiKey): PagePermissionMap {
+  const canWrite = apiKey.scope === ApiKeyScope.WRITE;
+  const permissions: PagePermissionMap = {};
+  for (const pageKey of getApiKeyPageKeys(apiKey)) {
+    permissions[pageKey] = { view: true, edit: canWrite, delete: canWrite };
+  }
+  return permissions;
+}
+
+/**
+ * Reason the key may not make this call, or null when it may. Keys are denied
+ * by default: a route is only open to a key when it checks page permissions
+ * and every page it checks is on the key's allow-list.
+ */
+export function getApiKeyDenial(apiKey: ApiKey, method: string, path: string, routePageKeys: string[]): string | null {
+  if (apiKey.scope !== ApiKeyScope.WRITE && !READ_METHODS.has(method)) {
+    return "API key is read-only";
+  }
+  if (ALLOWED_PATHS.includes(path)) return null;
+  if (BLOCKED_PATH_PREFIXES.some(prefix => path.startsWith(prefix)) || routePageKeys.length === 0) {
+    return "API keys cannot access this endpoint";
+  }
+  const pageKeys = getApiKeyPageKeys(apiKey);
+  if (!routePageKeys.every(pageKey => pageKeys.includes(pageKey))) {
+    return "API key does not have access to this page";
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+interface AuditedEntity {
+  path: string; // Collection path, e.g. "/api/campaigns"
+  entityType: string;
+  load?: (id: string) => Promise<unknown>;
+  singleton?: boolean; // Settings style resources without an id in the path
+}
+
+// Resources whose before/after state is captured. More specific paths come first.
+const AUDITED_ENTITIES: AuditedEntity[] = [
+  { path: '/api/users', entityType: 'user', load: id => storage.getUser(id) },
+  { path: '/api/client-users', entityType: 'user', load: id => storage.getUser(id) },
+  { path: '/api/roles', entityType: 'role', load: id => storage.getRole(id) },
+  { path: '/api/api-keys', entityType: 'api_key', load: id => storage.getApiKey(id) },
+  { path: '/api/role-permissions', entityType: 'role_permission', load: id => storage.getRolePermission(id) },
+  { path: '/api/campaigns', entityType: 'campaign', load: id => storage.getCampaign(id) },
+  { path: '/api/campaign-drafts', entityType: 'campaign_draft', load: id => storage.getCampaignDraftById(id) },
+  { path: '/api/ad-copy-sets', entityType: 'ad_copy_set', load: id => storage.getAdCopySet(id) },
+  { path: '/api/clients', entityType: 'client', load: id => storage.getClient(id) },
+  { path: '/api/ad-accounts', entityType: 'ad_account', load: id => storage.getAdAccount(id) },
+  { path: '/api/work-reports', entityType: 'work_report', load: id => storage.getWorkReport(id) },
+  { path: '/api/finance/projects', entityType: 'finance_project', load: id => storage.getFinanceProject(id) },
+  { path: '/api/finance/payments', entityType: 'finance_payment', load: id => storage.getFinancePayment(id) },
+  { path: '/api/finance/expenses', entityType: 'finance_expense', load: id => storage.getFinanceExpense(id) },
+  { path: '/api/finance/settings', entityType: 'finance_setting' },
+  { path: '/api/tags', entityType: 'tag', load: id => storage.getTag(id) },
+  { path: '/api/employees', entityType: 'employee', load: id => storage.getEmployee(id) },
+  { path: '/api/salaries', entityType: 'salary', load: id => storage.getSalary(id) },
+  { path: '/api/farming-accounts', entityType: 'farming_account', load: id => storage.getFarmingAccount(id) },
+  { path: '/api/telegram/chat-ids', entityType: 'telegram_chat_id', load: id => storage.getTelegramChatId(id) },
+  { path: '/api/telegram/config', entityType: 'telegram_config', load: () => storage.getTelegramConfig(), singleton: true },
+  { path: '/api/facebook/settings', entityType: 'facebook_settings', load: () => storage.getFacebookSettings(), singleton: true },
+  { path: '/api/email/settings', entityType: 'email_settings', load: () => storage.getEmailSettings(), singleton: true },
+  { path: '/api/sms/settings', entityType: 'sms_settings', load: () => storage.getSmsSettings(), singleton: true },
+];
+
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Credentials are never worth an audit entry and their bodies must not be touched
+const SKIPPED_PATHS = ['/api/auth/login'];
+
+// Path segments that follow a collection but are actions rather than ids
+const NON_ID_SEGMENTS = new Set(['import', 'import-csv', 'export', 'bulk', 'daily-spends', 'reconciliation', 'generate', 'sync-facebook', 'sync-accounts']);
+
+// Values of matching fields are replaced before anything is stored
+const SENSITIVE_FIELD = /password|secret|token|apikey|keyhash|recoverycodes/i;
+const IGNORED_FIELDS = new Set(['updatedAt', 'lastActivityAt']);
+
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+interface AuditTarget {
+  entity?: AuditedEntity;
+  entityType: string;
+  entityId: string | null;
+}
+
+function resolveTarget(path: string): AuditTarget {
+  const entity = AUDITED_ENTITIES.find(candidate => path === candidate.path || path.startsWith(`${candidate.path}/`));
+  if (!entity) {
+    // Unregistered routes are still logged, grouped by their first segment ("facebook", "data"...)
+    return { entityType: path.split('/')[2] || 'unknown', entityId: null };
+  }
+
+  const firstSegment = path.slice(entity.path.length).split('/')[1];
+  const entityId = !entity.singleton && firstSegment && !NON_ID_SEGMENTS.has(firstSegment) ? firstSegment : null;
+  return { entity, entityType: entity.entityType, entityId };
+}
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+async function loadSnapshot(target: AuditTarget, entityId: string | null): Promise<Record<string, unknown> | null> {
+  if (!target.entity?.load || (!entityId && !target.entity.singleton)) return null;
+  try {
+    return toRecord(await target.entity.load(entityId ?? ''));
+  } catch (error) {
+    console.error(`Audit snapshot error for ${target.entityType} ${entityId}:`, error);
+    return null;
+  }
+}
+
+function redact(field: string, value: unknown): unknown {
+  return SENSITIVE_FIELD.test(field) && value !== null && value !== undefined ? '[REDACTED]' : value;
+}
+
+/**
+ * Field level diff between two snapshots. Sensitive fields show up as changed
+ * but their values are redacted.
+ */
+function diffSnapshots(before: Record<string, unknown> | null, after: Record<string, unknown> | null): FieldChanges | null {
+  if (!before && !after) return null;
+
+  const changes: FieldChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: redact(field, previous), after: redact(field, next) };
+    }
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Named action from the route pattern, e.g. "force-logout" for /api/users/:id/force-logout
+function describeAction(req: Request, target: AuditTarget): string {
+  const route: string = req.route?.path || req.path;
+  const rest = target.entity && route.startsWith(target.entity.path)
+    ? route.slice(target.entity.path.length).split('/').filter(Boolean)
+    : [];
+  if (rest.length > 0 && rest[0].startsWith(':')) rest.shift();
+  if (rest.length > 0) return rest.join('/');
+
+  switch (req.method) {
+    case 'POST': return target.entityId || target.entity?.singleton ? 'update' : 'create';
+    case 'DELETE': return 'delete';
+    default: return 'update';
+  }
+}
+
+async function recordMutation(req: Request, res: Response, target: AuditTarget, before: Record<string, unknown> | null, responseBody: unknown) {
+  // Failed or rejected requests did not change anything
+  if (res.statusCode >= 400) return;
+
+  let entityId = target.entityId;
+  let after: Record<string, unknown> | null;
+  if (target.entity?.load) {
+    // Created entities are identified by the id in the response
+    entityId = entityId ?? (target.entity.singleton ? null : (toRecord(responseBody)?.id as string | undefined) ?? null);
+    after = await loadSnapshot(target, entityId);
+  } else {
+    const body = toRecord(responseBody);
+    after = body && 'id' in body ? body : null;
+  }
+
+  const changes = diffSnapshots(before, after);
+  await storage.createAuditLog({
+    userId: req.user?.id ?? null,
+    username: req.user?.username ?? null,
+    method: req.method,
+    route: req.route?.path || req.path,
+    path: req.path,
+    entityType: target.entityType,
+    entityId,
+    action: describeAction(req, target),
+    changes: changes ? JSON.stringify(changes) : null,
+    ipAddress: req.ip ?? null,
+  });
+}
+
+interface PendingSnapshot {
+  target: AuditTarget;
+  before: Record<string, unknown> | null;
+}
+
+// Snapshot of the entity taken once the request is authenticated, keyed by the audited request
+const pendingSnapshots = new WeakMap<Request, PendingSnapshot>();
+
+/**
+ * Middleware writing an audit entry for every successful POST/PUT/PATCH/DELETE
+ * under /api. The entity is loaded by captureAuditSnapshot once the request is
+ * authenticated and again once the response is sent, and the field level diff
+ * is stored with the entry.
+ */
+export function auditMutations(req: Request, res: Response, next: NextFunction) {
+  if (!AUDITED_METHODS.has(req.method) || !req.path.startsWith('/api/') || SKIPPED_PATHS.some(path => req.path.startsWith(path))) {
+    return next();
+  }
+
+  const pending: PendingSnapshot = { target: resolveTarget(req.path), before: null };
+  pendingSnapshots.set(req, pending);
+
+  let responseBody: unknown;
+  const originalJson = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  res.on('finish', () => {
+    recordMutation(req, res, pending.target, pending.before, responseBody).catch(error => {
+      console.error(`Audit log error for ${req.method} ${req.path}:`, error);
+    });
+  });
+  next();
+}
+
+// Loads the before state of an audited request; called by authentication so anonymous requests never touch the entity
+export async function captureAuditSnapshot(req: Request): Promise<void> {
+  const pending = pendingSnapshots.get(req);
+  if (!pending) return;
+  pendingSnapshots.delete(req);
+  pending.before = await loadSnapshot(pending.target, pending.target.entityId);
+}
+
+/**
+ * Record an event that is not a mutation, e.g. revealing stored secrets
+ */
+export async function recordAuditEvent(req: Request, event: { entityType: string; entityId?: string | null; action: string }) {
+  try {
+    await storage.createAuditLog({
+      userId: req.user?.id ?? null,
+      username: req.user?.username ?? null,
+      method: req.method,
+      route: req.route?.path || req.path,
+      path: req.path,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      action: event.action,
+      changes: null,
+      ipAddress: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`Audit log error for ${event.action} on ${event.entityType}:`, error);
+  }
+}
@@ -0,0 +1,65 @@
+import { UserRole, type Campaign, type CampaignComment, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendCommentMentionEmail } from "./email-sender";
+import { getClientScope, isClientInScope } from "./client-scope";
+
+// Usernames mentioned as @username
+const MENTION_PATTERN = /@([A-Za-z0-9_.-]+)/g;
+
+export function getMentionedUserIds(comment: CampaignComment): string[] {
+  try {
+    const ids = JSON.parse(comment.mentionedUserIds || '[]');
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+// Active users mentioned in the body, matched case-insensitively, never the author
+export function extractMentionedUsers(body: string, users: User[], authorId: string | null): User[] {
+  const usernames = new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase()));
+  return users.filter(user =>
+    usernames.has(user.username.toLowerCase()) && user.isActive !== false && user.id !== authorId
+  );
+}
+
+// Only users who may view the campaign hear about its comments
+async function canViewCampaign(user: User, campaign: Campaign): Promise<boolean> {
+  if (!(await storage.checkUserPagePermission(user.id, 'campaigns', 'view'))) return false;
+  const isAdmin = user.role === UserRole.SUPER_ADMIN || ((await storage.getRoleByKey(user.role))?.isAdmin ?? false);
+  return isClientInScope(await getClientScope({ id: user.id, role: user.role, isAdmin }), campaign.clientId);
+}
+
+/**
+ * Emails users newly mentioned in a comment. Mentions of users who cannot
+ * view the campaign are ignored. Returns every user id mentioned
+ * so far, which is stored on the comment so edits only notify new mentions.
+ * Delivery failures are logged and never fail the comment itself.
+ */
+export async function notifyMentionedUsers(comment: CampaignComment, campaign: Campaign, campaignUrl: string): Promise<string[]> {
+  const alreadyNotified = new Set(getMentionedUserIds(comment));
+  const mentioned: User[] = [];
+  for (const user of extractMentionedUsers(comment.body, await storage.getAllUsers(), comment.authorId)) {
+    if (await canViewCampaign(user, campaign)) mentioned.push(user);
+  }
+
+  for (const user of mentioned.filter(user => !alreadyNotified.has(user.id))) {
+    if (!user.email) continue;
+    const sent = await sendCommentMentionEmail(user, {
+      authorName: comment.authorName,
+      campaignName: campaign.name,
+      commentBody: comment.body,
+      campaignUrl,
+    });
+    if (!sent) {
+      console.error(`Failed to notify ${user.username} of a mention on campaign ${campaign.id}`);
+    }
+  }
+
+  return Array.from(new Set([...Array.from(alreadyNotified), ...mentioned.map(user => user.id)]));
+}
+
+// Deleted comments keep their place in the thread but not their text
+export function toCommentResponse(comment: CampaignComment) {
+  return comment.deletedAt ? { ...comment, body: '', mentionedUserIds: null } : comment;
+}
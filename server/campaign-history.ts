@@ -0,0 +1,62 @@
+import { CampaignChangeSource, type AuthUser, type Campaign, type CampaignFieldChange, type InsertCampaignFieldChange } from "@shared/schema";
+import { storage } from "./storage";
+
+// Campaign properties whose previous values are kept
+export const TRACKED_CAMPAIGN_FIELDS = ['name', 'status', 'objective', 'budget', 'dailyBudget', 'lifetimeBudget'] as const;
+export type TrackedCampaignField = typeof TRACKED_CAMPAIGN_FIELDS[number];
+
+const DECIMAL_FIELDS = new Set<string>(['budget', 'dailyBudget', 'lifetimeBudget']);
+
+type CampaignChangeSourceValue = typeof CampaignChangeSource[keyof typeof CampaignChangeSource];
+
+export interface CampaignChangeAuthor {
+  source: CampaignChangeSourceValue;
+  changedBy: string | null;
+  changedByName: string;
+}
+
+export function isTrackedCampaignField(field: string): field is TrackedCampaignField {
+  return (TRACKED_CAMPAIGN_FIELDS as readonly string[]).includes(field);
+}
+
+export function getChangeAuthor(user: Pick<AuthUser, 'id' | 'username'>, source: CampaignChangeSourceValue = CampaignChangeSource.USER): CampaignChangeAuthor {
+  return { source, changedBy: user.id, changedByName: user.username };
+}
+
+// Stored as text. Decimals are compared as "1500.00" whether they arrived as "1500" or 1500.
+function normalizeValue(field: string, value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value);
+  if (DECIMAL_FIELDS.has(field)) {
+    const amount = parseFloat(text);
+    return isNaN(amount) ? text : amount.toFixed(2);
+  }
+  return text;
+}
+
+// Tracked fields that differ. Fields missing from `after` were not part of the update.
+export function diffCampaignFields(before: Campaign, after: Partial<Record<TrackedCampaignField, unknown>>, author: CampaignChangeAuthor, revertedChangeId?: string): InsertCampaignFieldChange[] {
+  const changes: InsertCampaignFieldChange[] = [];
+  for (const field of TRACKED_CAMPAIGN_FIELDS) {
+    if (after[field] === undefined) continue;
+    const oldValue = normalizeValue(field, before[field]);
+    const newValue = normalizeValue(field, after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ campaignId: before.id, field, oldValue, newValue, ...author, revertedChangeId: revertedChangeId ?? null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Records the tracked fields that changed between two versions of a campaign.
+ * Failures are logged and never fail the update that caused them.
+ */
+export async function recordCampaignChanges(before: Campaign, after: Partial<Record<TrackedCampaignField, unknown>>, author: CampaignChangeAuthor, revertedChangeId?: string): Promise<CampaignFieldChange[]> {
+  try {
+    return await storage.createCampaignFieldChanges(diffCampaignFields(before, after, author, revertedChangeId));
+  } catch (error) {
+    console.error(`Failed to record field changes for campaign ${before.id}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,156 @@
+import { CampaignPacingStatus, type Campaign, type CampaignDailySpend, type CampaignFlight, type CampaignPacing } from "@shared/schema";
+
+// Days of recent spend averaged into the run rate
+export const PACING_TREND_DAYS = 7;
+
+// Projections within this share of the budget count as on track
+const PACING_TOLERANCE = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily spends are stored at UTC midnight, so all pacing dates are UTC days
+function startOfUtcDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function toAmount(value: string | null | undefined): number {
+  const amount = parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Earliest day of spend the pacing report needs: the month start or the trend window, whichever is older
+export function getPacingWindowStart(now: Date = new Date()): Date {
+  const today = startOfUtcDay(now);
+  const monthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  const trendStart = addDays(today, -(PACING_TREND_DAYS - 1));
+  return trendStart < monthStart ? trendStart : monthStart;
+}
+
+// Last day a total budget is spread over: the last flight's end, else the end date, else month end
+function getTotalBudgetEnd(campaign: Campaign, flights: CampaignFlight[], monthEnd: Date): Date {
+  const lastFlightEnd = flights.reduce<Date | null>((latest, flight) => !latest || flight.endDate > latest ? flight.endDate : latest, null);
+  const end = lastFlightEnd ?? campaign.endDate;
+  return end ? startOfUtcDay(end) : monthEnd;
+}
+
+/**
+ * Projects spend for a campaign from its recent daily spend.
+ *
+ * Campaigns with only a daily budget are paced against daily budget x days
+ * running this month, using this month's spend, up to month end. Everything
+ * else is paced against its lifetime budget (or budget) using cumulative
+ * spend, up to the campaign's end, or month end when it has none.
+ */
+export function calculateCampaignPacing(campaign: Campaign, spends: CampaignDailySpend[], now: Date = new Date(), flights: CampaignFlight[] = []): CampaignPacing {
+  const today = startOfUtcDay(now);
+  const monthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  const monthEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0));
+  const startDay = startOfUtcDay(campaign.startDate);
+
+  const dailyBudget = toAmount(campaign.dailyBudget);
+  const lifetimeBudget = toAmount(campaign.lifetimeBudget);
+  const budgetType: CampaignPacing['budgetType'] = dailyBudget > 0 && lifetimeBudget <= 0 ? 'daily' : 'total';
+  const paceEnd = budgetType === 'daily' ? monthEnd : getTotalBudgetEnd(campaign, flights, monthEnd);
+  // Today's spend is counted, so today is an elapsed day
+  const remainingDays = Math.max(0, daysBetween(today, paceEnd));
+
+  // Run rate over the trend window, shortened for campaigns that started within it
+  const windowStart = addDays(today, -(PACING_TREND_DAYS - 1));
+  const trendStart = startDay > windowStart ? startDay : windowStart;
+  const trendDays = Math.max(1, daysBetween(trendStart, today) + 1);
+  const trendSpend = spends
+    .filter(spend => spend.date >= trendStart && spend.date <= today)
+    .reduce((sum, spend) => sum + toAmount(spend.amount), 0);
+  const dailyRunRate = startDay > today ? 0 : trendSpend / trendDays;
+
+  let monthBudget: number;
+  let spendToDate: number;
+  let expectedSpendToDate: number;
+  if (budgetType === 'daily') {
+    const firstDay = startDay > monthStart ? startDay : monthStart;
+    monthBudget = dailyBudget * Math.max(0, daysBetween(firstDay, monthEnd) + 1);
+    spendToDate = spends
+      .filter(spend => spend.date >= monthStart && spend.date <= today)
+      .reduce((sum, spend) => sum + toAmount(spend.amount), 0);
+    expectedSpendToDate = dailyBudget * Math.max(0, daysBetween(firstDay, today) + 1);
+  } else {
+    monthBudget = lifetimeBudget > 0 ? lifetimeBudget : toAmount(campaign.budget);
+    spendToDate = toAmount(campaign.spend);
+    // Evenly paced from the start date so the budget is used up by the pacing end
+    const elapsedDays = Math.max(0, daysBetween(startDay, today) + 1);
+    const plannedDays = Math.max(1, daysBetween(startDay, paceEnd) + 1);
+    expectedSpendToDate = monthBudget * Math.min(1, elapsedDays / plannedDays);
+  }
+
+  const projectedSpend = spendToDate + dailyRunRate * remainingDays;
+  const paceRatio = monthBudget > 0 ? projectedSpend / monthBudget : null;
+
+  let projectedExhaustionDate: string | null = null;
+  if (monthBudget > 0 && spendToDate >= monthBudget) {
+    projectedExhaustionDate = today.toISOString().split('T')[0];
+  } else if (monthBudget > 0 && dailyRunRate > 0) {
+    const daysLeft = Math.ceil((monthBudget - spendToDate) / dailyRunRate);
+    if (daysLeft < remainingDays) {
+      projectedExhaustionDate = addDays(today, daysLeft).toISOString().split('T')[0];
+    }
+  }
+
+  let status: CampaignPacing['status'];
+  if (campaign.status !== 'active') {
+    status = CampaignPacingStatus.INACTIVE;
+  } else if (paceRatio === null) {
+    status = CampaignPacingStatus.NO_BUDGET;
+  } else if (paceRatio > 1 + PACING_TOLERANCE) {
+    status = CampaignPacingStatus.AHEAD;
+  } else if (paceRatio < 1 - PACING_TOLERANCE) {
+    status = CampaignPacingStatus.BEHIND;
+  } else {
+    status = CampaignPacingStatus.ON_TRACK;
+  }
+
+  return {
+    campaignId: campaign.id,
+    budgetType,
+    monthBudget: round(monthBudget),
+    spendToDate: round(spendToDate),
+    dailyRunRate: round(dailyRunRate),
+    projectedSpend: round(projectedSpend),
+    expectedSpendToDate: round(expectedSpendToDate),
+    paceRatio: paceRatio === null ? null : Math.round(paceRatio * 1000) / 1000,
+    projectedExhaustionDate,
+    status,
+  };
+}
+
+// Pacing for several campaigns from one batch of daily spends and flights
+export function calculatePacing(campaigns: Campaign[], spends: CampaignDailySpend[], now: Date = new Date(), flights: CampaignFlight[] = []): CampaignPacing[] {
+  const spendsByCampaign = new Map<string, CampaignDailySpend[]>();
+  for (const spend of spends) {
+    const campaignSpends = spendsByCampaign.get(spend.campaignId) || [];
+    campaignSpends.push(spend);
+    spendsByCampaign.set(spend.campaignId, campaignSpends);
+  }
+  const flightsByCampaign = new Map<string, CampaignFlight[]>();
+  for (const flight of flights) {
+    const campaignFlights = flightsByCampaign.get(flight.campaignId) || [];
+    campaignFlights.push(flight);
+    flightsByCampaign.set(flight.campaignId, campaignFlights);
+  }
+  return campaigns.map(campaign =>
+    calculateCampaignPacing(campaign, spendsByCampaign.get(campaign.id) || [], now, flightsByCampaign.get(campaign.id) || []),
+  );
+}
@@ -0,0 +1,167 @@
+import { CampaignChangeSource, type Campaign, type CampaignFlight } from "@shared/schema";
+import { storage } from "./storage";
+import { recordCampaignChanges, type CampaignChangeAuthor } from "./campaign-history";
+import { sendCampaignScheduleEmail } from "./email-sender";
+import { pushCampaignStatus } from "./platform-sync";
+
+// How often end dates and flights are checked
+export const SCHEDULE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const SCHEDULER_AUTHOR: CampaignChangeAuthor = {
+  source: CampaignChangeSource.SCHEDULE,
+  changedBy: null,
+  changedByName: 'Scheduler',
+};
+
+export interface ScheduledStatusChange {
+  status: 'active' | 'paused' | 'completed';
+  reason: string;
+}
+
+// End dates and flights are whole UTC days, both ends included
+function startOfUtcDay(date: Date): Date {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Status a campaign should move to today, if any. Active campaigns complete
+ * after their end date or last flight and pause between flights. Only
+ * campaigns the scheduler paused itself are resumed when a flight starts, so
+ * a manual pause is never overridden.
+ */
+export function getScheduledStatusChange(
+  campaign: Campaign,
+  flights: CampaignFlight[],
+  pausedBySchedule: boolean,
+  now: Date = new Date(),
+): ScheduledStatusChange | null {
+  const today = startOfUtcDay(now);
+  const endDay = campaign.endDate ? startOfUtcDay(campaign.endDate) : null;
+  const sorted = [...flights].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const current = sorted.find(flight => startOfUtcDay(flight.startDate) <= today && startOfUtcDay(flight.endDate) >= today);
+  const next = sorted.find(flight => startOfUtcDay(flight.startDate) > today && (!endDay || startOfUtcDay(flight.startDate) <= endDay));
+  const lastEnded = sorted.filter(flight => startOfUtcDay(flight.endDate) < today).pop();
+
+  if (campaign.status === 'active' || (campaign.status === 'paused' && pausedBySchedule)) {
+    if (endDay && today > endDay) {
+      return { status: 'completed', reason: `The campaign end date ${formatDay(endDay)} has passed.` };
+    }
+  }
+
+  if (campaign.status === 'active') {
+    if (current || !lastEnded) return null;
+    if (next) {
+      return {
+        status: 'paused',
+        reason: `The flight ending ${formatDay(lastEnded.endDate)} is over. The next flight starts ${formatDay(next.startDate)}.`,
+      };
+    }
+    return { status: 'completed', reason: `The last flight ended ${formatDay(lastEnded.endDate)}.` };
+  }
+
+  if (campaign.status === 'paused' && pausedBySchedule) {
+    if (current) {
+      return {
+        status: 'active',
+        reason: `The flight from ${formatDay(current.startDate)} to ${formatDay(current.endDate)} has started.`,
+      };
+    }
+    if (!next) {
+      return { status: 'completed', reason: 'No flights are left in the schedule.' };
+    }
+  }
+
+  return null;
+}
+
+// Whether the latest status change was the scheduler pausing the campaign
+async function wasPausedBySchedule(campaign: Campaign): Promise<boolean> {
+  const changes = await storage.getCampaignFieldChanges(campaign.id);
+  const lastStatusChange = changes.find(change => change.field === 'status');
+  return lastStatusChange?.source === CampaignChangeSource.SCHEDULE && lastStatusChange.newValue === 'paused';
+}
+
+// Email failures are logged and never undo the status change
+async function notifyCampaignOwner(campaign: Campaign, change: ScheduledStatusChange): Promise<void> {
+  if (!campaign.ownerId) {
+    console.log(`[Scheduler] Campaign ${campaign.id} has no owner to notify`);
+    return;
+  }
+  const owner = await storage.getUser(campaign.ownerId);
+  if (!owner || !owner.email) return;
+
+  const appUrl = process.env.APP_URL?.replace(/\/$/, '');
+  const sent = await sendCampaignScheduleEmail(owner, {
+    campaignName: campaign.name,
+    status: change.status,
+    reason: change.reason,
+    campaignUrl: appUrl ? `${appUrl}/campaigns/${campaign.id}` : undefined,
+  });
+  if (!sent) {
+    console.error(`Failed to notify ${owner.username} of the schedule change on campaign ${campaign.id}`);
+  }
+}
+
+// Applies due status changes and returns how many campaigns changed
+export async function runCampaignScheduleCheck(now: Date = new Date()): Promise<number> {
+  const [campaigns, flights] = await Promise.all([
+    storage.getCampaigns(),
+    storage.getAllCampaignFlights(),
+  ]);
+
+  const flightsByCampaign = new Map<string, CampaignFlight[]>();
+  for (const flight of flights) {
+    flightsByCampaign.set(flight.campaignId, [...(flightsByCampaign.get(flight.campaignId) || []), flight]);
+  }
+
+  let applied = 0;
+  for (const campaign of campaigns) {
+    if (campaign.status !== 'active' && campaign.status !== 'paused') continue;
+    const campaignFlights = flightsByCampaign.get(campaign.id) || [];
+    if (!campaign.endDate && campaignFlights.length === 0) continue;
+
+    try {
+      const pausedBySchedule = campaign.status === 'paused' && await wasPausedBySchedule(campaign);
+      if (campaign.status === 'paused' && !pausedBySchedule) continue;
+
+      const change = getScheduledStatusChange(campaign, campaignFlights, pausedBySchedule, now);
+      if (!change) continue;
+
+      await pushCampaignStatus(campaign, change.status);
+      const updated = await storage.updateCampaign(campaign.id, { status: change.status });
+      if (!updated) continue;
+      await recordCampaignChanges(campaign, updated, SCHEDULER_AUTHOR);
+      console.log(`[Scheduler] Campaign ${campaign.name} (ID: ${campaign.id}) set to ${change.status}: ${change.reason}`);
+      await notifyCampaignOwner(updated, change);
+      applied++;
+    } catch (error) {
+      console.error(`[Scheduler] Failed to apply the schedule of campaign ${campaign.id}:`, error);
+    }
+  }
+  return applied;
+}
+
+// Checks once at startup and then every interval, skipping a run while the previous one is busy
+export function startCampaignScheduler(): void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runCampaignScheduleCheck();
+    } catch (error) {
+      console.error("Campaign schedule check error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  setInterval(run, SCHEDULE_CHECK_INTERVAL_MS);
+}
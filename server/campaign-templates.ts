@@ -0,0 +1,64 @@
+import type { AdCopySet, Campaign, InsertCampaignTemplate, SaveCampaignTemplate } from "@shared/schema";
+
+// Objectives offered by the Ads Manager draft flow
+const DRAFT_OBJECTIVES = ['OUTCOME_ENGAGEMENT', 'OUTCOME_SALES', 'OUTCOME_LEADS', 'OUTCOME_TRAFFIC', 'OUTCOME_AWARENESS'];
+
+// Free text objectives of manual campaigns, matched by keyword
+const OBJECTIVE_KEYWORDS: [RegExp, string][] = [
+  [/engage/i, 'OUTCOME_ENGAGEMENT'],
+  [/sale|conversion|purchase/i, 'OUTCOME_SALES'],
+  [/lead/i, 'OUTCOME_LEADS'],
+  [/traffic|click/i, 'OUTCOME_TRAFFIC'],
+  [/aware|reach|brand/i, 'OUTCOME_AWARENESS'],
+];
+
+function toDraftObjective(objective: string): string | null {
+  const upper = objective.trim().toUpperCase();
+  if (DRAFT_OBJECTIVES.includes(upper)) return upper;
+  return OBJECTIVE_KEYWORDS.find(([pattern]) => pattern.test(objective))?.[1] ?? null;
+}
+
+// Ad copy sets hold age as "18-35" and the audience as a comma separated list
+function toTargeting(adCopySet: AdCopySet | undefined): string | null {
+  if (!adCopySet) return null;
+  const targeting: Record<string, unknown> = {};
+  const ageRange = adCopySet.age?.match(/(\d+)\s*-\s*(\d+)/);
+  if (ageRange) {
+    targeting.age_min = parseInt(ageRange[1]);
+    targeting.age_max = parseInt(ageRange[2]);
+  }
+  const interests = (adCopySet.targetAudience || '').split(',').map(interest => interest.trim()).filter(Boolean);
+  if (interests.length > 0) {
+    targeting.interests = interests;
+  }
+  return Object.keys(targeting).length > 0 ? JSON.stringify(targeting) : null;
+}
+
+/**
+ * Template fields for a campaign in the shape the Ads Manager draft flow
+ * reads. Creative fields come from the active ad copy set, if any.
+ */
+export function buildCampaignTemplate(
+  campaign: Campaign,
+  adCopySet: AdCopySet | undefined,
+  input: SaveCampaignTemplate,
+  createdBy: string,
+): InsertCampaignTemplate {
+  const budgetType = campaign.dailyBudget && !campaign.lifetimeBudget ? 'daily' : 'lifetime';
+  return {
+    templateName: input.templateName,
+    description: input.description || null,
+    objective: toDraftObjective(campaign.objective),
+    budgetType,
+    defaultDailyBudget: campaign.dailyBudget,
+    defaultLifetimeBudget: campaign.lifetimeBudget || (budgetType === 'lifetime' ? campaign.budget : null),
+    targeting: toTargeting(adCopySet),
+    adCopy: adCopySet?.description || null,
+    headline: adCopySet?.headline || null,
+    adDescription: null,
+    callToAction: adCopySet?.callToAction ? adCopySet.callToAction.trim().toUpperCase().replace(/\s+/g, '_') : null,
+    createdBy,
+    usageCount: 0,
+    isShared: input.isShared,
+  };
+}
@@ -0,0 +1,34 @@
+import { UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { API_KEY_ROLE } from "./api-keys";
+
+/**
+ * Client ids a user may see records for. null means every client.
+ * - Admin-level roles: every client
+ * - Client users: their own client
+ * - API keys: every client, as they act for the super admin who created them
+ * - Other staff: their assigned clients only, so none while nothing is assigned
+ */
+export type ClientScope = string[] | null;
+
+export async function getClientScope(user: { id: string; role: string; isAdmin: boolean }): Promise<ClientScope> {
+  if (user.isAdmin || user.role === API_KEY_ROLE) {
+    return null;
+  }
+
+  if (user.role === UserRole.CLIENT) {
+    const fullUser = await storage.getUser(user.id);
+    return fullUser?.clientId ? [fullUser.clientId] : [];
+  }
+
+  const assignments = await storage.getUserClientAssignments(user.id);
+  return assignments.map(assignment => assignment.clientId);
+}
+
+export function isClientInScope(scope: ClientScope, clientId: string | null | undefined): boolean {
+  return scope === null || (!!clientId && scope.includes(clientId));
+}
+
+export function filterByClientScope<T extends { clientId: string | null }>(scope: ClientScope, records: T[]): T[] {
+  return scope === null ? records : records.filter(record => isClientInScope(scope, record.clientId));
+}
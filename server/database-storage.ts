@@ -2,20 +2,38 @@ import {
   type User, 
   type InsertUser, 
   type Session, 
+  type LoginThrottle,
+  type AuditLog,
+  type InsertAuditLog,
+  type PasswordHistory,
+  type PasswordResetToken,
+  type ApiKey,
   type Campaign,
+  type CampaignComment,
+  type CampaignFlight,
+  type InsertCampaignComment,
+  type CampaignFieldChange,
+  type InsertCampaignFieldChange,
+  type SpendReconciliationDecision,
+  type InsertSpendReconciliationDecision,
   type InsertCampaign,
+  type CampaignTemplate,
+  type InsertCampaignTemplate,
   type Client,
   type InsertClient,
   type AdAccount,
   type InsertAdAccount,
   type AdCopySet,
   type InsertAdCopySet,
+  type AdCopySetPeriod,
   type CampaignDailySpend,
   type InsertCampaignDailySpend,
   type WorkReport,
   type InsertWorkReport,
   type Page,
   type InsertPage,
+  type Role,
+  type InsertRole,
   type RolePermission,
   type InsertRolePermission,
   type FinanceProject,
@@ -31,7 +49,11 @@ import {
   type Employee,
   type InsertEmployee,
   type UserMenuPermission,
-  type InsertUserMenuPermission,
+  type UserPagePermission,
+  type InsertUserPagePermission,
+  type PageAction,
+  type PagePermissionMap,
+  type UserClientAssignment,
   type Salary,
   type InsertSalary,
   type TelegramConfig,
@@ -39,12 +61,26 @@ import {
   type TelegramChatId,
   type InsertTelegramChatId,
   type FacebookSetting,
+  type FacebookSyncSchedule,
+  type SyncRun,
+  type SyncRunError,
+  SyncRunStatus,
   type InsertFacebookSetting,
+  type TiktokSetting,
+  type InsertTiktokSetting,
   type EmailSetting,
   type InsertEmailSetting,
   type SmsSetting,
   type InsertSmsSetting,
   type ClientEmailPreference,
+  type SpendAlert,
+  type AdAccountLimitEntry,
+  type AdAccountLimitEntryAuthor,
+  type AdAccountLimitEntryWithPayment,
+  type InsertAdAccountLimitEntry,
+  type AdAccountStatusChange,
+  type InsertAdAccountStatusChange,
+  AdAccountLimitEntryType,
   type InsertClientEmailPreference,
   type FacebookAccountInsight,
   type InsertFacebookAccountInsight,
@@ -58,15 +94,27 @@ import {
   type InsertFarmingAccount,
   type FarmingAccountWithSecrets,
   UserRole,
+  ReconciliationDecision,
   users,
   sessions,
+  loginThrottles,
+  auditLogs,
+  passwordHistory,
+  passwordResetTokens,
+  apiKeys,
   campaigns,
+  campaignComments,
+  campaignFlights,
+  campaignFieldChanges,
+  spendReconciliationDecisions,
   clients,
   adAccounts,
   adCopySets,
+  adCopySetPeriods,
   campaignDailySpends,
   workReports,
   pages,
+  roles,
   rolePermissions,
   financeProjects,
   financePayments,
@@ -75,13 +123,20 @@ import {
   tags,
   employees,
   userMenuPermissions,
+  userPagePermissions,
+  userClientAssignments,
   salaries,
   telegramConfig,
   telegramChatIds,
   facebookSettings,
+  syncRuns,
+  tiktokSettings,
   emailSettings,
   smsSettings,
   clientEmailPreferences,
+  spendAlerts,
+  adAccountLimitEntries,
+  adAccountStatusChanges,
   facebookAccountInsights,
   facebookCampaignInsights,
   facebookAdSetInsights,
@@ -93,10 +148,23 @@ import {
   farmingAccounts
 } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { eq, and, desc, gte, lte, or, like, sql } from "drizzle-orm";
+import { eq, ne, and, desc, gte, lte, or, like, inArray, isNull, isNotNull, max, sql, type SQL } from "drizzle-orm";
 import { db } from "./db";
-import type { IStorage } from "./storage";
-import { encrypt, decrypt, type EncryptedData } from "./encryption";
+import type { IStorage, AuditLogFilters, UserPasswordOptions } from "./storage";
+import { encrypt, decrypt, hashPassword, verifyPassword, isPasswordHash, type EncryptedData } from "./encryption";
+
+// Ledger entries written without a signed-in user, e.g. by imports and platform syncs
+const SYSTEM_LIMIT_ENTRY_AUTHOR: AdAccountLimitEntryAuthor = { createdBy: null, createdByName: 'System' };
+
+// Finance setting marking that the client scope backfill has run
+const CLIENT_SCOPE_BACKFILL_KEY = "client_scope_backfilled_at";
+
+// Sessions expire after this much inactivity, but never live longer than the max lifetime
+const SESSION_IDLE_TIMEOUT_MS = 12 * 60 * 60 * 1000; // 12 hours
+const SESSION_MAX_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000; // Avoid writing on every single request
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class DatabaseStorage implements IStorage {
   constructor() {
@@ -118,7 +186,7 @@ export class DatabaseStorage implements IStorage {
           id: randomUUID(),
           name: "Administrator",
           username: "Admin",
-          password: "2604", // In production, this should be hashed
+          password: await hashPassword("2604"),
           role: UserRole.SUPER_ADMIN,
           isActive: true,
         });
@@ -136,23 +204,60 @@ export class DatabaseStorage implements IStorage {
 
       // Sample clients are no longer created automatically to preserve user data
 
-      // Initialize default pages if not exist
-      const existingPages = await db.select().from(pages).limit(1);
-      if (existingPages.length === 0) {
-        await this.initializeDefaultPages();
-      }
+      // Seed the built-in roles, adding any that are missing
+      await this.initializeDefaultRoles();
+
+      // Initialize default pages, adding any that are missing
+      await this.initializeDefaultPages();
 
       // Initialize default permissions if not exist
       const existingPermissions = await db.select().from(rolePermissions).limit(1);
       if (existingPermissions.length === 0) {
         await this.initializeDefaultPermissions();
       }
+
+      // Move legacy per-user menu switches into page permission overrides
+      await this.migrateUserMenuPermissions();
+
+      // Move comments appended to campaigns.comments into comment rows
+      await this.migrateLegacyCampaignComments();
+
+      // Give ad accounts created before the spend limit ledger an opening entry
+      await this.backfillAdAccountOpeningEntries();
+
+      // Start periods for sets that were active before periods were recorded
+      await this.openActiveAdCopySetPeriods();
+
+      // Keep the access staff had before client assignments started to restrict it
+      await this.assignUnrestrictedStaffToAllClients();
     } catch (error) {
       // Silently fail if tables don't exist yet - they'll be created by schema push
       console.log("Database initialization pending schema creation:", error);
     }
   }
 
+  private async initializeDefaultRoles() {
+    try {
+      const defaultRoles = [
+        { key: UserRole.USER, name: "User", description: "Standard team member", isAdmin: false },
+        { key: UserRole.MANAGER, name: "Manager", description: "Team manager with read access to client work", isAdmin: false },
+        { key: UserRole.ADMIN, name: "Admin", description: "Administrator with access to admin-only actions", isAdmin: true },
+        { key: UserRole.SUPER_ADMIN, name: "Super Admin", description: "Full access to everything", isAdmin: true },
+        { key: UserRole.CLIENT, name: "Client", description: "Client portal user linked to a single client", isAdmin: false },
+      ];
+
+      const existingKeys = new Set((await db.select().from(roles)).map(role => role.key));
+      const missingRoles = defaultRoles.filter(roleData => !existingKeys.has(roleData.key));
+      if (missingRoles.length > 0) {
+        await db.insert(roles).values(missingRoles.map(roleData => ({ ...roleData, id: randomUUID(), isSystem: true })));
+        console.log(`[DB] Initialized ${missingRoles.length} default roles`);
+      }
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to initialize default roles:`, error);
+      throw new Error(`Failed to initialize default roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private async initializeDefaultPages() {
     try {
       const defaultPages = [
@@ -165,9 +270,18 @@ export class DatabaseStorage implements IStorage {
         { pageKey: "work_reports", displayName: "Work Reports", path: "/work-reports", description: "Track and submit work hours and tasks" },
         { pageKey: "client_mailbox", displayName: "Client Mailbox", path: "/client-mailbox", description: "Send manual emails to clients with custom reports" },
         { pageKey: "admin", displayName: "Admin Panel", path: "/admin", description: "Administrative settings and user management" },
+        { pageKey: "finance", displayName: "Advantix Finance", path: "/finance/dashboard", description: "Finance dashboard, projects, payments, expenses and reports" },
+        { pageKey: "salary_management", displayName: "Salary Management (Finance)", path: "/finance/salary-management", description: "Calculate and manage monthly salaries" },
+        { pageKey: "fb_ad_management", displayName: "FB Ad Management", path: "/fb-ad-management", description: "Facebook ad accounts, campaigns and insights" },
+        { pageKey: "advantix_ads_manager", displayName: "Advantix Ads Manager", path: "/advantix-ads", description: "Create and publish campaign drafts" },
+        { pageKey: "own_farming", displayName: "Own Farming", path: "/own-farming", description: "Own farming section" },
+        { pageKey: "new_created", displayName: "New Created", path: "/own-farming/new-created", description: "Newly created farming accounts" },
+        { pageKey: "farming_accounts", displayName: "Farming Accounts", path: "/own-farming/farming-accounts", description: "Manage farming accounts" },
       ];
 
-      for (const pageData of defaultPages) {
+      const existingKeys = new Set((await db.select().from(pages)).map(page => page.pageKey));
+      const missingPages = defaultPages.filter(pageData => !existingKeys.has(pageData.pageKey));
+      for (const pageData of missingPages) {
         await db.insert(pages).values({
           id: randomUUID(),
           pageKey: pageData.pageKey,
@@ -177,13 +291,224 @@ export class DatabaseStorage implements IStorage {
           isActive: true,
         });
       }
-      console.log(`[DB] Initialized ${defaultPages.length} default pages`);
+      if (missingPages.length > 0) {
+        console.log(`[DB] Initialized ${missingPages.length} default pages`);
+      }
     } catch (error) {
       console.error(`[DB ERROR] Failed to initialize default pages:`, error);
       throw new Error(`Failed to initialize default pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * One-off migration of user_menu_permissions rows into user_page_permissions.
+   * Each menu switch becomes a view override on the matching page, edit and
+   * delete keep inheriting from the role. The legacy rows are deleted so they
+   * are never imported again, e.g. after every override has been removed.
+   */
+  private async migrateUserMenuPermissions() {
+    try {
+      const legacyRows = await db.select().from(userMenuPermissions);
+      if (legacyRows.length === 0) return;
+
+      // Overrides already existing means an earlier start migrated these rows without deleting them
+      const existingOverrides = await db.select().from(userPagePermissions).limit(1);
+      if (existingOverrides.length > 0) {
+        await db.delete(userMenuPermissions);
+        console.log(`[DB] Removed ${legacyRows.length} already migrated user menu permission rows`);
+        return;
+      }
+
+      const legacyFieldByPageKey: Record<string, keyof UserMenuPermission> = {
+        dashboard: "dashboard",
+        campaigns: "campaignManagement",
+        clients: "clientManagement",
+        ad_accounts: "adAccounts",
+        work_reports: "workReports",
+        finance: "advantixDashboard",
+        salary_management: "salaryManagement",
+        fb_ad_management: "fbAdManagement",
+        advantix_ads_manager: "advantixAdsManager",
+        own_farming: "ownFarming",
+        new_created: "newCreated",
+        farming_accounts: "farmingAccounts",
+        admin: "adminPanel",
+      };
+
+      const allPages = await db.select().from(pages);
+      const overrides: (InsertUserPagePermission & { id: string })[] = [];
+      for (const row of legacyRows) {
+        for (const page of allPages) {
+          const field = legacyFieldByPageKey[page.pageKey];
+          const value = field ? row[field] : null;
+          if (typeof value === "boolean") {
+            overrides.push({ id: randomUUID(), userId: row.userId, pageId: page.id, canView: value, canEdit: null, canDelete: null });
+          }
+        }
+      }
+
+      await db.transaction(async (tx) => {
+        if (overrides.length > 0) {
+          await tx.insert(userPagePermissions).values(overrides).onConflictDoNothing();
+        }
+        await tx.delete(userMenuPermissions).where(inArray(userMenuPermissions.id, legacyRows.map(row => row.id)));
+      });
+      console.log(`[DB] Migrated ${legacyRows.length} user menu permission rows into ${overrides.length} page permission overrides`);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to migrate user menu permissions:`, error);
+      throw new Error(`Failed to migrate user menu permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Parses "[timestamp] username: text" entries that used to be appended to
+   * campaigns.comments into campaign_comments rows, including entries appended
+   * after free-form notes. Text that does not look like an appended comment
+   * stays on the campaign as notes, so this is safe to run on every start.
+   */
+  private async migrateLegacyCampaignComments() {
+    try {
+      const legacyCampaigns = await db.select()
+        .from(campaigns)
+        .where(isNotNull(campaigns.comments));
+      if (legacyCampaigns.length === 0) return;
+
+      const usersByName = new Map((await db.select().from(users)).map(user => [user.username, user.id]));
+      let migrated = 0;
+      for (const campaign of legacyCampaigns) {
+        const notes: string[] = [];
+        const rows: (InsertCampaignComment & { id: string; createdAt: Date; updatedAt: Date })[] = [];
+        // Entries were joined with a blank line; split at every line where an entry starts
+        for (const entry of campaign.comments!.split(/\n+(?=\[[^\]\n]+\] [^:\n]+: )/)) {
+          const match = entry.match(/^\[([^\]]+)\] ([^:\n]+): ([\s\S]+)$/);
+          const createdAt = match ? new Date(match[1]) : null;
+          if (!match || !createdAt || isNaN(createdAt.getTime())) {
+            notes.push(entry);
+            continue;
+          }
+          rows.push({
+            id: randomUUID(),
+            campaignId: campaign.id,
+            authorId: usersByName.get(match[2]) ?? null,
+            authorName: match[2],
+            body: match[3].trim(),
+            createdAt,
+            updatedAt: createdAt,
+          });
+        }
+        if (rows.length === 0) continue;
+
+        await db.transaction(async (tx) => {
+          await tx.insert(campaignComments).values(rows);
+          await tx.update(campaigns)
+            .set({ comments: notes.length > 0 ? notes.join('\n\n') : null })
+            .where(eq(campaigns.id, campaign.id));
+        });
+        migrated += rows.length;
+      }
+      if (migrated > 0) {
+        console.log(`[DB] Migrated ${migrated} legacy campaign comments`);
+      }
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to migrate legacy campaign comments:`, error);
+      throw new Error(`Failed to migrate legacy campaign comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * One-off migration for ad accounts created before the spend limit ledger:
+   * each account without entries gets an opening entry for its current limit,
+   * dated when the account was created.
+   */
+  private async backfillAdAccountOpeningEntries() {
+    try {
+      const accountsWithoutEntries = await db.select({ adAccount: adAccounts })
+        .from(adAccounts)
+        .leftJoin(adAccountLimitEntries, eq(adAccountLimitEntries.adAccountId, adAccounts.id))
+        .where(isNull(adAccountLimitEntries.id));
+      if (accountsWithoutEntries.length === 0) return;
+
+      await db.insert(adAccountLimitEntries).values(accountsWithoutEntries.map(({ adAccount }) => ({
+        id: randomUUID(),
+        adAccountId: adAccount.id,
+        type: AdAccountLimitEntryType.OPENING,
+        amount: adAccount.spendLimit,
+        date: adAccount.createdAt || new Date(),
+        ...SYSTEM_LIMIT_ENTRY_AUTHOR,
+      })));
+      console.log(`[DB] Added opening spend limit entries to ${accountsWithoutEntries.length} ad accounts`);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to backfill opening spend limit entries:`, error);
+      throw new Error(`Failed to backfill opening spend limit entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * One-off migration for ad copy sets that were already active before their
+   * periods were recorded: each active set without an open period gets one,
+   * starting when the set was last updated.
+   */
+  private async openActiveAdCopySetPeriods() {
+    try {
+      const setsWithoutPeriod = await db.select({ adCopySet: adCopySets })
+        .from(adCopySets)
+        .leftJoin(adCopySetPeriods, and(eq(adCopySetPeriods.adCopySetId, adCopySets.id), isNull(adCopySetPeriods.endedAt)))
+        .where(and(eq(adCopySets.isActive, true), isNull(adCopySetPeriods.id)));
+      if (setsWithoutPeriod.length === 0) return;
+
+      await db.insert(adCopySetPeriods).values(setsWithoutPeriod.map(({ adCopySet }) => ({
+        id: randomUUID(),
+        adCopySetId: adCopySet.id,
+        campaignId: adCopySet.campaignId,
+        startedAt: adCopySet.updatedAt || adCopySet.createdAt || new Date(),
+        startedBy: null,
+      })));
+      console.log(`[DB] Opened periods for ${setsWithoutPeriod.length} active ad copy sets`);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to open periods of active ad copy sets:`, error);
+      throw new Error(`Failed to open periods of active ad copy sets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * One-off migration for the switch to assignment-only client scope. Staff
+   * without assignments used to see every client and now see none, so each
+   * non-admin staff user without assignments is assigned to every client.
+   * A marker setting makes sure it runs once, so users an admin later leaves
+   * unassigned stay that way.
+   */
+  private async assignUnrestrictedStaffToAllClients() {
+    try {
+      if (await this.getFinanceSetting(CLIENT_SCOPE_BACKFILL_KEY)) return;
+
+      const adminRoleKeys = new Set((await db.select().from(roles)).filter(role => role.isAdmin).map(role => role.key));
+      const assignedUserIds = new Set((await db.select().from(userClientAssignments)).map(assignment => assignment.userId));
+      const staff = (await db.select().from(users)).filter(user =>
+        user.role !== UserRole.CLIENT && user.role !== UserRole.SUPER_ADMIN && !adminRoleKeys.has(user.role) && !assignedUserIds.has(user.id)
+      );
+      const allClients = await db.select({ id: clients.id }).from(clients);
+
+      const assignments = staff.flatMap(user => allClients.map(client => ({ id: randomUUID(), userId: user.id, clientId: client.id })));
+      await db.transaction(async (tx) => {
+        if (assignments.length > 0) {
+          await tx.insert(userClientAssignments).values(assignments).onConflictDoNothing();
+        }
+        await tx.insert(financeSettings).values({
+          id: randomUUID(),
+          key: CLIENT_SCOPE_BACKFILL_KEY,
+          value: new Date().toISOString(),
+          description: "When staff without client assignments were assigned to every client",
+        });
+      });
+      if (staff.length > 0) {
+        console.log(`[DB] Assigned ${staff.length} unassigned staff users to all ${allClients.length} clients`);
+      }
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to assign unassigned staff to clients:`, error);
+      throw new Error(`Failed to assign unassigned staff to clients: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private async initializeDefaultPermissions() {
     try {
       const allPages = await db.select().from(pages);
@@ -283,17 +608,20 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser, options: UserPasswordOptions = {}): Promise<User> {
     try {
       const id = randomUUID();
       const newUser = {
         ...insertUser,
+        password: await this.hashUserPassword(insertUser.password, options),
+        email: insertUser.email || null,
         id,
         role: UserRole.USER,
         isActive: true,
       };
       
       await db.insert(users).values(newUser);
+      await this.addPasswordHistory(id, newUser.password);
       console.log(`[DB] Created user: ${newUser.username} (ID: ${newUser.id})`);
       return newUser as User;
     } catch (error) {
@@ -302,9 +630,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateUser(id: string, updateData: Partial<InsertUser>): Promise<User | undefined> {
+  async updateUser(id: string, updateData: Partial<InsertUser>, options: UserPasswordOptions = {}): Promise<User | undefined> {
     try {
-      await db.update(users).set(updateData).where(eq(users.id, id));
+      const data = { ...updateData };
+      if (data.password !== undefined) {
+        data.password = await this.hashUserPassword(data.password, options);
+      }
+      if (data.email !== undefined) {
+        data.email = data.email || null;
+      }
+      await db.update(users).set(data).where(eq(users.id, id));
+      if (data.password !== undefined) {
+        await this.addPasswordHistory(id, data.password);
+      }
       console.log(`[DB] Updated user with ID: ${id}`);
       return this.getUser(id);
     } catch (error) {
@@ -350,10 +688,24 @@ export class DatabaseStorage implements IStorage {
   async validateCredentials(username: string, password: string): Promise<User | null> {
     try {
       const user = await this.getUserByUsername(username);
-      if (user && user.password === password && user.isActive) {
-        console.log(`[DB] Valid credentials for user: ${username}`);
-        return user;
+      if (!user || !user.isActive) {
+        console.log(`[DB] Invalid credentials for user: ${username}`);
+        return null;
       }
+
+      if (isPasswordHash(user.password)) {
+        if (await verifyPassword(password, user.password)) {
+          console.log(`[DB] Valid credentials for user: ${username}`);
+          return user;
+        }
+      } else if (user.password === password) {
+        // Legacy plaintext password - upgrade it to a hash now that we know it is correct
+        const hashed = await hashPassword(password);
+        await db.update(users).set({ password: hashed }).where(eq(users.id, user.id));
+        console.log(`[DB] Upgraded plaintext password to hash for user: ${username}`);
+        return { ...user, password: hashed };
+      }
+
       console.log(`[DB] Invalid credentials for user: ${username}`);
       return null;
     } catch (error) {
@@ -362,129 +714,730 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Session methods
-  async createSession(userId: string): Promise<Session> {
+  async updateUserTwoFactor(id: string, data: { twoFactorEnabled?: boolean; twoFactorSecret?: string | null; twoFactorRecoveryCodes?: string | null }): Promise<User | undefined> {
+    try {
+      await db.update(users).set(data).where(eq(users.id, id));
+      console.log(`[DB] Updated two-factor settings for user ID: ${id}`);
+      return this.getUser(id);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update two-factor settings for user ${id}:`, error);
+      throw new Error(`Failed to update two-factor settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async claimTotpStep(id: string, step: number): Promise<boolean> {
     try {
-      const sessionId = randomUUID();
-      const token = randomUUID();
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour session
+      // One conditional update, so two requests with the same code cannot both succeed
+      const result = await db.update(users)
+        .set({ twoFactorLastUsedStep: step })
+        .where(and(
+          eq(users.id, id),
+          or(isNull(users.twoFactorLastUsedStep), sql`${users.twoFactorLastUsedStep} < ${step}`),
+        ))
+        .returning({ id: users.id });
+
+      if (result.length === 0) {
+        console.log(`[DB] Rejected a reused two-factor code for user ID: ${id}`);
+      }
+      return result.length > 0;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to claim two-factor time-step for user ${id}:`, error);
+      throw new Error(`Failed to claim two-factor time-step: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    try {
+      return await db.select()
+        .from(passwordHistory)
+        .where(eq(passwordHistory.userId, userId))
+        .orderBy(desc(passwordHistory.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get password history for user ${userId}:`, error);
+      throw new Error(`Failed to get password history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
+  private async addPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    await db.insert(passwordHistory).values({
+      id: randomUUID(),
+      userId,
+      passwordHash,
+    });
+  }
+
+  private async hashUserPassword(password: string, options: UserPasswordOptions): Promise<string> {
+    // Only a data import restores stored hashes; anything a user typed is hashed, even if it looks like a hash
+    return options.keepPasswordHash && isPasswordHash(password) ? password : hashPassword(password);
+  }
+
+  // Session methods
+  async createSession(userId: string, metadata: { ipAddress?: string | null; userAgent?: string | null } = {}): Promise<Session> {
+    try {
+      const now = new Date();
       const session = {
-        id: sessionId,
+        id: randomUUID(),
         userId,
-        token,
-        expiresAt,
+        token: randomUUID(),
+        expiresAt: new Date(now.getTime() + SESSION_IDLE_TIMEOUT_MS),
+        ipAddress: metadata.ipAddress || null,
+        userAgent: metadata.userAgent || null,
+        lastActivityAt: now,
+        createdAt: now,
       };
 
       await db.insert(sessions).values(session);
       console.log(`[DB] Created session for user: ${userId}`);
       return session as Session;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to create session for user ${userId}:`, error);
-      throw new Error(`Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to create session for user ${userId}:`, error);
+      throw new Error(`Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getSessionByToken(token: string): Promise<Session | undefined> {
+    try {
+      const result = await db.select()
+        .from(sessions)
+        .where(eq(sessions.token, token))
+        .limit(1);
+      
+      const session = result[0];
+      if (session && session.expiresAt > new Date()) {
+        return session;
+      }
+      if (session) {
+        await this.deleteSession(token);
+      }
+      return undefined;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get session by token:`, error);
+      throw new Error(`Failed to get session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async touchSession(session: Session): Promise<void> {
+    try {
+      const now = new Date();
+      if (session.lastActivityAt && now.getTime() - session.lastActivityAt.getTime() < SESSION_TOUCH_INTERVAL_MS) {
+        return;
+      }
+
+      const maxExpiry = (session.createdAt ?? now).getTime() + SESSION_MAX_LIFETIME_MS;
+      const expiresAt = new Date(Math.min(now.getTime() + SESSION_IDLE_TIMEOUT_MS, maxExpiry));
+
+      await db.update(sessions)
+        .set({ lastActivityAt: now, expiresAt })
+        .where(eq(sessions.id, session.id));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to refresh session ${session.id}:`, error);
+      throw new Error(`Failed to refresh session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    try {
+      return await db.select()
+        .from(sessions)
+        .where(and(eq(sessions.userId, userId), gte(sessions.expiresAt, new Date())))
+        .orderBy(desc(sessions.lastActivityAt));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get sessions for user ${userId}:`, error);
+      throw new Error(`Failed to get user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteUserSession(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      const result = await db.delete(sessions)
+        .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)));
+      const deleted = (result.rowCount ?? 0) > 0;
+      if (deleted) {
+        console.log(`[DB] Revoked session ${sessionId} for user: ${userId}`);
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to revoke session ${sessionId}:`, error);
+      throw new Error(`Failed to revoke session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteUserSessions(userId: string, exceptToken?: string): Promise<number> {
+    try {
+      const condition = exceptToken
+        ? and(eq(sessions.userId, userId), ne(sessions.token, exceptToken))
+        : eq(sessions.userId, userId);
+      const result = await db.delete(sessions).where(condition);
+      const count = result.rowCount ?? 0;
+      console.log(`[DB] Revoked ${count} session(s) for user: ${userId}`);
+      return count;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to revoke sessions for user ${userId}:`, error);
+      throw new Error(`Failed to revoke user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    try {
+      await db.delete(sessions).where(eq(sessions.token, token));
+      console.log(`[DB] Deleted session`);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to delete session:`, error);
+      throw new Error(`Failed to delete session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Password reset methods
+  async createPasswordResetToken(token: { userId: string; tokenHash: string; expiresAt: Date; createdBy?: string | null }): Promise<PasswordResetToken> {
+    try {
+      const result = await db.insert(passwordResetTokens)
+        .values({ ...token, id: randomUUID() })
+        .returning();
+      console.log(`[DB] Created password reset token for user: ${token.userId}`);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create password reset token for user ${token.userId}:`, error);
+      throw new Error(`Failed to create password reset token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      const result = await db.select()
+        .from(passwordResetTokens)
+        .where(eq(passwordResetTokens.tokenHash, tokenHash))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get password reset token:`, error);
+      throw new Error(`Failed to get password reset token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      // Check and mark in one statement, so two concurrent requests cannot both redeem the token
+      const result = await db.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gte(passwordResetTokens.expiresAt, sql`now()`),
+        ))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to redeem password reset token:`, error);
+      throw new Error(`Failed to update password reset token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // API key methods
+  async getApiKeys(): Promise<ApiKey[]> {
+    try {
+      return await db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get API keys:`, error);
+      throw new Error(`Failed to get API keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    try {
+      const result = await db.select().from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get API key with ID ${id}:`, error);
+      throw new Error(`Failed to get API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    try {
+      const result = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get API key:`, error);
+      throw new Error(`Failed to get API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createApiKey(apiKey: { name: string; keyPrefix: string; keyHash: string; scope: string; pageKeys: string; expiresAt: Date; createdBy: string }): Promise<ApiKey> {
+    try {
+      const result = await db.insert(apiKeys)
+        .values({ ...apiKey, id: randomUUID() })
+        .returning();
+      console.log(`[DB] Created API key: ${apiKey.name}`);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create API key ${apiKey.name}:`, error);
+      throw new Error(`Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey | undefined> {
+    try {
+      const result = await db.update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(eq(apiKeys.id, id))
+        .returning();
+      if (result[0]) {
+        console.log(`[DB] Revoked API key with ID: ${id}`);
+      }
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to revoke API key with ID ${id}:`, error);
+      throw new Error(`Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async recordApiKeyUsage(id: string, ipAddress?: string | null): Promise<void> {
+    try {
+      await db.update(apiKeys)
+        .set({
+          lastUsedAt: new Date(),
+          lastUsedIp: ipAddress || null,
+          usageCount: sql`${apiKeys.usageCount} + 1`,
+        })
+        .where(eq(apiKeys.id, id));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to record usage of API key ${id}:`, error);
+      throw new Error(`Failed to record API key usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Login throttle methods
+  async getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined> {
+    try {
+      const result = await db.select()
+        .from(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get login throttle for ${scope} ${key}:`, error);
+      throw new Error(`Failed to get login throttle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async incrementLoginThrottle(scope: string, key: string, ipAddress: string, windowStart: Date): Promise<LoginThrottle> {
+    try {
+      // A single upsert, so concurrent failures cannot overwrite each other's increment
+      const now = new Date();
+      const result = await db.insert(loginThrottles)
+        .values({ id: randomUUID(), scope, key, failureCount: 1, lastFailureAt: now, lastFailureIp: ipAddress })
+        .onConflictDoUpdate({
+          target: [loginThrottles.scope, loginThrottles.key],
+          set: {
+            failureCount: sql`CASE WHEN ${loginThrottles.lastFailureAt} > ${windowStart} THEN ${loginThrottles.failureCount} + 1 ELSE 1 END`,
+            lastFailureAt: now,
+            lastFailureIp: ipAddress,
+            updatedAt: now,
+          },
+        })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to record login failure for ${scope} ${key}:`, error);
+      throw new Error(`Failed to record login failure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async extendLoginThrottleLock(scope: string, key: string, lockedUntil: Date): Promise<void> {
+    try {
+      // Never shortens a longer lock set by a concurrent failure
+      await db.update(loginThrottles)
+        .set({ lockedUntil: sql`GREATEST(COALESCE(${loginThrottles.lockedUntil}, ${lockedUntil}), ${lockedUntil})` })
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to lock login throttle for ${scope} ${key}:`, error);
+      throw new Error(`Failed to lock login throttle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async clearLoginThrottle(scope: string, key: string): Promise<void> {
+    try {
+      await db.delete(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to clear login throttle for ${scope} ${key}:`, error);
+      throw new Error(`Failed to clear login throttle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getLockedLoginThrottles(scope: string): Promise<LoginThrottle[]> {
+    try {
+      return await db.select()
+        .from(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), gte(loginThrottles.lockedUntil, new Date())))
+        .orderBy(desc(loginThrottles.lockedUntil));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get locked login throttles:`, error);
+      throw new Error(`Failed to get locked login throttles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Audit log methods
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    try {
+      const result = await db.insert(auditLogs).values({ ...log, id: randomUUID() }).returning();
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create audit log for ${log.method} ${log.path}:`, error);
+      throw new Error(`Failed to create audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]> {
+    try {
+      const conditions = [];
+      if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+      if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+      if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+      if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+      if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+      return await db.select()
+        .from(auditLogs)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(auditLogs.createdAt))
+        .limit(filters.limit ?? 500);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get audit logs:`, error);
+      throw new Error(`Failed to get audit logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAuditLogEntityTypes(): Promise<string[]> {
+    try {
+      const result = await db.selectDistinct({ entityType: auditLogs.entityType })
+        .from(auditLogs)
+        .orderBy(auditLogs.entityType);
+      return result.map(row => row.entityType);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get audit log entity types:`, error);
+      throw new Error(`Failed to get audit log entity types: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Campaign methods
+  async getCampaigns(clientId?: string): Promise<Campaign[]> {
+    try {
+      if (clientId) {
+        return db.select().from(campaigns).where(eq(campaigns.clientId, clientId)).orderBy(desc(campaigns.createdAt));
+      }
+      return db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get campaigns:`, error);
+      throw new Error(`Failed to get campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    try {
+      const result = await db.select().from(campaigns).where(eq(campaigns.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get campaign with ID ${id}:`, error);
+      throw new Error(`Failed to get campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    try {
+      const id = randomUUID();
+      const campaign = {
+        ...insertCampaign,
+        id,
+        status: insertCampaign.status || "active",
+        comments: insertCampaign.comments || null,
+        clientId: insertCampaign.clientId || null,
+        spend: insertCampaign.spend || "0",
+      };
+      
+      await db.insert(campaigns).values(campaign);
+      console.log(`[DB] Created campaign: ${campaign.name} (ID: ${campaign.id})`);
+      return campaign as Campaign;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create campaign:`, error);
+      throw new Error(`Failed to create campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateCampaign(id: string, updateData: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    try {
+      await db.update(campaigns).set(updateData).where(eq(campaigns.id, id));
+      console.log(`[DB] Updated campaign with ID: ${id}`);
+      return this.getCampaign(id);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update campaign with ID ${id}:`, error);
+      throw new Error(`Failed to update campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    try {
+      const result = await db.delete(campaigns).where(eq(campaigns.id, id));
+      const deleted = (result.rowCount ?? 0) > 0;
+      if (deleted) {
+        console.log(`[DB] Deleted campaign with ID: ${id}`);
+      } else {
+        console.warn(`[DB] No campaign found to delete with ID: ${id}`);
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to delete campaign with ID ${id}:`, error);
+      throw new Error(`Failed to delete campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async bulkUpdateCampaigns(updates: { id: string; data: Partial<InsertCampaign> }[]): Promise<Campaign[]> {
+    if (updates.length === 0) return [];
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const rows: Campaign[] = [];
+        for (const update of updates) {
+          const [campaign] = await tx.update(campaigns)
+            .set({ ...update.data, updatedAt: new Date() })
+            .where(eq(campaigns.id, update.id))
+            .returning();
+          if (!campaign) {
+            throw new Error(`Campaign ${update.id} no longer exists`);
+          }
+          rows.push(campaign);
+        }
+        return rows;
+      });
+      console.log(`[DB] Bulk updated ${updated.length} campaign(s)`);
+      return updated;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to bulk update campaigns:`, error);
+      throw new Error(`Failed to bulk update campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async bulkDeleteCampaigns(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    try {
+      const deleted = await db.transaction(async (tx) => {
+        const rows = await tx.delete(campaigns).where(inArray(campaigns.id, ids)).returning({ id: campaigns.id });
+        if (rows.length !== ids.length) {
+          throw new Error(`${ids.length - rows.length} campaign(s) no longer exist`);
+        }
+        return rows.length;
+      });
+      console.log(`[DB] Bulk deleted ${deleted} campaign(s)`);
+      return deleted;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to bulk delete campaigns:`, error);
+      throw new Error(`Failed to bulk delete campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async duplicateCampaign(
+    sourceId: string,
+    overrides: Partial<InsertCampaign>,
+    options: { includeAdCopySets: boolean; includeComments: boolean }
+  ): Promise<Campaign | undefined> {
+    try {
+      const copy = await db.transaction(async (tx) => {
+        const [source] = await tx.select().from(campaigns).where(eq(campaigns.id, sourceId));
+        if (!source) return undefined;
+
+        // Spend and Facebook sync state belong to the source, the copy starts as a fresh draft
+        const [campaign] = await tx.insert(campaigns).values({
+          id: randomUUID(),
+          name: `${source.name} (Copy)`,
+          startDate: source.startDate,
+          endDate: source.endDate,
+          comments: options.includeComments ? source.comments : null,
+          adAccountId: source.adAccountId,
+          clientId: source.clientId,
+          status: "draft",
+          objective: source.objective,
+          budget: source.budget,
+          spend: "0",
+          dailyBudget: source.dailyBudget,
+          lifetimeBudget: source.lifetimeBudget,
+          ...overrides,
+        }).returning();
+
+        const flights = await tx.select().from(campaignFlights).where(eq(campaignFlights.campaignId, sourceId));
+        if (flights.length > 0) {
+          await tx.insert(campaignFlights).values(flights.map(flight => ({
+            id: randomUUID(),
+            campaignId: campaign.id,
+            startDate: flight.startDate,
+            endDate: flight.endDate,
+          })));
+        }
+
+        if (options.includeAdCopySets) {
+          const sets = await tx.select().from(adCopySets).where(eq(adCopySets.campaignId, sourceId));
+          if (sets.length > 0) {
+            // Copies start inactive, their periods begin when one is set active
+            await tx.insert(adCopySets).values(sets.map(({ id, createdAt, updatedAt, ...set }) => ({
+              ...set,
+              id: randomUUID(),
+              campaignId: campaign.id,
+              isActive: false,
+            })));
+          }
+        }
+
+        if (options.includeComments) {
+          const comments = await tx.select()
+            .from(campaignComments)
+            .where(eq(campaignComments.campaignId, sourceId))
+            .orderBy(campaignComments.createdAt);
+          // Parents are written before their replies, so replies can point at the copied parent
+          const copiedIds = new Map(comments.map(comment => [comment.id, randomUUID()]));
+          if (comments.length > 0) {
+            await tx.insert(campaignComments).values(comments.map(comment => ({
+              ...comment,
+              id: copiedIds.get(comment.id)!,
+              campaignId: campaign.id,
+              parentId: comment.parentId ? copiedIds.get(comment.parentId) ?? null : null,
+            })));
+          }
+        }
+
+        return campaign;
+      });
+
+      if (copy) {
+        console.log(`[DB] Duplicated campaign ${sourceId} as ${copy.name} (ID: ${copy.id})`);
+      }
+      return copy;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to duplicate campaign ${sourceId}:`, error);
+      throw new Error(`Failed to duplicate campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Campaign Flight methods
+  async getCampaignFlights(campaignId: string): Promise<CampaignFlight[]> {
+    try {
+      return await db.select()
+        .from(campaignFlights)
+        .where(eq(campaignFlights.campaignId, campaignId))
+        .orderBy(campaignFlights.startDate);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get flights for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to get campaign flights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAllCampaignFlights(): Promise<CampaignFlight[]> {
+    try {
+      return await db.select().from(campaignFlights).orderBy(campaignFlights.startDate);
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get campaign flights:", error);
+      throw new Error(`Failed to get campaign flights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async replaceCampaignFlights(campaignId: string, flights: { startDate: Date; endDate: Date }[]): Promise<CampaignFlight[]> {
+    try {
+      const saved = await db.transaction(async (tx) => {
+        await tx.delete(campaignFlights).where(eq(campaignFlights.campaignId, campaignId));
+        if (flights.length === 0) return [];
+        return await tx.insert(campaignFlights)
+          .values(flights.map(flight => ({ id: randomUUID(), campaignId, ...flight })))
+          .returning();
+      });
+      console.log(`[DB] Saved ${saved.length} flight(s) for campaign ${campaignId}`);
+      return saved.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to save flights for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to save campaign flights: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getSessionByToken(token: string): Promise<Session | undefined> {
+  // Campaign Comment methods
+  async getCampaignComments(campaignId: string): Promise<CampaignComment[]> {
     try {
-      const result = await db.select()
-        .from(sessions)
-        .where(eq(sessions.token, token))
-        .limit(1);
-      
-      const session = result[0];
-      if (session && session.expiresAt > new Date()) {
-        return session;
-      }
-      if (session) {
-        await this.deleteSession(token);
-      }
-      return undefined;
+      return await db.select()
+        .from(campaignComments)
+        .where(eq(campaignComments.campaignId, campaignId))
+        .orderBy(campaignComments.createdAt);
     } catch (error) {
-      console.error(`[DB ERROR] Failed to get session by token:`, error);
-      throw new Error(`Failed to get session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get comments for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to get campaign comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async deleteSession(token: string): Promise<void> {
+  async getCampaignComment(id: string): Promise<CampaignComment | undefined> {
     try {
-      await db.delete(sessions).where(eq(sessions.token, token));
-      console.log(`[DB] Deleted session`);
+      const result = await db.select().from(campaignComments).where(eq(campaignComments.id, id)).limit(1);
+      return result[0];
     } catch (error) {
-      console.error(`[DB ERROR] Failed to delete session:`, error);
-      throw new Error(`Failed to delete session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get campaign comment with ID ${id}:`, error);
+      throw new Error(`Failed to get campaign comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Campaign methods
-  async getCampaigns(clientId?: string): Promise<Campaign[]> {
+  async createCampaignComment(insertComment: InsertCampaignComment): Promise<CampaignComment> {
     try {
-      if (clientId) {
-        return db.select().from(campaigns).where(eq(campaigns.clientId, clientId)).orderBy(desc(campaigns.createdAt));
-      }
-      return db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+      const [comment] = await db.insert(campaignComments)
+        .values({ ...insertComment, id: randomUUID() })
+        .returning();
+      console.log(`[DB] Created comment on campaign: ${insertComment.campaignId}`);
+      return comment;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to get campaigns:`, error);
-      throw new Error(`Failed to get campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to create comment on campaign ${insertComment.campaignId}:`, error);
+      throw new Error(`Failed to create campaign comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getCampaign(id: string): Promise<Campaign | undefined> {
+  async updateCampaignComment(id: string, updateData: Partial<InsertCampaignComment> & { editedAt?: Date | null; deletedAt?: Date | null }): Promise<CampaignComment | undefined> {
     try {
-      const result = await db.select().from(campaigns).where(eq(campaigns.id, id)).limit(1);
-      return result[0];
+      const [comment] = await db.update(campaignComments)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(campaignComments.id, id))
+        .returning();
+      return comment;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to get campaign with ID ${id}:`, error);
-      throw new Error(`Failed to get campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to update campaign comment with ID ${id}:`, error);
+      throw new Error(`Failed to update campaign comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+  // Campaign Field Change methods
+  async getCampaignFieldChanges(campaignId: string): Promise<CampaignFieldChange[]> {
     try {
-      const id = randomUUID();
-      const campaign = {
-        ...insertCampaign,
-        id,
-        status: insertCampaign.status || "active",
-        comments: insertCampaign.comments || null,
-        clientId: insertCampaign.clientId || null,
-        spend: insertCampaign.spend || "0",
-      };
-      
-      await db.insert(campaigns).values(campaign);
-      console.log(`[DB] Created campaign: ${campaign.name} (ID: ${campaign.id})`);
-      return campaign as Campaign;
+      return await db.select()
+        .from(campaignFieldChanges)
+        .where(eq(campaignFieldChanges.campaignId, campaignId))
+        .orderBy(desc(campaignFieldChanges.createdAt));
     } catch (error) {
-      console.error(`[DB ERROR] Failed to create campaign:`, error);
-      throw new Error(`Failed to create campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get field changes for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to get campaign field changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updateCampaign(id: string, updateData: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+  async getCampaignFieldChange(id: string): Promise<CampaignFieldChange | undefined> {
     try {
-      await db.update(campaigns).set(updateData).where(eq(campaigns.id, id));
-      console.log(`[DB] Updated campaign with ID: ${id}`);
-      return this.getCampaign(id);
+      const result = await db.select().from(campaignFieldChanges).where(eq(campaignFieldChanges.id, id)).limit(1);
+      return result[0];
     } catch (error) {
-      console.error(`[DB ERROR] Failed to update campaign with ID ${id}:`, error);
-      throw new Error(`Failed to update campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get campaign field change with ID ${id}:`, error);
+      throw new Error(`Failed to get campaign field change: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async deleteCampaign(id: string): Promise<boolean> {
+  async createCampaignFieldChanges(insertChanges: InsertCampaignFieldChange[]): Promise<CampaignFieldChange[]> {
+    if (insertChanges.length === 0) return [];
     try {
-      const result = await db.delete(campaigns).where(eq(campaigns.id, id));
-      const deleted = (result.rowCount ?? 0) > 0;
-      if (deleted) {
-        console.log(`[DB] Deleted campaign with ID: ${id}`);
-      } else {
-        console.warn(`[DB] No campaign found to delete with ID: ${id}`);
-      }
-      return deleted;
+      const changes = await db.insert(campaignFieldChanges)
+        .values(insertChanges.map(change => ({ ...change, id: randomUUID() })))
+        .returning();
+      console.log(`[DB] Recorded ${changes.length} field change(s) on campaign: ${insertChanges[0].campaignId}`);
+      return changes;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to delete campaign with ID ${id}:`, error);
-      throw new Error(`Failed to delete campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to record field changes on campaign ${insertChanges[0].campaignId}:`, error);
+      throw new Error(`Failed to record campaign field changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -501,6 +1454,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getCampaignDailySpendsSince(since: Date): Promise<CampaignDailySpend[]> {
+    try {
+      return await db.select()
+        .from(campaignDailySpends)
+        .where(gte(campaignDailySpends.date, since));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get daily spends since ${since.toISOString()}:`, error);
+      throw new Error(`Failed to get campaign daily spends: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getCampaignDailySpendsBetween(startDate: Date, endDate: Date): Promise<CampaignDailySpend[]> {
+    try {
+      return await db.select()
+        .from(campaignDailySpends)
+        .where(and(
+          gte(campaignDailySpends.date, startDate),
+          lte(campaignDailySpends.date, endDate)
+        ));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get daily spends between ${startDate.toISOString()} and ${endDate.toISOString()}:`, error);
+      throw new Error(`Failed to get campaign daily spends: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getCampaignDailySpend(campaignId: string, date: string): Promise<CampaignDailySpend | undefined> {
     try {
       // Normalize date to start of day in UTC to prevent timezone shifts
@@ -560,6 +1538,56 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async batchUpsertCampaignDailySpends(spends: InsertCampaignDailySpend[]): Promise<CampaignDailySpend[]> {
+    if (spends.length === 0) return [];
+    try {
+      const result = await db.transaction(tx => this.upsertDailySpendsInTransaction(tx, spends));
+      console.log(`[DB] Upserted ${result.length} daily spend(s) across ${new Set(result.map(spend => spend.campaignId)).size} campaign(s)`);
+      return result;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to batch upsert daily spends:`, error);
+      throw new Error(`Failed to batch upsert campaign daily spends: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Upserts on unique_campaign_date and recomputes the affected campaigns' total spend
+  private async upsertDailySpendsInTransaction(tx: DbTransaction, spends: InsertCampaignDailySpend[]): Promise<CampaignDailySpend[]> {
+    // One row per campaign-day; a later entry for the same day wins
+    const rows = new Map<string, { id: string; campaignId: string; date: Date; amount: string }>();
+    for (const spend of spends) {
+      const normalizedDate = new Date(spend.date);
+      normalizedDate.setUTCHours(0, 0, 0, 0);
+      rows.set(`${spend.campaignId}|${normalizedDate.toISOString()}`, {
+        id: randomUUID(),
+        campaignId: spend.campaignId,
+        date: normalizedDate,
+        amount: spend.amount.toString(),
+      });
+    }
+    if (rows.size === 0) return [];
+    const campaignIds = Array.from(new Set(Array.from(rows.values(), row => row.campaignId)));
+
+    const upserted = await tx.insert(campaignDailySpends)
+      .values(Array.from(rows.values()))
+      .onConflictDoUpdate({
+        target: [campaignDailySpends.campaignId, campaignDailySpends.date],
+        set: {
+          amount: sql`excluded.amount`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    // Keep each campaign's total spend equal to the sum of its daily spends
+    await tx.update(campaigns)
+      .set({
+        spend: sql`(SELECT COALESCE(SUM(${campaignDailySpends.amount}), 0) FROM ${campaignDailySpends} WHERE ${campaignDailySpends.campaignId} = ${campaigns.id})`,
+      })
+      .where(inArray(campaigns.id, campaignIds));
+
+    return upserted;
+  }
+
   async getCampaignTotalSpend(campaignId: string): Promise<number> {
     try {
       const spends = await this.getCampaignDailySpends(campaignId);
@@ -573,6 +1601,44 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Spend Reconciliation methods
+  async getSpendReconciliationDecisions(startDate: Date, endDate: Date): Promise<SpendReconciliationDecision[]> {
+    try {
+      return await db.select()
+        .from(spendReconciliationDecisions)
+        .where(and(
+          gte(spendReconciliationDecisions.date, startDate),
+          lte(spendReconciliationDecisions.date, endDate)
+        ))
+        .orderBy(desc(spendReconciliationDecisions.createdAt));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get spend reconciliation decisions:`, error);
+      throw new Error(`Failed to get spend reconciliation decisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async applySpendReconciliationDecisions(decisions: InsertSpendReconciliationDecision[]): Promise<SpendReconciliationDecision[]> {
+    if (decisions.length === 0) return [];
+    try {
+      const logged = await db.transaction(async (tx) => {
+        const accepted = decisions.filter(decision => decision.decision === ReconciliationDecision.ACCEPT_FACEBOOK);
+        await this.upsertDailySpendsInTransaction(tx, accepted.map(decision => ({
+          campaignId: decision.campaignId,
+          date: decision.date,
+          amount: parseFloat(decision.facebookAmount),
+        })));
+        return tx.insert(spendReconciliationDecisions)
+          .values(decisions.map(decision => ({ ...decision, id: randomUUID() })))
+          .returning();
+      });
+      console.log(`[DB] Applied ${logged.length} spend reconciliation decision(s)`);
+      return logged;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to apply spend reconciliation decisions:`, error);
+      throw new Error(`Failed to apply spend reconciliation decisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Client methods
   async getClients(): Promise<Client[]> {
     try {
@@ -663,7 +1729,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createAdAccount(insertAdAccount: InsertAdAccount): Promise<AdAccount> {
+  async createAdAccount(insertAdAccount: InsertAdAccount, author: AdAccountLimitEntryAuthor = SYSTEM_LIMIT_ENTRY_AUTHOR): Promise<AdAccount> {
     try {
       const id = randomUUID();
       const adAccount = {
@@ -674,7 +1740,17 @@ export class DatabaseStorage implements IStorage {
         notes: insertAdAccount.notes || null,
       };
       
-      await db.insert(adAccounts).values(adAccount);
+      await db.transaction(async (tx) => {
+        await tx.insert(adAccounts).values(adAccount);
+        await tx.insert(adAccountLimitEntries).values({
+          id: randomUUID(),
+          adAccountId: id,
+          type: AdAccountLimitEntryType.OPENING,
+          amount: adAccount.spendLimit,
+          date: new Date(),
+          ...author,
+        });
+      });
       console.log(`[DB] Created ad account: ${adAccount.accountName} (ID: ${adAccount.id})`);
       return adAccount as AdAccount;
     } catch (error) {
@@ -683,9 +1759,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateAdAccount(id: string, updateData: Partial<InsertAdAccount>): Promise<AdAccount | undefined> {
+  async updateAdAccount(id: string, updateData: Partial<InsertAdAccount>, author: AdAccountLimitEntryAuthor = SYSTEM_LIMIT_ENTRY_AUTHOR): Promise<AdAccount | undefined> {
     try {
-      await db.update(adAccounts).set(updateData).where(eq(adAccounts.id, id));
+      await db.transaction(async (tx) => {
+        await this.applyAdAccountUpdate(tx, id, updateData, author);
+      });
       console.log(`[DB] Updated ad account with ID: ${id}`);
       return this.getAdAccount(id);
     } catch (error) {
@@ -694,6 +1772,69 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateAdAccountWithStatusHistory(
+    id: string,
+    updateData: Partial<InsertAdAccount>,
+    author: AdAccountLimitEntryAuthor,
+    statusReason?: string | null
+  ): Promise<{ adAccount: AdAccount; statusChange?: AdAccountStatusChange } | undefined> {
+    try {
+      const result = await db.transaction(async (tx) => {
+        const before = await this.applyAdAccountUpdate(tx, id, updateData, author);
+        if (!before) return undefined;
+
+        const [adAccount] = await tx.select().from(adAccounts).where(eq(adAccounts.id, id));
+        if (before.status === adAccount.status) return { adAccount };
+
+        const [statusChange] = await tx.insert(adAccountStatusChanges).values({
+          id: randomUUID(),
+          adAccountId: id,
+          fromStatus: before.status,
+          toStatus: adAccount.status,
+          reason: statusReason || null,
+          changedBy: author.createdBy,
+          changedByName: author.createdByName,
+        }).returning();
+        return { adAccount, statusChange };
+      });
+
+      if (result?.statusChange) {
+        console.log(`[DB] Updated ad account with ID: ${id}, status ${result.statusChange.fromStatus} -> ${result.statusChange.toStatus}`);
+      } else if (result) {
+        console.log(`[DB] Updated ad account with ID: ${id}`);
+      }
+      return result;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update ad account with ID ${id}:`, error);
+      throw new Error(`Failed to update ad account: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Locks the account, records a spend limit change in the ledger and returns the account as it was before
+  private async applyAdAccountUpdate(tx: DbTransaction, id: string, updateData: Partial<InsertAdAccount>, author: AdAccountLimitEntryAuthor): Promise<AdAccount | undefined> {
+    const { spendLimit, ...otherData } = updateData;
+    const before = await this.lockAdAccountLedger(tx, id);
+    if (!before) return undefined;
+
+    const difference = spendLimit !== undefined ? parseFloat(spendLimit) - parseFloat(before.spendLimit) : 0;
+    if (difference !== 0) {
+      await tx.insert(adAccountLimitEntries).values({
+        id: randomUUID(),
+        adAccountId: id,
+        type: AdAccountLimitEntryType.ADJUSTMENT,
+        amount: difference.toFixed(2),
+        date: new Date(),
+        notes: "Spend limit edited",
+        ...author,
+      });
+      await this.applyLedgerSpendLimit(tx, id);
+    }
+    if (Object.keys(otherData).length > 0) {
+      await tx.update(adAccounts).set(otherData).where(eq(adAccounts.id, id));
+    }
+    return before;
+  }
+
   async deleteAdAccount(id: string): Promise<boolean> {
     try {
       const result = await db.delete(adAccounts).where(eq(adAccounts.id, id));
@@ -710,6 +1851,262 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getAdAccountWithMonitoredSpend(adAccountId: string): Promise<AdAccount | undefined> {
+    try {
+      const adAccount = await this.getAdAccount(adAccountId);
+      if (!adAccount) return undefined;
+
+      const [totals] = await db.select({
+        campaignCount: sql<number>`count(*)::int`,
+        spend: sql<string>`coalesce(sum(${campaigns.spend}), 0)`,
+      })
+        .from(campaigns)
+        .where(eq(campaigns.adAccountId, adAccountId));
+
+      // Accounts without campaigns are monitored against their manually entered total
+      if (totals.campaignCount === 0) {
+        return adAccount;
+      }
+      return { ...adAccount, totalSpend: parseFloat(totals.spend).toFixed(2) };
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get monitored spend of ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to get ad account monitored spend: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Spend Limit Ledger methods
+
+  // Locks the ad account row for the rest of the transaction
+  private async lockAdAccountLedger(tx: DbTransaction, adAccountId: string): Promise<AdAccount | undefined> {
+    const [adAccount] = await tx.select()
+      .from(adAccounts)
+      .where(eq(adAccounts.id, adAccountId))
+      .for('update');
+    return adAccount;
+  }
+
+  private async applyLedgerSpendLimit(tx: DbTransaction, adAccountId: string): Promise<AdAccount> {
+    const [totals] = await tx.select({ amount: sql<string>`coalesce(sum(${adAccountLimitEntries.amount}), 0)` })
+      .from(adAccountLimitEntries)
+      .where(eq(adAccountLimitEntries.adAccountId, adAccountId));
+    const [adAccount] = await tx.update(adAccounts)
+      .set({ spendLimit: parseFloat(totals.amount).toFixed(2), updatedAt: new Date() })
+      .where(eq(adAccounts.id, adAccountId))
+      .returning();
+    return adAccount;
+  }
+
+  async getAdAccountLimitEntries(adAccountId: string): Promise<AdAccountLimitEntryWithPayment[]> {
+    try {
+      const rows = await db.select({
+        entry: adAccountLimitEntries,
+        payment: {
+          id: financePayments.id,
+          amount: financePayments.amount,
+          currency: financePayments.currency,
+          date: financePayments.date,
+        },
+      })
+        .from(adAccountLimitEntries)
+        .leftJoin(financePayments, eq(adAccountLimitEntries.financePaymentId, financePayments.id))
+        .where(eq(adAccountLimitEntries.adAccountId, adAccountId))
+        .orderBy(desc(adAccountLimitEntries.date), desc(adAccountLimitEntries.createdAt));
+      return rows.map(row => ({ ...row.entry, payment: row.payment }));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get spend limit ledger of ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to get spend limit ledger: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async addAdAccountLimitEntry(adAccountId: string, entry: InsertAdAccountLimitEntry, author: AdAccountLimitEntryAuthor): Promise<{ entry: AdAccountLimitEntry; adAccount: AdAccount } | 'below_zero' | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const locked = await this.lockAdAccountLedger(tx, adAccountId);
+        if (!locked) return undefined;
+        if (parseFloat(locked.spendLimit) + entry.amount < 0) return 'below_zero' as const;
+
+        const [created] = await tx.insert(adAccountLimitEntries).values({
+          id: randomUUID(),
+          adAccountId,
+          type: entry.type,
+          amount: entry.amount.toFixed(2),
+          date: entry.date,
+          financePaymentId: entry.financePaymentId || null,
+          notes: entry.notes || null,
+          ...author,
+        }).returning();
+        const adAccount = await this.applyLedgerSpendLimit(tx, adAccountId);
+        console.log(`[DB] Added ${entry.type} of ${created.amount} to ad account ${adAccountId}, spend limit is now ${adAccount.spendLimit}`);
+        return { entry: created, adAccount };
+      });
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to add spend limit entry to ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to add spend limit entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Inserts or overwrites an ad account from an import, keeping its id and
+   * timestamps. A new account gets an opening entry for its limit and an
+   * existing one an adjustment for the difference.
+   */
+  async importAdAccount(imported: AdAccount, author: AdAccountLimitEntryAuthor = SYSTEM_LIMIT_ENTRY_AUTHOR): Promise<AdAccount> {
+    try {
+      return await db.transaction(async (tx) => {
+        const { spendLimit, ...otherData } = imported;
+        const existing = await this.lockAdAccountLedger(tx, imported.id);
+        if (!existing) {
+          await tx.insert(adAccounts).values(imported);
+          await tx.insert(adAccountLimitEntries).values({
+            id: randomUUID(),
+            adAccountId: imported.id,
+            type: AdAccountLimitEntryType.OPENING,
+            amount: spendLimit,
+            date: imported.createdAt || new Date(),
+            notes: "Imported from CSV",
+            ...author,
+          });
+        } else {
+          await tx.update(adAccounts).set(otherData).where(eq(adAccounts.id, imported.id));
+          const difference = parseFloat(spendLimit) - parseFloat(existing.spendLimit);
+          if (difference !== 0) {
+            await tx.insert(adAccountLimitEntries).values({
+              id: randomUUID(),
+              adAccountId: imported.id,
+              type: AdAccountLimitEntryType.ADJUSTMENT,
+              amount: difference.toFixed(2),
+              date: new Date(),
+              notes: "Spend limit imported from CSV",
+              ...author,
+            });
+          }
+        }
+        const adAccount = await this.applyLedgerSpendLimit(tx, imported.id);
+        console.log(`[DB] Imported ad account: ${adAccount.accountName} (ID: ${adAccount.id})`);
+        return adAccount;
+      });
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to import ad account ${imported.id}:`, error);
+      throw new Error(`Failed to import ad account: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Ad Account Status History methods
+  async getAdAccountStatusChanges(adAccountId: string): Promise<AdAccountStatusChange[]> {
+    try {
+      return await db.select()
+        .from(adAccountStatusChanges)
+        .where(eq(adAccountStatusChanges.adAccountId, adAccountId))
+        .orderBy(desc(adAccountStatusChanges.createdAt));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get status history of ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to get ad account status history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createAdAccountStatusChange(insertChange: InsertAdAccountStatusChange): Promise<AdAccountStatusChange> {
+    try {
+      const [change] = await db.insert(adAccountStatusChanges)
+        .values({ ...insertChange, id: randomUUID() })
+        .returning();
+      console.log(`[DB] Recorded status change of ad account ${change.adAccountId}: ${change.fromStatus} -> ${change.toStatus}`);
+      return change;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to record status change of ad account ${insertChange.adAccountId}:`, error);
+      throw new Error(`Failed to record ad account status change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateAdAccountStatusChangeNotifications(id: string, notifications: { emailSentTo: string | null; smsSentTo: string | null }): Promise<void> {
+    try {
+      await db.update(adAccountStatusChanges)
+        .set(notifications)
+        .where(eq(adAccountStatusChanges.id, id));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update notifications of ad account status change ${id}:`, error);
+      throw new Error(`Failed to update ad account status change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Spend Alert methods
+  async getSpendAlerts(adAccountId?: string): Promise<SpendAlert[]> {
+    try {
+      return await db.select()
+        .from(spendAlerts)
+        .where(adAccountId ? eq(spendAlerts.adAccountId, adAccountId) : undefined)
+        .orderBy(desc(spendAlerts.createdAt));
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get spend alerts:", error);
+      throw new Error(`Failed to get spend alerts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async openSpendAlert(adAccountId: string, threshold: number, totalSpend: string, spendLimit: string): Promise<SpendAlert | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Lock the account so concurrent checks cannot both open the same alert
+        await tx.select({ id: adAccounts.id })
+          .from(adAccounts)
+          .where(eq(adAccounts.id, adAccountId))
+          .for('update');
+
+        const [open] = await tx.select({ id: spendAlerts.id })
+          .from(spendAlerts)
+          .where(and(
+            eq(spendAlerts.adAccountId, adAccountId),
+            eq(spendAlerts.threshold, threshold),
+            isNull(spendAlerts.resolvedAt),
+          ))
+          .limit(1);
+        if (open) return undefined;
+
+        const [alert] = await tx.insert(spendAlerts).values({
+          id: randomUUID(),
+          adAccountId,
+          threshold,
+          totalSpend,
+          spendLimit,
+        }).returning();
+        console.log(`[DB] Opened ${threshold}% spend alert for ad account ${adAccountId}`);
+        return alert;
+      });
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to open spend alert for ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to open spend alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateSpendAlertDelivery(id: string, delivery: { emailSentTo: string | null; telegramSent: boolean }): Promise<void> {
+    try {
+      await db.update(spendAlerts)
+        .set(delivery)
+        .where(eq(spendAlerts.id, id));
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update delivery of spend alert ${id}:`, error);
+      throw new Error(`Failed to update spend alert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async resolveSpendAlerts(adAccountId: string, spendPercentage: number): Promise<number> {
+    try {
+      const result = await db.update(spendAlerts)
+        .set({ resolvedAt: new Date() })
+        .where(and(
+          eq(spendAlerts.adAccountId, adAccountId),
+          isNull(spendAlerts.resolvedAt),
+          sql`${spendAlerts.threshold} > ${spendPercentage}`,
+        ))
+        .returning({ id: spendAlerts.id });
+      if (result.length > 0) {
+        console.log(`[DB] Resolved ${result.length} spend alert(s) for ad account ${adAccountId}`);
+      }
+      return result.length;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to resolve spend alerts for ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to resolve spend alerts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Ad Copy Set methods
   async getAdCopySets(campaignId: string): Promise<AdCopySet[]> {
     try {
@@ -764,7 +2161,15 @@ export class DatabaseStorage implements IStorage {
         schedule: insertAdCopySet.schedule || null,
       };
       
-      await db.insert(adCopySets).values(adCopySet);
+      await db.transaction(async (tx) => {
+        if (adCopySet.isActive) {
+          await this.deactivateOtherAdCopySets(tx, adCopySet.campaignId, id);
+        }
+        await tx.insert(adCopySets).values(adCopySet);
+        if (adCopySet.isActive) {
+          await this.openAdCopySetPeriod(tx, id, adCopySet.campaignId);
+        }
+      });
       console.log(`[DB] Created ad copy set: ${adCopySet.setName} (ID: ${adCopySet.id})`);
       return adCopySet as AdCopySet;
     } catch (error) {
@@ -775,7 +2180,17 @@ export class DatabaseStorage implements IStorage {
 
   async updateAdCopySet(id: string, updateData: Partial<InsertAdCopySet>): Promise<AdCopySet | undefined> {
     try {
-      await db.update(adCopySets).set(updateData).where(eq(adCopySets.id, id));
+      await db.transaction(async (tx) => {
+        const [updated] = await tx.update(adCopySets).set(updateData).where(eq(adCopySets.id, id)).returning();
+        if (!updated || updateData.isActive === undefined) return;
+        // Keep the active period in step with the flag, only one set is active per campaign
+        if (updated.isActive) {
+          await this.deactivateOtherAdCopySets(tx, updated.campaignId, id);
+          await this.openAdCopySetPeriod(tx, id, updated.campaignId);
+        } else {
+          await this.closeAdCopySetPeriods(tx, eq(adCopySetPeriods.adCopySetId, id));
+        }
+      });
       console.log(`[DB] Updated ad copy set with ID: ${id}`);
       return this.getAdCopySet(id);
     } catch (error) {
@@ -800,19 +2215,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async setActiveAdCopySet(campaignId: string, setId: string): Promise<boolean> {
+  async setActiveAdCopySet(campaignId: string, setId: string, startedBy?: string): Promise<boolean> {
     try {
-      // First, deactivate all sets for this campaign
-      await db.update(adCopySets)
-        .set({ isActive: false })
-        .where(eq(adCopySets.campaignId, campaignId));
-
-      // Then activate the specified set
-      const result = await db.update(adCopySets)
-        .set({ isActive: true })
-        .where(and(eq(adCopySets.id, setId), eq(adCopySets.campaignId, campaignId)));
+      const activated = await db.transaction(async (tx) => {
+        const [target] = await tx.select({ id: adCopySets.id })
+          .from(adCopySets)
+          .where(and(eq(adCopySets.id, setId), eq(adCopySets.campaignId, campaignId)));
+        if (!target) return false;
+
+        // First, deactivate all other sets for this campaign and end their periods
+        await this.deactivateOtherAdCopySets(tx, campaignId, setId);
+
+        // Then activate the specified set, continuing its period if it was already live
+        await tx.update(adCopySets)
+          .set({ isActive: true })
+          .where(eq(adCopySets.id, setId));
+        await this.openAdCopySetPeriod(tx, setId, campaignId, startedBy);
+        return true;
+      });
 
-      const activated = (result.rowCount ?? 0) > 0;
       if (activated) {
         console.log(`[DB] Activated ad copy set ${setId} for campaign ${campaignId}`);
       } else {
@@ -825,6 +2246,50 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getAdCopySetPeriods(campaignId: string): Promise<AdCopySetPeriod[]> {
+    try {
+      return await db.select()
+        .from(adCopySetPeriods)
+        .where(eq(adCopySetPeriods.campaignId, campaignId))
+        .orderBy(adCopySetPeriods.startedAt);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get ad copy set periods for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to get ad copy set periods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Starts a period for the set unless one is already open
+  private async openAdCopySetPeriod(tx: DbTransaction, adCopySetId: string, campaignId: string, startedBy?: string): Promise<void> {
+    const [open] = await tx.select({ id: adCopySetPeriods.id })
+      .from(adCopySetPeriods)
+      .where(and(eq(adCopySetPeriods.adCopySetId, adCopySetId), isNull(adCopySetPeriods.endedAt)));
+    if (open) return;
+
+    await tx.insert(adCopySetPeriods).values({
+      id: randomUUID(),
+      adCopySetId,
+      campaignId,
+      startedAt: new Date(),
+      startedBy: startedBy || null,
+    });
+  }
+
+  private async deactivateOtherAdCopySets(tx: DbTransaction, campaignId: string, activeSetId: string): Promise<void> {
+    await tx.update(adCopySets)
+      .set({ isActive: false })
+      .where(and(eq(adCopySets.campaignId, campaignId), ne(adCopySets.id, activeSetId)));
+    await this.closeAdCopySetPeriods(tx, and(
+      eq(adCopySetPeriods.campaignId, campaignId),
+      ne(adCopySetPeriods.adCopySetId, activeSetId)
+    )!);
+  }
+
+  private async closeAdCopySetPeriods(tx: DbTransaction, condition: SQL): Promise<void> {
+    await tx.update(adCopySetPeriods)
+      .set({ endedAt: new Date() })
+      .where(and(condition, isNull(adCopySetPeriods.endedAt)));
+  }
+
   // Work Report methods
   async getWorkReports(userId?: string): Promise<WorkReport[]> {
     try {
@@ -950,14 +2415,89 @@ export class DatabaseStorage implements IStorage {
     return page as Page;
   }
 
-  async updatePage(id: string, updateData: Partial<InsertPage>): Promise<Page | undefined> {
-    await db.update(pages).set(updateData).where(eq(pages.id, id));
-    return this.getPage(id);
+  async updatePage(id: string, updateData: Partial<InsertPage>): Promise<Page | undefined> {
+    await db.update(pages).set(updateData).where(eq(pages.id, id));
+    return this.getPage(id);
+  }
+
+  async deletePage(id: string): Promise<boolean> {
+    const result = await db.delete(pages).where(eq(pages.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Role methods
+  async getRoles(): Promise<Role[]> {
+    try {
+      return await db.select().from(roles).orderBy(desc(roles.isSystem), roles.name);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get roles:`, error);
+      throw new Error(`Failed to get roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    try {
+      const result = await db.select().from(roles).where(eq(roles.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get role with ID ${id}:`, error);
+      throw new Error(`Failed to get role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getRoleByKey(key: string): Promise<Role | undefined> {
+    try {
+      const result = await db.select().from(roles).where(eq(roles.key, key)).limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get role with key ${key}:`, error);
+      throw new Error(`Failed to get role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  async deletePage(id: string): Promise<boolean> {
-    const result = await db.delete(pages).where(eq(pages.id, id));
-    return (result.rowCount ?? 0) > 0;
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    try {
+      const [role] = await db.insert(roles).values({ ...insertRole, id: randomUUID() }).returning();
+      console.log(`[DB] Created role: ${role.key}`);
+      return role;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create role:`, error);
+      throw new Error(`Failed to create role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateRole(id: string, updateData: Partial<InsertRole>): Promise<Role | undefined> {
+    try {
+      const [role] = await db.update(roles)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(roles.id, id))
+        .returning();
+      if (role) {
+        console.log(`[DB] Updated role: ${role.key}`);
+      }
+      return role;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to update role with ID ${id}:`, error);
+      throw new Error(`Failed to update role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteRole(id: string): Promise<boolean> {
+    try {
+      const deleted = await db.transaction(async (tx) => {
+        const [role] = await tx.delete(roles).where(eq(roles.id, id)).returning();
+        if (!role) return false;
+        await tx.delete(rolePermissions).where(eq(rolePermissions.role, role.key));
+        return true;
+      });
+      if (deleted) {
+        console.log(`[DB] Deleted role with ID: ${id}`);
+      }
+      return deleted;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to delete role with ID ${id}:`, error);
+      throw new Error(`Failed to delete role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   // Role Permission methods
@@ -1010,60 +2550,50 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
-  async checkUserPagePermission(userId: string, pageKey: string, action: 'view' | 'edit' | 'delete'): Promise<boolean> {
-    // Get user
+  async checkUserPagePermission(userId: string, pageKey: string, action: PageAction): Promise<boolean> {
     const user = await this.getUser(userId);
     if (!user) return false;
 
     // Super Admin has access to everything
     if (user.role === UserRole.SUPER_ADMIN) return true;
 
-    // First check user-specific menu permissions
-    const userMenuPermission = await this.getUserMenuPermission(userId);
-    
-    // Map pageKey to menu permission field
-    const pageKeyToMenuField: Record<string, string> = {
-      'dashboard': 'dashboard',
-      'campaigns': 'campaignManagement',
-      'clients': 'clientManagement',
-      'ad_accounts': 'adAccounts',
-      'work_reports': 'workReports',
-      'fb_ad_management': 'fbAdManagement',
-      'finance': 'advantixDashboard', // Finance uses multiple fields, checking main one
-      'admin': 'adminPanel'
-    };
+    const permissions = await this.getEffectivePagePermissions(userId);
+    return permissions[pageKey]?.[action] ?? false;
+  }
 
-    // If user has specific menu permissions set, use those for view action
-    if (userMenuPermission && action === 'view') {
-      const menuField = pageKeyToMenuField[pageKey];
-      if (menuField && menuField in userMenuPermission) {
-        const permissionValue = (userMenuPermission as any)[menuField];
-        // Return the user's specific menu permission if it's boolean
-        if (typeof permissionValue === 'boolean') {
-          return permissionValue;
+  /**
+   * Resolve what a user may do on every active page: the role's permissions,
+   * with any non-null user override taking precedence. Pages without a role
+   * permission row are denied.
+   */
+  async getEffectivePagePermissions(userId: string): Promise<PagePermissionMap> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return {};
+
+      const activePages = await db.select().from(pages).where(eq(pages.isActive, true));
+      const isSuperAdmin = user.role === UserRole.SUPER_ADMIN;
+      const roleDefaults = isSuperAdmin ? [] : await db.select().from(rolePermissions).where(eq(rolePermissions.role, user.role));
+      const overrides = isSuperAdmin ? [] : await this.getUserPagePermissions(userId);
+
+      const permissions: PagePermissionMap = {};
+      for (const page of activePages) {
+        if (isSuperAdmin) {
+          permissions[page.pageKey] = { view: true, edit: true, delete: true };
+          continue;
         }
+        const roleDefault = roleDefaults.find(permission => permission.pageId === page.id);
+        const override = overrides.find(permission => permission.pageId === page.id);
+        permissions[page.pageKey] = {
+          view: override?.canView ?? roleDefault?.canView ?? false,
+          edit: override?.canEdit ?? roleDefault?.canEdit ?? false,
+          delete: override?.canDelete ?? roleDefault?.canDelete ?? false,
+        };
       }
-    }
-
-    // Fall back to role-based permissions for edit/delete actions or if no user menu permissions
-    // Get page
-    const page = await this.getPageByKey(pageKey);
-    if (!page || !page.isActive) return false;
-
-    // Get permission for this role and page
-    const permission = await this.getRolePermissionByRoleAndPage(user.role, page.id);
-    if (!permission) return false;
-
-    // Check specific action
-    switch (action) {
-      case 'view':
-        return permission.canView ?? false;
-      case 'edit':
-        return permission.canEdit ?? false;
-      case 'delete':
-        return permission.canDelete ?? false;
-      default:
-        return false;
+      return permissions;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to resolve page permissions for user ${userId}:`, error);
+      throw new Error(`Failed to resolve page permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -1420,75 +2950,88 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // User Menu Permission methods implementation
-  async getUserMenuPermissions(userId?: string): Promise<UserMenuPermission[]> {
+  // User Page Permission methods implementation
+  async getUserPagePermissions(userId?: string): Promise<UserPagePermission[]> {
     try {
-      const query = db.select().from(userMenuPermissions);
-      
+      const query = db.select().from(userPagePermissions);
+
       if (userId) {
-        return query
-          .where(eq(userMenuPermissions.userId, userId))
-          .orderBy(desc(userMenuPermissions.createdAt));
-      } else {
-        return query.orderBy(desc(userMenuPermissions.createdAt));
+        return query.where(eq(userPagePermissions.userId, userId));
       }
+      return query;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to get user menu permissions:`, error);
-      throw new Error(`Failed to get user menu permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get user page permissions:`, error);
+      throw new Error(`Failed to get user page permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getUserMenuPermission(userId: string): Promise<UserMenuPermission | undefined> {
+  async upsertUserPagePermission(permission: InsertUserPagePermission): Promise<UserPagePermission> {
     try {
-      const result = await db.select().from(userMenuPermissions).where(eq(userMenuPermissions.userId, userId)).limit(1);
+      const result = await db.insert(userPagePermissions)
+        .values({ ...permission, id: randomUUID() })
+        .onConflictDoUpdate({
+          target: [userPagePermissions.userId, userPagePermissions.pageId],
+          set: {
+            canView: permission.canView ?? null,
+            canEdit: permission.canEdit ?? null,
+            canDelete: permission.canDelete ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      console.log(`[DB] Saved page permission override for user ${permission.userId} on page ${permission.pageId}`);
       return result[0];
     } catch (error) {
-      console.error(`[DB ERROR] Failed to get user menu permission for user ${userId}:`, error);
-      throw new Error(`Failed to get user menu permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to save page permission override for user ${permission.userId}:`, error);
+      throw new Error(`Failed to save user page permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async createUserMenuPermission(insertPermission: InsertUserMenuPermission): Promise<UserMenuPermission> {
+  async deleteUserPagePermission(userId: string, pageId: string): Promise<boolean> {
     try {
-      const id = randomUUID();
-      const newPermission = {
-        ...insertPermission,
-        id,
-      };
-      
-      await db.insert(userMenuPermissions).values(newPermission);
-      console.log(`[DB] Created user menu permission for user: ${newPermission.userId} (ID: ${newPermission.id})`);
-      return newPermission as UserMenuPermission;
+      const result = await db.delete(userPagePermissions)
+        .where(and(eq(userPagePermissions.userId, userId), eq(userPagePermissions.pageId, pageId)));
+      const deleted = (result.rowCount ?? 0) > 0;
+      if (deleted) {
+        console.log(`[DB] Deleted page permission override for user ${userId} on page ${pageId}`);
+      }
+      return deleted;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to create user menu permission:`, error);
-      throw new Error(`Failed to create user menu permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to delete page permission override for user ${userId}:`, error);
+      throw new Error(`Failed to delete user page permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updateUserMenuPermission(userId: string, updateData: Partial<InsertUserMenuPermission>): Promise<UserMenuPermission | undefined> {
+  // User Client Assignment methods implementation
+  async getUserClientAssignments(userId?: string): Promise<UserClientAssignment[]> {
     try {
-      await db.update(userMenuPermissions).set(updateData).where(eq(userMenuPermissions.userId, userId));
-      console.log(`[DB] Updated user menu permission for user: ${userId}`);
-      return this.getUserMenuPermission(userId);
+      const query = db.select().from(userClientAssignments);
+
+      if (userId) {
+        return query.where(eq(userClientAssignments.userId, userId));
+      }
+      return query;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to update user menu permission for user ${userId}:`, error);
-      throw new Error(`Failed to update user menu permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to get user client assignments:`, error);
+      throw new Error(`Failed to get user client assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async deleteUserMenuPermission(userId: string): Promise<boolean> {
+  async setUserClientAssignments(userId: string, clientIds: string[]): Promise<UserClientAssignment[]> {
     try {
-      const result = await db.delete(userMenuPermissions).where(eq(userMenuPermissions.userId, userId));
-      const deleted = (result.rowCount ?? 0) > 0;
-      if (deleted) {
-        console.log(`[DB] Deleted user menu permission for user: ${userId}`);
-      } else {
-        console.warn(`[DB] No user menu permission found to delete for user: ${userId}`);
-      }
-      return deleted;
+      const uniqueClientIds = Array.from(new Set(clientIds));
+      const assignments = await db.transaction(async (tx) => {
+        await tx.delete(userClientAssignments).where(eq(userClientAssignments.userId, userId));
+        if (uniqueClientIds.length === 0) return [];
+        return tx.insert(userClientAssignments)
+          .values(uniqueClientIds.map(clientId => ({ id: randomUUID(), userId, clientId })))
+          .returning();
+      });
+      console.log(`[DB] Set ${assignments.length} client assignment(s) for user: ${userId}`);
+      return assignments;
     } catch (error) {
-      console.error(`[DB ERROR] Failed to delete user menu permission for user ${userId}:`, error);
-      throw new Error(`Failed to delete user menu permission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[DB ERROR] Failed to set client assignments for user ${userId}:`, error);
+      throw new Error(`Failed to set user client assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -1857,6 +3400,186 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateFacebookSyncSchedule(schedule: FacebookSyncSchedule): Promise<FacebookSetting | undefined> {
+    try {
+      const existing = await this.getFacebookSettings();
+      if (!existing) return undefined;
+
+      const result = await db.update(facebookSettings)
+        .set({
+          ...schedule,
+          updatedAt: new Date(),
+        })
+        .where(eq(facebookSettings.id, existing.id))
+        .returning();
+
+      console.log(`[DB] Updated Facebook sync schedule: ${schedule.autoSyncEnabled ? `every ${schedule.autoSyncIntervalMinutes} minutes` : 'disabled'}`);
+      return result[0];
+    } catch (error) {
+      console.error("[DB ERROR] Failed to update Facebook sync schedule:", error);
+      throw new Error(`Failed to update Facebook sync schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Sync Run methods
+  async getSyncRuns(platform: string, limit: number): Promise<SyncRun[]> {
+    try {
+      return await db.select()
+        .from(syncRuns)
+        .where(eq(syncRuns.platform, platform))
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get ${platform} sync runs:`, error);
+      throw new Error(`Failed to get sync runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getLatestSyncRun(platform: string, trigger: string): Promise<SyncRun | undefined> {
+    try {
+      const result = await db.select()
+        .from(syncRuns)
+        .where(and(eq(syncRuns.platform, platform), eq(syncRuns.trigger, trigger)))
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(1);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get the latest ${platform} sync run:`, error);
+      throw new Error(`Failed to get the latest sync run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createSyncRun(platform: string, trigger: string): Promise<SyncRun> {
+    try {
+      const result = await db.insert(syncRuns).values({
+        id: randomUUID(),
+        platform,
+        trigger,
+        status: SyncRunStatus.RUNNING,
+        startedAt: new Date(),
+      }).returning();
+
+      console.log(`[DB] Started ${trigger} ${platform} sync run ${result[0].id}`);
+      return result[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to create ${platform} sync run:`, error);
+      throw new Error(`Failed to create sync run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async finishSyncRun(id: string, result: { status: string; accountsSynced: number; rowsUpserted: number; errors: SyncRunError[] }): Promise<SyncRun | undefined> {
+    try {
+      const [run] = await db.select().from(syncRuns).where(eq(syncRuns.id, id));
+      if (!run) return undefined;
+
+      const finishedAt = new Date();
+      const updated = await db.update(syncRuns)
+        .set({
+          status: result.status,
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          accountsSynced: result.accountsSynced,
+          rowsUpserted: result.rowsUpserted,
+          errors: result.errors.length > 0 ? JSON.stringify(result.errors) : null,
+        })
+        .where(eq(syncRuns.id, id))
+        .returning();
+
+      console.log(`[DB] Finished sync run ${id}: ${result.status}`);
+      return updated[0];
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to finish sync run ${id}:`, error);
+      throw new Error(`Failed to finish sync run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async failInterruptedSyncRuns(platform: string): Promise<number> {
+    try {
+      const result = await db.update(syncRuns)
+        .set({
+          status: SyncRunStatus.FAILED,
+          finishedAt: new Date(),
+          errors: JSON.stringify([{ adAccountId: null, accountName: null, message: 'The server restarted before the run finished' }]),
+        })
+        .where(and(eq(syncRuns.platform, platform), eq(syncRuns.status, SyncRunStatus.RUNNING)))
+        .returning({ id: syncRuns.id });
+
+      if (result.length > 0) {
+        console.log(`[DB] Marked ${result.length} interrupted ${platform} sync run(s) as failed`);
+      }
+      return result.length;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to close interrupted ${platform} sync runs:`, error);
+      throw new Error(`Failed to close interrupted sync runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // TikTok Settings methods
+  async getTiktokSettings(): Promise<TiktokSetting | undefined> {
+    try {
+      const result = await db.select()
+        .from(tiktokSettings)
+        .limit(1);
+      
+      return result[0];
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get TikTok settings:", error);
+      throw new Error(`Failed to get TikTok settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async saveTiktokSettings(data: InsertTiktokSetting): Promise<TiktokSetting> {
+    try {
+      const existing = await this.getTiktokSettings();
+      
+      if (existing) {
+        const result = await db.update(tiktokSettings)
+          .set({
+            ...data,
+            updatedAt: new Date(),
+          })
+          .where(eq(tiktokSettings.id, existing.id))
+          .returning();
+        
+        console.log(`[DB] Updated TikTok settings`);
+        return result[0];
+      } else {
+        const result = await db.insert(tiktokSettings).values({
+          ...data,
+          id: randomUUID(),
+        }).returning();
+        
+        console.log(`[DB] Created TikTok settings`);
+        return result[0];
+      }
+    } catch (error) {
+      console.error("[DB ERROR] Failed to save TikTok settings:", error);
+      throw new Error(`Failed to save TikTok settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateTiktokConnectionStatus(isConnected: boolean, error?: string): Promise<void> {
+    try {
+      const existing = await this.getTiktokSettings();
+      
+      if (existing) {
+        await db.update(tiktokSettings)
+          .set({
+            isConnected,
+            lastTestedAt: new Date(),
+            connectionError: error || null,
+            updatedAt: new Date(),
+          })
+          .where(eq(tiktokSettings.id, existing.id));
+        
+        console.log(`[DB] Updated TikTok connection status: ${isConnected ? 'connected' : 'disconnected'}`);
+      }
+    } catch (error) {
+      console.error("[DB ERROR] Failed to update TikTok connection status:", error);
+      throw new Error(`Failed to update TikTok connection status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Email Settings methods
   async getEmailSettings(): Promise<EmailSetting | undefined> {
     try {
@@ -2091,7 +3814,37 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getLatestFacebookAccountInsightDate(adAccountId: string): Promise<Date | undefined> {
+    try {
+      const [result] = await db.select({ latest: max(facebookAccountInsights.date) })
+        .from(facebookAccountInsights)
+        .where(eq(facebookAccountInsights.adAccountId, adAccountId));
+      return result?.latest ?? undefined;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get the latest insight date of ad account ${adAccountId}:`, error);
+      throw new Error(`Failed to get the latest insight date: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Facebook Campaign Insights methods
+  async getFacebookCampaignInsightsForCampaigns(fbCampaignIds: string[], startDate: Date, endDate: Date): Promise<FacebookCampaignInsight[]> {
+    if (fbCampaignIds.length === 0) return [];
+    try {
+      return await db.select()
+        .from(facebookCampaignInsights)
+        .where(
+          and(
+            inArray(facebookCampaignInsights.fbCampaignId, fbCampaignIds),
+            gte(facebookCampaignInsights.date, startDate),
+            lte(facebookCampaignInsights.date, endDate)
+          )
+        );
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get Facebook campaign insights for campaigns:", error);
+      throw new Error(`Failed to get Facebook campaign insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getFacebookCampaignInsights(adAccountId: string, startDate: Date, endDate: Date): Promise<FacebookCampaignInsight[]> {
     try {
       const result = await db.select()
@@ -2135,6 +3888,91 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Facebook Ad Set and Ad Insights methods
+  async getFacebookAdSetInsights(adAccountId: string, fbCampaignId: string, startDate: Date, endDate: Date): Promise<FacebookAdSetInsight[]> {
+    try {
+      return await db.select()
+        .from(facebookAdSetInsights)
+        .where(
+          and(
+            eq(facebookAdSetInsights.adAccountId, adAccountId),
+            eq(facebookAdSetInsights.fbCampaignId, fbCampaignId),
+            gte(facebookAdSetInsights.date, startDate),
+            lte(facebookAdSetInsights.date, endDate)
+          )
+        )
+        .orderBy(desc(facebookAdSetInsights.date));
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get Facebook ad set insights:", error);
+      throw new Error(`Failed to get Facebook ad set insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async upsertFacebookAdSetInsight(data: InsertFacebookAdSetInsight): Promise<FacebookAdSetInsight> {
+    try {
+      const result = await db.insert(facebookAdSetInsights)
+        .values({
+          ...data,
+          id: randomUUID(),
+        })
+        .onConflictDoUpdate({
+          target: [facebookAdSetInsights.fbAdSetId, facebookAdSetInsights.date],
+          set: {
+            ...data,
+            updatedAt: new Date(),
+          }
+        })
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error("[DB ERROR] Failed to upsert Facebook ad set insight:", error);
+      throw new Error(`Failed to upsert Facebook ad set insight: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getFacebookAdInsights(adAccountId: string, fbAdSetId: string, startDate: Date, endDate: Date): Promise<FacebookAdInsight[]> {
+    try {
+      return await db.select()
+        .from(facebookAdInsights)
+        .where(
+          and(
+            eq(facebookAdInsights.adAccountId, adAccountId),
+            eq(facebookAdInsights.fbAdSetId, fbAdSetId),
+            gte(facebookAdInsights.date, startDate),
+            lte(facebookAdInsights.date, endDate)
+          )
+        )
+        .orderBy(desc(facebookAdInsights.date));
+    } catch (error) {
+      console.error("[DB ERROR] Failed to get Facebook ad insights:", error);
+      throw new Error(`Failed to get Facebook ad insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async upsertFacebookAdInsight(data: InsertFacebookAdInsight): Promise<FacebookAdInsight> {
+    try {
+      const result = await db.insert(facebookAdInsights)
+        .values({
+          ...data,
+          id: randomUUID(),
+        })
+        .onConflictDoUpdate({
+          target: [facebookAdInsights.fbAdId, facebookAdInsights.date],
+          set: {
+            ...data,
+            updatedAt: new Date(),
+          }
+        })
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      console.error("[DB ERROR] Failed to upsert Facebook ad insight:", error);
+      throw new Error(`Failed to upsert Facebook ad insight: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Campaign Draft methods
   async getCampaignDrafts(): Promise<any[]> {
     try {
@@ -2214,6 +4052,40 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getCampaignTemplate(id: string): Promise<CampaignTemplate | undefined> {
+    try {
+      const [template] = await db.select().from(campaignTemplates).where(eq(campaignTemplates.id, id));
+      return template;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to get campaign template ${id}:`, error);
+      throw new Error(`Failed to get campaign template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createCampaignTemplate(template: InsertCampaignTemplate): Promise<CampaignTemplate> {
+    try {
+      const [created] = await db.insert(campaignTemplates).values({ ...template, id: randomUUID() }).returning();
+      console.log(`[DB] Created campaign template: ${created.templateName} (ID: ${created.id})`);
+      return created;
+    } catch (error) {
+      console.error("[DB ERROR] Failed to create campaign template:", error);
+      throw new Error(`Failed to create campaign template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async incrementCampaignTemplateUsage(id: string): Promise<CampaignTemplate | undefined> {
+    try {
+      const [template] = await db.update(campaignTemplates)
+        .set({ usageCount: sql`coalesce(${campaignTemplates.usageCount}, 0) + 1` })
+        .where(eq(campaignTemplates.id, id))
+        .returning();
+      return template;
+    } catch (error) {
+      console.error(`[DB ERROR] Failed to increment usage of campaign template ${id}:`, error);
+      throw new Error(`Failed to update campaign template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getSavedAudiences(): Promise<any[]> {
     try {
       const result = await db.select()
@@ -1,5 +1,5 @@
-import type { EmailSetting, AdAccount, Client } from "@shared/schema";
-import { getAdAccountActivationEmailTemplate, getAdAccountSuspensionEmailTemplate, getSpendAlertEmailTemplate } from "./email-templates";
+import type { EmailSetting, AdAccount, Client, User } from "@shared/schema";
+import { getAdAccountActivationEmailTemplate, getAdAccountSuspensionEmailTemplate, getSpendAlertEmailTemplate, getPasswordResetEmailTemplate, getCommentMentionEmailTemplate, getCampaignScheduleEmailTemplate } from "./email-templates";
 import { storage } from "./storage";
 
 interface EmailData {
@@ -155,55 +155,30 @@ export async function sendAdAccountSuspensionEmail(
 }
 
 export async function sendSpendWarningEmail(
-  recipientEmail: string,
-  clientName: string,
-  accountName: string,
-  platform: string,
+  adAccount: AdAccount,
+  client: Client,
   threshold: number
 ): Promise<boolean> {
   try {
+    if (!client.email) {
+      console.error(`Client ${client.clientName} has no email address`);
+      return false;
+    }
+
     const emailSettings = await storage.getEmailSettings();
     if (!emailSettings || !emailSettings.isConfigured) {
       console.error("Email settings not configured");
       return false;
     }
 
-    const mockClient: Client = {
-      id: '',
-      clientName: clientName,
-      businessName: '',
-      contactPerson: clientName,
-      email: recipientEmail,
-      phone: '',
-      address: null,
-      notes: null,
-      status: 'active',
-      createdAt: null,
-      updatedAt: null
-    };
-
-    const mockAdAccount: AdAccount = {
-      id: '',
-      platform: platform as any,
-      accountName: accountName,
-      accountId: '',
-      clientId: '',
-      spendLimit: '1000',
-      totalSpend: '800',
-      status: 'active',
-      notes: null,
-      createdAt: null,
-      updatedAt: null
-    };
-
     const template = getSpendAlertEmailTemplate({
-      adAccount: mockAdAccount,
-      client: mockClient,
+      adAccount,
+      client,
       threshold
     });
 
     return await sendEmail(emailSettings, {
-      to: recipientEmail,
+      to: client.email,
       subject: template.subject,
       html: template.html,
       text: template.text
@@ -213,3 +188,105 @@ export async function sendSpendWarningEmail(
     return false;
   }
 }
+
+export async function sendPasswordResetEmail(
+  user: User,
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<boolean> {
+  try {
+    if (!user.email) {
+      console.error(`User ${user.username} has no email address`);
+      return false;
+    }
+
+    const emailSettings = await storage.getEmailSettings();
+    if (!emailSettings || !emailSettings.isConfigured) {
+      console.error("Email settings not configured");
+      return false;
+    }
+
+    const template = getPasswordResetEmailTemplate({
+      name: user.name || user.username,
+      username: user.username,
+      resetUrl,
+      expiresInMinutes
+    });
+
+    return await sendEmail(emailSettings, {
+      to: user.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+  } catch (error) {
+    console.error("Send password reset email error:", error);
+    return false;
+  }
+}
+
+export async function sendCommentMentionEmail(
+  user: User,
+  mention: { authorName: string; campaignName: string; commentBody: string; campaignUrl: string }
+): Promise<boolean> {
+  try {
+    if (!user.email) {
+      console.error(`User ${user.username} has no email address`);
+      return false;
+    }
+
+    const emailSettings = await storage.getEmailSettings();
+    if (!emailSettings || !emailSettings.isConfigured) {
+      console.error("Email settings not configured");
+      return false;
+    }
+
+    const template = getCommentMentionEmailTemplate({
+      name: user.name || user.username,
+      ...mention
+    });
+
+    return await sendEmail(emailSettings, {
+      to: user.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+  } catch (error) {
+    console.error("Send comment mention email error:", error);
+    return false;
+  }
+}
+
+export async function sendCampaignScheduleEmail(
+  user: User,
+  update: { campaignName: string; status: string; reason: string; campaignUrl?: string }
+): Promise<boolean> {
+  try {
+    if (!user.email) {
+      console.error(`User ${user.username} has no email address`);
+      return false;
+    }
+
+    const emailSettings = await storage.getEmailSettings();
+    if (!emailSettings || !emailSettings.isConfigured) {
+      console.error("Email settings not configured");
+      return false;
+    }
+
+    const template = getCampaignScheduleEmailTemplate({
+      name: user.name || user.username,
+      ...update
+    });
+
+    return await sendEmail(emailSettings, {
+      to: user.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+  } catch (error) {
+    console.error("Send campaign schedule email error:", error);
+    return false;
+  }
+}
@@ -332,3 +332,225 @@ Advantix Admin Team
 
   return { subject, html, text };
 }
+
+interface PasswordResetEmailData {
+  name: string;
+  username: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export function getPasswordResetEmailTemplate(data: PasswordResetEmailData): { subject: string; html: string; text: string } {
+  const { name, username, resetUrl, expiresInMinutes } = data;
+
+  const subject = `🔑 Reset your Advantix Admin password`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .button { background: #2563eb; color: white !important; padding: 12px 24px; border-radius: 6px; display: inline-block; text-decoration: none; font-weight: 600; margin: 20px 0; }
+    .link-box { background: #f9fafb; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0; border-radius: 4px; word-break: break-all; font-size: 13px; }
+    .footer { background: #f9fafb; padding: 20px; text-align: center; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>🔑 Password Reset</h1>
+    </div>
+    <div class="content">
+      <p style="font-size: 16px; margin-top: 0;">Dear <strong>${name}</strong>,</p>
+      <p>An administrator has requested a password reset for your account <strong>${username}</strong>. Use the button below to choose a new password.</p>
+
+      <a class="button" href="${resetUrl}">Reset Password</a>
+
+      <p>If the button does not work, copy this link into your browser:</p>
+      <div class="link-box">${resetUrl}</div>
+
+      <p style="margin-bottom: 0;">This link can be used once and expires in ${expiresInMinutes} minutes. If you did not expect this email, please contact your administrator.</p>
+    </div>
+    <div class="footer">
+      <p style="margin: 0;">Best regards,<br><strong>Advantix Admin Team</strong></p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const text = `
+PASSWORD RESET
+
+Dear ${name},
+
+An administrator has requested a password reset for your account ${username}.
+
+Open this link to choose a new password:
+${resetUrl}
+
+This link can be used once and expires in ${expiresInMinutes} minutes.
+If you did not expect this email, please contact your administrator.
+
+Best regards,
+Advantix Admin Team
+  `;
+
+  return { subject, html, text };
+}
+
+interface CommentMentionEmailData {
+  name: string;
+  authorName: string;
+  campaignName: string;
+  commentBody: string;
+  campaignUrl: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getCommentMentionEmailTemplate(data: CommentMentionEmailData): { subject: string; html: string; text: string } {
+  const { name, authorName, campaignName, commentBody, campaignUrl } = data;
+
+  const subject = `💬 ${authorName} mentioned you on ${campaignName}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #16a34a 0%, #15803d 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .button { background: #16a34a; color: white !important; padding: 12px 24px; border-radius: 6px; display: inline-block; text-decoration: none; font-weight: 600; margin: 20px 0; }
+    .comment-box { background: #f9fafb; border-left: 4px solid #16a34a; padding: 15px; margin: 20px 0; border-radius: 4px; white-space: pre-wrap; }
+    .footer { background: #f9fafb; padding: 20px; text-align: center; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>💬 You were mentioned</h1>
+    </div>
+    <div class="content">
+      <p style="font-size: 16px; margin-top: 0;">Hi <strong>${escapeHtml(name)}</strong>,</p>
+      <p><strong>${escapeHtml(authorName)}</strong> mentioned you in a comment on the campaign <strong>${escapeHtml(campaignName)}</strong>:</p>
+
+      <div class="comment-box">${escapeHtml(commentBody)}</div>
+
+      <a class="button" href="${campaignUrl}">View Campaign</a>
+    </div>
+    <div class="footer">
+      <p style="margin: 0;">Best regards,<br><strong>Advantix Admin Team</strong></p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const text = `
+YOU WERE MENTIONED
+
+Hi ${name},
+
+${authorName} mentioned you in a comment on the campaign ${campaignName}:
+
+${commentBody}
+
+View the campaign:
+${campaignUrl}
+
+Best regards,
+Advantix Admin Team
+  `;
+
+  return { subject, html, text };
+}
+
+interface CampaignScheduleEmailData {
+  name: string;
+  campaignName: string;
+  status: string;
+  reason: string;
+  campaignUrl?: string;
+}
+
+export function getCampaignScheduleEmailTemplate(data: CampaignScheduleEmailData): { subject: string; html: string; text: string } {
+  const { name, campaignName, status, reason, campaignUrl } = data;
+  const statusLabel = status.charAt(0).toUpperCase() + status.slice(1);
+
+  const subject = `📅 ${campaignName} is now ${statusLabel}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #7c3aed 0%, #6d28d9 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+    .button { background: #7c3aed; color: white !important; padding: 12px 24px; border-radius: 6px; display: inline-block; text-decoration: none; font-weight: 600; margin: 20px 0; }
+    .info-box { background: #f5f3ff; border-left: 4px solid #7c3aed; padding: 15px; margin: 20px 0; border-radius: 4px; }
+    .footer { background: #f9fafb; padding: 20px; text-align: center; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>📅 Campaign Schedule Update</h1>
+    </div>
+    <div class="content">
+      <p style="font-size: 16px; margin-top: 0;">Hi <strong>${escapeHtml(name)}</strong>,</p>
+      <p>Your campaign <strong>${escapeHtml(campaignName)}</strong> was set to <strong>${escapeHtml(statusLabel)}</strong> by its schedule.</p>
+
+      <div class="info-box">${escapeHtml(reason)}</div>
+${campaignUrl ? `
+      <a class="button" href="${campaignUrl}">View Campaign</a>
+` : ''}    </div>
+    <div class="footer">
+      <p style="margin: 0;">Best regards,<br><strong>Advantix Admin Team</strong></p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const text = `
+CAMPAIGN SCHEDULE UPDATE
+
+Hi ${name},
+
+Your campaign ${campaignName} was set to ${statusLabel} by its schedule.
+
+${reason}
+${campaignUrl ? `
+View the campaign:
+${campaignUrl}
+` : ''}
+Best regards,
+Advantix Admin Team
+  `;
+
+  return { subject, html, text };
+}
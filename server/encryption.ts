@@ -91,8 +91,7 @@ export function decrypt(encryptedData: EncryptedData): string {
 }
 
 /**
- * Hash a password using bcrypt (for the farming account passwords themselves)
- * Note: This is different from user authentication passwords
+ * Hash a password using bcrypt (used for user login passwords)
  */
 export async function hashPassword(password: string): Promise<string> {
   const bcrypt = await import('bcrypt');
@@ -108,6 +107,13 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
+/**
+ * Check whether a stored password is already a bcrypt hash (legacy rows are plaintext)
+ */
+export function isPasswordHash(value: string | null | undefined): boolean {
+  return !!value && /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
 /**
  * Helper to encrypt optional field (returns null if input is null/undefined)
  */
@@ -0,0 +1,217 @@
+import {
+  AdPlatformError,
+  type AdPlatformAdapter,
+  type InsightDateRange,
+  type NewPlatformCampaign,
+  type PlatformAccount,
+  type PlatformAdInsight,
+  type PlatformAdSetInsight,
+  type PlatformCampaign,
+  type PlatformCampaignInsight,
+  type PlatformInsight,
+} from "./ad-platforms";
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v21.0';
+
+const INSIGHT_FIELDS = 'spend,impressions,clicks,ctr,cpc,cpm,reach,frequency,actions';
+const PURCHASE_ACTION = 'offsite_conversion.fb_pixel_purchase';
+
+export interface FacebookPage {
+  id: string;
+  name: string;
+  category?: string;
+  picture?: { data?: { url?: string } };
+}
+
+// Graph API budgets are in cents
+function fromCents(value: string | undefined): string | null {
+  return value ? (parseFloat(value) / 100).toFixed(2) : null;
+}
+
+function toInsight(row: any): PlatformInsight {
+  const conversionsAction = row.actions?.find((a: any) => a.action_type === PURCHASE_ACTION);
+  const conversions = conversionsAction ? parseInt(conversionsAction.value) : 0;
+  const spend = parseFloat(row.spend || "0");
+  const conversionValue = conversionsAction ? parseFloat(conversionsAction.value || "0") : 0;
+  return {
+    date: new Date(row.date_start),
+    spend: row.spend || "0",
+    impressions: parseInt(row.impressions) || 0,
+    clicks: parseInt(row.clicks) || 0,
+    ctr: row.ctr || "0",
+    cpc: row.cpc || "0",
+    cpm: row.cpm || "0",
+    reach: parseInt(row.reach) || 0,
+    frequency: row.frequency || "0",
+    conversions,
+    roas: spend > 0 && conversionValue > 0 ? (conversionValue / spend).toFixed(2) : "0",
+  };
+}
+
+/**
+ * Facebook Marketing API adapter. Accounts are addressed by their numeric id
+ * without the act_ prefix.
+ */
+export class FacebookAdapter implements AdPlatformAdapter {
+  readonly platform = 'facebook' as const;
+
+  constructor(private accessToken: string) {}
+
+  private async request(path: string, params: Record<string, string> = {}, init?: RequestInit): Promise<any> {
+    const url = new URL(path.startsWith('http') ? path : `${GRAPH_API_URL}/${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    if (!url.searchParams.has('access_token')) {
+      url.searchParams.set('access_token', this.accessToken);
+    }
+
+    const response = await fetch(url.toString(), init);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error("Facebook API error:", data);
+      throw new AdPlatformError('facebook', data.error?.message || `Facebook API request failed with status ${response.status}`);
+    }
+    return data;
+  }
+
+  // Follows paging.next until every row is loaded
+  private async requestAll(path: string, params: Record<string, string>): Promise<any[]> {
+    const rows: any[] = [];
+    let data = await this.request(path, params);
+    rows.push(...(data.data || []));
+    while (data.paging?.next) {
+      data = await this.request(data.paging.next);
+      rows.push(...(data.data || []));
+    }
+    return rows;
+  }
+
+  async testConnection(): Promise<{ id: string; name: string }> {
+    const data = await this.request('me');
+    return { id: data.id, name: data.name };
+  }
+
+  async listAccounts(): Promise<PlatformAccount[]> {
+    const accounts = await this.requestAll('me/adaccounts', { fields: 'id,name,account_id,account_status' });
+    return accounts.map(account => ({
+      accountId: account.account_id,
+      name: account.name,
+      status: account.account_status === 1 ? 'active' : 'suspended',
+    }));
+  }
+
+  // Pages are Facebook only, so they are not part of the adapter interface
+  async listPages(): Promise<FacebookPage[]> {
+    return this.requestAll('me/accounts', { fields: 'id,name,category,picture' });
+  }
+
+  async listCampaigns(accountId: string, options: { includeSpend?: boolean } = {}): Promise<PlatformCampaign[]> {
+    const fbCampaigns = await this.requestAll(`act_${accountId}/campaigns`, {
+      fields: 'id,name,status,effective_status,objective,daily_budget,lifetime_budget,budget_remaining,created_time,updated_time',
+      limit: '100',
+    });
+
+    return Promise.all(fbCampaigns.map(async (fbCampaign: any): Promise<PlatformCampaign> => {
+      let spend = '0';
+      if (options.includeSpend) {
+        try {
+          const insights = await this.request(`${fbCampaign.id}/insights`, { fields: 'spend' });
+          spend = insights.data?.[0]?.spend || '0';
+        } catch (error) {
+          console.error(`Failed to fetch insights for campaign ${fbCampaign.id}:`, error);
+        }
+      }
+      return {
+        id: fbCampaign.id,
+        name: fbCampaign.name,
+        status: fbCampaign.status === 'ACTIVE' ? 'active' : fbCampaign.status === 'PAUSED' ? 'paused' : 'completed',
+        platformStatus: fbCampaign.status || 'ACTIVE',
+        effectiveStatus: fbCampaign.effective_status || null,
+        objective: fbCampaign.objective || null,
+        dailyBudget: fromCents(fbCampaign.daily_budget),
+        lifetimeBudget: fromCents(fbCampaign.lifetime_budget),
+        budgetRemaining: fromCents(fbCampaign.budget_remaining),
+        spend: parseFloat(spend).toFixed(2),
+        createdAt: fbCampaign.created_time ? new Date(fbCampaign.created_time) : null,
+        updatedAt: fbCampaign.updated_time ? new Date(fbCampaign.updated_time) : null,
+      };
+    }));
+  }
+
+  async getAccountInsights(accountId: string, range: InsightDateRange): Promise<PlatformInsight[]> {
+    const rows = await this.requestAll(`act_${accountId}/insights`, {
+      time_range: JSON.stringify(range),
+      time_increment: '1',
+      level: 'account',
+      fields: INSIGHT_FIELDS,
+    });
+    return rows.map(toInsight);
+  }
+
+  async getCampaignInsights(accountId: string, range: InsightDateRange): Promise<PlatformCampaignInsight[]> {
+    const rows = await this.requestAll(`act_${accountId}/insights`, {
+      time_range: JSON.stringify(range),
+      time_increment: '1',
+      level: 'campaign',
+      fields: `campaign_id,campaign_name,${INSIGHT_FIELDS}`,
+    });
+    return rows.map(row => ({
+      ...toInsight(row),
+      campaignId: row.campaign_id,
+      campaignName: row.campaign_name || "Unnamed Campaign",
+    }));
+  }
+
+  async getAdSetInsights(accountId: string, range: InsightDateRange): Promise<PlatformAdSetInsight[]> {
+    const rows = await this.requestAll(`act_${accountId}/insights`, {
+      time_range: JSON.stringify(range),
+      time_increment: '1',
+      level: 'adset',
+      fields: `campaign_id,adset_id,adset_name,${INSIGHT_FIELDS}`,
+    });
+    return rows.map(row => ({
+      ...toInsight(row),
+      campaignId: row.campaign_id,
+      adSetId: row.adset_id,
+      adSetName: row.adset_name || "Unnamed Ad Set",
+    }));
+  }
+
+  async getAdInsights(accountId: string, range: InsightDateRange): Promise<PlatformAdInsight[]> {
+    const rows = await this.requestAll(`act_${accountId}/insights`, {
+      time_range: JSON.stringify(range),
+      time_increment: '1',
+      level: 'ad',
+      fields: `adset_id,ad_id,ad_name,${INSIGHT_FIELDS}`,
+    });
+    return rows.map(row => ({
+      ...toInsight(row),
+      adSetId: row.adset_id,
+      adId: row.ad_id,
+      adName: row.ad_name || "Unnamed Ad",
+    }));
+  }
+
+  async updateCampaignStatus(_accountId: string, campaignId: string, status: 'active' | 'paused'): Promise<void> {
+    await this.request(campaignId, {}, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: status === 'active' ? 'ACTIVE' : 'PAUSED' }),
+    });
+  }
+
+  async createCampaign(accountId: string, campaign: NewPlatformCampaign): Promise<string> {
+    const result = await this.request(`act_${accountId}/campaigns`, {}, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: campaign.name,
+        objective: campaign.objective,
+        status: "PAUSED", // Start paused for safety
+        special_ad_categories: [],
+      }),
+    });
+    return result.id;
+  }
+}
@@ -0,0 +1,157 @@
+import { SyncRunStatus, type SyncRun, type SyncRunError } from "@shared/schema";
+import { storage } from "./storage";
+import { getFacebookAdapter } from "./ad-platform-registry";
+import { getIncrementalInsightDateRange, syncAdAccountInsights, type InsightSyncResult } from "./platform-sync";
+import { checkSpendLimits } from "./spend-monitor";
+
+// How often the scheduler checks whether a sync is due
+export const FACEBOOK_SYNC_CHECK_INTERVAL_MS = 60 * 1000;
+
+export type FacebookSyncTrigger = 'schedule' | 'manual';
+
+export interface FacebookSyncRunResult {
+  run: SyncRun;
+  totals: InsightSyncResult;
+}
+
+// Only one sync at a time, whether scheduled, started from the Admin page or for a single account
+let syncInProgress = false;
+
+export function isFacebookSyncInProgress(): boolean {
+  return syncInProgress;
+}
+
+function addTotals(totals: InsightSyncResult, result: InsightSyncResult): InsightSyncResult {
+  return {
+    accountRecordsUpdated: totals.accountRecordsUpdated + result.accountRecordsUpdated,
+    campaignRecordsUpdated: totals.campaignRecordsUpdated + result.campaignRecordsUpdated,
+    adSetRecordsUpdated: totals.adSetRecordsUpdated + result.adSetRecordsUpdated,
+    adRecordsUpdated: totals.adRecordsUpdated + result.adRecordsUpdated,
+  };
+}
+
+export function getTotalRecords(totals: InsightSyncResult): number {
+  return totals.accountRecordsUpdated + totals.campaignRecordsUpdated + totals.adSetRecordsUpdated + totals.adRecordsUpdated;
+}
+
+/**
+ * Syncs insights of every Facebook ad account, or only the given ones, and
+ * records the run. Each account is fetched from its last synced date minus
+ * the re-pull window. A failing account is logged on the run and does not
+ * stop the others.
+ */
+export async function runFacebookSync(trigger: FacebookSyncTrigger, adAccountIds?: string[]): Promise<FacebookSyncRunResult> {
+  const run = await storage.createSyncRun('facebook', trigger);
+  let totals: InsightSyncResult = { accountRecordsUpdated: 0, campaignRecordsUpdated: 0, adSetRecordsUpdated: 0, adRecordsUpdated: 0 };
+  const errors: SyncRunError[] = [];
+  const syncedAccountIds: string[] = [];
+
+  try {
+    const [settings, adapter, adAccounts] = await Promise.all([
+      storage.getFacebookSettings(),
+      getFacebookAdapter(),
+      storage.getAdAccounts(),
+    ]);
+    if (!settings?.isConnected || !adapter) {
+      throw new Error("Facebook not connected. Please configure settings first.");
+    }
+
+    const accounts = adAccounts.filter(account =>
+      account.platform.toLowerCase() === 'facebook' && (!adAccountIds || adAccountIds.includes(account.id)),
+    );
+    for (const adAccount of accounts) {
+      try {
+        const lastSyncedDate = await storage.getLatestFacebookAccountInsightDate(adAccount.id);
+        const range = getIncrementalInsightDateRange(lastSyncedDate, settings.resyncWindowDays);
+        totals = addTotals(totals, await syncAdAccountInsights(adapter, adAccount, range));
+        syncedAccountIds.push(adAccount.id);
+        console.log(`[Facebook Sync] Synced ${adAccount.accountName} from ${range.since} to ${range.until}`);
+      } catch (error) {
+        console.error(`[Facebook Sync] Failed to sync ad account ${adAccount.id}:`, error);
+        errors.push({
+          adAccountId: adAccount.id,
+          accountName: adAccount.accountName,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`[Facebook Sync] Run ${run.id} failed:`, error);
+    errors.push({ adAccountId: null, accountName: null, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  if (syncedAccountIds.length > 0) {
+    void checkSpendLimits(syncedAccountIds);
+  }
+
+  const status = errors.length === 0
+    ? SyncRunStatus.SUCCESS
+    : syncedAccountIds.length > 0 ? SyncRunStatus.PARTIAL : SyncRunStatus.FAILED;
+  const finished = await storage.finishSyncRun(run.id, {
+    status,
+    accountsSynced: syncedAccountIds.length,
+    rowsUpserted: getTotalRecords(totals),
+    errors,
+  });
+  return { run: finished || run, totals };
+}
+
+/**
+ * Runs a sync of all accounts unless one is already running. Returns false
+ * when it was skipped.
+ */
+export async function runFullFacebookSync(trigger: FacebookSyncTrigger): Promise<boolean> {
+  if (syncInProgress) return false;
+  syncInProgress = true;
+  try {
+    const { run } = await runFacebookSync(trigger);
+    console.log(`[Facebook Sync] ${trigger} run ${run.id} finished: ${run.status}, ${run.rowsUpserted} rows from ${run.accountsSynced} account(s)`);
+  } finally {
+    syncInProgress = false;
+  }
+  return true;
+}
+
+/**
+ * Syncs the given accounts unless another sync is running. Returns undefined
+ * when it was skipped.
+ */
+export async function runExclusiveFacebookSync(trigger: FacebookSyncTrigger, adAccountIds: string[]): Promise<FacebookSyncRunResult | undefined> {
+  if (syncInProgress) return undefined;
+  syncInProgress = true;
+  try {
+    return await runFacebookSync(trigger, adAccountIds);
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+// Due when auto sync is on and the interval has passed since the last scheduled run started
+export async function isFacebookSyncDue(now: Date = new Date()): Promise<boolean> {
+  const settings = await storage.getFacebookSettings();
+  if (!settings?.isConnected || !settings.autoSyncEnabled) return false;
+
+  const lastRun = await storage.getLatestSyncRun('facebook', 'schedule');
+  if (!lastRun) return true;
+  return lastRun.startedAt.getTime() + settings.autoSyncIntervalMinutes * 60 * 1000 <= now.getTime();
+}
+
+// Closes runs a restart interrupted, then checks every minute whether a scheduled sync is due
+export function startFacebookSyncScheduler(): void {
+  const run = async () => {
+    try {
+      if (await isFacebookSyncDue()) {
+        await runFullFacebookSync('schedule');
+      }
+    } catch (error) {
+      console.error("Facebook sync schedule error:", error);
+    }
+  };
+
+  storage.failInterruptedSyncRuns('facebook')
+    .catch(error => console.error("Failed to close interrupted Facebook sync runs:", error))
+    .finally(() => {
+      void run();
+      setInterval(run, FACEBOOK_SYNC_CHECK_INTERVAL_MS);
+    });
+}
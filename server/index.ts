@@ -2,8 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { validateEncryptionSetup } from "./encryption";
+import { startCampaignScheduler } from "./campaign-scheduler";
+import { startFacebookSyncScheduler } from "./facebook-sync-scheduler";
 
 const app = express();
+// Behind the hosting proxy - needed so req.ip reports the real client address
+app.set("trust proxy", 1);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -78,5 +82,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startCampaignScheduler();
+    startFacebookSyncScheduler();
   });
 })();
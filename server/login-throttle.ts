@@ -0,0 +1,128 @@
+import type { LoginThrottle } from "@shared/schema";
+import { storage } from "./storage";
+
+export const LoginThrottleScope = {
+  USERNAME: 'username' as const,
+  IP: 'ip' as const,
+} as const;
+
+type LoginThrottleScopeType = typeof LoginThrottleScope[keyof typeof LoginThrottleScope];
+
+// Failures older than this no longer count towards backoff or lockout
+const FAILURE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+// Exponential backoff kicks in after a few failures: 1s, 2s, 4s... up to the cap
+const BACKOFF_AFTER_FAILURES = 3;
+const BACKOFF_BASE_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000; // 5 minutes
+
+// Reaching the threshold locks the username / IP for the lockout duration
+const LOCKOUT_THRESHOLDS: Record<LoginThrottleScopeType, number> = {
+  username: 10,
+  ip: 25, // Higher - offices share one IP
+};
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface LoginBlock {
+  scope: LoginThrottleScopeType;
+  retryAfterSeconds: number;
+  lockedOut: boolean; // true for a lockout, false for a backoff delay
+}
+
+export interface LoginFailureResult {
+  usernameFailures: number;
+  ipFailures: number;
+  newlyLocked: LoginThrottleScopeType[];
+}
+
+function isLockedOut(scope: LoginThrottleScopeType, throttle: LoginThrottle): boolean {
+  return throttle.failureCount >= LOCKOUT_THRESHOLDS[scope];
+}
+
+async function getActiveBlock(scope: LoginThrottleScopeType, key: string): Promise<LoginBlock | null> {
+  const throttle = await storage.getLoginThrottle(scope, key);
+  if (!throttle?.lockedUntil) return null;
+
+  const remainingMs = throttle.lockedUntil.getTime() - Date.now();
+  if (remainingMs <= 0) return null;
+
+  return {
+    scope,
+    retryAfterSeconds: Math.ceil(remainingMs / 1000),
+    lockedOut: isLockedOut(scope, throttle),
+  };
+}
+
+async function recordFailure(scope: LoginThrottleScopeType, key: string, ipAddress: string): Promise<{ failures: number; newlyLocked: boolean }> {
+  const now = new Date();
+  const throttle = await storage.incrementLoginThrottle(scope, key, ipAddress, new Date(now.getTime() - FAILURE_WINDOW_MS));
+  const failures = throttle.failureCount;
+
+  let delayMs = 0;
+  if (failures >= LOCKOUT_THRESHOLDS[scope]) {
+    delayMs = LOCKOUT_DURATION_MS;
+  } else if (failures >= BACKOFF_AFTER_FAILURES) {
+    delayMs = Math.min(BACKOFF_BASE_MS * 2 ** (failures - BACKOFF_AFTER_FAILURES), MAX_BACKOFF_MS);
+  }
+
+  if (delayMs > 0) {
+    await storage.extendLoginThrottleLock(scope, key, new Date(now.getTime() + delayMs));
+  }
+
+  return { failures, newlyLocked: failures === LOCKOUT_THRESHOLDS[scope] };
+}
+
+/**
+ * Check whether a login attempt must be rejected because of earlier failures.
+ * Returns the longest active block across the username and the IP.
+ */
+export async function getLoginBlock(username: string, ipAddress: string): Promise<LoginBlock | null> {
+  const blocks = await Promise.all([
+    getActiveBlock(LoginThrottleScope.USERNAME, username),
+    getActiveBlock(LoginThrottleScope.IP, ipAddress),
+  ]);
+
+  return blocks
+    .filter((block): block is LoginBlock => block !== null)
+    .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds)[0] || null;
+}
+
+/**
+ * Count a failed login against both the username and the IP
+ */
+export async function recordFailedLogin(username: string, ipAddress: string): Promise<LoginFailureResult> {
+  const [usernameResult, ipResult] = await Promise.all([
+    recordFailure(LoginThrottleScope.USERNAME, username, ipAddress),
+    recordFailure(LoginThrottleScope.IP, ipAddress, ipAddress),
+  ]);
+
+  const newlyLocked: LoginThrottleScopeType[] = [];
+  if (usernameResult.newlyLocked) newlyLocked.push(LoginThrottleScope.USERNAME);
+  if (ipResult.newlyLocked) newlyLocked.push(LoginThrottleScope.IP);
+
+  return {
+    usernameFailures: usernameResult.failures,
+    ipFailures: ipResult.failures,
+    newlyLocked,
+  };
+}
+
+/**
+ * Reset the username counter after a successful login. The IP counter is left
+ * to expire on its own so one valid account cannot reset it for an attacker.
+ */
+export async function clearFailedLogins(username: string): Promise<void> {
+  await storage.clearLoginThrottle(LoginThrottleScope.USERNAME, username);
+}
+
+/**
+ * Admin unlock: resets the username and lifts the lockout of the IP its
+ * latest failure came from, so the user can log in again straight away.
+ */
+export async function unlockLogin(username: string): Promise<void> {
+  const throttle = await storage.getLoginThrottle(LoginThrottleScope.USERNAME, username);
+  await storage.clearLoginThrottle(LoginThrottleScope.USERNAME, username);
+  if (throttle?.lastFailureIp) {
+    await storage.clearLoginThrottle(LoginThrottleScope.IP, throttle.lastFailureIp);
+  }
+}
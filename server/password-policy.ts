@@ -0,0 +1,122 @@
+import type { User } from "@shared/schema";
+import { verifyPassword, isPasswordHash } from "./encryption";
+import { storage } from "./storage";
+
+// Finance settings keys holding the password policy
+export const PASSWORD_POLICY_KEYS = {
+  minLength: 'password_min_length',
+  requireUppercase: 'password_require_uppercase',
+  requireLowercase: 'password_require_lowercase',
+  requireNumber: 'password_require_number',
+  requireSymbol: 'password_require_symbol',
+  historyCount: 'password_history_count',
+} as const;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // How many previous passwords cannot be reused (0 disables the check)
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+};
+
+const MIN_ALLOWED_LENGTH = 6;
+const MAX_HISTORY_COUNT = 24;
+
+/**
+ * Load the password policy, falling back to defaults for unset keys
+ */
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const settings = await storage.getAllFinanceSettings();
+  const byKey = new Map(settings.map(setting => [setting.key, setting.value]));
+
+  const readNumber = (key: string, fallback: number) => {
+    const value = parseInt(byKey.get(key) ?? '', 10);
+    return isNaN(value) ? fallback : value;
+  };
+  const readBoolean = (key: string, fallback: boolean) => {
+    const value = byKey.get(key);
+    return value === undefined ? fallback : value === 'true';
+  };
+
+  return {
+    minLength: Math.max(MIN_ALLOWED_LENGTH, readNumber(PASSWORD_POLICY_KEYS.minLength, DEFAULT_PASSWORD_POLICY.minLength)),
+    requireUppercase: readBoolean(PASSWORD_POLICY_KEYS.requireUppercase, DEFAULT_PASSWORD_POLICY.requireUppercase),
+    requireLowercase: readBoolean(PASSWORD_POLICY_KEYS.requireLowercase, DEFAULT_PASSWORD_POLICY.requireLowercase),
+    requireNumber: readBoolean(PASSWORD_POLICY_KEYS.requireNumber, DEFAULT_PASSWORD_POLICY.requireNumber),
+    requireSymbol: readBoolean(PASSWORD_POLICY_KEYS.requireSymbol, DEFAULT_PASSWORD_POLICY.requireSymbol),
+    historyCount: Math.min(MAX_HISTORY_COUNT, Math.max(0, readNumber(PASSWORD_POLICY_KEYS.historyCount, DEFAULT_PASSWORD_POLICY.historyCount))),
+  };
+}
+
+/**
+ * Save the password policy into finance settings
+ */
+export async function savePasswordPolicy(policy: PasswordPolicy): Promise<PasswordPolicy> {
+  const entries: [string, string, string][] = [
+    [PASSWORD_POLICY_KEYS.minLength, String(Math.max(MIN_ALLOWED_LENGTH, policy.minLength)), "Minimum password length"],
+    [PASSWORD_POLICY_KEYS.requireUppercase, String(policy.requireUppercase), "Passwords must contain an uppercase letter"],
+    [PASSWORD_POLICY_KEYS.requireLowercase, String(policy.requireLowercase), "Passwords must contain a lowercase letter"],
+    [PASSWORD_POLICY_KEYS.requireNumber, String(policy.requireNumber), "Passwords must contain a number"],
+    [PASSWORD_POLICY_KEYS.requireSymbol, String(policy.requireSymbol), "Passwords must contain a symbol"],
+    [PASSWORD_POLICY_KEYS.historyCount, String(Math.min(MAX_HISTORY_COUNT, Math.max(0, policy.historyCount))), "Number of previous passwords that cannot be reused"],
+  ];
+
+  for (const [key, value, description] of entries) {
+    await storage.setFinanceSetting({ key, value, description });
+  }
+
+  return getPasswordPolicy();
+}
+
+/**
+ * Check a new password against the policy. When a user is given, the current
+ * and recent passwords are rejected as well. Returns the list of problems.
+ */
+export async function validatePasswordAgainstPolicy(password: string, user?: User): Promise<string[]> {
+  const policy = await getPasswordPolicy();
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    errors.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+
+  if (user && policy.historyCount > 0 && errors.length === 0) {
+    const history = await storage.getPasswordHistory(user.id, policy.historyCount);
+    const previousHashes = [user.password, ...history.map(entry => entry.passwordHash)];
+
+    for (const previous of previousHashes) {
+      const matches = isPasswordHash(previous)
+        ? await verifyPassword(password, previous)
+        : previous === password;
+      if (matches) {
+        errors.push(`Password cannot match any of your last ${policy.historyCount} passwords`);
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,155 @@
+import type { AdAccount, Campaign } from "@shared/schema";
+import { storage } from "./storage";
+import type { AdPlatformAdapter, InsightDateRange, PlatformInsight } from "./ad-platforms";
+import { getAdPlatformAdapter } from "./ad-platform-registry";
+
+export interface InsightSyncResult {
+  accountRecordsUpdated: number;
+  campaignRecordsUpdated: number;
+  adSetRecordsUpdated: number;
+  adRecordsUpdated: number;
+}
+
+export function getInsightDateRange(days: number, now: Date = new Date()): InsightDateRange {
+  const startDate = new Date(now);
+  startDate.setDate(startDate.getDate() - days);
+  return {
+    since: startDate.toISOString().split('T')[0],
+    until: now.toISOString().split('T')[0],
+  };
+}
+
+// Days fetched for an ad account that has never been synced
+export const INITIAL_INSIGHT_SYNC_DAYS = 30;
+
+/**
+ * Range for an incremental sync: from the last synced date, minus a re-pull
+ * window for conversions the platform attributes late, up to today.
+ */
+export function getIncrementalInsightDateRange(
+  lastSyncedDate: Date | undefined,
+  resyncWindowDays: number,
+  now: Date = new Date(),
+): InsightDateRange {
+  if (!lastSyncedDate) return getInsightDateRange(INITIAL_INSIGHT_SYNC_DAYS, now);
+
+  const startDate = new Date(lastSyncedDate);
+  startDate.setUTCDate(startDate.getUTCDate() - resyncWindowDays);
+  const since = startDate < now ? startDate : now;
+  return {
+    since: since.toISOString().split('T')[0],
+    until: now.toISOString().split('T')[0],
+  };
+}
+
+// Derived metrics are computed the same way for every platform
+function toInsightValues(insight: PlatformInsight) {
+  const spend = parseFloat(insight.spend);
+  return {
+    date: insight.date,
+    spend: insight.spend,
+    impressions: insight.impressions,
+    clicks: insight.clicks,
+    ctr: insight.ctr,
+    cpc: insight.cpc,
+    cpm: insight.cpm,
+    reach: insight.reach,
+    frequency: insight.frequency,
+    conversions: insight.conversions,
+    costPerConversion: insight.conversions > 0 ? (spend / insight.conversions).toFixed(2) : "0",
+    conversionRate: insight.clicks > 0 ? ((insight.conversions / insight.clicks) * 100).toFixed(2) : "0",
+    roas: insight.roas,
+  };
+}
+
+// The ad set and ad tables keep fewer metrics
+function toBreakdownValues(insight: PlatformInsight) {
+  const { date, spend, impressions, clicks, ctr, cpc, cpm, conversions, roas } = insight;
+  return { date, spend, impressions, clicks, ctr, cpc, cpm, conversions, roas };
+}
+
+/**
+ * Stores daily account and campaign insights for one ad account, plus ad set
+ * and ad insights where the adapter provides them. The insight tables are
+ * named for Facebook but hold every platform, keyed by ad account.
+ */
+export async function syncAdAccountInsights(
+  adapter: AdPlatformAdapter,
+  adAccount: AdAccount,
+  range: InsightDateRange,
+): Promise<InsightSyncResult> {
+  const accountInsights = await adapter.getAccountInsights(adAccount.accountId, range);
+  for (const insight of accountInsights) {
+    await storage.upsertFacebookAccountInsight({
+      adAccountId: adAccount.id,
+      ...toInsightValues(insight),
+    });
+  }
+
+  // Campaign details (status, objective, budget) are not part of the insights
+  const campaignDetails = new Map(
+    (await adapter.listCampaigns(adAccount.accountId)).map(campaign => [campaign.id, campaign]),
+  );
+
+  const campaignInsights = await adapter.getCampaignInsights(adAccount.accountId, range);
+  for (const insight of campaignInsights) {
+    const details = campaignDetails.get(insight.campaignId);
+    await storage.upsertFacebookCampaignInsight({
+      adAccountId: adAccount.id,
+      fbCampaignId: insight.campaignId,
+      campaignName: insight.campaignName,
+      status: details?.platformStatus || "ACTIVE",
+      objective: details?.objective,
+      dailyBudget: details?.dailyBudget,
+      ...toInsightValues(insight),
+    });
+  }
+
+  const adSetInsights = adapter.getAdSetInsights ? await adapter.getAdSetInsights(adAccount.accountId, range) : [];
+  for (const insight of adSetInsights) {
+    await storage.upsertFacebookAdSetInsight({
+      adAccountId: adAccount.id,
+      fbCampaignId: insight.campaignId,
+      fbAdSetId: insight.adSetId,
+      adSetName: insight.adSetName,
+      ...toBreakdownValues(insight),
+    });
+  }
+
+  const adInsights = adapter.getAdInsights ? await adapter.getAdInsights(adAccount.accountId, range) : [];
+  for (const insight of adInsights) {
+    await storage.upsertFacebookAdInsight({
+      adAccountId: adAccount.id,
+      fbAdSetId: insight.adSetId,
+      fbAdId: insight.adId,
+      adName: insight.adName,
+      ...toBreakdownValues(insight),
+    });
+  }
+
+  return {
+    accountRecordsUpdated: accountInsights.length,
+    campaignRecordsUpdated: campaignInsights.length,
+    adSetRecordsUpdated: adSetInsights.length,
+    adRecordsUpdated: adInsights.length,
+  };
+}
+
+/**
+ * Pushes a local status change to the platform a synced campaign came from.
+ * Completed campaigns are paused there. Campaigns that are not linked, or
+ * whose platform is not set up, are left alone. Returns whether the platform
+ * was updated; platform errors are thrown.
+ */
+export async function pushCampaignStatus(campaign: Campaign, status: string): Promise<boolean> {
+  if (!campaign.fbCampaignId || !['active', 'paused', 'completed'].includes(status)) return false;
+
+  const adAccount = await storage.getAdAccount(campaign.adAccountId);
+  if (!adAccount) return false;
+  const adapter = await getAdPlatformAdapter(adAccount.platform);
+  if (!adapter) return false;
+
+  await adapter.updateCampaignStatus(adAccount.accountId, campaign.fbCampaignId, status === 'active' ? 'active' : 'paused');
+  console.log(`[Platform] Set campaign ${campaign.fbCampaignId} on ${adapter.platform} to ${status === 'active' ? 'active' : 'paused'}`);
+  return true;
+}
@@ -1,18 +1,34 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes, createHash } from "crypto";
 import { storage } from "./storage";
 import { db } from "./db";
 import multer from "multer";
 import { parse } from "csv-parse/sync";
 import { 
   loginSchema, 
+  twoFactorLoginSchema,
+  twoFactorCodeSchema,
+  changePasswordSchema,
+  passwordResetSchema,
+  createApiKeySchema,
   insertCampaignSchema, 
   insertCampaignDailySpendSchema,
+  batchCampaignDailySpendSchema,
+  spendReconciliationDecisionsSchema,
+  campaignCommentBodySchema,
+  bulkCampaignOperationSchema,
+  duplicateCampaignSchema,
+  campaignFlightsSchema,
+  saveCampaignTemplateSchema,
   insertClientSchema,
   insertUserWithRoleSchema,
   insertAdAccountSchema,
+  insertAdAccountLimitEntrySchema,
+  insertTiktokSettingSchema,
   insertAdCopySetSchema,
   insertWorkReportSchema,
+  insertRoleSchema,
   insertRolePermissionSchema,
   insertFinanceProjectSchema,
   insertFinancePaymentSchema,
@@ -20,41 +36,90 @@ import {
   insertFinanceSettingSchema,
   insertTagSchema,
   insertEmployeeSchema,
-  insertUserMenuPermissionSchema,
+  insertUserPagePermissionSchema,
   insertSalarySchema,
   insertTelegramConfigSchema,
   insertTelegramChatIdSchema,
   insertFarmingAccountSchema,
   type Campaign,
+  type BulkCampaignResult,
+  type CampaignTemplate,
+  type InsertCampaign,
+  type InsertSpendReconciliationDecision,
   type Client,
   type User,
   type FarmingAccount,
   type AdAccount,
+  type AdAccountWithMonitoredSpend,
   type AdCopySet,
+  type AuditLog,
   type WorkReport,
   type Page,
   type RolePermission,
+  type ApiKey,
   type FinanceProject,
   type FinancePayment,
   type FinanceExpense,
   type FinanceSetting,
   type Tag,
   type Employee,
-  type UserMenuPermission,
+  type PagePermissionMap,
+  type PageAction,
   type Salary,
   type TelegramConfig,
   type TelegramChatId,
   UserRole,
+  CampaignChangeSource,
+  CampaignBulkOperation,
+  ReconciliationDecision,
+  SyncRunStatus,
+  facebookSyncScheduleSchema,
   clients,
   campaigns,
   campaignDailySpends,
   adAccounts,
-  facebookPages,
-  facebookSettings
+  facebookPages
 } from "@shared/schema";
 import { z } from "zod";
-import { eq, desc, sql, and, gte, lte } from "drizzle-orm";
-import { sendAdAccountActivationEmail, sendAdAccountSuspensionEmail, sendSpendWarningEmail } from "./email-sender";
+import { eq, desc, sql, and, gte, lte, inArray } from "drizzle-orm";
+import { sendAdAccountSuspensionEmail, sendPasswordResetEmail } from "./email-sender";
+import {
+  generateTotpSecret,
+  buildOtpauthUrl,
+  verifyTotpCode,
+  encryptTotpSecret,
+  decryptTotpSecret,
+  generateRecoveryCodes,
+  countRecoveryCodes,
+  verifyTwoFactorCode,
+  getTwoFactorRequiredRoles,
+  isTwoFactorRequiredForRole,
+  createLoginChallenge,
+  checkLoginChallenge,
+  completeLoginChallenge,
+  TWO_FACTOR_REQUIRED_ROLES_KEY,
+} from "./two-factor";
+import { getLoginBlock, recordFailedLogin, clearFailedLogins, unlockLogin, LoginThrottleScope, type LoginFailureResult } from "./login-throttle";
+import { getPasswordPolicy, savePasswordPolicy, validatePasswordAgainstPolicy } from "./password-policy";
+import { auditMutations, captureAuditSnapshot, recordAuditEvent } from "./audit-log";
+import { getClientScope, isClientInScope, filterByClientScope, type ClientScope } from "./client-scope";
+import { notifyMentionedUsers, toCommentResponse } from "./campaign-comments";
+import { getChangeAuthor, isTrackedCampaignField, recordCampaignChanges } from "./campaign-history";
+import { calculatePacing, getPacingWindowStart } from "./campaign-pacing";
+import { buildCampaignTemplate } from "./campaign-templates";
+import { attributeAdCopyPerformance, getPeriodsStart } from "./ad-copy-performance";
+import { DEFAULT_RECONCILIATION_TOLERANCE, findSpendDifferences, indexSpendAmounts, parseReconciliationRange, toDayKey } from "./spend-reconciliation";
+import { sendTelegramNotification, escapeTelegramHtml } from "./telegram";
+import { isValidBangladeshPhone, sendSms } from "./sms-sender";
+import { notifyAdAccountStatusChange } from "./ad-account-status";
+import { checkCampaignSpendLimits, checkSpendLimits } from "./spend-monitor";
+import { AD_PLATFORM_LABELS, AdPlatformError } from "./ad-platforms";
+import { getAdPlatformAdapter, getFacebookAdapter, getNotConfiguredMessage } from "./ad-platform-registry";
+import { FacebookAdapter } from "./facebook-adapter";
+import { TiktokAdapter } from "./tiktok-adapter";
+import { getInsightDateRange, pushCampaignStatus, syncAdAccountInsights } from "./platform-sync";
+import { getTotalRecords, isFacebookSyncInProgress, runExclusiveFacebookSync, runFullFacebookSync } from "./facebook-sync-scheduler";
+import { API_KEY_ROLE, isApiKeyToken, resolveApiKey, generateApiKey, getApiKeyPageKeys, getApiKeyPermissions, getApiKeyDenial } from "./api-keys";
 
 // Extend Express Request to include user
 declare global {
@@ -64,11 +129,22 @@ declare global {
         id: string;
         username: string;
         role: string;
+        isAdmin: boolean; // Role is flagged admin-level in the roles table
       };
+      clientScope?: ClientScope;
+      pagePermissions?: PagePermissionMap;
+      apiKey?: ApiKey; // Set when the request authenticated with an API key instead of a session
     }
   }
 }
 
+// Super Admin is always admin-level, other roles follow their flag in the roles table
+async function isAdminRole(roleKey: string): Promise<boolean> {
+  if (roleKey === UserRole.SUPER_ADMIN) return true;
+  const role = await storage.getRoleByKey(roleKey);
+  return role?.isAdmin ?? false;
+}
+
 // Middleware to authenticate requests
 async function authenticate(req: Request, res: Response, next: Function) {
   const token = req.headers.authorization?.replace('Bearer ', '');
@@ -78,6 +154,10 @@ async function authenticate(req: Request, res: Response, next: Function) {
   }
 
   try {
+    if (isApiKeyToken(token)) {
+      return await authenticateApiKey(req, res, next, token);
+    }
+
     const session = await storage.getSessionByToken(token);
     if (!session) {
       return res.status(401).json({ message: "Invalid or expired session" });
@@ -88,11 +168,16 @@ async function authenticate(req: Request, res: Response, next: Function) {
       return res.status(401).json({ message: "User not found" });
     }
 
+    // Sliding expiry - keep active sessions alive
+    await storage.touchSession(session);
+
     req.user = {
       id: user.id,
       username: user.username,
       role: user.role,
+      isAdmin: await isAdminRole(user.role),
     };
+    await captureAuditSnapshot(req);
 
     next();
   } catch (error) {
@@ -100,6 +185,38 @@ async function authenticate(req: Request, res: Response, next: Function) {
   }
 }
 
+// Pages checked by the requirePagePermission middleware of the matched route
+function getRoutePageKeys(req: Request): string[] {
+  const layers: { handle: { pageKey?: string } }[] = req.route?.stack ?? [];
+  return layers.flatMap(layer => layer.handle.pageKey ? [layer.handle.pageKey] : []);
+}
+
+// API keys act on behalf of the super admin who created them, limited to the key's pages and scope
+async function authenticateApiKey(req: Request, res: Response, next: Function, token: string) {
+  const apiKey = await resolveApiKey(token);
+  if (!apiKey) {
+    return res.status(401).json({ message: "Invalid or expired API key" });
+  }
+
+  const denial = getApiKeyDenial(apiKey, req.method, req.path, getRoutePageKeys(req));
+  if (denial) {
+    return res.status(403).json({ message: denial });
+  }
+
+  await storage.recordApiKeyUsage(apiKey.id, req.ip);
+
+  req.apiKey = apiKey;
+  req.user = {
+    id: apiKey.createdBy,
+    username: `api-key:${apiKey.name}`,
+    role: API_KEY_ROLE,
+    isAdmin: false,
+  };
+  await captureAuditSnapshot(req);
+
+  next();
+}
+
 // Middleware to check Super Admin role
 async function requireSuperAdmin(req: Request, res: Response, next: Function) {
   if (!req.user || req.user.role !== UserRole.SUPER_ADMIN) {
@@ -108,17 +225,34 @@ async function requireSuperAdmin(req: Request, res: Response, next: Function) {
   next();
 }
 
-// Middleware to check Admin or Super Admin role
+// Middleware to check for an admin-level role (Admin, Super Admin or any custom role flagged as admin)
 async function requireAdminOrSuperAdmin(req: Request, res: Response, next: Function) {
-  if (!req.user || (req.user.role !== UserRole.ADMIN && req.user.role !== UserRole.SUPER_ADMIN)) {
+  if (!req.user || !req.user.isAdmin) {
     return res.status(403).json({ message: "Admin access required" });
   }
   next();
 }
 
+// Effective page permissions of the current user, resolved once per request
+async function getRequestPagePermissions(req: Request): Promise<PagePermissionMap> {
+  if (req.pagePermissions === undefined) {
+    req.pagePermissions = req.apiKey
+      ? getApiKeyPermissions(req.apiKey)
+      : await storage.getEffectivePagePermissions(req.user!.id);
+  }
+  return req.pagePermissions;
+}
+
+async function hasPagePermission(req: Request, pageKey: string, action: PageAction): Promise<boolean> {
+  // Super Admin has access to everything
+  if (req.user!.role === UserRole.SUPER_ADMIN) return true;
+  const permissions = await getRequestPagePermissions(req);
+  return permissions[pageKey]?.[action] ?? false;
+}
+
 // Middleware factory to check page permissions
-function requirePagePermission(pageKey: string, action: 'view' | 'edit' | 'delete' = 'view', options: { superAdminBypass?: boolean } = {}) {
-  return async (req: Request, res: Response, next: Function) => {
+function requirePagePermission(pageKey: string, action: PageAction = 'view', options: { superAdminBypass?: boolean } = {}) {
+  const middleware = async (req: Request, res: Response, next: Function) => {
     if (!req.user) {
       return res.status(401).json({ message: "Authentication required" });
     }
@@ -129,7 +263,7 @@ function requirePagePermission(pageKey: string, action: 'view' | 'edit' | 'delet
     }
 
     try {
-      const hasPermission = await storage.checkUserPagePermission(req.user.id, pageKey, action);
+      const hasPermission = await hasPagePermission(req, pageKey, action);
       if (!hasPermission) {
         return res.status(403).json({ 
           message: `Access denied. You don't have ${action} permission for this page.`
@@ -141,6 +275,32 @@ function requirePagePermission(pageKey: string, action: 'view' | 'edit' | 'delet
       return res.status(500).json({ message: "Permission check failed" });
     }
   };
+  // Read by authenticate to decide which routes an API key may call
+  return Object.assign(middleware, { pageKey });
+}
+
+// Clients the current user may access, resolved once per request
+async function getRequestClientScope(req: Request): Promise<ClientScope> {
+  if (req.clientScope === undefined) {
+    req.clientScope = await getClientScope(req.user!);
+  }
+  return req.clientScope;
+}
+
+async function canAccessClient(req: Request, clientId: string | null | undefined): Promise<boolean> {
+  return isClientInScope(await getRequestClientScope(req), clientId);
+}
+
+async function canAccessCampaign(req: Request, campaignId: string): Promise<boolean> {
+  const scope = await getRequestClientScope(req);
+  if (scope === null) return true;
+  const campaign = await storage.getCampaign(campaignId);
+  return !!campaign && isClientInScope(scope, campaign.clientId);
+}
+
+// Password hashes and 2FA secrets never leave the server
+function sanitizeUser({ password, twoFactorSecret, twoFactorRecoveryCodes, ...user }: User): Omit<User, 'password' | 'twoFactorSecret' | 'twoFactorRecoveryCodes'> {
+  return user;
 }
 
 // Configure multer for file uploads
@@ -161,19 +321,6 @@ const upload = multer({
 // Helper function to send work report notifications via Telegram
 async function sendWorkReportNotification(workReport: WorkReport, submittedByUser: { id: string; username: string; role: string }) {
   try {
-    // Get Telegram configuration
-    const config = await storage.getTelegramConfig();
-    if (!config || !config.botToken || !config.isActive) {
-      return; // No Telegram config or not active
-    }
-
-    // Get active chat IDs
-    const chatIds = await storage.getTelegramChatIds();
-    const activeChatIds = chatIds.filter(chat => chat.isActive);
-    if (activeChatIds.length === 0) {
-      return; // No active chat IDs
-    }
-
     // Get user details for the work report
     const reportUser = await storage.getUser(workReport.userId);
     if (!reportUser) {
@@ -194,60 +341,138 @@ async function sendWorkReportNotification(workReport: WorkReport, submittedByUse
 <i>Submitted by ${submittedByUser.username} at ${new Date().toLocaleString()}</i>
 `;
 
-    // Send message to all active chat IDs
-    for (const chatId of activeChatIds) {
-      try {
-        const telegramApiUrl = `https://api.telegram.org/bot${config.botToken}/sendMessage`;
-        const telegramResponse = await fetch(telegramApiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            chat_id: chatId.chatId,
-            text: message.trim(),
-            parse_mode: 'HTML'
-          })
-        });
-
-        if (!telegramResponse.ok) {
-          const errorData = await telegramResponse.json();
-          console.error(`Failed to send Telegram notification to ${chatId.name}:`, errorData.description);
-        }
-      } catch (error: any) {
-        console.error(`Error sending Telegram notification to ${chatId.name}:`, error.message);
-      }
-    }
+    await sendTelegramNotification(message);
   } catch (error: any) {
     console.error("Error in sendWorkReportNotification:", error);
   }
 }
 
+// Helper function to alert Telegram chats about failed logins and lockouts
+async function sendLoginSecurityNotification(username: string, ipAddress: string, result: LoginFailureResult) {
+  const lines = [
+    result.newlyLocked.length > 0 ? '🔒 <b>Login Locked Out</b>' : '⚠️ <b>Failed Login Attempt</b>',
+    '',
+    `👤 <b>Username:</b> ${escapeTelegramHtml(username)} (${result.usernameFailures} recent failures)`,
+    `🌐 <b>IP Address:</b> ${escapeTelegramHtml(ipAddress)} (${result.ipFailures} recent failures)`,
+  ];
+  if (result.newlyLocked.length > 0) {
+    lines.push(`⛔ <b>Locked:</b> ${result.newlyLocked.join(' and ')}`);
+  }
+  lines.push('', `<i>${new Date().toLocaleString()}</i>`);
+
+  await sendTelegramNotification(lines.join('\n'));
+}
+
+// Helper to open a session once a user has fully authenticated
+async function createLoginResponse(req: Request, user: User) {
+  const session = await storage.createSession(user.id, {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      isAdmin: await isAdminRole(user.role),
+      name: user.name,
+    },
+    token: session.token,
+    expiresAt: session.expiresAt,
+  };
+}
+
+// A wrong second-factor code is recorded as a failed login
+async function rejectTwoFactorCode(res: Response, username: string, ipAddress: string) {
+  const failure = await recordFailedLogin(username, ipAddress);
+  sendLoginSecurityNotification(username, ipAddress, failure).catch(err => console.error("Failed to send login alert:", err));
+  return res.status(401).json({ message: "Invalid verification code" });
+}
+
+/**
+ * Signed-in users re-entering their password or a code (to change the password
+ * or 2FA settings) go through the login throttle, so a stolen session cannot
+ * guess them. Answers 429 and returns true while the user or IP is blocked.
+ */
+async function rejectIfLoginBlocked(res: Response, username: string, ipAddress: string): Promise<boolean> {
+  const block = await getLoginBlock(username, ipAddress);
+  if (!block) return false;
+  res.setHeader('Retry-After', String(block.retryAfterSeconds));
+  res.status(429).json({
+    message: `Too many failed attempts. Try again in ${Math.ceil(block.retryAfterSeconds / 60)} minute(s).`,
+    retryAfter: block.retryAfterSeconds,
+    lockedOut: block.lockedOut,
+  });
+  return true;
+}
+
+// A wrong password or code from a signed-in user counts as a failed login
+async function recordFailedReauthentication(username: string, ipAddress: string) {
+  const failure = await recordFailedLogin(username, ipAddress);
+  sendLoginSecurityNotification(username, ipAddress, failure).catch(err => console.error("Failed to send login alert:", err));
+}
+
+// Password reset links are single use and short lived; only the SHA-256 of the token is stored
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+function hashResetToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Record who changed what for every mutating API call
+  app.use(auditMutations);
+
   // Login route
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
       const validatedData = loginSchema.parse(req.body);
       const { username, password } = validatedData;
+      const ipAddress = req.ip || 'unknown';
+
+      // Reject attempts while the username or IP is backing off or locked out
+      const block = await getLoginBlock(username, ipAddress);
+      if (block) {
+        res.setHeader('Retry-After', String(block.retryAfterSeconds));
+        return res.status(429).json({
+          message: block.lockedOut
+            ? `Too many failed login attempts. Try again in ${Math.ceil(block.retryAfterSeconds / 60)} minute(s).`
+            : `Too many failed login attempts. Try again in ${block.retryAfterSeconds} second(s).`,
+          retryAfter: block.retryAfterSeconds,
+          lockedOut: block.lockedOut,
+        });
+      }
 
       const user = await storage.validateCredentials(username, password);
       
       if (!user) {
+        const failure = await recordFailedLogin(username, ipAddress);
+        sendLoginSecurityNotification(username, ipAddress, failure).catch(err => console.error("Failed to send login alert:", err));
         return res.status(401).json({ message: "Invalid username or password" });
       }
 
-      const session = await storage.createSession(user.id);
+      // Password is correct - ask for a second factor when enabled or required by role.
+      // Failed logins are only cleared once the second factor is verified too.
+      if (user.twoFactorEnabled) {
+        return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user.id) });
+      }
 
-      res.json({
-        user: {
-          id: user.id,
-          username: user.username,
-          role: user.role,
-          name: user.name,
-        },
-        token: session.token,
-        expiresAt: session.expiresAt,
-      });
+      if (await isTwoFactorRequiredForRole(user.role)) {
+        // Role requires 2FA but the user has not enrolled yet - enroll as part of this login
+        const secret = generateTotpSecret();
+        await storage.updateUserTwoFactor(user.id, { twoFactorSecret: encryptTotpSecret(secret) });
+        return res.json({
+          twoFactorRequired: true,
+          setupRequired: true,
+          challengeToken: createLoginChallenge(user.id),
+          secret,
+          otpauthUrl: buildOtpauthUrl(user.username, secret),
+        });
+      }
+
+      await clearFailedLogins(username);
+      res.json(await createLoginResponse(req, user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -257,6 +482,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step - verify the authenticator (or recovery) code
+  app.post("/api/auth/login/2fa", async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+      const userId = checkLoginChallenge(challengeToken);
+      if (!userId) {
+        return res.status(401).json({ message: "Verification expired. Please log in again." });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive) {
+        completeLoginChallenge(challengeToken);
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // Wrong codes count towards the same backoff and lockout as wrong passwords
+      const ipAddress = req.ip || 'unknown';
+      const block = await getLoginBlock(user.username, ipAddress);
+      if (block) {
+        completeLoginChallenge(challengeToken);
+        res.setHeader('Retry-After', String(block.retryAfterSeconds));
+        return res.status(429).json({
+          message: `Too many failed login attempts. Try again in ${Math.ceil(block.retryAfterSeconds / 60)} minute(s).`,
+          retryAfter: block.retryAfterSeconds,
+          lockedOut: block.lockedOut,
+        });
+      }
+
+      if (user.twoFactorEnabled) {
+        const { valid, usedRecoveryCode } = await verifyTwoFactorCode(user, code);
+        if (!valid) {
+          return rejectTwoFactorCode(res, user.username, ipAddress);
+        }
+
+        completeLoginChallenge(challengeToken);
+        await clearFailedLogins(user.username);
+        return res.json({ ...(await createLoginResponse(req, user)), usedRecoveryCode });
+      }
+
+      // Finishing a required enrollment started by /api/auth/login
+      const secret = decryptTotpSecret(user);
+      if (!secret || !(await verifyTotpCode(user, secret, code))) {
+        return rejectTwoFactorCode(res, user.username, ipAddress);
+      }
+
+      const recoveryCodes = await generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: recoveryCodes.stored,
+      });
+
+      completeLoginChallenge(challengeToken);
+      await clearFailedLogins(user.username);
+      res.json({ ...(await createLoginResponse(req, user)), recoveryCodes: recoveryCodes.codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Logout route
   app.post("/api/auth/logout", authenticate, async (req: Request, res: Response) => {
     try {
@@ -271,17 +560,380 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Log out of every device, including this one
+  app.post("/api/auth/logout-all", authenticate, async (req: Request, res: Response) => {
+    try {
+      const revoked = await storage.deleteUserSessions(req.user!.id);
+      res.json({ message: "Logged out of all devices", revoked });
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // List the current user's active sessions (devices)
+  app.get("/api/auth/sessions", authenticate, async (req: Request, res: Response) => {
+    try {
+      const token = req.headers.authorization?.replace('Bearer ', '');
+      const sessions = await storage.getUserSessions(req.user!.id);
+      res.json(sessions.map(session => ({
+        id: session.id,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastActivityAt: session.lastActivityAt,
+        expiresAt: session.expiresAt,
+        isCurrent: session.token === token,
+      })));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Revoke one of the current user's sessions
+  app.delete("/api/auth/sessions/:id", authenticate, async (req: Request, res: Response) => {
+    try {
+      const revoked = await storage.deleteUserSession(req.user!.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Session revoked successfully" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get current user route
   app.get("/api/auth/user", authenticate, async (req: Request, res: Response) => {
     res.json(req.user);
   });
 
+  // Change the current user's password
+  app.post("/api/auth/change-password", authenticate, async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      const ipAddress = req.ip || 'unknown';
+      if (await rejectIfLoginBlocked(res, req.user!.username, ipAddress)) return;
+      const user = await storage.validateCredentials(req.user!.username, currentPassword);
+      if (!user) {
+        await recordFailedReauthentication(req.user!.username, ipAddress);
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const errors = await validatePasswordAgainstPolicy(newPassword, user);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors[0], errors });
+      }
+
+      await storage.updateUser(user.id, { password: newPassword });
+
+      // Sign out every other device; this session stays logged in
+      const token = req.headers.authorization?.replace('Bearer ', '');
+      const revoked = await storage.deleteUserSessions(user.id, token);
+
+      res.json({ message: "Password changed successfully", revoked });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Check a password reset link before showing the reset form (public)
+  app.get("/api/auth/password-reset/:token", async (req: Request, res: Response) => {
+    try {
+      const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(req.params.token));
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      res.json({
+        username: user.username,
+        expiresAt: resetToken.expiresAt,
+        policy: await getPasswordPolicy(),
+      });
+    } catch (error) {
+      console.error("Check password reset error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Set a new password with a reset link (public)
+  app.post("/api/auth/password-reset", async (req: Request, res: Response) => {
+    try {
+      const { token, newPassword } = passwordResetSchema.parse(req.body);
+      const tokenHash = hashResetToken(token);
+
+      const resetToken = await storage.getPasswordResetTokenByHash(tokenHash);
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const errors = await validatePasswordAgainstPolicy(newPassword, user);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors[0], errors });
+      }
+
+      // Another request may have used the link since it was checked above
+      if (!(await storage.redeemPasswordResetToken(tokenHash))) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      await storage.updateUser(user.id, { password: newPassword });
+      await storage.deleteUserSessions(user.id);
+      await clearFailedLogins(user.username);
+
+      console.log(`Password reset completed for ${user.username}`);
+      res.json({ message: "Password reset successfully. You can now log in." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Two-Factor Authentication Routes
+  // Get 2FA status for the current user
+  app.get("/api/auth/2fa", authenticate, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({
+        enabled: !!user.twoFactorEnabled,
+        required: await isTwoFactorRequiredForRole(user.role),
+        recoveryCodesRemaining: countRecoveryCodes(user),
+      });
+    } catch (error) {
+      console.error("Get 2FA status error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Start enrollment - generates a new secret that must be confirmed with a code
+  app.post("/api/auth/2fa/setup", authenticate, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(user.id, { twoFactorSecret: encryptTotpSecret(secret) });
+
+      res.json({ secret, otpauthUrl: buildOtpauthUrl(user.username, secret) });
+    } catch (error) {
+      console.error("2FA setup error:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Confirm enrollment with a code from the authenticator app
+  app.post("/api/auth/2fa/enable", authenticate, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = decryptTotpSecret(user);
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (!(await verifyTotpCode(user, secret, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: recoveryCodes.stored,
+      });
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes: recoveryCodes.codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("2FA enable error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Disable 2FA (not allowed when the user's role requires it)
+  app.post("/api/auth/2fa/disable", authenticate, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequiredForRole(user.role)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+
+      const ipAddress = req.ip || 'unknown';
+      if (await rejectIfLoginBlocked(res, user.username, ipAddress)) return;
+      const { valid } = await verifyTwoFactorCode(user, code);
+      if (!valid) {
+        await recordFailedReauthentication(user.username, ipAddress);
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+      });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("2FA disable error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replace all recovery codes with a fresh set
+  app.post("/api/auth/2fa/recovery-codes", authenticate, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const ipAddress = req.ip || 'unknown';
+      if (await rejectIfLoginBlocked(res, user.username, ipAddress)) return;
+      const secret = decryptTotpSecret(user);
+      if (!secret || !(await verifyTotpCode(user, secret, code))) {
+        await recordFailedReauthentication(user.username, ipAddress);
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { twoFactorRecoveryCodes: recoveryCodes.stored });
+
+      res.json({ recoveryCodes: recoveryCodes.codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Regenerate recovery codes error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get roles that must use 2FA (Super Admin only)
+  app.get("/api/settings/two-factor", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({ requiredRoles: await getTwoFactorRequiredRoles() });
+    } catch (error) {
+      console.error("Get 2FA policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update roles that must use 2FA (Super Admin only)
+  app.put("/api/settings/two-factor", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const { requiredRoles } = z.object({ requiredRoles: z.array(z.string()) }).parse(req.body);
+
+      // Enforcing 2FA without a working encryption key would lock those roles out at login
+      if (requiredRoles.length > 0) {
+        try {
+          encryptTotpSecret(generateTotpSecret());
+        } catch (error) {
+          return res.status(400).json({ message: "ENCRYPTION_KEY must be configured before two-factor authentication can be required" });
+        }
+      }
+
+      await storage.setFinanceSetting({
+        key: TWO_FACTOR_REQUIRED_ROLES_KEY,
+        value: requiredRoles.join(','),
+        description: "Roles that must use two-factor authentication",
+      });
+      res.json({ requiredRoles });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Update 2FA policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get the password policy (any signed in user - shown next to password forms)
+  app.get("/api/settings/password-policy", authenticate, async (req: Request, res: Response) => {
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update the password policy (Super Admin only)
+  app.put("/api/settings/password-policy", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const policy = z.object({
+        minLength: z.number().int().min(6).max(128),
+        requireUppercase: z.boolean(),
+        requireLowercase: z.boolean(),
+        requireNumber: z.boolean(),
+        requireSymbol: z.boolean(),
+        historyCount: z.number().int().min(0).max(24),
+      }).parse(req.body);
+
+      res.json(await savePasswordPolicy(policy));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Update password policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Client User Management Routes
   // Get all client users
   app.get("/api/client-users", authenticate, requireAdminOrSuperAdmin, async (req: Request, res: Response) => {
     try {
       const clientUsers = await storage.getClientUsers();
-      res.json(clientUsers);
+      res.json(clientUsers.map(sanitizeUser));
     } catch (error) {
       console.error("Get client users error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -303,8 +955,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "clientId is required for client users" });
       }
 
+      const passwordErrors = await validatePasswordAgainstPolicy(userData.password);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
+
       const user = await storage.createUser(userData);
-      res.json(user);
+      res.json(sanitizeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -320,12 +977,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const userData = insertUserWithRoleSchema.partial().parse(req.body);
 
+      if (userData.password) {
+        const existingUser = await storage.getUser(id);
+        if (!existingUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        const passwordErrors = await validatePasswordAgainstPolicy(userData.password, existingUser);
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+        }
+      }
+
       const user = await storage.updateUser(id, userData);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      res.json(user);
+      res.json(sanitizeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -353,20 +1021,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Campaign Routes
-  // Get all campaigns (filtered by clientId for client users)
+  // Get all campaigns (limited to the user's clients)
   app.get("/api/campaigns", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
-      // Get the full user object to check clientId
-      const user = await storage.getUser(req.user!.id);
-      
-      // If user is a client, filter campaigns by their clientId
-      let clientIdFilter: string | undefined = undefined;
-      if (user?.role === UserRole.CLIENT && user.clientId) {
-        clientIdFilter = user.clientId;
-      }
-
-      const campaigns = await storage.getCampaigns(clientIdFilter);
-      res.json(campaigns);
+      // Restrict to the clients the user is assigned to
+      const scope = await getRequestClientScope(req);
+      const campaigns = await storage.getCampaigns();
+      res.json(filterByClientScope(scope, campaigns));
     } catch (error) {
       console.error("Get campaigns error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -380,15 +1041,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const hasDateFilter = (startDate && typeof startDate === 'string') || (endDate && typeof endDate === 'string');
 
-      // Get the full user object to check clientId
-      const user = await storage.getUser(req.user!.id);
+      const scope = await getRequestClientScope(req);
 
       // Build campaign filter conditions
       const campaignConditions: any[] = [];
       
-      // If user is a client, filter by their clientId
-      if (user?.role === UserRole.CLIENT && user.clientId) {
-        campaignConditions.push(eq(campaigns.clientId, user.clientId));
+      // Restrict to the clients the user is assigned to
+      if (scope !== null) {
+        campaignConditions.push(inArray(campaigns.clientId, scope));
       }
       
       if (adAccountId && typeof adAccountId === 'string') {
@@ -568,127 +1228,539 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stats.campaignCount += 1;
       });
 
-      const analytics = Array.from(adAccountStats.values()).map(stat => ({
-        ...stat,
-        availableBalance: stat.totalBudget - stat.totalSpend,
-      }));
+      const analytics = Array.from(adAccountStats.values()).map(stat => ({
+        ...stat,
+        availableBalance: stat.totalBudget - stat.totalSpend,
+      }));
+
+      res.json({
+        analytics,
+        totalCampaigns: filteredCampaigns.length,
+        grandTotalSpend: analytics.reduce((sum, a) => sum + a.totalSpend, 0),
+        grandTotalBudget: analytics.reduce((sum, a) => sum + a.totalBudget, 0),
+      });
+    } catch (error) {
+      console.error("Get campaign analytics error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Spend projections for the user's campaigns, to month end or to the end of their flights
+  app.get("/api/campaigns/pacing", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const scope = await getRequestClientScope(req);
+      const scopedCampaigns = filterByClientScope(scope, await storage.getCampaigns());
+      const now = new Date();
+      const [spends, flights] = await Promise.all([
+        storage.getCampaignDailySpendsSince(getPacingWindowStart(now)),
+        storage.getAllCampaignFlights(),
+      ]);
+      res.json(calculatePacing(scopedCampaigns, spends, now, flights));
+    } catch (error) {
+      console.error("Get campaign pacing error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Flights of the user's campaigns, for the calendar view
+  app.get("/api/campaigns/flights", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const scope = await getRequestClientScope(req);
+      const campaignIds = new Set(filterByClientScope(scope, await storage.getCampaigns()).map(campaign => campaign.id));
+      const flights = await storage.getAllCampaignFlights();
+      res.json(flights.filter(flight => campaignIds.has(flight.campaignId)));
+    } catch (error) {
+      console.error("Get campaign flights error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Daily spends of the user's campaigns between two days, for the spend grid
+  app.get("/api/campaigns/daily-spends", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const { startDate, endDate } = req.query;
+      if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+        return res.status(400).json({ message: "startDate and endDate are required" });
+      }
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      start.setUTCHours(0, 0, 0, 0);
+      end.setUTCHours(0, 0, 0, 0);
+
+      const scope = await getRequestClientScope(req);
+      const campaignIds = new Set(filterByClientScope(scope, await storage.getCampaigns()).map(campaign => campaign.id));
+      const spends = await storage.getCampaignDailySpendsBetween(start, end);
+      res.json(spends.filter(spend => campaignIds.has(spend.campaignId)));
+    } catch (error) {
+      console.error("Get daily spends error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Campaign-days where manual daily spend and Facebook insights disagree
+  app.get("/api/campaigns/reconciliation", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const range = parseReconciliationRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      const tolerance = req.query.tolerance !== undefined ? parseFloat(req.query.tolerance as string) : DEFAULT_RECONCILIATION_TOLERANCE;
+      if (isNaN(tolerance) || tolerance < 0) {
+        return res.status(400).json({ message: "Tolerance must be zero or more" });
+      }
+
+      const scope = await getRequestClientScope(req);
+      const syncedCampaigns = filterByClientScope(scope, await storage.getCampaigns()).filter(campaign => campaign.fbCampaignId);
+      const [spends, insights, decisions] = await Promise.all([
+        storage.getCampaignDailySpendsBetween(range.start, range.end),
+        storage.getFacebookCampaignInsightsForCampaigns(syncedCampaigns.map(campaign => campaign.fbCampaignId!), range.start, range.end),
+        storage.getSpendReconciliationDecisions(range.start, range.end),
+      ]);
+
+      res.json(findSpendDifferences(syncedCampaigns, spends, insights, decisions, tolerance));
+    } catch (error) {
+      console.error("Get spend reconciliation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Decision log for the days in range
+  app.get("/api/campaigns/reconciliation/decisions", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const range = parseReconciliationRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const scope = await getRequestClientScope(req);
+      const campaignIds = new Set(filterByClientScope(scope, await storage.getCampaigns()).map(campaign => campaign.id));
+      const decisions = await storage.getSpendReconciliationDecisions(range.start, range.end);
+      res.json(decisions.filter(decision => campaignIds.has(decision.campaignId)));
+    } catch (error) {
+      console.error("Get spend reconciliation decisions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Accept the Facebook amount or keep the manual one for many campaign-days at once
+  app.post("/api/campaigns/reconciliation/decisions", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { decisions } = spendReconciliationDecisionsSchema.parse(req.body);
+
+      const campaignsById = new Map<string, Campaign>();
+      for (const campaignId of Array.from(new Set(decisions.map(decision => decision.campaignId)))) {
+        const campaign = await storage.getCampaign(campaignId);
+        if (!campaign) {
+          return res.status(404).json({ message: `Campaign not found: ${campaignId}` });
+        }
+        if (!(await canAccessClient(req, campaign.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (!campaign.fbCampaignId) {
+          return res.status(400).json({ message: `Campaign "${campaign.name}" is not linked to Facebook` });
+        }
+        campaignsById.set(campaign.id, campaign);
+      }
+
+      // Amounts are read again here so the log records what was actually decided on
+      const days = decisions.map(decision => {
+        const day = new Date(decision.date);
+        day.setUTCHours(0, 0, 0, 0);
+        return day;
+      });
+      const start = new Date(Math.min(...days.map(day => day.getTime())));
+      const end = new Date(Math.max(...days.map(day => day.getTime())));
+      const [spends, insights] = await Promise.all([
+        storage.getCampaignDailySpendsBetween(start, end),
+        storage.getFacebookCampaignInsightsForCampaigns(Array.from(campaignsById.values(), campaign => campaign.fbCampaignId!), start, end),
+      ]);
+      const amounts = indexSpendAmounts(spends, insights);
+
+      const entries: InsertSpendReconciliationDecision[] = [];
+      for (let index = 0; index < decisions.length; index++) {
+        const decision = decisions[index];
+        const campaign = campaignsById.get(decision.campaignId)!;
+        const day = toDayKey(days[index]);
+        const facebookAmount = amounts.getFacebook(campaign.fbCampaignId!, day);
+        if (facebookAmount === undefined) {
+          return res.status(400).json({ message: `No Facebook spend for "${campaign.name}" on ${day}` });
+        }
+        entries.push({
+          campaignId: campaign.id,
+          date: days[index],
+          manualAmount: amounts.getManual(campaign.id, day).toFixed(2),
+          facebookAmount: facebookAmount.toFixed(2),
+          decision: decision.decision,
+          decidedBy: req.user!.id,
+          decidedByName: req.user!.username,
+        });
+      }
+
+      const logged = await storage.applySpendReconciliationDecisions(entries);
+      void checkSpendLimits(Array.from(campaignsById.values(), campaign => campaign.adAccountId));
+      res.json({
+        accepted: logged.filter(entry => entry.decision === ReconciliationDecision.ACCEPT_FACEBOOK).length,
+        kept: logged.filter(entry => entry.decision === ReconciliationDecision.KEEP_MANUAL).length,
+        decisions: logged,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Apply spend reconciliation decisions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get single campaign
+  app.get("/api/campaigns/:id", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      res.json(campaign);
+    } catch (error) {
+      console.error("Get campaign error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create new campaign
+  app.post("/api/campaigns", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertCampaignSchema.parse(req.body);
+      
+      if (!(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (validatedData.endDate && validatedData.endDate < validatedData.startDate) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+
+      // Validate that client exists if clientId is provided
+      if (validatedData.clientId) {
+        const client = await storage.getClient(validatedData.clientId);
+        if (!client) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      }
+      
+      const campaign = await storage.createCampaign({ ...validatedData, ownerId: validatedData.ownerId || req.user!.id });
+      res.status(201).json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Create campaign error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update campaign
+  app.put("/api/campaigns/:id", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertCampaignSchema.partial().parse(req.body);
+      
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (validatedData.clientId !== undefined && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Validate that client exists if clientId is being updated
+      if (validatedData.clientId) {
+        const client = await storage.getClient(validatedData.clientId);
+        if (!client) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      }
+      
+      const previous = await storage.getCampaign(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const endDate = validatedData.endDate !== undefined ? validatedData.endDate : previous.endDate;
+      if (endDate && endDate < (validatedData.startDate || previous.startDate)) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+
+      // Synced campaigns change status on their platform first, so a failure leaves both sides as they were
+      if (validatedData.status && validatedData.status !== previous.status) {
+        await pushCampaignStatus(previous, validatedData.status);
+      }
+
+      const campaign = await storage.updateCampaign(req.params.id, validatedData);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      await recordCampaignChanges(previous, campaign, getChangeAuthor(req.user!));
+      // Spend counts toward the ad account, so both the old and the new one are checked
+      if (validatedData.spend !== undefined || validatedData.adAccountId !== undefined) {
+        void checkSpendLimits([previous.adAccountId, campaign.adAccountId]);
+      }
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: `Failed to update the campaign status on ${AD_PLATFORM_LABELS[error.platform]}: ${error.message}` });
+      }
+      console.error("Update campaign error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Flights of one campaign, earliest first
+  app.get("/api/campaigns/:id/flights", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      res.json(await storage.getCampaignFlights(req.params.id));
+    } catch (error) {
+      console.error("Get campaign flights error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replace the flight schedule of a campaign
+  app.put("/api/campaigns/:id/flights", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { flights } = campaignFlightsSchema.parse(req.body);
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      res.json({
-        analytics,
-        totalCampaigns: filteredCampaigns.length,
-        grandTotalSpend: analytics.reduce((sum, a) => sum + a.totalSpend, 0),
-        grandTotalBudget: analytics.reduce((sum, a) => sum + a.totalBudget, 0),
-      });
+      // Flights are whole days and may not overlap
+      const days = flights
+        .map(flight => {
+          const startDate = new Date(flight.startDate);
+          const endDate = new Date(flight.endDate);
+          startDate.setUTCHours(0, 0, 0, 0);
+          endDate.setUTCHours(0, 0, 0, 0);
+          return { startDate, endDate };
+        })
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+      for (let i = 1; i < days.length; i++) {
+        if (days[i].startDate <= days[i - 1].endDate) {
+          return res.status(400).json({ message: "Flights may not overlap" });
+        }
+      }
+
+      res.json(await storage.replaceCampaignFlights(campaign.id, days));
     } catch (error) {
-      console.error("Get campaign analytics error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Save campaign flights error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get single campaign
-  app.get("/api/campaigns/:id", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+  // Field change history, newest first
+  app.get("/api/campaigns/:id/history", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
       const campaign = await storage.getCampaign(req.params.id);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
-      res.json(campaign);
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const changes = await storage.getCampaignFieldChanges(campaign.id);
+      res.json(changes);
     } catch (error) {
-      console.error("Get campaign error:", error);
+      console.error("Get campaign history error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Create new campaign
-  app.post("/api/campaigns", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+  // Set a single field back to the value it had before a recorded change
+  app.post("/api/campaigns/:id/history/:changeId/revert", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertCampaignSchema.parse(req.body);
-      
-      // Validate that client exists if clientId is provided
-      if (validatedData.clientId) {
-        const client = await storage.getClient(validatedData.clientId);
-        if (!client) {
-          return res.status(400).json({ message: "Client not found" });
-        }
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
       }
-      
-      const campaign = await storage.createCampaign(validatedData);
-      res.status(201).json(campaign);
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const change = await storage.getCampaignFieldChange(req.params.changeId);
+      if (!change || change.campaignId !== campaign.id) {
+        return res.status(404).json({ message: "Change not found" });
+      }
+      if (!isTrackedCampaignField(change.field)) {
+        return res.status(400).json({ message: "This field cannot be reverted" });
+      }
+
+      // Same validation as an edit, so e.g. a required field cannot be reverted to empty
+      const revertData = insertCampaignSchema.partial().parse({ [change.field]: change.oldValue });
+      if (revertData.status && revertData.status !== campaign.status) {
+        await pushCampaignStatus(campaign, revertData.status);
+      }
+      const updated = await storage.updateCampaign(campaign.id, revertData);
+      if (!updated) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      await recordCampaignChanges(campaign, updated, getChangeAuthor(req.user!), change.id);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      console.error("Create campaign error:", error);
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: `Failed to update the campaign status on ${AD_PLATFORM_LABELS[error.platform]}: ${error.message}` });
+      }
+      console.error("Revert campaign change error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update campaign
-  app.put("/api/campaigns/:id", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+  // Campaign comment thread, oldest first
+  app.get("/api/campaigns/:id/comments", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertCampaignSchema.partial().parse(req.body);
-      
-      // Validate that client exists if clientId is being updated
-      if (validatedData.clientId) {
-        const client = await storage.getClient(validatedData.clientId);
-        if (!client) {
-          return res.status(400).json({ message: "Client not found" });
-        }
-      }
-      
-      const campaign = await storage.updateCampaign(req.params.id, validatedData);
+      const campaign = await storage.getCampaign(req.params.id);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
-      res.json(campaign);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
       }
-      console.error("Update campaign error:", error);
+
+      const comments = await storage.getCampaignComments(campaign.id);
+      res.json(comments.map(toCommentResponse));
+    } catch (error) {
+      console.error("Get campaign comments error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Add campaign comment
+  // Add campaign comment, or a reply when parentId is given
   app.post("/api/campaigns/:id/comments", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
     try {
-      const { comment } = req.body;
-      if (!comment || !comment.trim()) {
-        return res.status(400).json({ message: "Comment is required" });
-      }
+      const { body, parentId } = campaignCommentBodySchema.parse(req.body);
 
       const campaign = await storage.getCampaign(req.params.id);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      // Add the new comment to existing comments
-      const existingComments = campaign.comments || "";
-      const newComments = existingComments 
-        ? `${existingComments}\n\n[${new Date().toISOString()}] ${req.user?.username}: ${comment.trim()}`
-        : `[${new Date().toISOString()}] ${req.user?.username}: ${comment.trim()}`;
+      // Threads are one level deep, replies to a reply join the same thread
+      let threadId: string | null = null;
+      if (parentId) {
+        const parent = await storage.getCampaignComment(parentId);
+        if (!parent || parent.campaignId !== campaign.id) {
+          return res.status(400).json({ message: "Parent comment not found" });
+        }
+        threadId = parent.parentId ?? parent.id;
+      }
 
-      const updatedCampaign = await storage.updateCampaign(req.params.id, {
-        comments: newComments
+      const comment = await storage.createCampaignComment({
+        campaignId: campaign.id,
+        parentId: threadId,
+        authorId: req.user!.id,
+        authorName: req.user!.username,
+        body,
       });
 
-      if (!updatedCampaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const campaignUrl = `${req.protocol}://${req.get('host')}/campaigns/${campaign.id}`;
+      const mentionedUserIds = await notifyMentionedUsers(comment, campaign, campaignUrl);
+      const savedComment = mentionedUserIds.length > 0
+        ? await storage.updateCampaignComment(comment.id, { mentionedUserIds: JSON.stringify(mentionedUserIds) })
+        : comment;
+
+      res.status(201).json(savedComment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Add campaign comment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Edit a comment (author only)
+  app.put("/api/campaigns/:id/comments/:commentId", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { body } = campaignCommentBodySchema.pick({ body: true }).parse(req.body);
+
+      const campaign = await storage.getCampaign(req.params.id);
+      const comment = await storage.getCampaignComment(req.params.commentId);
+      if (!campaign || !comment || comment.campaignId !== campaign.id || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (comment.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the author can edit this comment" });
       }
 
-      res.json({ 
-        message: "Comment added successfully",
-        campaign: updatedCampaign
+      const campaignUrl = `${req.protocol}://${req.get('host')}/campaigns/${campaign.id}`;
+      const mentionedUserIds = await notifyMentionedUsers({ ...comment, body }, campaign, campaignUrl);
+      const updated = await storage.updateCampaignComment(comment.id, {
+        body,
+        editedAt: new Date(),
+        mentionedUserIds: JSON.stringify(mentionedUserIds),
       });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Edit campaign comment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete a comment (author or admin). Replies stay visible under a deleted comment.
+  app.delete("/api/campaigns/:id/comments/:commentId", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      const comment = await storage.getCampaignComment(req.params.commentId);
+      if (!campaign || !comment || comment.campaignId !== campaign.id || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (comment.authorId !== req.user!.id && !req.user!.isAdmin) {
+        return res.status(403).json({ message: "Only the author or an admin can delete this comment" });
+      }
+
+      await storage.updateCampaignComment(comment.id, { deletedAt: new Date() });
+      res.json({ message: "Comment deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to add comment" });
+      console.error("Delete campaign comment error:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // Delete campaign
   app.delete("/api/campaigns/:id", authenticate, requirePagePermission('campaigns', 'delete'), async (req: Request, res: Response) => {
     try {
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const deleted = await storage.deleteCampaign(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Campaign not found" });
@@ -700,10 +1772,246 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Apply one operation to many campaigns. Rows failing their checks are reported and skipped,
+  // the rest are applied in a single transaction so they succeed or fail together.
+  app.post("/api/campaigns/bulk", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const bulk = bulkCampaignOperationSchema.parse(req.body);
+
+      if (bulk.operation === CampaignBulkOperation.DELETE && !(await hasPagePermission(req, 'campaigns', 'delete'))) {
+        return res.status(403).json({ message: "Access denied. You don't have delete permission for this page." });
+      }
+
+      // The target client or ad account is the same for every row, so check it once
+      if (bulk.operation === CampaignBulkOperation.CLIENT) {
+        if (!(await canAccessClient(req, bulk.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (bulk.clientId && !(await storage.getClient(bulk.clientId))) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      }
+      let targetAdAccount: AdAccount | undefined;
+      if (bulk.operation === CampaignBulkOperation.AD_ACCOUNT) {
+        targetAdAccount = await storage.getAdAccount(bulk.adAccountId);
+        if (!targetAdAccount) {
+          return res.status(400).json({ message: "Ad account not found" });
+        }
+        if (!(await canAccessClient(req, targetAdAccount.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const results: BulkCampaignResult[] = [];
+      const previous = new Map<string, Campaign>();
+      const updates: { id: string; data: Partial<InsertCampaign> }[] = [];
+      // Campaigns whose status was already changed on their platform, undone if the batch fails
+      const pushed = new Set<string>();
+
+      for (const campaignId of Array.from(new Set(bulk.campaignIds))) {
+        const campaign = await storage.getCampaign(campaignId);
+        if (!campaign) {
+          results.push({ campaignId, campaignName: null, success: false, message: "Campaign not found" });
+          continue;
+        }
+        if (!(await canAccessClient(req, campaign.clientId))) {
+          results.push({ campaignId, campaignName: null, success: false, message: "Access denied" });
+          continue;
+        }
+
+        let data: Partial<InsertCampaign> = {};
+        if (bulk.operation === CampaignBulkOperation.STATUS) {
+          data = { status: bulk.status };
+        } else if (bulk.operation === CampaignBulkOperation.CLIENT) {
+          // A campaign stays with the client of its ad account
+          const adAccount = await storage.getAdAccount(campaign.adAccountId);
+          if (adAccount?.clientId && adAccount.clientId !== bulk.clientId) {
+            results.push({ campaignId, campaignName: campaign.name, success: false, message: "Its ad account belongs to a different client. Move it to another ad account instead." });
+            continue;
+          }
+          data = { clientId: bulk.clientId };
+        } else if (bulk.operation === CampaignBulkOperation.AD_ACCOUNT) {
+          // Moved campaigns belong to the new ad account's client, as with a duplicate
+          data = { adAccountId: bulk.adAccountId, clientId: targetAdAccount!.clientId };
+        } else if (bulk.operation === CampaignBulkOperation.BUDGET) {
+          const currentBudget = parseFloat(campaign.budget);
+          const newBudget = bulk.mode === 'percent'
+            ? currentBudget * (1 + bulk.value / 100)
+            : currentBudget + bulk.value;
+          if (newBudget < 0) {
+            results.push({ campaignId, campaignName: campaign.name, success: false, message: "Budget cannot go below zero" });
+            continue;
+          }
+          data = { budget: newBudget.toFixed(2) };
+        }
+
+        // Synced campaigns change status on their platform first, as with a single edit
+        if (data.status && data.status !== campaign.status) {
+          try {
+            if (await pushCampaignStatus(campaign, data.status)) {
+              pushed.add(campaign.id);
+            }
+          } catch (error) {
+            if (!(error instanceof AdPlatformError)) {
+              console.error(`Bulk status push error for campaign ${campaign.id}:`, error);
+            }
+            results.push({
+              campaignId,
+              campaignName: campaign.name,
+              success: false,
+              message: error instanceof AdPlatformError
+                ? `Failed to update the campaign status on ${AD_PLATFORM_LABELS[error.platform]}: ${error.message}`
+                : "Failed to update the campaign status on its platform",
+            });
+            continue;
+          }
+        }
+
+        previous.set(campaign.id, campaign);
+        updates.push({ id: campaign.id, data });
+        results.push({ campaignId, campaignName: campaign.name, success: true });
+      }
+
+      try {
+        if (bulk.operation === CampaignBulkOperation.DELETE) {
+          await storage.bulkDeleteCampaigns(updates.map(update => update.id));
+        } else {
+          const updated = await storage.bulkUpdateCampaigns(updates);
+          for (const campaign of updated) {
+            await recordCampaignChanges(previous.get(campaign.id)!, campaign, getChangeAuthor(req.user!));
+          }
+        }
+        // Moved or deleted spend changes the totals of the accounts involved
+        if (bulk.operation === CampaignBulkOperation.AD_ACCOUNT || bulk.operation === CampaignBulkOperation.DELETE) {
+          void checkSpendLimits([...Array.from(previous.values(), campaign => campaign.adAccountId), ...(targetAdAccount ? [targetAdAccount.id] : [])]);
+        }
+      } catch (error) {
+        // The transaction rolled back, so none of the checked rows were changed. Put their platform status back too.
+        console.error("Bulk campaign operation error:", error);
+        for (const result of results) {
+          if (!result.success) continue;
+          result.success = false;
+          result.message = "Not applied because the batch failed";
+
+          const campaign = previous.get(result.campaignId)!;
+          if (!pushed.has(campaign.id)) continue;
+          let restored = false;
+          try {
+            restored = await pushCampaignStatus(campaign, campaign.status);
+          } catch (revertError) {
+            console.error(`Bulk status revert error for campaign ${campaign.id}:`, revertError);
+          }
+          result.message = restored
+            ? "Not applied because the batch failed. Its status on the ad platform was restored."
+            : "Not applied because the batch failed, but its status on the ad platform was already changed and could not be restored";
+        }
+      }
+
+      const succeeded = results.filter(result => result.success).length;
+      res.json({
+        operation: bulk.operation,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Bulk campaign operation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Duplicate a campaign with its ad copy sets and, optionally, its comments
+  app.post("/api/campaigns/:id/duplicate", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const input = duplicateCampaignSchema.parse(req.body);
+      const source = await storage.getCampaign(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!(await canAccessClient(req, source.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const overrides: Partial<InsertCampaign> = { ownerId: req.user!.id };
+      if (input.name) {
+        overrides.name = input.name;
+      }
+      if (input.clientId !== undefined) {
+        if (!(await canAccessClient(req, input.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (input.clientId && !(await storage.getClient(input.clientId))) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+        overrides.clientId = input.clientId;
+      }
+      if (input.adAccountId) {
+        const adAccount = await storage.getAdAccount(input.adAccountId);
+        if (!adAccount) {
+          return res.status(400).json({ message: "Ad account not found" });
+        }
+        if (!(await canAccessClient(req, adAccount.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        overrides.adAccountId = input.adAccountId;
+        // A copy moved to another ad account belongs to that account's client
+        if (input.adAccountId !== source.adAccountId) {
+          overrides.clientId = adAccount.clientId;
+        }
+      }
+
+      const campaign = await storage.duplicateCampaign(source.id, overrides, {
+        includeAdCopySets: input.includeAdCopySets,
+        includeComments: input.includeComments,
+      });
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      res.status(201).json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Duplicate campaign error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Save a campaign as an Ads Manager template
+  app.post("/api/campaigns/:id/save-as-template", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const input = saveCampaignTemplateSchema.parse(req.body);
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const adCopySets = await storage.getAdCopySets(campaign.id);
+      const activeSet = adCopySets.find(set => set.isActive);
+      const template = await storage.createCampaignTemplate(buildCampaignTemplate(campaign, activeSet, input, req.user!.id));
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Save campaign template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Campaign Daily Spend Routes
   // Get all daily spends for a campaign
   app.get("/api/campaigns/:id/daily-spends", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const spends = await storage.getCampaignDailySpends(req.params.id);
       res.json(spends);
     } catch (error) {
@@ -715,12 +2023,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Upsert (create or update) daily spend for a campaign
   app.post("/api/campaigns/:id/daily-spends", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
     try {
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const validatedData = insertCampaignDailySpendSchema.parse({
         ...req.body,
         campaignId: req.params.id,
       });
       
       const spend = await storage.upsertCampaignDailySpend(validatedData);
+      void checkCampaignSpendLimits([spend.campaignId]);
       res.json(spend);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -731,9 +2043,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create or update many campaign-days at once. Either every entry is saved or none are.
+  app.post("/api/campaigns/daily-spends/batch", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const { entries } = batchCampaignDailySpendSchema.parse(req.body);
+
+      for (const campaignId of Array.from(new Set(entries.map(entry => entry.campaignId)))) {
+        const campaign = await storage.getCampaign(campaignId);
+        if (!campaign) {
+          return res.status(404).json({ message: `Campaign not found: ${campaignId}` });
+        }
+        if (!(await canAccessClient(req, campaign.clientId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const spends = await storage.batchUpsertCampaignDailySpends(entries);
+      void checkCampaignSpendLimits(spends.map(spend => spend.campaignId));
+      res.json({ saved: spends.length, spends });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Batch upsert daily spends error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get total spend for a campaign
   app.get("/api/campaigns/:id/total-spend", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
+      if (!(await canAccessCampaign(req, req.params.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const totalSpend = await storage.getCampaignTotalSpend(req.params.id);
       res.json({ totalSpend });
     } catch (error) {
@@ -745,7 +2087,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Export campaigns to CSV
   app.get("/api/campaigns/export/csv", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
-      const campaigns = await storage.getCampaigns();
+      const campaigns = filterByClientScope(await getRequestClientScope(req), await storage.getCampaigns());
       
       // Get daily spends for all campaigns
       const campaignsWithSpends = await Promise.all(
@@ -857,6 +2199,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updatedAt: record.updatedAt ? new Date(record.updatedAt) : new Date(),
           };
 
+          // Neither the imported row nor the campaign it overwrites may belong to a client outside the user's scope
+          const existingCampaign = await storage.getCampaign(record.id);
+          if (!(await canAccessClient(req, campaignData.clientId)) || (existingCampaign && !(await canAccessClient(req, existingCampaign.clientId)))) {
+            errors.push(`Skipped campaign "${record.name}": access denied`);
+            continue;
+          }
+
           // Upsert campaign (insert with preserved ID or update if exists)
           await db.insert(campaigns).values(campaignData)
             .onConflictDoUpdate({
@@ -929,55 +2278,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body
       const validatedData = syncFacebookCampaignsSchema.parse(req.body);
       
-      // Get Facebook settings
-      const fbSettings = await db.select().from(facebookSettings).limit(1);
-      
-      if (fbSettings.length === 0 || !fbSettings[0].accessToken) {
+      const adapter = await getFacebookAdapter();
+      if (!adapter) {
         return res.status(400).json({ 
           message: "Facebook API not configured. Please set up your Facebook access token in settings." 
         });
       }
 
-      const { accessToken } = fbSettings[0];
       const { adAccountId, clientId } = validatedData;
 
-      // Fetch campaigns from Facebook Marketing API
-      const fields = 'id,name,status,effective_status,objective,daily_budget,lifetime_budget,budget_remaining,spend_cap,created_time,updated_time';
-      const url = `https://graph.facebook.com/v21.0/act_${adAccountId}/campaigns`;
-      
-      const response = await fetch(`${url}?fields=${fields}&access_token=${accessToken}&limit=100`);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("Facebook API error:", errorData);
-        return res.status(400).json({ 
-          message: errorData.error?.message || "Failed to fetch campaigns from Facebook" 
-        });
-      }
-
-      const data = await response.json();
-      const fbCampaigns = data.data || [];
-
-      // Get insights (spend data) for each campaign
-      const campaignsWithInsights = await Promise.all(
-        fbCampaigns.map(async (fbCampaign: any) => {
-          try {
-            const insightsUrl = `https://graph.facebook.com/v21.0/${fbCampaign.id}/insights`;
-            const insightsResponse = await fetch(
-              `${insightsUrl}?fields=spend&access_token=${accessToken}`
-            );
-            
-            if (insightsResponse.ok) {
-              const insightsData = await insightsResponse.json();
-              const spend = insightsData.data?.[0]?.spend || '0';
-              return { ...fbCampaign, spend };
-            }
-          } catch (error) {
-            console.error(`Failed to fetch insights for campaign ${fbCampaign.id}:`, error);
-          }
-          return { ...fbCampaign, spend: '0' };
-        })
-      );
+      // Fetch campaigns with their lifetime spend
+      const fbCampaigns = await adapter.listCampaigns(adAccountId, { includeSpend: true });
 
       // Get the ad account to link campaigns
       const adAccount = await db.select().from(adAccounts)
@@ -988,15 +2299,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // If ad account doesn't exist, create it
       if (!dbAdAccountId) {
-        const newAdAccount = await db.insert(adAccounts).values({
+        const newAdAccount = await storage.createAdAccount({
           platform: 'facebook',
           accountName: `Ad Account ${adAccountId}`,
           accountId: adAccountId,
           clientId: clientId || null,
           spendLimit: '999999',
           status: 'active'
-        }).returning();
-        dbAdAccountId = newAdAccount[0].id;
+        }, { createdBy: req.user!.id, createdByName: req.user!.username });
+        dbAdAccountId = newAdAccount.id;
       }
 
       let syncedCount = 0;
@@ -1004,34 +2315,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const errors: string[] = [];
 
       // Sync each campaign
-      for (const fbCampaign of campaignsWithInsights) {
+      for (const fbCampaign of fbCampaigns) {
         try {
-          // Convert budget from cents to dollars
-          const dailyBudget = fbCampaign.daily_budget ? (parseFloat(fbCampaign.daily_budget) / 100).toFixed(2) : null;
-          const lifetimeBudget = fbCampaign.lifetime_budget ? (parseFloat(fbCampaign.lifetime_budget) / 100).toFixed(2) : null;
-          const budgetRemaining = fbCampaign.budget_remaining ? (parseFloat(fbCampaign.budget_remaining) / 100).toFixed(2) : null;
-          const spend = fbCampaign.spend ? parseFloat(fbCampaign.spend).toFixed(2) : '0';
-
           // Determine which budget to use as the main budget
-          const mainBudget = dailyBudget || lifetimeBudget || '0';
+          const mainBudget = fbCampaign.dailyBudget || fbCampaign.lifetimeBudget || '0';
 
           const campaignData = {
             name: fbCampaign.name,
-            startDate: fbCampaign.created_time ? new Date(fbCampaign.created_time) : new Date(),
+            startDate: fbCampaign.createdAt || new Date(),
             adAccountId: dbAdAccountId,
             clientId: clientId || null,
-            status: fbCampaign.status === 'ACTIVE' ? 'active' : fbCampaign.status === 'PAUSED' ? 'paused' : 'completed',
+            status: fbCampaign.status,
             objective: fbCampaign.objective || 'awareness',
             budget: mainBudget,
-            spend: spend,
+            spend: fbCampaign.spend,
             fbCampaignId: fbCampaign.id,
             isSynced: true,
-            dailyBudget: dailyBudget,
-            lifetimeBudget: lifetimeBudget,
-            budgetRemaining: budgetRemaining,
-            effectiveStatus: fbCampaign.effective_status,
+            dailyBudget: fbCampaign.dailyBudget,
+            lifetimeBudget: fbCampaign.lifetimeBudget,
+            budgetRemaining: fbCampaign.budgetRemaining,
+            effectiveStatus: fbCampaign.effectiveStatus,
             lastSyncedAt: new Date(),
-            updatedAt: fbCampaign.updated_time ? new Date(fbCampaign.updated_time) : new Date(),
+            updatedAt: fbCampaign.updatedAt || new Date(),
           };
 
           // Check if campaign already exists by fbCampaignId
@@ -1044,6 +2349,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             await db.update(campaigns)
               .set(campaignData)
               .where(eq(campaigns.id, existingCampaign[0].id));
+            await recordCampaignChanges(existingCampaign[0], campaignData, getChangeAuthor(req.user!, CampaignChangeSource.FACEBOOK_SYNC));
             updatedCount++;
           } else {
             // Insert new campaign
@@ -1056,6 +2362,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      void checkSpendLimits([dbAdAccountId]);
+
       res.json({
         message: `Successfully synced ${syncedCount} new campaign(s) and updated ${updatedCount} existing campaign(s)`,
         synced: syncedCount,
@@ -1071,6 +2379,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ 
         message: error instanceof Error ? error.message : "Failed to sync campaigns from Facebook" 
       });
@@ -1081,8 +2392,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all clients
   app.get("/api/clients", authenticate, requirePagePermission('clients', 'view'), async (req: Request, res: Response) => {
     try {
+      const scope = await getRequestClientScope(req);
       const clients = await storage.getClients();
-      res.json(clients);
+      res.json(scope === null ? clients : clients.filter(client => scope.includes(client.id)));
     } catch (error) {
       console.error("Get clients error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1096,6 +2408,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
+      if (!(await canAccessClient(req, client.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       res.json(client);
     } catch (error) {
       console.error("Get client error:", error);
@@ -1122,6 +2437,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/clients/:id", authenticate, requirePagePermission('clients', 'edit'), async (req: Request, res: Response) => {
     try {
       const validatedData = insertClientSchema.partial().parse(req.body);
+      const existingClient = await storage.getClient(req.params.id);
+      if (!existingClient) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!(await canAccessClient(req, existingClient.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const client = await storage.updateClient(req.params.id, validatedData);
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
@@ -1139,6 +2461,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete client
   app.delete("/api/clients/:id", authenticate, requirePagePermission('clients', 'delete'), async (req: Request, res: Response) => {
     try {
+      const client = await storage.getClient(req.params.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!(await canAccessClient(req, client.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const deleted = await storage.deleteClient(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Client not found" });
@@ -1153,7 +2482,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Export clients to CSV
   app.get("/api/clients/export/csv", authenticate, requirePagePermission('clients', 'view'), async (req: Request, res: Response) => {
     try {
-      const clients = await storage.getClients();
+      const scope = await getRequestClientScope(req);
+      const clients = (await storage.getClients()).filter(client => isClientInScope(scope, client.id));
 
       // Create CSV header
       const headers = [
@@ -1286,7 +2616,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(sanitizeUser));
     } catch (error) {
       console.error("Get users error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1297,8 +2627,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/users", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
       const validatedData = insertUserWithRoleSchema.parse(req.body);
+      if (!(await storage.getRoleByKey(validatedData.role))) {
+        return res.status(400).json({ message: "Role not found" });
+      }
+      if (await isAdminRole(validatedData.role) && req.user!.role !== UserRole.SUPER_ADMIN) {
+        return res.status(403).json({ message: "Only a Super Admin can assign admin-level roles" });
+      }
+
+      const passwordErrors = await validatePasswordAgainstPolicy(validatedData.password);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
+
       const user = await storage.createUser(validatedData);
-      res.status(201).json(user);
+      res.status(201).json(sanitizeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -1312,11 +2654,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/users/:id", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
       const validatedData = insertUserWithRoleSchema.partial().parse(req.body);
+      if (validatedData.role && !(await storage.getRoleByKey(validatedData.role))) {
+        return res.status(400).json({ message: "Role not found" });
+      }
+      if (req.user!.role !== UserRole.SUPER_ADMIN) {
+        // Admin-level accounts and roles stay with Super Admins
+        const targetUser = await storage.getUser(req.params.id);
+        if ((targetUser && await isAdminRole(targetUser.role)) || (validatedData.role && await isAdminRole(validatedData.role))) {
+          return res.status(403).json({ message: "Only a Super Admin can manage admin-level users" });
+        }
+      }
+
+      if (validatedData.password) {
+        const existingUser = await storage.getUser(req.params.id);
+        if (!existingUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        const passwordErrors = await validatePasswordAgainstPolicy(validatedData.password, existingUser);
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+        }
+      }
+
       const user = await storage.updateUser(req.params.id, validatedData);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(sanitizeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -1340,102 +2704,291 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User Menu Permissions Routes
-  // Get all user menu permissions or for a specific user
-  app.get("/api/user-menu-permissions", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
+  // Force logout a user from every device (Super Admin only)
+  app.post("/api/users/:id/force-logout", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const { userId } = req.query;
-      const permissions = await storage.getUserMenuPermissions(userId as string);
-      res.json(permissions);
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await storage.deleteUserSessions(user.id);
+      res.json({ message: `${user.username} has been logged out of all devices`, revoked });
     } catch (error) {
-      console.error("Get user menu permissions error:", error);
+      console.error("Force logout error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get user menu permission for a specific user
-  app.get("/api/user-menu-permissions/:userId", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
+  // Email a user a one-time password reset link
+  app.post("/api/users/:id/password-reset", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
-      const permission = await storage.getUserMenuPermission(req.params.userId);
-      if (!permission) {
-        return res.status(404).json({ message: "User menu permission not found" });
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(permission);
+      if (!user.email) {
+        return res.status(400).json({ message: `${user.username} has no email address. Add one before sending a reset link.` });
+      }
+
+      const token = randomBytes(32).toString('hex');
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashResetToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+        createdBy: req.user!.id,
+      });
+
+      const resetUrl = `${req.protocol}://${req.get('host')}/reset-password?token=${token}`;
+      const sent = await sendPasswordResetEmail(user, resetUrl, PASSWORD_RESET_TTL_MINUTES);
+      if (!sent) {
+        return res.status(502).json({ message: "Failed to send the reset email. Check the email settings and try again." });
+      }
+
+      res.json({ message: `Password reset link sent to ${user.email}` });
     } catch (error) {
-      console.error("Get user menu permission error:", error);
+      console.error("Send password reset error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Create new user menu permission
-  app.post("/api/user-menu-permissions", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+  // Get usernames currently locked out by failed logins (Super Admin only)
+  app.get("/api/auth/lockouts", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const validatedData = insertUserMenuPermissionSchema.parse(req.body);
-      
-      // Validate that user exists
-      const user = await storage.getUser(validatedData.userId);
+      const throttles = await storage.getLockedLoginThrottles(LoginThrottleScope.USERNAME);
+      res.json(throttles.map(throttle => ({
+        username: throttle.key,
+        failureCount: throttle.failureCount,
+        lockedUntil: throttle.lockedUntil,
+      })));
+    } catch (error) {
+      console.error("Get lockouts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Unlock a user locked out by failed logins (Super Admin only)
+  app.post("/api/users/:id/unlock", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
       if (!user) {
-        return res.status(400).json({ message: "User not found" });
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      const permission = await storage.createUserMenuPermission(validatedData);
-      res.status(201).json(permission);
+      await unlockLogin(user.username);
+      res.json({ message: `${user.username} has been unlocked` });
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Reset a user's 2FA, e.g. after losing their device (Super Admin only)
+  app.post("/api/users/:id/reset-2fa", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.updateUserTwoFactor(req.params.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ message: `Two-factor authentication reset for ${user.username}` });
+    } catch (error) {
+      console.error("Reset 2FA error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Audit Log Routes (Super Admin only)
+  const auditLogQuerySchema = z.object({
+    userId: z.string().optional(),
+    entityType: z.string().optional(),
+    entityId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(5000).optional(),
+  });
+
+  // Search the audit log
+  app.get("/api/audit-logs", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const filters = auditLogQuerySchema.parse(req.query);
+      const logs = await storage.getAuditLogs(filters);
+      res.json(logs);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      console.error("Create user menu permission error:", error);
+      console.error("Get audit logs error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update user menu permission
-  app.put("/api/user-menu-permissions/:userId", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+  // Entity types present in the audit log (for the filter dropdown)
+  app.get("/api/audit-logs/entity-types", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const validatedData = insertUserMenuPermissionSchema.partial().parse(req.body);
-      const permission = await storage.updateUserMenuPermission(req.params.userId, validatedData);
-      if (!permission) {
-        return res.status(404).json({ message: "User menu permission not found" });
+      res.json(await storage.getAuditLogEntityTypes());
+    } catch (error) {
+      console.error("Get audit log entity types error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Export the filtered audit log as CSV
+  app.get("/api/audit-logs/export/csv", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const filters = auditLogQuerySchema.parse(req.query);
+      const logs = await storage.getAuditLogs({ ...filters, limit: filters.limit ?? 5000 });
+
+      const headers: (keyof AuditLog)[] = ['createdAt', 'username', 'method', 'route', 'path', 'entityType', 'entityId', 'action', 'changes', 'ipAddress'];
+      let csvContent = headers.join(',') + '\n';
+
+      logs.forEach(log => {
+        const row = headers.map(header => {
+          const raw = log[header];
+          const value = raw instanceof Date ? raw.toISOString() : raw;
+          // Escape values with commas, quotes or line breaks
+          if (value && typeof value === 'string' && /[",\n]/.test(value)) {
+            return `"${value.replace(/"/g, '""')}"`;
+          }
+          return value || '';
+        });
+        csvContent += row.join(',') + '\n';
+      });
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=audit-log-${Date.now()}.csv`);
+      res.send(csvContent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Audit log CSV export error:", error);
+      res.status(500).json({ message: "Failed to export CSV" });
+    }
+  });
+
+  // User Page Permissions Routes (per-user overrides of role permissions)
+  // Get overrides, optionally for a single user
+  app.get("/api/user-page-permissions", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.query;
+      const permissions = await storage.getUserPagePermissions(userId as string);
+      res.json(permissions);
+    } catch (error) {
+      console.error("Get user page permissions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get a user's effective permissions per page
+  app.get("/api/users/:id/page-permissions", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const permissions = await storage.getEffectivePagePermissions(user.id);
+      res.json(permissions);
+    } catch (error) {
+      console.error("Get effective page permissions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Set a user's override for one page. Actions left out or null inherit from the role.
+  app.put("/api/users/:id/page-permissions/:pageId", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertUserPagePermissionSchema.parse({
+        ...req.body,
+        userId: req.params.id,
+        pageId: req.params.pageId,
+      });
+
+      const user = await storage.getUser(validatedData.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const page = await storage.getPage(validatedData.pageId);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
       }
+
+      const permission = await storage.upsertUserPagePermission(validatedData);
       res.json(permission);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      console.error("Update user menu permission error:", error);
+      console.error("Set user page permission error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Delete user menu permission
-  app.delete("/api/user-menu-permissions/:userId", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+  // Remove a user's override so the page falls back to the role permission
+  app.delete("/api/users/:id/page-permissions/:pageId", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
-      const deleted = await storage.deleteUserMenuPermission(req.params.userId);
+      const deleted = await storage.deleteUserPagePermission(req.params.id, req.params.pageId);
       if (!deleted) {
-        return res.status(404).json({ message: "User menu permission not found" });
+        return res.status(404).json({ message: "User page permission not found" });
       }
-      res.json({ message: "User menu permission deleted successfully" });
+      res.json({ message: "User page permission reset to role default" });
     } catch (error) {
-      console.error("Delete user menu permission error:", error);
+      console.error("Delete user page permission error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Ad Accounts Routes
-  // Get all ad accounts (filtered by clientId for client users)
-  app.get("/api/ad-accounts", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
+  // User Client Assignments Routes
+  // Get client assignments, optionally for a single user
+  app.get("/api/user-client-assignments", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
-      // Get the full user object to check clientId
-      const user = await storage.getUser(req.user!.id);
-      
-      // If user is a client, filter ad accounts by their clientId
-      let clientIdFilter: string | undefined = undefined;
-      if (user?.role === UserRole.CLIENT && user.clientId) {
-        clientIdFilter = user.clientId;
+      const { userId } = req.query;
+      const assignments = await storage.getUserClientAssignments(userId as string);
+      res.json(assignments);
+    } catch (error) {
+      console.error("Get user client assignments error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replace the clients a user is assigned to. Staff see only their assigned clients, so an empty list means none.
+  app.put("/api/users/:id/client-assignments", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const { clientIds } = z.object({ clientIds: z.array(z.string()) }).parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const uniqueClientIds = Array.from(new Set(clientIds));
+      for (const clientId of uniqueClientIds) {
+        const client = await storage.getClient(clientId);
+        if (!client) {
+          return res.status(400).json({ message: "Client not found" });
+        }
       }
 
-      const adAccounts = await storage.getAdAccounts(clientIdFilter);
-      res.json(adAccounts);
+      const assignments = await storage.setUserClientAssignments(user.id, uniqueClientIds);
+      res.json(assignments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Set user client assignments error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Ad Accounts Routes
+  // Get all ad accounts (limited to the user's clients)
+  app.get("/api/ad-accounts", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
+    try {
+      // Restrict to the clients the user is assigned to
+      const scope = await getRequestClientScope(req);
+      const adAccounts = await storage.getAdAccounts();
+      res.json(filterByClientScope(scope, adAccounts));
     } catch (error) {
       console.error("Get ad accounts error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1449,7 +3002,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!adAccount) {
         return res.status(404).json({ message: "Ad account not found" });
       }
-      res.json(adAccount);
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const monitored = await storage.getAdAccountWithMonitoredSpend(adAccount.id);
+      const response: AdAccountWithMonitoredSpend = { ...adAccount, monitoredSpend: monitored?.totalSpend || adAccount.totalSpend || "0" };
+      res.json(response);
     } catch (error) {
       console.error("Get ad account error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1461,6 +3019,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertAdAccountSchema.parse(req.body);
       
+      if (!(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       // Validate that client exists if clientId is provided
       if (validatedData.clientId) {
         const client = await storage.getClient(validatedData.clientId);
@@ -1468,67 +3030,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Client not found" });
         }
       }
-      
-      const adAccount = await storage.createAdAccount(validatedData);
-      res.status(201).json(adAccount);
+      
+      const adAccount = await storage.createAdAccount(validatedData, { createdBy: req.user!.id, createdByName: req.user!.username });
+      res.status(201).json(adAccount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Create ad account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update ad account
+  app.put("/api/ad-accounts/:id", authenticate, requirePagePermission('ad_accounts', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertAdAccountSchema.partial().parse(req.body);
+      const { statusReason } = z.object({ statusReason: z.string().trim().max(500).optional() }).parse(req.body);
+      
+      if (validatedData.clientId !== undefined && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Validate that client exists if clientId is being updated
+      if (validatedData.clientId) {
+        const client = await storage.getClient(validatedData.clientId);
+        if (!client) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      }
+      
+      // Get old ad account to check for status changes
+      const oldAdAccount = await storage.getAdAccount(req.params.id);
+      if (!oldAdAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, oldAdAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // A status change is written to the account's history together with the update
+      const result = await storage.updateAdAccountWithStatusHistory(req.params.id, validatedData, { createdBy: req.user!.id, createdByName: req.user!.username }, statusReason);
+      if (!result) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      const { adAccount, statusChange } = result;
+      if (validatedData.spendLimit !== undefined) {
+        void checkSpendLimits([adAccount.id]);
+      }
+      
+      // Emails and SMS follow the client's notification preferences
+      if (statusChange) {
+        notifyAdAccountStatusChange(statusChange, adAccount);
+      }
+      
+      res.json(adAccount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Update ad account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete ad account
+  app.delete("/api/ad-accounts/:id", authenticate, requirePagePermission('ad_accounts', 'delete'), async (req: Request, res: Response) => {
+    try {
+      const adAccount = await storage.getAdAccount(req.params.id);
+      if (adAccount && !(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const deleted = await storage.deleteAdAccount(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      res.json({ message: "Ad account deleted successfully" });
+    } catch (error) {
+      console.error("Delete ad account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Status history of an ad account, newest first
+  app.get("/api/ad-accounts/:id/status-history", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
+    try {
+      const adAccount = await storage.getAdAccount(req.params.id);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const changes = await storage.getAdAccountStatusChanges(adAccount.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Get ad account status history error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Spend alerts sent for an ad account, newest first
+  app.get("/api/ad-accounts/:id/spend-alerts", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
+    try {
+      const adAccount = await storage.getAdAccount(req.params.id);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const alerts = await storage.getSpendAlerts(adAccount.id);
+      res.json(alerts);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
-      }
-      console.error("Create ad account error:", error);
+      console.error("Get spend alerts error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update ad account
-  app.put("/api/ad-accounts/:id", authenticate, requirePagePermission('ad_accounts', 'edit'), async (req: Request, res: Response) => {
+  // Spend limit ledger of an ad account, newest first
+  app.get("/api/ad-accounts/:id/limit-entries", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertAdAccountSchema.partial().parse(req.body);
-      
-      // Validate that client exists if clientId is being updated
-      if (validatedData.clientId) {
-        const client = await storage.getClient(validatedData.clientId);
-        if (!client) {
-          return res.status(400).json({ message: "Client not found" });
-        }
-      }
-      
-      // Get old ad account to check for status changes
-      const oldAdAccount = await storage.getAdAccount(req.params.id);
-      if (!oldAdAccount) {
-        return res.status(404).json({ message: "Ad account not found" });
-      }
-      
-      const adAccount = await storage.updateAdAccount(req.params.id, validatedData);
+      const adAccount = await storage.getAdAccount(req.params.id);
       if (!adAccount) {
         return res.status(404).json({ message: "Ad account not found" });
       }
-      
-      // AUTOMATIC EMAIL SENDING DISABLED - Use Client Mailbox for manual emails
-      // if (validatedData.status && validatedData.status !== oldAdAccount.status) {
-      //   ... automatic email code removed ...
-      // }
-      
-      res.json(adAccount);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
       }
-      console.error("Update ad account error:", error);
+      const entries = await storage.getAdAccountLimitEntries(adAccount.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Get spend limit ledger error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Delete ad account
-  app.delete("/api/ad-accounts/:id", authenticate, requirePagePermission('ad_accounts', 'delete'), async (req: Request, res: Response) => {
+  // Record a limit increase, top-up or adjustment. The spend limit becomes the new ledger total.
+  app.post("/api/ad-accounts/:id/limit-entries", authenticate, requirePagePermission('ad_accounts', 'edit'), async (req: Request, res: Response) => {
     try {
-      const deleted = await storage.deleteAdAccount(req.params.id);
-      if (!deleted) {
+      const validatedData = insertAdAccountLimitEntrySchema.parse(req.body);
+
+      const adAccount = await storage.getAdAccount(req.params.id);
+      if (!adAccount) {
         return res.status(404).json({ message: "Ad account not found" });
       }
-      res.json({ message: "Ad account deleted successfully" });
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (validatedData.financePaymentId) {
+        const payment = await storage.getFinancePayment(validatedData.financePaymentId);
+        if (!payment) {
+          return res.status(400).json({ message: "Payment not found" });
+        }
+        if (payment.clientId !== adAccount.clientId) {
+          return res.status(400).json({ message: "The payment was made by a different client than the ad account's" });
+        }
+      }
+
+      const result = await storage.addAdAccountLimitEntry(adAccount.id, validatedData, { createdBy: req.user!.id, createdByName: req.user!.username });
+      if (!result) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (result === 'below_zero') {
+        return res.status(400).json({ message: "The spend limit cannot go below zero" });
+      }
+      void checkSpendLimits([adAccount.id]);
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Delete ad account error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Add spend limit entry error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -1536,7 +3210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Export ad accounts to CSV
   app.get("/api/ad-accounts/export/csv", authenticate, requirePagePermission('ad_accounts', 'view'), async (req: Request, res: Response) => {
     try {
-      const adAccounts = await storage.getAdAccounts();
+      const adAccounts = filterByClientScope(await getRequestClientScope(req), await storage.getAdAccounts());
 
       // Create CSV header - include ALL fields for lossless export/import
       const headers = [
@@ -1633,24 +3307,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updatedAt: record.updatedAt ? new Date(record.updatedAt) : new Date(),
           };
 
-          // Use upsert to preserve IDs and update existing records
-          await db.insert(adAccounts)
-            .values(adAccountData)
-            .onConflictDoUpdate({
-              target: adAccounts.id,
-              set: {
-                platform: adAccountData.platform,
-                accountName: adAccountData.accountName,
-                accountId: adAccountData.accountId,
-                clientId: adAccountData.clientId,
-                spendLimit: adAccountData.spendLimit,
-                totalSpend: adAccountData.totalSpend,
-                status: adAccountData.status,
-                notes: adAccountData.notes,
-                createdAt: adAccountData.createdAt,
-                updatedAt: adAccountData.updatedAt,
-              }
-            });
+          // Neither the imported row nor the account it overwrites may belong to a client outside the user's scope
+          const existingAdAccount = await storage.getAdAccount(record.id);
+          if (!(await canAccessClient(req, adAccountData.clientId)) || (existingAdAccount && !(await canAccessClient(req, existingAdAccount.clientId)))) {
+            throw new Error(`Access denied for ad account ${adAccountData.accountName}`);
+          }
+
+          // Upsert to preserve IDs; the spend limit is recorded in the account's ledger
+          await storage.importAdAccount(adAccountData, { createdBy: req.user!.id, createdByName: req.user!.username });
 
           successCount++;
         } catch (error) {
@@ -1684,6 +3348,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/campaigns/:campaignId/ad-copy-sets", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
       const { campaignId } = req.params;
+      if (!(await canAccessCampaign(req, campaignId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const adCopySets = await storage.getAdCopySets(campaignId);
       res.json(adCopySets);
     } catch (error) {
@@ -1691,6 +3358,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Compare ad copy sets by the spend and insights of the days each was active
+  app.get("/api/campaigns/:campaignId/ad-copy-sets/performance", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
+    try {
+      const { campaignId } = req.params;
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [sets, periods, spends] = await Promise.all([
+        storage.getAdCopySets(campaignId),
+        storage.getAdCopySetPeriods(campaignId),
+        storage.getCampaignDailySpends(campaignId),
+      ]);
+      const periodsStart = getPeriodsStart(periods);
+      const insights = campaign.fbCampaignId && periodsStart
+        ? await storage.getFacebookCampaignInsightsForCampaigns([campaign.fbCampaignId], periodsStart, new Date())
+        : [];
+
+      res.json(attributeAdCopyPerformance(sets, periods, spends, insights));
+    } catch (error) {
+      console.error("Get ad copy set performance error:", error);
+      res.status(500).json({ message: "Failed to fetch ad copy set performance" });
+    }
+  });
+
   // Get single ad copy set
   app.get("/api/ad-copy-sets/:id", authenticate, requirePagePermission('campaigns', 'view'), async (req: Request, res: Response) => {
     try {
@@ -1698,6 +3394,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!adCopySet) {
         return res.status(404).json({ message: "Ad copy set not found" });
       }
+      if (!(await canAccessCampaign(req, adCopySet.campaignId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       res.json(adCopySet);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch ad copy set" });
@@ -1718,6 +3417,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!campaign) {
         return res.status(400).json({ message: "Campaign not found" });
       }
+      if (!(await canAccessClient(req, campaign.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
       const adCopySet = await storage.createAdCopySet(validatedData);
       res.status(201).json(adCopySet);
@@ -1733,6 +3435,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/ad-copy-sets/:id", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
     try {
       const validatedData = insertAdCopySetSchema.partial().parse(req.body);
+      const existingSet = await storage.getAdCopySet(req.params.id);
+      if (existingSet && !(await canAccessCampaign(req, existingSet.campaignId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const adCopySet = await storage.updateAdCopySet(req.params.id, validatedData);
       
       if (!adCopySet) {
@@ -1752,7 +3458,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/campaigns/:campaignId/ad-copy-sets/:id/set-active", authenticate, requirePagePermission('campaigns', 'edit'), async (req: Request, res: Response) => {
     try {
       const { campaignId, id } = req.params;
-      const success = await storage.setActiveAdCopySet(campaignId, id);
+      if (!(await canAccessCampaign(req, campaignId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const success = await storage.setActiveAdCopySet(campaignId, id, req.user!.id);
       
       if (!success) {
         return res.status(400).json({ message: "Failed to set active ad copy set" });
@@ -1767,6 +3476,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete ad copy set
   app.delete("/api/ad-copy-sets/:id", authenticate, requirePagePermission('campaigns', 'delete'), async (req: Request, res: Response) => {
     try {
+      const existingSet = await storage.getAdCopySet(req.params.id);
+      if (existingSet && !(await canAccessCampaign(req, existingSet.campaignId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const deleted = await storage.deleteAdCopySet(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Ad copy set not found" });
@@ -1784,12 +3497,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       let workReports: WorkReport[];
       
-      if (req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN) {
+      if (req.user!.isAdmin) {
         // Admin/Super Admin can see all work reports
         workReports = await storage.getWorkReports();
       } else {
-        // Regular users see only their own work reports
-        workReports = await storage.getWorkReports(req.user!.id);
+        // Regular users see only their own work reports, minus clients they are no longer assigned to
+        const scope = await getRequestClientScope(req);
+        workReports = (await storage.getWorkReports(req.user!.id))
+          .filter(report => !report.clientId || isClientInScope(scope, report.clientId));
       }
       
       res.json(workReports);
@@ -1807,12 +3522,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user can access this work report
-      const isAdmin = req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN;
+      const isAdmin = req.user!.isAdmin;
       const isOwner = workReport.userId === req.user!.id;
       
       if (!isAdmin && !isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (workReport.clientId && !(await canAccessClient(req, workReport.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       res.json(workReport);
     } catch (error) {
@@ -1825,7 +3543,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       let validatedData;
       
-      if (req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN) {
+      if (req.user!.isAdmin) {
         // Admin can create work reports for any user (if userId is provided)
         validatedData = insertWorkReportSchema.parse({
           ...req.body,
@@ -1838,6 +3556,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           userId: req.user!.id // Force current user
         });
       }
+
+      if (validatedData.clientId && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const workReport = await storage.createWorkReport(validatedData);
       
@@ -1864,7 +3586,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user can update this work report
-      const isAdmin = req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN;
+      const isAdmin = req.user!.isAdmin;
       const isOwner = existingReport.userId === req.user!.id;
       
       if (!isAdmin && !isOwner) {
@@ -1877,6 +3599,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!isAdmin && validatedData.userId && validatedData.userId !== req.user!.id) {
         return res.status(403).json({ message: "Cannot change work report owner" });
       }
+      if (existingReport.clientId && !(await canAccessClient(req, existingReport.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (validatedData.clientId && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const workReport = await storage.updateWorkReport(req.params.id, validatedData);
       res.json(workReport);
@@ -1897,7 +3625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user can delete this work report
-      const isAdmin = req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN;
+      const isAdmin = req.user!.isAdmin;
       const isOwner = existingReport.userId === req.user!.id;
       
       if (!isAdmin && !isOwner) {
@@ -1927,6 +3655,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Roles
+  app.get("/api/roles", authenticate, async (req: Request, res: Response) => {
+    try {
+      const roles = await storage.getRoles();
+      res.json(roles);
+    } catch (error) {
+      console.error("Get roles error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/roles", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertRoleSchema.parse(req.body);
+      if (validatedData.isAdmin && req.user!.role !== UserRole.SUPER_ADMIN) {
+        return res.status(403).json({ message: "Only a Super Admin can grant admin access" });
+      }
+      if (await storage.getRoleByKey(validatedData.key)) {
+        return res.status(409).json({ message: "A role with this key already exists" });
+      }
+      const role = await storage.createRole(validatedData);
+      res.status(201).json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Create role error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The key is referenced by users and permissions, so only the details can change
+  app.put("/api/roles/:id", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertRoleSchema.omit({ key: true }).partial().parse(req.body);
+      const existingRole = await storage.getRole(req.params.id);
+      if (!existingRole) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      const changesAdminAccess = validatedData.isAdmin !== undefined && validatedData.isAdmin !== existingRole.isAdmin;
+      if (existingRole.isSystem && changesAdminAccess) {
+        return res.status(400).json({ message: "Admin access of built-in roles cannot be changed" });
+      }
+      if (changesAdminAccess && req.user!.role !== UserRole.SUPER_ADMIN) {
+        return res.status(403).json({ message: "Only a Super Admin can change admin access" });
+      }
+      const role = await storage.updateRole(req.params.id, validatedData);
+      res.json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Update role error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/roles/:id", authenticate, requirePagePermission('admin', 'delete', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const role = await storage.getRole(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (role.isSystem) {
+        return res.status(400).json({ message: "Built-in roles cannot be deleted" });
+      }
+      const assignedUsers = (await storage.getAllUsers()).filter(user => user.role === role.key);
+      if (assignedUsers.length > 0) {
+        return res.status(409).json({ message: `${assignedUsers.length} user(s) still have this role. Move them to another role first.` });
+      }
+      await storage.deleteRole(role.id);
+      res.json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Delete role error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // API keys (Super Admin only). The key hash never leaves the server.
+  const toApiKeyResponse = ({ keyHash, ...apiKey }: ApiKey) => ({ ...apiKey, pageKeys: getApiKeyPageKeys(apiKey as ApiKey) });
+
+  app.get("/api/api-keys", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const apiKeys = await storage.getApiKeys();
+      res.json(apiKeys.map(toApiKeyResponse));
+    } catch (error) {
+      console.error("Get API keys error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/api-keys", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const { name, scope, pageKeys, expiresAt } = createApiKeySchema.parse(req.body);
+
+      const knownPageKeys = new Set((await storage.getPages()).map(page => page.pageKey));
+      const unknownPageKeys = pageKeys.filter(pageKey => !knownPageKeys.has(pageKey));
+      if (unknownPageKeys.length > 0) {
+        return res.status(400).json({ message: `Unknown pages: ${unknownPageKeys.join(', ')}` });
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        name,
+        keyPrefix,
+        keyHash,
+        scope,
+        pageKeys: JSON.stringify(Array.from(new Set(pageKeys))),
+        expiresAt,
+        createdBy: req.user!.id,
+      });
+
+      // The plain key is only shown this once
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Create API key error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/api-keys/:id/revoke", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getApiKey(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      if (existing.revokedAt) {
+        return res.status(400).json({ message: "API key is already revoked" });
+      }
+      const apiKey = await storage.revokeApiKey(existing.id);
+      res.json(toApiKeyResponse(apiKey!));
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get all role permissions (Super Admin only)
   app.get("/api/role-permissions", authenticate, requirePagePermission('admin', 'view', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
@@ -1947,6 +3815,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create a missing role permission, e.g. for a newly added role (Super Admin only)
+  app.post("/api/role-permissions", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertRolePermissionSchema.parse(req.body);
+      if (!(await storage.getRoleByKey(validatedData.role))) {
+        return res.status(400).json({ message: "Role not found" });
+      }
+      const existing = await storage.getRolePermissionByRoleAndPage(validatedData.role, validatedData.pageId);
+      if (existing) {
+        return res.status(409).json({ message: "Role permission already exists" });
+      }
+      const permission = await storage.createRolePermission(validatedData);
+      res.status(201).json(permission);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create role permission" });
+    }
+  });
+
   // Update role permission (Super Admin only)
   app.put("/api/role-permissions/:id", authenticate, requirePagePermission('admin', 'edit', { superAdminBypass: true }), async (req: Request, res: Response) => {
     try {
@@ -1994,6 +3883,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Effective permissions of the current user for every page
+  app.get("/api/permissions/me", authenticate, async (req: Request, res: Response) => {
+    try {
+      const permissions = await getRequestPagePermissions(req);
+      res.json(permissions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load permissions" });
+    }
+  });
+
   // Check user permission for a specific page
   app.get("/api/permissions/check/:pageKey", authenticate, async (req: Request, res: Response) => {
     try {
@@ -2004,11 +3903,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid action. Must be 'view', 'edit', or 'delete'" });
       }
       
-      const hasPermission = await storage.checkUserPagePermission(
-        req.user!.id, 
-        pageKey, 
-        action as 'view' | 'edit' | 'delete'
-      );
+      const hasPermission = await hasPagePermission(req, pageKey, action as PageAction);
       
       res.json({ hasPermission });
     } catch (error) {
@@ -2021,7 +3916,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Finance Projects
   app.get("/api/finance/projects", authenticate, requirePagePermission('finance', 'view'), async (req: Request, res: Response) => {
     try {
-      const projects = await storage.getFinanceProjects();
+      const projects = filterByClientScope(await getRequestClientScope(req), await storage.getFinanceProjects());
       res.json(projects);
     } catch (error) {
       console.error("Get finance projects error:", error);
@@ -2035,6 +3930,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
+      if (!(await canAccessClient(req, project.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       res.json(project);
     } catch (error) {
       console.error("Get finance project error:", error);
@@ -2046,6 +3944,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertFinanceProjectSchema.parse(req.body);
       
+      if (!(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       // Validate that client exists
       const client = await storage.getClient(validatedData.clientId);
       if (!client) {
@@ -2067,6 +3969,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertFinanceProjectSchema.partial().parse(req.body);
       
+      const existingProject = await storage.getFinanceProject(req.params.id);
+      if (existingProject && !(await canAccessClient(req, existingProject.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (validatedData.clientId && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       // Validate that client exists if clientId is being updated
       if (validatedData.clientId) {
         const client = await storage.getClient(validatedData.clientId);
@@ -2091,6 +4001,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/finance/projects/:id", authenticate, requirePagePermission('finance', 'delete'), async (req: Request, res: Response) => {
     try {
+      const project = await storage.getFinanceProject(req.params.id);
+      if (project && !(await canAccessClient(req, project.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const deleted = await storage.deleteFinanceProject(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Project not found" });
@@ -2107,7 +4021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { projectId } = req.query;
       const payments = await storage.getFinancePayments(projectId as string);
-      res.json(payments);
+      res.json(filterByClientScope(await getRequestClientScope(req), payments));
     } catch (error) {
       console.error("Get finance payments error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -2120,6 +4034,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!payment) {
         return res.status(404).json({ message: "Payment not found" });
       }
+      if (!(await canAccessClient(req, payment.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       res.json(payment);
     } catch (error) {
       console.error("Get finance payment error:", error);
@@ -2131,6 +4048,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertFinancePaymentSchema.parse(req.body);
       
+      if (!(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       // Validate that client and project exist
       const client = await storage.getClient(validatedData.clientId);
       if (!client) {
@@ -2157,6 +4078,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertFinancePaymentSchema.partial().parse(req.body);
       
+      const existingPayment = await storage.getFinancePayment(req.params.id);
+      if (existingPayment && !(await canAccessClient(req, existingPayment.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (validatedData.clientId && !(await canAccessClient(req, validatedData.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       const payment = await storage.updateFinancePayment(req.params.id, validatedData);
       if (!payment) {
         return res.status(404).json({ message: "Payment not found" });
@@ -2173,6 +4102,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/finance/payments/:id", authenticate, requirePagePermission('finance', 'delete'), async (req: Request, res: Response) => {
     try {
+      const payment = await storage.getFinancePayment(req.params.id);
+      if (payment && !(await canAccessClient(req, payment.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const deleted = await storage.deleteFinancePayment(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Payment not found" });
@@ -2480,9 +4413,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { period = 'month' } = req.query;
       
-      // Get all data for calculations
-      const projects = await storage.getFinanceProjects();
-      const payments = await storage.getFinancePayments();
+      // Get all data for calculations, projects and payments limited to the user's clients
+      const scope = await getRequestClientScope(req);
+      const projects = filterByClientScope(scope, await storage.getFinanceProjects());
+      const payments = filterByClientScope(scope, await storage.getFinancePayments());
       const expenses = await storage.getFinanceExpenses();
       const exchangeRate = await storage.getExchangeRate();
       
@@ -3386,7 +5320,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         exportedBy: req.user?.username,
         version: "1.0",
         data: {
-          users: users.map(u => ({ ...u, password: "[REDACTED]" })), // Remove passwords for security
+          // Remove passwords and 2FA secrets for security
+          users: users.map(user => {
+            const { twoFactorEnabled, ...u } = sanitizeUser(user);
+            return { ...u, password: "[REDACTED]" };
+          }),
           campaigns,
           clients,
           adAccounts,
@@ -3457,11 +5395,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             try {
               const processedUser = convertDatesToObjects(user);
               const existing = await storage.getUser(processedUser.id);
+              // Exports redact passwords - never store the placeholder as a usable password.
+              // Existing users keep theirs; new users get a random one and must have it reset.
+              if (processedUser.password === "[REDACTED]") {
+                if (existing) {
+                  delete processedUser.password;
+                } else {
+                  processedUser.password = randomBytes(24).toString('hex');
+                }
+              }
+              // Backups may carry password hashes, which are restored as they are
               if (existing) {
-                await storage.updateUser(processedUser.id, processedUser);
+                await storage.updateUser(processedUser.id, processedUser, { keepPasswordHash: true });
                 results.updated++;
               } else {
-                await storage.createUser(processedUser);
+                await storage.createUser(processedUser, { keepPasswordHash: true });
                 results.imported++;
               }
             } catch (error: any) {
@@ -4018,24 +5966,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Test API connection by making a simple request
-      const testUrl = `https://graph.facebook.com/v18.0/me?access_token=${settings.accessToken}`;
-      const response = await fetch(testUrl);
-      
-      if (response.ok) {
-        const data = await response.json();
+      try {
+        const user = await new FacebookAdapter(settings.accessToken).testConnection();
         await storage.updateFacebookConnectionStatus(true);
         res.json({ 
           success: true, 
           message: "Connection successful",
-          userId: data.id,
-          userName: data.name
+          userId: user.id,
+          userName: user.name
         });
-      } else {
-        const errorData = await response.json();
-        await storage.updateFacebookConnectionStatus(false, errorData.error?.message || 'Connection failed');
+      } catch (error) {
+        if (!(error instanceof AdPlatformError)) throw error;
+        await storage.updateFacebookConnectionStatus(false, error.message);
         res.status(400).json({ 
           success: false, 
-          message: errorData.error?.message || "Connection failed" 
+          message: error.message 
         });
       }
     } catch (error: any) {
@@ -4048,26 +5993,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Disconnect Facebook
-  app.post("/api/facebook/disconnect", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+  // Disconnect Facebook
+  app.post("/api/facebook/disconnect", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getFacebookSettings();
+      
+      if (!settings) {
+        return res.status(400).json({ message: "No Facebook settings to disconnect" });
+      }
+
+      // Clear settings by setting empty values and marking as disconnected
+      await storage.saveFacebookSettings({
+        appId: "",
+        appSecret: "",
+        accessToken: "",
+        isConnected: false
+      });
+
+      res.json({ message: "Facebook disconnected successfully" });
+    } catch (error) {
+      console.error("Disconnect Facebook error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update the automatic Facebook sync schedule
+  app.put("/api/facebook/settings/sync-schedule", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const schedule = facebookSyncScheduleSchema.parse(req.body);
+      const settings = await storage.updateFacebookSyncSchedule(schedule);
+      if (!settings) {
+        return res.status(400).json({ message: "Facebook settings not configured" });
+      }
+
+      res.json({
+        ...settings,
+        appSecret: settings.appSecret ? '••••••••' : ''
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Update Facebook sync schedule error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Recent Facebook sync runs, newest first
+  app.get("/api/facebook/sync-runs", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const runs = await storage.getSyncRuns('facebook', limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Get Facebook sync runs error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Start a sync of all Facebook ad accounts. The run is logged and can be followed in the sync runs list.
+  app.post("/api/facebook/sync-runs", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
       const settings = await storage.getFacebookSettings();
-      
-      if (!settings) {
-        return res.status(400).json({ message: "No Facebook settings to disconnect" });
+      if (!settings || !settings.isConnected) {
+        return res.status(400).json({ message: "Facebook not connected. Please configure settings first." });
+      }
+      if (isFacebookSyncInProgress()) {
+        return res.status(409).json({ message: "A Facebook sync is already running" });
       }
 
-      // Clear settings by setting empty values and marking as disconnected
-      await storage.saveFacebookSettings({
-        appId: "",
-        appSecret: "",
-        accessToken: "",
-        isConnected: false
+      runFullFacebookSync('manual').catch(error => {
+        console.error("Manual Facebook sync error:", error);
       });
-
-      res.json({ message: "Facebook disconnected successfully" });
+      res.status(202).json({ message: "Facebook sync started" });
     } catch (error) {
-      console.error("Disconnect Facebook error:", error);
+      console.error("Start Facebook sync error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -4590,104 +6590,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate Bangladesh phone number format (starts with +880 or 880 or 01)
-      const phoneRegex = /^(\+?880|0)?1[3-9]\d{8}$/;
-      if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
+      if (!isValidBangladeshPhone(phoneNumber)) {
         return res.status(400).json({ 
           success: false, 
           message: "Invalid Bangladesh phone number format. Use format: +8801XXXXXXXXX or 01XXXXXXXXX" 
         });
       }
 
-      // Normalize phone number to international format
-      let normalizedPhone = phoneNumber.replace(/\s/g, '');
-      if (normalizedPhone.startsWith('0')) {
-        normalizedPhone = '880' + normalizedPhone.substring(1);
-      } else if (normalizedPhone.startsWith('+')) {
-        normalizedPhone = normalizedPhone.substring(1);
-      }
-
       // Use custom message if provided, otherwise use default
       const smsMessage = message || 'Test SMS from Advantix Admin. Your SMS service is configured correctly!';
 
-      // Send test SMS based on provider
-      console.log(`Sending test SMS via ${settings.provider} to ${normalizedPhone}`);
-      let response;
-      
-      if (settings.provider === 'sms_in_bd') {
-        // SMS in BD API - uses 'msg' and 'to' parameters (no senderid needed - it's in dashboard)
-        const requestBody = {
-          api_key: settings.apiKey,
-          msg: smsMessage,
-          to: normalizedPhone
-        };
-        console.log('SMS in BD request body:', JSON.stringify(requestBody, null, 2));
-        
-        response = await fetch('https://api.sms.net.bd/sendsms', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(requestBody)
-        });
-      } else if (settings.provider === 'bd_bulk_sms') {
-        // BD Bulk SMS API
-        response = await fetch('https://api.bdbulksms.com/api/send', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            api_key: settings.apiKey,
-            sender_id: settings.senderId,
-            to: normalizedPhone,
-            message: smsMessage
-          })
-        });
-      } else {
-        return res.status(400).json({ 
-          success: false, 
-          message: `Unsupported SMS provider: ${settings.provider}` 
-        });
-      }
-
-      if (!response) {
-        console.error("No response from SMS provider - provider may not be configured correctly");
-        return res.status(500).json({ 
-          success: false, 
-          message: `SMS provider ${settings.provider} is not properly configured` 
-        });
-      }
-
-      console.log(`SMS provider response status: ${response.status}`);
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to send test SMS';
-        try {
-          const errorData = await response.text();
-          console.error("SMS send error:", errorData);
-          errorMessage = errorData.substring(0, 200);
-        } catch (e) {
-          console.error("Error parsing SMS provider response:", e);
-        }
-        
-        await storage.updateSmsConnectionStatus(false, errorMessage);
-        return res.status(400).json({ 
-          success: false, 
-          message: errorMessage
-        });
-      }
-
-      const responseData = await response.json();
-      console.log("SMS provider response:", responseData);
-      
-      // Check if the response contains an error (some providers return 200 with error object)
-      if (responseData.error || responseData.msg?.toLowerCase().includes('error') || responseData.msg?.toLowerCase().includes('required')) {
-        const errorMsg = responseData.msg || responseData.message || 'SMS provider returned an error';
-        console.error("SMS send failed:", errorMsg);
-        await storage.updateSmsConnectionStatus(false, errorMsg);
+      const result = await sendSms(settings, phoneNumber, smsMessage);
+      if (!result.success) {
+        await storage.updateSmsConnectionStatus(false, result.error);
         return res.status(400).json({ 
           success: false, 
-          message: errorMsg
+          message: result.error
         });
       }
       
@@ -4709,25 +6627,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Sync Facebook ad accounts
   app.post("/api/facebook/sync-accounts", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const settings = await storage.getFacebookSettings();
+      const adapter = await getFacebookAdapter();
       
-      if (!settings || !settings.accessToken) {
+      if (!adapter) {
         return res.status(400).json({ message: "Facebook settings not configured" });
       }
 
       // Fetch ad accounts from Facebook API
-      const adAccountsUrl = `https://graph.facebook.com/v18.0/me/adaccounts?fields=id,name,account_id,account_status&access_token=${settings.accessToken}`;
-      const response = await fetch(adAccountsUrl);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        return res.status(400).json({ 
-          message: errorData.error?.message || "Failed to fetch ad accounts from Facebook" 
-        });
-      }
-
-      const data = await response.json();
-      const fbAdAccounts = data.data || [];
+      const fbAdAccounts = await adapter.listAccounts();
 
       if (fbAdAccounts.length === 0) {
         return res.json({ 
@@ -4765,17 +6672,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Check if account already exists
           const existingAccounts = await storage.getAdAccounts();
           const exists = existingAccounts.find(acc => 
-            acc.platform.toLowerCase() === 'facebook' && acc.accountId === fbAccount.account_id
+            acc.platform.toLowerCase() === 'facebook' && acc.accountId === fbAccount.accountId
           );
 
           if (!exists) {
             await storage.createAdAccount({
               platform: 'facebook',
               accountName: fbAccount.name,
-              accountId: fbAccount.account_id,
+              accountId: fbAccount.accountId,
               clientId: defaultClientId,
               spendLimit: '10000.00',
-              status: fbAccount.account_status === 1 ? 'active' : 'suspended',
+              status: fbAccount.status,
               notes: `Synced from Facebook on ${new Date().toISOString()}`
             });
             syncedCount++;
@@ -4794,42 +6701,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Find the synced ad account ID
           const syncedAccounts = await storage.getAdAccounts();
           const syncedAccount = syncedAccounts.find(acc => 
-            acc.platform.toLowerCase() === 'facebook' && acc.accountId === fbAccount.account_id
+            acc.platform.toLowerCase() === 'facebook' && acc.accountId === fbAccount.accountId
           );
 
           if (syncedAccount) {
             // Fetch pages for this ad account from Facebook
             // Note: Pages API requires page-level access token or user access token with pages_manage_metadata permission
-            const pagesUrl = `https://graph.facebook.com/v18.0/me/accounts?fields=id,name,category,picture&access_token=${settings.accessToken}`;
-            const pagesResponse = await fetch(pagesUrl);
-            
-            if (pagesResponse.ok) {
-              const pagesData = await pagesResponse.json();
-              const fbPages = pagesData.data || [];
-
-              // Save pages to database (associate with this ad account)
-              for (const fbPage of fbPages) {
-                try {
-                  // Check if page already exists for this ad account
-                  const existingPages = await db.select()
-                    .from(facebookPages)
-                    .where(eq(facebookPages.facebookPageId, fbPage.id));
-
-                  if (existingPages.length === 0) {
-                    await db.insert(facebookPages).values({
-                      facebookPageId: fbPage.id,
-                      pageName: fbPage.name,
-                      category: fbPage.category || 'Not specified',
-                      profilePictureUrl: fbPage.picture?.data?.url || null,
-                      accessToken: null, // We'd need page-specific token for posting
-                      adAccountId: syncedAccount.id,
-                      isActive: true
-                    });
-                    pagesSynced++;
-                  }
-                } catch (pageError: any) {
-                  pageErrors.push(`Failed to sync page ${fbPage.name}: ${pageError.message}`);
+            const fbPages = await adapter.listPages();
+
+            // Save pages to database (associate with this ad account)
+            for (const fbPage of fbPages) {
+              try {
+                // Check if page already exists for this ad account
+                const existingPages = await db.select()
+                  .from(facebookPages)
+                  .where(eq(facebookPages.facebookPageId, fbPage.id));
+
+                if (existingPages.length === 0) {
+                  await db.insert(facebookPages).values({
+                    facebookPageId: fbPage.id,
+                    pageName: fbPage.name,
+                    category: fbPage.category || 'Not specified',
+                    profilePictureUrl: fbPage.picture?.data?.url || null,
+                    accessToken: null, // We'd need page-specific token for posting
+                    adAccountId: syncedAccount.id,
+                    isActive: true
+                  });
+                  pagesSynced++;
                 }
+              } catch (pageError: any) {
+                pageErrors.push(`Failed to sync page ${fbPage.name}: ${pageError.message}`);
               }
             }
           }
@@ -4847,6 +6748,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error("Sync Facebook ad accounts error:", error);
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ 
         message: error.message || "Internal server error" 
       });
@@ -4891,6 +6795,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/facebook/insights/:adAccountId", authenticate, async (req: Request, res: Response) => {
     try {
       const { adAccountId } = req.params;
+      const adAccount = await storage.getAdAccount(adAccountId);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
       const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
       
@@ -4906,6 +6817,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/facebook/campaigns/:adAccountId", authenticate, async (req: Request, res: Response) => {
     try {
       const { adAccountId } = req.params;
+      const adAccount = await storage.getAdAccount(adAccountId);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
       const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
       
@@ -4917,6 +6835,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get Facebook ad set insights of one campaign
+  app.get("/api/facebook/adsets/:adAccountId", authenticate, requirePagePermission('fb_ad_management', 'view'), async (req: Request, res: Response) => {
+    try {
+      const { adAccountId } = req.params;
+      const fbCampaignId = req.query.fbCampaignId as string;
+      if (!fbCampaignId) {
+        return res.status(400).json({ message: "fbCampaignId is required" });
+      }
+      const adAccount = await storage.getAdAccount(adAccountId);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      
+      const insights = await storage.getFacebookAdSetInsights(adAccountId, fbCampaignId, startDate, endDate);
+      res.json(insights);
+    } catch (error) {
+      console.error("Get Facebook ad set insights error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get Facebook ad insights of one ad set
+  app.get("/api/facebook/ads/:adAccountId", authenticate, requirePagePermission('fb_ad_management', 'view'), async (req: Request, res: Response) => {
+    try {
+      const { adAccountId } = req.params;
+      const fbAdSetId = req.query.fbAdSetId as string;
+      if (!fbAdSetId) {
+        return res.status(400).json({ message: "fbAdSetId is required" });
+      }
+      const adAccount = await storage.getAdAccount(adAccountId);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      
+      const insights = await storage.getFacebookAdInsights(adAccountId, fbAdSetId, startDate, endDate);
+      res.json(insights);
+    } catch (error) {
+      console.error("Get Facebook ad insights error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Sync Facebook data
   app.post("/api/facebook/sync/:adAccountId", authenticate, async (req: Request, res: Response) => {
     try {
@@ -4931,132 +6901,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!adAccount || adAccount.platform.toLowerCase() !== 'facebook') {
         return res.status(404).json({ message: "Facebook ad account not found" });
       }
-
-      // Calculate date range (last 30 days)
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
-      
-      const since = startDate.toISOString().split('T')[0];
-      const until = endDate.toISOString().split('T')[0];
-
-      // Fetch account-level insights with daily breakdown
-      const accountApiUrl = `https://graph.facebook.com/v18.0/act_${adAccount.accountId}/insights?access_token=${settings.accessToken}&time_range={'since':'${since}','until':'${until}'}&time_increment=1&level=account&fields=spend,impressions,clicks,ctr,cpc,cpm,reach,frequency,actions`;
-      
-      const accountResponse = await fetch(accountApiUrl);
-      
-      if (!accountResponse.ok) {
-        const errorData = await accountResponse.json();
-        return res.status(400).json({ message: errorData.error?.message || "Failed to fetch account insights from Facebook" });
+      if (!(await canAccessClient(req, adAccount.clientId))) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      const accountData = await accountResponse.json();
-      let accountRecordsUpdated = 0;
-      
-      // Store account insights in database
-      if (accountData.data && accountData.data.length > 0) {
-        for (const dailyInsight of accountData.data) {
-          const dateString = dailyInsight.date_start;
-          const conversionsAction = dailyInsight.actions?.find((a: any) => a.action_type === 'offsite_conversion.fb_pixel_purchase');
-          const conversions = conversionsAction ? parseInt(conversionsAction.value) : 0;
-          const spend = parseFloat(dailyInsight.spend || "0");
-          const conversionValue = conversionsAction ? parseFloat(conversionsAction.value || "0") : 0;
-          const roas = spend > 0 && conversionValue > 0 ? (conversionValue / spend).toFixed(2) : "0";
-          
-          await storage.upsertFacebookAccountInsight({
-            adAccountId: adAccount.id,
-            date: new Date(dateString),
-            spend: dailyInsight.spend || "0",
-            impressions: parseInt(dailyInsight.impressions) || 0,
-            clicks: parseInt(dailyInsight.clicks) || 0,
-            ctr: dailyInsight.ctr || "0",
-            cpc: dailyInsight.cpc || "0",
-            cpm: dailyInsight.cpm || "0",
-            reach: parseInt(dailyInsight.reach) || 0,
-            frequency: dailyInsight.frequency || "0",
-            conversions,
-            costPerConversion: conversions > 0 ? (spend / conversions).toFixed(2) : "0",
-            conversionRate: dailyInsight.clicks > 0 ? ((conversions / parseInt(dailyInsight.clicks)) * 100).toFixed(2) : "0",
-            roas
-          });
-          accountRecordsUpdated++;
-        }
+      // Incremental from the last synced date, logged like scheduled runs
+      const result = await runExclusiveFacebookSync('manual', [adAccount.id]);
+      if (!result) {
+        return res.status(409).json({ message: "A Facebook sync is already running" });
+      }
+      const { run, totals } = result;
+      if (run.status === SyncRunStatus.FAILED) {
+        const [firstError] = JSON.parse(run.errors || '[]');
+        return res.status(400).json({ message: firstError?.message || "Sync failed" });
       }
 
-      // First fetch campaign details (status, objective, budget)
-      const campaignsUrl = `https://graph.facebook.com/v18.0/act_${adAccount.accountId}/campaigns?access_token=${settings.accessToken}&fields=id,name,status,objective,daily_budget&limit=100`;
-      const campaignsResponse = await fetch(campaignsUrl);
-      const campaignDetailsMap = new Map();
-      
-      if (campaignsResponse.ok) {
-        const campaignsData = await campaignsResponse.json();
-        if (campaignsData.data) {
-          for (const camp of campaignsData.data) {
-            campaignDetailsMap.set(camp.id, {
-              status: camp.status || 'ACTIVE',
-              objective: camp.objective || null,
-              dailyBudget: camp.daily_budget ? (parseFloat(camp.daily_budget) / 100).toFixed(2) : null // Facebook returns cents
-            });
-          }
-        }
+      res.json({ 
+        message: "Data synced successfully", 
+        ...totals,
+        totalRecords: getTotalRecords(totals),
+        syncRunId: run.id
+      });
+    } catch (error: any) {
+      console.error("Sync Facebook data error:", error);
+      res.status(500).json({ message: error.message || "Internal server error" });
+    }
+  });
+
+  // Sync daily insights for an ad account on any supported platform
+  app.post("/api/ad-accounts/:id/sync-insights", authenticate, requirePagePermission('ad_accounts', 'edit'), async (req: Request, res: Response) => {
+    try {
+      const adAccount = await storage.getAdAccount(req.params.id);
+      if (!adAccount) {
+        return res.status(404).json({ message: "Ad account not found" });
+      }
+      if (!await canAccessClient(req, adAccount.clientId)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Fetch campaign-level insights
-      const campaignApiUrl = `https://graph.facebook.com/v18.0/act_${adAccount.accountId}/insights?access_token=${settings.accessToken}&time_range={'since':'${since}','until':'${until}'}&time_increment=1&level=campaign&fields=campaign_id,campaign_name,spend,impressions,clicks,ctr,cpc,cpm,reach,frequency,actions`;
-      
-      const campaignResponse = await fetch(campaignApiUrl);
-      let campaignRecordsUpdated = 0;
-      
-      if (campaignResponse.ok) {
-        const campaignData = await campaignResponse.json();
-        
-        if (campaignData.data && campaignData.data.length > 0) {
-          for (const dailyCampaign of campaignData.data) {
-            const dateString = dailyCampaign.date_start;
-            const conversionsAction = dailyCampaign.actions?.find((a: any) => a.action_type === 'offsite_conversion.fb_pixel_purchase');
-            const conversions = conversionsAction ? parseInt(conversionsAction.value) : 0;
-            const spend = parseFloat(dailyCampaign.spend || "0");
-            const conversionValue = conversionsAction ? parseFloat(conversionsAction.value || "0") : 0;
-            const roas = spend > 0 && conversionValue > 0 ? (conversionValue / spend).toFixed(2) : "0";
-            
-            // Get campaign details from map
-            const campaignDetails = campaignDetailsMap.get(dailyCampaign.campaign_id) || {};
-            
-            await storage.upsertFacebookCampaignInsight({
-              adAccountId: adAccount.id,
-              fbCampaignId: dailyCampaign.campaign_id,
-              campaignName: dailyCampaign.campaign_name || "Unnamed Campaign",
-              status: campaignDetails.status || "ACTIVE",
-              objective: campaignDetails.objective,
-              dailyBudget: campaignDetails.dailyBudget,
-              date: new Date(dateString),
-              spend: dailyCampaign.spend || "0",
-              impressions: parseInt(dailyCampaign.impressions) || 0,
-              clicks: parseInt(dailyCampaign.clicks) || 0,
-              ctr: dailyCampaign.ctr || "0",
-              cpc: dailyCampaign.cpc || "0",
-              cpm: dailyCampaign.cpm || "0",
-              reach: parseInt(dailyCampaign.reach) || 0,
-              frequency: dailyCampaign.frequency || "0",
-              conversions,
-              costPerConversion: conversions > 0 ? (spend / conversions).toFixed(2) : "0",
-              conversionRate: dailyCampaign.clicks > 0 ? ((conversions / parseInt(dailyCampaign.clicks)) * 100).toFixed(2) : "0",
-              roas
-            });
-            campaignRecordsUpdated++;
-          }
-        }
+      const adapter = await getAdPlatformAdapter(adAccount.platform);
+      if (!adapter) {
+        return res.status(400).json({ message: getNotConfiguredMessage(adAccount.platform) });
       }
 
+      const { accountRecordsUpdated, campaignRecordsUpdated, adSetRecordsUpdated, adRecordsUpdated } = await syncAdAccountInsights(adapter, adAccount, getInsightDateRange(30));
+      void checkSpendLimits([adAccount.id]);
       res.json({ 
         message: "Data synced successfully", 
         accountRecordsUpdated,
         campaignRecordsUpdated,
-        totalRecords: accountRecordsUpdated + campaignRecordsUpdated
+        adSetRecordsUpdated,
+        adRecordsUpdated,
+        totalRecords: accountRecordsUpdated + campaignRecordsUpdated + adSetRecordsUpdated + adRecordsUpdated
+      });
+    } catch (error) {
+      console.error("Sync ad account insights error:", error);
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // TikTok Settings Routes
+  // Get TikTok settings
+  app.get("/api/tiktok/settings", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getTiktokSettings();
+      if (!settings) {
+        return res.json(null);
+      }
+      
+      // Don't send app secret or token to frontend for security
+      res.json({
+        ...settings,
+        appSecret: settings.appSecret ? '••••••••' : '',
+        accessToken: settings.accessToken ? '••••••••' : '',
+      });
+    } catch (error) {
+      console.error("Get TikTok settings error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Save TikTok settings
+  app.post("/api/tiktok/settings", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertTiktokSettingSchema.parse({ ...req.body, isConnected: false });
+      await storage.saveTiktokSettings({
+        ...validatedData,
+        apiBaseUrl: validatedData.apiBaseUrl || null,
       });
+      res.json({ message: "TikTok settings saved successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Save TikTok settings error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Test TikTok connection
+  app.post("/api/tiktok/test-connection", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const settings = await storage.getTiktokSettings();
+      if (!settings) {
+        return res.status(400).json({ message: "TikTok settings not configured" });
+      }
+
+      try {
+        const user = await new TiktokAdapter(settings).testConnection();
+        await storage.updateTiktokConnectionStatus(true);
+        res.json({ 
+          success: true, 
+          message: "Connection successful",
+          userId: user.id,
+          userName: user.name
+        });
+      } catch (error) {
+        if (!(error instanceof AdPlatformError)) throw error;
+        await storage.updateTiktokConnectionStatus(false, error.message);
+        res.status(400).json({ success: false, message: error.message });
+      }
     } catch (error: any) {
-      console.error("Sync Facebook data error:", error);
-      res.status(500).json({ message: error.message || "Internal server error" });
+      console.error("Test TikTok connection error:", error);
+      res.status(500).json({ 
+        success: false, 
+        message: error.message || "Internal server error" 
+      });
+    }
+  });
+
+  // Sync TikTok advertiser accounts into ad accounts
+  app.post("/api/tiktok/sync-accounts", authenticate, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const adapter = await getAdPlatformAdapter('tiktok');
+      if (!adapter) {
+        return res.status(400).json({ message: "TikTok settings not configured" });
+      }
+
+      const ttAccounts = await adapter.listAccounts();
+      const existingAccounts = await storage.getAdAccounts();
+      let syncedCount = 0;
+      const errors: string[] = [];
+
+      for (const ttAccount of ttAccounts) {
+        const exists = existingAccounts.some(acc => 
+          acc.platform.toLowerCase() === 'tiktok' && acc.accountId === ttAccount.accountId
+        );
+        if (exists) continue;
+
+        try {
+          await storage.createAdAccount({
+            platform: 'tiktok',
+            accountName: ttAccount.name,
+            accountId: ttAccount.accountId,
+            clientId: null,
+            spendLimit: '10000.00',
+            status: ttAccount.status,
+            notes: `Synced from TikTok on ${new Date().toISOString()}`
+          });
+          syncedCount++;
+        } catch (error: any) {
+          errors.push(`Failed to sync account ${ttAccount.name}: ${error.message}`);
+        }
+      }
+
+      res.json({ 
+        message: `Successfully synced ${syncedCount} ad account(s)`,
+        accountsSynced: syncedCount,
+        total: ttAccounts.length,
+        errors: errors.length > 0 ? errors : undefined
+      });
+    } catch (error) {
+      console.error("Sync TikTok ad accounts error:", error);
+      if (error instanceof AdPlatformError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
@@ -5137,7 +7160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Publish campaign draft to Facebook
+  // Publish campaign draft to the ad account's platform
   app.post("/api/campaign-drafts/:id/publish", authenticate, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -5147,54 +7170,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Draft not found" });
       }
 
-      // Get Facebook settings
-      const settings = await storage.getFacebookSettings();
-      if (!settings || !settings.accessToken) {
-        return res.status(400).json({ message: "Facebook settings not configured" });
-      }
-
       // Get ad account details
       const adAccount = await storage.getAdAccountById(draft.adAccountId);
       if (!adAccount) {
         return res.status(404).json({ message: "Ad account not found" });
       }
 
+      const adapter = await getAdPlatformAdapter(adAccount.platform);
+      if (!adapter) {
+        return res.status(400).json({ message: getNotConfiguredMessage(adAccount.platform) });
+      }
+
       // Update draft status to publishing
       await storage.updateCampaignDraft(id, { status: "publishing" });
 
-      // Create Campaign on Facebook
-      const campaignData = {
-        name: draft.campaignName,
-        objective: draft.objective,
-        status: "PAUSED", // Start paused for safety
-        special_ad_categories: [],
-      };
-
-      const campaignUrl = `https://graph.facebook.com/v18.0/act_${adAccount.accountId}/campaigns?access_token=${settings.accessToken}`;
-      const campaignResponse = await fetch(campaignUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(campaignData),
-      });
-
-      if (!campaignResponse.ok) {
-        const error = await campaignResponse.json();
-        await storage.updateCampaignDraft(id, { status: "failed", notes: error.error?.message || "Campaign creation failed" });
-        return res.status(400).json({ message: error.error?.message || "Failed to create campaign" });
+      // Create the campaign on the ad account's platform, paused for safety
+      let platformCampaignId: string;
+      try {
+        platformCampaignId = await adapter.createCampaign(adAccount.accountId, {
+          name: draft.campaignName,
+          objective: draft.objective,
+        });
+      } catch (error) {
+        if (!(error instanceof AdPlatformError)) throw error;
+        await storage.updateCampaignDraft(id, { status: "failed", notes: error.message || "Campaign creation failed" });
+        return res.status(400).json({ message: error.message || "Failed to create campaign" });
       }
 
-      const campaignResult = await campaignResponse.json();
-      const fbCampaignId = campaignResult.id;
-
       // Update draft as published
       await storage.updateCampaignDraft(id, {
         status: "published",
-        publishedCampaignId: fbCampaignId,
+        publishedCampaignId: platformCampaignId,
       });
 
       res.json({
         message: "Campaign published successfully",
-        campaignId: fbCampaignId,
+        campaignId: platformCampaignId,
         draft: await storage.getCampaignDraftById(id),
       });
     } catch (error: any) {
@@ -5208,14 +7219,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get campaign templates
   app.get("/api/campaign-templates", authenticate, async (req: Request, res: Response) => {
     try {
-      const templates = await storage.getCampaignTemplates();
-      res.json(templates);
+      const templates: CampaignTemplate[] = await storage.getCampaignTemplates();
+      // Templates that are not shared are only listed for their creator
+      res.json(req.user!.isAdmin ? templates : templates.filter(template => template.isShared || template.createdBy === req.user!.id));
     } catch (error) {
       console.error("Get campaign templates error:", error);
       res.status(500).json({ message: "Failed to fetch campaign templates" });
     }
   });
 
+  // Count a template as used when a draft is started from it
+  app.post("/api/campaign-templates/:id/use", authenticate, async (req: Request, res: Response) => {
+    try {
+      const template = await storage.getCampaignTemplate(req.params.id);
+      if (!template || (!req.user!.isAdmin && !template.isShared && template.createdBy !== req.user!.id)) {
+        return res.status(404).json({ message: "Campaign template not found" });
+      }
+      const updated = await storage.incrementCampaignTemplateUsage(template.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Use campaign template error:", error);
+      res.status(500).json({ message: "Failed to update campaign template" });
+    }
+  });
+
   // Get saved audiences
   app.get("/api/saved-audiences", authenticate, async (req: Request, res: Response) => {
     try {
@@ -5256,7 +7283,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const includeSecrets = req.query.includeSecrets === 'true';
       
       // Only admin/super_admin can view secrets
-      if (includeSecrets && req.user?.role !== UserRole.ADMIN && req.user?.role !== UserRole.SUPER_ADMIN) {
+      if (includeSecrets && !req.user?.isAdmin) {
         return res.status(403).json({ message: "Access denied. Admin access required to view secrets." });
       }
       
@@ -5267,6 +7294,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!account) {
         return res.status(404).json({ message: "Farming account not found" });
       }
+
+      if (includeSecrets) {
+        await recordAuditEvent(req, { entityType: 'farming_account', entityId: id, action: 'reveal_secrets' });
+      }
       
       res.json(account);
     } catch (error) {
@@ -5374,11 +7405,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const includeSecrets = req.query.includeSecrets === 'true';
       
       // Only admin/super_admin can export with secrets
-      if (includeSecrets && req.user?.role !== UserRole.ADMIN && req.user?.role !== UserRole.SUPER_ADMIN) {
+      if (includeSecrets && !req.user?.isAdmin) {
         return res.status(403).json({ message: "Access denied. Admin access required to export with secrets." });
       }
       
       const accounts = await storage.exportFarmingAccountsToCsv(includeSecrets);
+
+      if (includeSecrets) {
+        await recordAuditEvent(req, { entityType: 'farming_account', action: 'export_secrets' });
+      }
       
       // Convert to CSV format
       const headers = includeSecrets
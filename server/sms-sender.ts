@@ -0,0 +1,118 @@
+import type { AdAccount, Client, SmsSetting } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface SmsResult {
+  success: boolean;
+  error?: string;
+}
+
+// Bangladesh mobile numbers: +8801XXXXXXXXX, 8801XXXXXXXXX or 01XXXXXXXXX
+const BANGLADESH_PHONE_REGEX = /^(\+?880|0)?1[3-9]\d{8}$/;
+
+export function isValidBangladeshPhone(phoneNumber: string): boolean {
+  return BANGLADESH_PHONE_REGEX.test(phoneNumber.replace(/\s/g, ''));
+}
+
+// Providers expect the international format without the plus
+export function normalizeBangladeshPhone(phoneNumber: string): string {
+  let normalizedPhone = phoneNumber.replace(/\s/g, '');
+  if (normalizedPhone.startsWith('0')) {
+    normalizedPhone = '880' + normalizedPhone.substring(1);
+  } else if (normalizedPhone.startsWith('+')) {
+    normalizedPhone = normalizedPhone.substring(1);
+  }
+  return normalizedPhone;
+}
+
+export async function sendSms(settings: SmsSetting, phoneNumber: string, message: string): Promise<SmsResult> {
+  const normalizedPhone = normalizeBangladeshPhone(phoneNumber);
+  console.log(`Sending SMS via ${settings.provider} to ${normalizedPhone}`);
+  let response;
+
+  if (settings.provider === 'sms_in_bd') {
+    // SMS in BD API - uses 'msg' and 'to' parameters (no senderid needed - it's in dashboard)
+    response = await fetch('https://api.sms.net.bd/sendsms', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        api_key: settings.apiKey,
+        msg: message,
+        to: normalizedPhone
+      })
+    });
+  } else if (settings.provider === 'bd_bulk_sms') {
+    // BD Bulk SMS API
+    response = await fetch('https://api.bdbulksms.com/api/send', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        api_key: settings.apiKey,
+        sender_id: settings.senderId,
+        to: normalizedPhone,
+        message
+      })
+    });
+  } else {
+    return { success: false, error: `Unsupported SMS provider: ${settings.provider}` };
+  }
+
+  console.log(`SMS provider response status: ${response.status}`);
+
+  if (!response.ok) {
+    let errorMessage = 'Failed to send SMS';
+    try {
+      const errorData = await response.text();
+      console.error("SMS send error:", errorData);
+      errorMessage = errorData.substring(0, 200);
+    } catch (e) {
+      console.error("Error parsing SMS provider response:", e);
+    }
+    return { success: false, error: errorMessage };
+  }
+
+  const responseData = await response.json();
+  console.log("SMS provider response:", responseData);
+
+  // Some providers return 200 with an error object
+  if (responseData.error || responseData.msg?.toLowerCase().includes('error') || responseData.msg?.toLowerCase().includes('required')) {
+    const errorMsg = responseData.msg || responseData.message || 'SMS provider returned an error';
+    console.error("SMS send failed:", errorMsg);
+    return { success: false, error: errorMsg };
+  }
+
+  return { success: true };
+}
+
+// Sent only when SMS notifications are switched on in the SMS settings
+export async function sendAdAccountStatusSms(adAccount: AdAccount, client: Client, status: string): Promise<boolean> {
+  try {
+    const settings = await storage.getSmsSettings();
+    if (!settings || !settings.isConfigured || !settings.enableNotifications) {
+      console.log("SMS notifications are not enabled, skipping status SMS");
+      return false;
+    }
+    if (status === 'active' && !settings.enableAdActiveAlerts) {
+      return false;
+    }
+    if (!client.phone || !isValidBangladeshPhone(client.phone)) {
+      console.error(`Client ${client.clientName} has no valid phone number for SMS`);
+      return false;
+    }
+
+    const message = status === 'active'
+      ? `Advantix: Your ad account "${adAccount.accountName}" is now active.`
+      : `Advantix: Your ad account "${adAccount.accountName}" has been suspended. Please contact us for details.`;
+    const result = await sendSms(settings, client.phone, message);
+    if (!result.success) {
+      console.error(`Failed to send status SMS to ${client.phone}:`, result.error);
+    }
+    return result.success;
+  } catch (error) {
+    console.error("Send status SMS error:", error);
+    return false;
+  }
+}
@@ -0,0 +1,99 @@
+import type { AdAccount, Client, ClientEmailPreference, SpendAlert } from "@shared/schema";
+import { storage } from "./storage";
+import { sendSpendWarningEmail } from "./email-sender";
+import { sendTelegramNotification, escapeTelegramHtml } from "./telegram";
+
+// Used when the client has no spend warning threshold of its own
+export const DEFAULT_SPEND_WARNING_THRESHOLD = 80;
+export const SPEND_LIMIT_THRESHOLD = 100;
+
+export function getSpendPercentage(adAccount: AdAccount): number | null {
+  const spendLimit = parseFloat(adAccount.spendLimit);
+  if (!(spendLimit > 0)) return null;
+  return (parseFloat(adAccount.totalSpend || "0") / spendLimit) * 100;
+}
+
+// The client's warning threshold plus the limit itself, lowest first
+export function getSpendThresholds(preferences?: ClientEmailPreference): number[] {
+  const warning = preferences?.spendWarningThreshold || DEFAULT_SPEND_WARNING_THRESHOLD;
+  return Array.from(new Set([warning, SPEND_LIMIT_THRESHOLD])).sort((a, b) => a - b);
+}
+
+function formatAmount(value: string | null): string {
+  return `$${parseFloat(value || "0").toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getSpendAlertMessage(adAccount: AdAccount, client: Client | undefined, threshold: number, percentage: number): string {
+  return [
+    threshold >= SPEND_LIMIT_THRESHOLD ? '🛑 <b>Spend Limit Reached</b>' : `⚡ <b>Spend Alert: ${threshold}% of Limit</b>`,
+    '',
+    `📌 <b>Ad Account:</b> ${escapeTelegramHtml(adAccount.accountName)} (${escapeTelegramHtml(adAccount.platform)})`,
+    `🏢 <b>Client:</b> ${client ? escapeTelegramHtml(client.clientName) : 'None'}`,
+    `💰 <b>Total Spend:</b> ${formatAmount(adAccount.totalSpend)} (${percentage.toFixed(1)}%)`,
+    `📊 <b>Spend Limit:</b> ${formatAmount(adAccount.spendLimit)}`,
+    '',
+    `<i>${new Date().toLocaleString()}</i>`,
+  ].join('\n');
+}
+
+// Email goes to the client only when it opted in; staff always get Telegram
+async function deliverSpendAlert(alert: SpendAlert, adAccount: AdAccount, client: Client | undefined, preferences: ClientEmailPreference | undefined, percentage: number) {
+  let emailSentTo: string | null = null;
+  if (client?.email && preferences?.enableNotifications && preferences.enableSpendWarnings) {
+    if (await sendSpendWarningEmail(adAccount, client, alert.threshold)) {
+      emailSentTo = client.email;
+    }
+  }
+  const telegramSent = await sendTelegramNotification(getSpendAlertMessage(adAccount, client, alert.threshold, percentage));
+  await storage.updateSpendAlertDelivery(alert.id, { emailSentTo, telegramSent });
+}
+
+/**
+ * Sums the account's campaign spend and sends an alert for every threshold
+ * it has newly reached, leaving the stored total spend as entered. An alert
+ * is sent once per crossing: it stays open until spend drops below the
+ * threshold again (e.g. the limit is raised).
+ */
+export async function checkAdAccountSpend(adAccountId: string): Promise<SpendAlert[]> {
+  const adAccount = await storage.getAdAccountWithMonitoredSpend(adAccountId);
+  if (!adAccount) return [];
+  const percentage = getSpendPercentage(adAccount);
+  if (percentage === null) return [];
+
+  await storage.resolveSpendAlerts(adAccount.id, percentage);
+
+  const client = adAccount.clientId ? await storage.getClient(adAccount.clientId) : undefined;
+  const preferences: ClientEmailPreference | undefined = client ? await storage.getClientEmailPreferences(client.id) : undefined;
+
+  const opened: SpendAlert[] = [];
+  for (const threshold of getSpendThresholds(preferences)) {
+    if (percentage < threshold) break;
+    const alert = await storage.openSpendAlert(adAccount.id, threshold, adAccount.totalSpend || "0", adAccount.spendLimit);
+    if (!alert) continue;
+    console.log(`[Spend Monitor] Ad account ${adAccount.accountName} reached ${threshold}% of its spend limit`);
+    await deliverSpendAlert(alert, adAccount, client, preferences, percentage);
+    opened.push(alert);
+  }
+  return opened;
+}
+
+// Checks each account once. Failures are logged so they never fail the spend update that triggered them.
+export async function checkSpendLimits(adAccountIds: Iterable<string>): Promise<void> {
+  for (const adAccountId of Array.from(new Set(adAccountIds))) {
+    try {
+      await checkAdAccountSpend(adAccountId);
+    } catch (error) {
+      console.error(`[Spend Monitor] Failed to check spend of ad account ${adAccountId}:`, error);
+    }
+  }
+}
+
+// Same as checkSpendLimits, for spend entered against campaigns
+export async function checkCampaignSpendLimits(campaignIds: Iterable<string>): Promise<void> {
+  const adAccountIds: string[] = [];
+  for (const campaignId of Array.from(new Set(campaignIds))) {
+    const campaign = await storage.getCampaign(campaignId).catch(() => undefined);
+    if (campaign) adAccountIds.push(campaign.adAccountId);
+  }
+  await checkSpendLimits(adAccountIds);
+}
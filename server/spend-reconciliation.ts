@@ -0,0 +1,100 @@
+import type { Request } from "express";
+import {
+  ReconciliationDecision,
+  type Campaign,
+  type CampaignDailySpend,
+  type FacebookCampaignInsight,
+  type SpendReconciliationDecision,
+  type SpendReconciliationRow,
+} from "@shared/schema";
+
+// Differences up to this amount are treated as rounding
+export const DEFAULT_RECONCILIATION_TOLERANCE = 1;
+
+// Daily spends and insights are both stored at UTC midnight
+export function toDayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function toAmount(value: string | null | undefined): number {
+  const amount = parseFloat(value || '0');
+  return isNaN(amount) ? 0 : amount;
+}
+
+// Days between ?startDate and ?endDate, both included, defaulting to the last 30 days
+export function parseReconciliationRange(query: Request['query']): { start: Date; end: Date } | null {
+  const end = typeof query.endDate === 'string' ? new Date(query.endDate) : new Date();
+  const start = typeof query.startDate === 'string' ? new Date(query.startDate) : new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return null;
+  start.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
+  return { start, end };
+}
+
+// Manual and Facebook amounts by campaign-day
+export function indexSpendAmounts(spends: CampaignDailySpend[], insights: FacebookCampaignInsight[]) {
+  const manual = new Map(spends.map(spend => [`${spend.campaignId}|${toDayKey(spend.date)}`, toAmount(spend.amount)]));
+  const facebook = new Map(insights.map(insight => [`${insight.fbCampaignId}|${toDayKey(insight.date)}`, toAmount(insight.spend)]));
+  return {
+    getManual: (campaignId: string, day: string) => manual.get(`${campaignId}|${day}`) ?? 0,
+    getFacebook: (fbCampaignId: string, day: string) => facebook.get(`${fbCampaignId}|${day}`),
+  };
+}
+
+/**
+ * Campaign-days with Facebook spend where the manual daily spend differs by
+ * more than the tolerance. A day kept as manual stays hidden until either
+ * amount changes.
+ */
+export function findSpendDifferences(
+  campaigns: Campaign[],
+  spends: CampaignDailySpend[],
+  insights: FacebookCampaignInsight[],
+  decisions: SpendReconciliationDecision[],
+  tolerance: number = DEFAULT_RECONCILIATION_TOLERANCE,
+): SpendReconciliationRow[] {
+  const amounts = indexSpendAmounts(spends, insights);
+
+  // Decisions arrive newest first, so the first one seen per campaign-day is the latest
+  const latestDecisions = new Map<string, SpendReconciliationDecision>();
+  for (const decision of decisions) {
+    const key = `${decision.campaignId}|${toDayKey(decision.date)}`;
+    if (!latestDecisions.has(key)) latestDecisions.set(key, decision);
+  }
+
+  const campaignsByFbId = new Map<string, Campaign[]>();
+  for (const campaign of campaigns) {
+    if (!campaign.fbCampaignId) continue;
+    campaignsByFbId.set(campaign.fbCampaignId, [...(campaignsByFbId.get(campaign.fbCampaignId) || []), campaign]);
+  }
+
+  const rows: SpendReconciliationRow[] = [];
+  for (const insight of insights) {
+    const day = toDayKey(insight.date);
+    const facebookAmount = toAmount(insight.spend);
+    for (const campaign of campaignsByFbId.get(insight.fbCampaignId) || []) {
+      const manualAmount = amounts.getManual(campaign.id, day);
+      if (Math.abs(facebookAmount - manualAmount) <= tolerance) continue;
+
+      const latest = latestDecisions.get(`${campaign.id}|${day}`);
+      if (
+        latest?.decision === ReconciliationDecision.KEEP_MANUAL &&
+        toAmount(latest.manualAmount) === manualAmount &&
+        toAmount(latest.facebookAmount) === facebookAmount
+      ) {
+        continue;
+      }
+
+      rows.push({
+        campaignId: campaign.id,
+        campaignName: campaign.name,
+        date: day,
+        manualAmount,
+        facebookAmount,
+        difference: Math.round((facebookAmount - manualAmount) * 100) / 100,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => b.date.localeCompare(a.date) || a.campaignName.localeCompare(b.campaignName));
+}
@@ -3,22 +3,59 @@ import {
   type InsertUser, 
   type Session, 
   type LoginRequest,
+  type LoginThrottle,
+  type AuditLog,
+  type InsertAuditLog,
+  type PasswordHistory,
+  type PasswordResetToken,
+  type ApiKey,
   type Campaign,
+  type CampaignComment,
+  type CampaignFlight,
+  type InsertCampaignComment,
+  type CampaignFieldChange,
+  type InsertCampaignFieldChange,
+  type SpendReconciliationDecision,
+  type InsertSpendReconciliationDecision,
+  type FacebookCampaignInsight,
+  type FacebookSetting,
+  type FacebookSyncSchedule,
+  type SyncRun,
+  type SyncRunError,
+  type FacebookAdSetInsight,
+  type InsertFacebookAdSetInsight,
+  type FacebookAdInsight,
+  type InsertFacebookAdInsight,
   type InsertCampaign,
+  type CampaignTemplate,
+  type InsertCampaignTemplate,
   type Client,
   type InsertClient,
   type AdAccount,
   type InsertAdAccount,
+  type AdAccountLimitEntry,
+  type AdAccountLimitEntryAuthor,
+  type AdAccountLimitEntryWithPayment,
+  type InsertAdAccountLimitEntry,
+  type AdAccountStatusChange,
+  type InsertAdAccountStatusChange,
   type AdCopySet,
   type InsertAdCopySet,
+  type AdCopySetPeriod,
   type CampaignDailySpend,
   type InsertCampaignDailySpend,
   type WorkReport,
   type InsertWorkReport,
   type Page,
   type InsertPage,
+  type Role,
+  type InsertRole,
   type RolePermission,
   type InsertRolePermission,
+  type UserPagePermission,
+  type InsertUserPagePermission,
+  type PageAction,
+  type PagePermissionMap,
   type FinanceProject,
   type InsertFinanceProject,
   type FinancePayment,
@@ -31,14 +68,16 @@ import {
   type InsertTag,
   type Employee,
   type InsertEmployee,
-  type UserMenuPermission,
-  type InsertUserMenuPermission,
+  type UserClientAssignment,
   type Salary,
   type InsertSalary,
   type TelegramConfig,
   type InsertTelegramConfig,
   type TelegramChatId,
   type InsertTelegramChatId,
+  type TiktokSetting,
+  type SpendAlert,
+  type InsertTiktokSetting,
   type FarmingAccount,
   type InsertFarmingAccount,
   type FarmingAccountWithSecrets,
@@ -46,21 +85,66 @@ import {
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+export interface AuditLogFilters {
+  userId?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface UserPasswordOptions {
+  keepPasswordHash?: boolean; // Store a password that is already a hash as it is, for restoring data imports only
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  createUser(user: InsertUser, options?: UserPasswordOptions): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>, options?: UserPasswordOptions): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
   getClientUsers(): Promise<User[]>; // Get all users with role='client'
   validateCredentials(username: string, password: string): Promise<User | null>;
+  getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]>;
+  updateUserTwoFactor(id: string, data: { twoFactorEnabled?: boolean; twoFactorSecret?: string | null; twoFactorRecoveryCodes?: string | null }): Promise<User | undefined>;
+  claimTotpStep(id: string, step: number): Promise<boolean>; // false when this or a later step was already used
   
   // Session methods
-  createSession(userId: string): Promise<Session>;
+  createSession(userId: string, metadata?: { ipAddress?: string | null; userAgent?: string | null }): Promise<Session>;
   getSessionByToken(token: string): Promise<Session | undefined>;
+  touchSession(session: Session): Promise<void>;
+  getUserSessions(userId: string): Promise<Session[]>;
   deleteSession(token: string): Promise<void>;
+  deleteUserSession(userId: string, sessionId: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptToken?: string): Promise<number>;
+
+  // Password reset methods
+  createPasswordResetToken(token: { userId: string; tokenHash: string; expiresAt: Date; createdBy?: string | null }): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>; // Marks an unused, unexpired token used in one step; undefined when it cannot be redeemed
+
+  // API key methods
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: { name: string; keyPrefix: string; keyHash: string; scope: string; pageKeys: string; expiresAt: Date; createdBy: string }): Promise<ApiKey>;
+  revokeApiKey(id: string): Promise<ApiKey | undefined>;
+  recordApiKeyUsage(id: string, ipAddress?: string | null): Promise<void>; // Bumps the usage count and last used details
+
+  // Login throttle methods
+  getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined>;
+  incrementLoginThrottle(scope: string, key: string, ipAddress: string, windowStart: Date): Promise<LoginThrottle>; // Atomic; the count restarts at 1 when the last failure is older than windowStart
+  extendLoginThrottleLock(scope: string, key: string, lockedUntil: Date): Promise<void>;
+  clearLoginThrottle(scope: string, key: string): Promise<void>;
+  getLockedLoginThrottles(scope: string): Promise<LoginThrottle[]>;
+
+  // Audit log methods
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]>;
+  getAuditLogEntityTypes(): Promise<string[]>;
   
   // Campaign methods
   getCampaigns(clientId?: string): Promise<Campaign[]>; // Optional clientId for filtering
@@ -68,12 +152,38 @@ export interface IStorage {
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
   updateCampaign(id: string, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
   deleteCampaign(id: string): Promise<boolean>;
+  bulkUpdateCampaigns(updates: { id: string; data: Partial<InsertCampaign> }[]): Promise<Campaign[]>; // All or nothing
+  bulkDeleteCampaigns(ids: string[]): Promise<number>; // All or nothing
+  duplicateCampaign(sourceId: string, overrides: Partial<InsertCampaign>, options: { includeAdCopySets: boolean; includeComments: boolean }): Promise<Campaign | undefined>;
   
+  // Campaign Flight methods
+  getCampaignFlights(campaignId: string): Promise<CampaignFlight[]>; // Earliest first
+  getAllCampaignFlights(): Promise<CampaignFlight[]>;
+  replaceCampaignFlights(campaignId: string, flights: { startDate: Date; endDate: Date }[]): Promise<CampaignFlight[]>;
+
+  // Campaign Comment methods
+  getCampaignComments(campaignId: string): Promise<CampaignComment[]>; // Oldest first, deleted comments included
+  getCampaignComment(id: string): Promise<CampaignComment | undefined>;
+  createCampaignComment(comment: InsertCampaignComment): Promise<CampaignComment>;
+  updateCampaignComment(id: string, comment: Partial<InsertCampaignComment> & { editedAt?: Date | null; deletedAt?: Date | null }): Promise<CampaignComment | undefined>;
+
+  // Campaign Field Change methods
+  getCampaignFieldChanges(campaignId: string): Promise<CampaignFieldChange[]>; // Newest first
+  getCampaignFieldChange(id: string): Promise<CampaignFieldChange | undefined>;
+  createCampaignFieldChanges(changes: InsertCampaignFieldChange[]): Promise<CampaignFieldChange[]>;
+
   // Campaign Daily Spend methods
   getCampaignDailySpends(campaignId: string): Promise<CampaignDailySpend[]>;
+  getCampaignDailySpendsSince(since: Date): Promise<CampaignDailySpend[]>; // Every campaign, for reports across campaigns
+  getCampaignDailySpendsBetween(startDate: Date, endDate: Date): Promise<CampaignDailySpend[]>; // Every campaign, both days included
   getCampaignDailySpend(campaignId: string, date: string): Promise<CampaignDailySpend | undefined>;
   upsertCampaignDailySpend(spend: InsertCampaignDailySpend): Promise<CampaignDailySpend>;
+  batchUpsertCampaignDailySpends(spends: InsertCampaignDailySpend[]): Promise<CampaignDailySpend[]>; // All or nothing, campaign totals updated
   getCampaignTotalSpend(campaignId: string): Promise<number>;
+
+  // Spend Reconciliation methods
+  getSpendReconciliationDecisions(startDate: Date, endDate: Date): Promise<SpendReconciliationDecision[]>; // By day reconciled, newest decision first
+  applySpendReconciliationDecisions(decisions: InsertSpendReconciliationDecision[]): Promise<SpendReconciliationDecision[]>; // Accepted Facebook amounts are written to daily spends, all or nothing
   
   // Client methods
   getClients(): Promise<Client[]>;
@@ -85,9 +195,36 @@ export interface IStorage {
   // Ad Account methods
   getAdAccounts(clientId?: string): Promise<AdAccount[]>; // Optional clientId for filtering
   getAdAccount(id: string): Promise<AdAccount | undefined>;
-  createAdAccount(adAccount: InsertAdAccount): Promise<AdAccount>;
-  updateAdAccount(id: string, adAccount: Partial<InsertAdAccount>): Promise<AdAccount | undefined>;
+  // Also writes the opening entry of the spend limit ledger
+  createAdAccount(adAccount: InsertAdAccount, author?: AdAccountLimitEntryAuthor): Promise<AdAccount>;
+  // A changed spendLimit is recorded in the ledger as an adjustment
+  updateAdAccount(id: string, adAccount: Partial<InsertAdAccount>, author?: AdAccountLimitEntryAuthor): Promise<AdAccount | undefined>;
+  // Same as updateAdAccount, also recording a status change in the account's history in the same transaction
+  updateAdAccountWithStatusHistory(id: string, adAccount: Partial<InsertAdAccount>, author: AdAccountLimitEntryAuthor, statusReason?: string | null): Promise<{ adAccount: AdAccount; statusChange?: AdAccountStatusChange } | undefined>;
+  // Keeps the imported id and timestamps; the spend limit goes through the ledger
+  importAdAccount(adAccount: AdAccount, author?: AdAccountLimitEntryAuthor): Promise<AdAccount>;
   deleteAdAccount(id: string): Promise<boolean>;
+  // The account with totalSpend replaced by the sum of its campaign spend; nothing is written
+  getAdAccountWithMonitoredSpend(adAccountId: string): Promise<AdAccount | undefined>;
+
+  // Spend Limit Ledger methods
+  getAdAccountLimitEntries(adAccountId: string): Promise<AdAccountLimitEntryWithPayment[]>;
+  // Sets the account's spend limit to the new ledger total. Undefined when the account does not exist,
+  // 'below_zero' without writing anything when the entry would take the limit below zero.
+  addAdAccountLimitEntry(adAccountId: string, entry: InsertAdAccountLimitEntry, author: AdAccountLimitEntryAuthor): Promise<{ entry: AdAccountLimitEntry; adAccount: AdAccount } | 'below_zero' | undefined>;
+
+  // Ad Account Status History methods
+  getAdAccountStatusChanges(adAccountId: string): Promise<AdAccountStatusChange[]>;
+  createAdAccountStatusChange(change: InsertAdAccountStatusChange): Promise<AdAccountStatusChange>;
+  updateAdAccountStatusChangeNotifications(id: string, notifications: { emailSentTo: string | null; smsSentTo: string | null }): Promise<void>;
+
+  // Spend Alert methods
+  getSpendAlerts(adAccountId?: string): Promise<SpendAlert[]>;
+  // Undefined when an alert for this threshold is already open
+  openSpendAlert(adAccountId: string, threshold: number, totalSpend: string, spendLimit: string): Promise<SpendAlert | undefined>;
+  updateSpendAlertDelivery(id: string, delivery: { emailSentTo: string | null; telegramSent: boolean }): Promise<void>;
+  // Resolves open alerts whose threshold is above the current spend percentage
+  resolveSpendAlerts(adAccountId: string, spendPercentage: number): Promise<number>;
   
   // Ad Copy Set methods
   getAdCopySets(campaignId: string): Promise<AdCopySet[]>;
@@ -96,7 +233,8 @@ export interface IStorage {
   createAdCopySet(adCopySet: InsertAdCopySet): Promise<AdCopySet>;
   updateAdCopySet(id: string, adCopySet: Partial<InsertAdCopySet>): Promise<AdCopySet | undefined>;
   deleteAdCopySet(id: string): Promise<boolean>;
-  setActiveAdCopySet(campaignId: string, setId: string): Promise<boolean>;
+  setActiveAdCopySet(campaignId: string, setId: string, startedBy?: string): Promise<boolean>;
+  getAdCopySetPeriods(campaignId: string): Promise<AdCopySetPeriod[]>; // Oldest first
   
   // Work Report methods
   getWorkReports(userId?: string): Promise<WorkReport[]>; // If userId provided, filter by user; otherwise get all (admin only)
@@ -113,6 +251,14 @@ export interface IStorage {
   updatePage(id: string, page: Partial<InsertPage>): Promise<Page | undefined>;
   deletePage(id: string): Promise<boolean>;
   
+  // Role methods
+  getRoles(): Promise<Role[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  getRoleByKey(key: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: string, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<boolean>; // Also removes the role's page permissions
+
   // Role Permission methods
   getRolePermissions(role?: string): Promise<RolePermission[]>; // If role provided, filter by role; otherwise get all
   getRolePermission(id: string): Promise<RolePermission | undefined>;
@@ -120,7 +266,13 @@ export interface IStorage {
   createRolePermission(permission: InsertRolePermission): Promise<RolePermission>;
   updateRolePermission(id: string, permission: Partial<InsertRolePermission>): Promise<RolePermission | undefined>;
   deleteRolePermission(id: string): Promise<boolean>;
-  checkUserPagePermission(userId: string, pageKey: string, action: 'view' | 'edit' | 'delete'): Promise<boolean>;
+  checkUserPagePermission(userId: string, pageKey: string, action: PageAction): Promise<boolean>;
+  getEffectivePagePermissions(userId: string): Promise<PagePermissionMap>; // Role defaults with the user's overrides applied
+
+  // User Page Permission methods (per-user overrides of role permissions)
+  getUserPagePermissions(userId?: string): Promise<UserPagePermission[]>; // If userId provided, filter by user; otherwise get all
+  upsertUserPagePermission(permission: InsertUserPagePermission): Promise<UserPagePermission>;
+  deleteUserPagePermission(userId: string, pageId: string): Promise<boolean>;
 
   // Finance Project methods
   getFinanceProjects(): Promise<FinanceProject[]>;
@@ -170,12 +322,9 @@ export interface IStorage {
   updateEmployee(id: string, employee: Partial<InsertEmployee>): Promise<Employee | undefined>;
   deleteEmployee(id: string): Promise<boolean>;
 
-  // User Menu Permission methods
-  getUserMenuPermissions(userId?: string): Promise<UserMenuPermission[]>; // If userId provided, filter by user; otherwise get all
-  getUserMenuPermission(userId: string): Promise<UserMenuPermission | undefined>;
-  createUserMenuPermission(permission: InsertUserMenuPermission): Promise<UserMenuPermission>;
-  updateUserMenuPermission(userId: string, permission: Partial<InsertUserMenuPermission>): Promise<UserMenuPermission | undefined>;
-  deleteUserMenuPermission(userId: string): Promise<boolean>;
+  // User Client Assignment methods
+  getUserClientAssignments(userId?: string): Promise<UserClientAssignment[]>; // If userId provided, filter by user; otherwise get all
+  setUserClientAssignments(userId: string, clientIds: string[]): Promise<UserClientAssignment[]>; // Replaces the user's assignments
 
   // Telegram Configuration methods
   getTelegramConfig(): Promise<TelegramConfig | undefined>;
@@ -194,6 +343,19 @@ export interface IStorage {
   getFacebookSettings(): Promise<any>;
   saveFacebookSettings(data: any): Promise<any>;
   updateFacebookConnectionStatus(isConnected: boolean, error?: string): Promise<void>;
+  updateFacebookSyncSchedule(schedule: FacebookSyncSchedule): Promise<FacebookSetting | undefined>;
+
+  // Sync Run methods
+  getSyncRuns(platform: string, limit: number): Promise<SyncRun[]>;
+  getLatestSyncRun(platform: string, trigger: string): Promise<SyncRun | undefined>;
+  createSyncRun(platform: string, trigger: string): Promise<SyncRun>;
+  finishSyncRun(id: string, result: { status: string; accountsSynced: number; rowsUpserted: number; errors: SyncRunError[] }): Promise<SyncRun | undefined>;
+  failInterruptedSyncRuns(platform: string): Promise<number>; // Runs left "running" by a restart
+
+  // TikTok Settings methods
+  getTiktokSettings(): Promise<TiktokSetting | undefined>;
+  saveTiktokSettings(data: InsertTiktokSetting): Promise<TiktokSetting>;
+  updateTiktokConnectionStatus(isConnected: boolean, error?: string): Promise<void>;
 
   // Email Settings methods
   getEmailSettings(): Promise<any>;
@@ -213,10 +375,18 @@ export interface IStorage {
   // Facebook Account Insights methods
   getFacebookAccountInsights(adAccountId: string, startDate: Date, endDate: Date): Promise<any[]>;
   upsertFacebookAccountInsight(data: any): Promise<any>;
+  getLatestFacebookAccountInsightDate(adAccountId: string): Promise<Date | undefined>;
 
   // Facebook Campaign Insights methods
   getFacebookCampaignInsights(adAccountId: string, startDate: Date, endDate: Date): Promise<any[]>;
   upsertFacebookCampaignInsight(data: any): Promise<any>;
+  getFacebookCampaignInsightsForCampaigns(fbCampaignIds: string[], startDate: Date, endDate: Date): Promise<FacebookCampaignInsight[]>;
+
+  // Facebook Ad Set and Ad Insights methods
+  getFacebookAdSetInsights(adAccountId: string, fbCampaignId: string, startDate: Date, endDate: Date): Promise<FacebookAdSetInsight[]>;
+  upsertFacebookAdSetInsight(data: InsertFacebookAdSetInsight): Promise<FacebookAdSetInsight>;
+  getFacebookAdInsights(adAccountId: string, fbAdSetId: string, startDate: Date, endDate: Date): Promise<FacebookAdInsight[]>;
+  upsertFacebookAdInsight(data: InsertFacebookAdInsight): Promise<FacebookAdInsight>;
 
   // Campaign Draft methods
   getCampaignDrafts(): Promise<any[]>;
@@ -227,6 +397,9 @@ export interface IStorage {
 
   // Campaign Template methods
   getCampaignTemplates(): Promise<any[]>;
+  getCampaignTemplate(id: string): Promise<CampaignTemplate | undefined>;
+  createCampaignTemplate(template: InsertCampaignTemplate): Promise<CampaignTemplate>;
+  incrementCampaignTemplateUsage(id: string): Promise<CampaignTemplate | undefined>;
 
   // Saved Audience methods
   getSavedAudiences(): Promise<any[]>;
@@ -261,7 +434,6 @@ export class MemStorage implements IStorage {
   private financeSettings: Map<string, FinanceSetting>;
   private tags: Map<string, Tag>;
   private employees: Map<string, Employee>;
-  private userMenuPermissions: Map<string, UserMenuPermission>;
   private salaries: Map<string, Salary>;
   private telegramConfig: TelegramConfig | undefined;
   private telegramChatIds: Map<string, TelegramChatId>;
@@ -282,7 +454,6 @@ export class MemStorage implements IStorage {
     this.financeSettings = new Map();
     this.tags = new Map();
     this.employees = new Map();
-    this.userMenuPermissions = new Map();
     this.salaries = new Map();
     this.telegramConfig = undefined;
     this.telegramChatIds = new Map();
@@ -297,9 +468,14 @@ export class MemStorage implements IStorage {
       name: "Administrator",
       username: "Admin",
       password: "2604", // In production, this should be hashed
+      email: null,
       role: UserRole.SUPER_ADMIN,
       clientId: null,
       isActive: true,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastUsedStep: null,
       createdAt: new Date(),
     };
     this.users.set(adminId, adminUser);
@@ -472,8 +648,13 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
+      email: insertUser.email || null,
       role: UserRole.USER, // Default role for new users
       isActive: true,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastUsedStep: null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
@@ -529,6 +710,9 @@ export class MemStorage implements IStorage {
       userId,
       token,
       expiresAt,
+      ipAddress: null,
+      userAgent: null,
+      lastActivityAt: new Date(),
       createdAt: new Date(),
     };
 
@@ -796,6 +980,7 @@ export class MemStorage implements IStorage {
     const workReport: WorkReport = {
       ...insertWorkReport,
       id,
+      clientId: insertWorkReport.clientId ?? null,
       status: insertWorkReport.status || "submitted",
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -1310,52 +1495,6 @@ export class MemStorage implements IStorage {
     return this.employees.delete(id);
   }
 
-  // User Menu Permission methods implementation
-  async getUserMenuPermissions(userId?: string): Promise<UserMenuPermission[]> {
-    const allPermissions = Array.from(this.userMenuPermissions.values());
-    if (userId) {
-      return allPermissions.filter(permission => permission.userId === userId);
-    }
-    return allPermissions.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
-  }
-
-  async getUserMenuPermission(userId: string): Promise<UserMenuPermission | undefined> {
-    return Array.from(this.userMenuPermissions.values()).find(permission => permission.userId === userId);
-  }
-
-  async createUserMenuPermission(insertPermission: InsertUserMenuPermission): Promise<UserMenuPermission> {
-    const id = randomUUID();
-    const now = new Date();
-    const permission: UserMenuPermission = {
-      id,
-      ...insertPermission,
-      createdAt: now,
-      updatedAt: now,
-    };
-    this.userMenuPermissions.set(id, permission);
-    return permission;
-  }
-
-  async updateUserMenuPermission(userId: string, updates: Partial<InsertUserMenuPermission>): Promise<UserMenuPermission | undefined> {
-    const existing = Array.from(this.userMenuPermissions.values()).find(permission => permission.userId === userId);
-    if (!existing) return undefined;
-
-    const updated: UserMenuPermission = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date(),
-    };
-    this.userMenuPermissions.set(existing.id, updated);
-    return updated;
-  }
-
-  async deleteUserMenuPermission(userId: string): Promise<boolean> {
-    const existing = Array.from(this.userMenuPermissions.entries()).find(([_, permission]) => permission.userId === userId);
-    if (!existing) return false;
-    
-    return this.userMenuPermissions.delete(existing[0]);
-  }
-
   // Salary methods
   async getSalaries(): Promise<Salary[]> {
     return Array.from(this.salaries.values());
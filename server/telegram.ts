@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+
+// Escape user supplied text for Telegram HTML messages
+export function escapeTelegramHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Helper function to send a message to all active Telegram chats. Returns whether any chat received it.
+export async function sendTelegramNotification(message: string): Promise<boolean> {
+  try {
+    // Get Telegram configuration
+    const config = await storage.getTelegramConfig();
+    if (!config || !config.botToken || !config.isActive) {
+      return false; // No Telegram config or not active
+    }
+
+    // Get active chat IDs
+    const chatIds = await storage.getTelegramChatIds();
+    const activeChatIds = chatIds.filter(chat => chat.isActive);
+    if (activeChatIds.length === 0) {
+      return false; // No active chat IDs
+    }
+
+    // Send message to all active chat IDs
+    let delivered = false;
+    for (const chatId of activeChatIds) {
+      try {
+        const telegramApiUrl = `https://api.telegram.org/bot${config.botToken}/sendMessage`;
+        const telegramResponse = await fetch(telegramApiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            chat_id: chatId.chatId,
+            text: message.trim(),
+            parse_mode: 'HTML'
+          })
+        });
+
+        if (!telegramResponse.ok) {
+          const errorData = await telegramResponse.json();
+          console.error(`Failed to send Telegram notification to ${chatId.name}:`, errorData.description);
+        } else {
+          delivered = true;
+        }
+      } catch (error: any) {
+        console.error(`Error sending Telegram notification to ${chatId.name}:`, error.message);
+      }
+    }
+    return delivered;
+  } catch (error: any) {
+    console.error("Error in sendTelegramNotification:", error);
+    return false;
+  }
+}
@@ -0,0 +1,209 @@
+import type { TiktokSetting } from "@shared/schema";
+import {
+  AdPlatformError,
+  type AdPlatformAdapter,
+  type InsightDateRange,
+  type NewPlatformCampaign,
+  type PlatformAccount,
+  type PlatformCampaign,
+  type PlatformCampaignInsight,
+  type PlatformInsight,
+} from "./ad-platforms";
+
+export const TIKTOK_API_URL = 'https://business-api.tiktok.com/open_api/v1.3';
+
+const PAGE_SIZE = 100;
+const REPORT_METRICS = ['spend', 'impressions', 'clicks', 'ctr', 'cpc', 'cpm', 'reach', 'frequency', 'conversion', 'complete_payment_roas'];
+
+// Drafts use Facebook's OUTCOME_* objectives
+const OBJECTIVE_TYPES: Record<string, string> = {
+  OUTCOME_AWARENESS: 'REACH',
+  OUTCOME_TRAFFIC: 'TRAFFIC',
+  OUTCOME_ENGAGEMENT: 'ENGAGEMENT',
+  OUTCOME_LEADS: 'LEAD_GENERATION',
+  OUTCOME_APP_PROMOTION: 'APP_PROMOTION',
+  OUTCOME_SALES: 'WEB_CONVERSIONS',
+};
+
+// Report days come back as "2024-01-31 00:00:00"
+function toDate(statTimeDay: string): Date {
+  return new Date(statTimeDay.slice(0, 10));
+}
+
+function toInsight(row: any): PlatformInsight {
+  const metrics = row.metrics || {};
+  return {
+    date: toDate(row.dimensions.stat_time_day),
+    spend: metrics.spend || "0",
+    impressions: parseInt(metrics.impressions) || 0,
+    clicks: parseInt(metrics.clicks) || 0,
+    ctr: metrics.ctr || "0",
+    cpc: metrics.cpc || "0",
+    cpm: metrics.cpm || "0",
+    reach: parseInt(metrics.reach) || 0,
+    frequency: metrics.frequency || "0",
+    conversions: parseInt(metrics.conversion) || 0,
+    roas: metrics.complete_payment_roas || "0",
+  };
+}
+
+/**
+ * TikTok Business API adapter. Accounts are advertiser ids. The base URL can
+ * be pointed at the local mock server (server/tiktok-mock-server.ts).
+ */
+export class TiktokAdapter implements AdPlatformAdapter {
+  readonly platform = 'tiktok' as const;
+  private baseUrl: string;
+
+  constructor(private settings: Pick<TiktokSetting, 'appId' | 'appSecret' | 'accessToken' | 'apiBaseUrl'>) {
+    this.baseUrl = (settings.apiBaseUrl || TIKTOK_API_URL).replace(/\/$/, '');
+  }
+
+  // Array and object params are sent JSON encoded, as the API expects
+  private async request(path: string, params: Record<string, unknown> = {}, body?: Record<string, unknown>): Promise<any> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    const response = await fetch(url.toString(), {
+      method: body ? "POST" : "GET",
+      headers: {
+        "Access-Token": this.settings.accessToken,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const result = await response.json().catch(() => ({}));
+
+    // Failures usually come back as HTTP 200 with a non-zero code
+    if (!response.ok || result.code !== 0) {
+      console.error("TikTok API error:", result);
+      throw new AdPlatformError('tiktok', result.message || `TikTok API request failed with status ${response.status}`);
+    }
+    return result.data;
+  }
+
+  private async requestAllPages(path: string, params: Record<string, unknown>): Promise<any[]> {
+    const rows: any[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.request(path, { ...params, page, page_size: PAGE_SIZE });
+      rows.push(...(data?.list || []));
+      if (!data?.page_info || page >= data.page_info.total_page) return rows;
+    }
+  }
+
+  async testConnection(): Promise<{ id: string; name: string }> {
+    const data = await this.request('/user/info/');
+    return { id: String(data.core_user_id), name: data.display_name };
+  }
+
+  async listAccounts(): Promise<PlatformAccount[]> {
+    const authorized = await this.request('/oauth2/advertiser/get/', {
+      app_id: this.settings.appId,
+      secret: this.settings.appSecret,
+    });
+    const advertiserIds: string[] = (authorized?.list || []).map((advertiser: any) => String(advertiser.advertiser_id));
+    if (advertiserIds.length === 0) return [];
+
+    const info = await this.request('/advertiser/info/', {
+      advertiser_ids: advertiserIds,
+      fields: ['advertiser_id', 'name', 'status'],
+    });
+    return (info?.list || []).map((advertiser: any) => ({
+      accountId: String(advertiser.advertiser_id),
+      name: advertiser.name,
+      status: advertiser.status === 'STATUS_ENABLE' ? 'active' : 'suspended',
+    }));
+  }
+
+  async listCampaigns(accountId: string, options: { includeSpend?: boolean } = {}): Promise<PlatformCampaign[]> {
+    const ttCampaigns = await this.requestAllPages('/campaign/get/', { advertiser_id: accountId });
+
+    const spendByCampaign = new Map<string, string>();
+    if (options.includeSpend && ttCampaigns.length > 0) {
+      const rows = await this.requestAllPages('/report/integrated/get/', {
+        advertiser_id: accountId,
+        report_type: 'BASIC',
+        data_level: 'AUCTION_CAMPAIGN',
+        dimensions: ['campaign_id'],
+        metrics: ['spend'],
+        query_lifetime: 'true',
+      });
+      for (const row of rows) {
+        spendByCampaign.set(String(row.dimensions.campaign_id), row.metrics?.spend || '0');
+      }
+    }
+
+    return ttCampaigns.map((ttCampaign: any): PlatformCampaign => {
+      const isDeleted = String(ttCampaign.secondary_status || '').includes('DELETE');
+      const isEnabled = ttCampaign.operation_status === 'ENABLE';
+      // TikTok budgets are in currency units, not cents
+      const budget = ttCampaign.budget ? parseFloat(ttCampaign.budget).toFixed(2) : null;
+      const id = String(ttCampaign.campaign_id);
+      return {
+        id,
+        name: ttCampaign.campaign_name,
+        status: isDeleted ? 'completed' : isEnabled ? 'active' : 'paused',
+        platformStatus: ttCampaign.operation_status || 'ENABLE',
+        effectiveStatus: ttCampaign.secondary_status || null,
+        objective: ttCampaign.objective_type || null,
+        dailyBudget: ttCampaign.budget_mode === 'BUDGET_MODE_DAY' ? budget : null,
+        lifetimeBudget: ttCampaign.budget_mode === 'BUDGET_MODE_TOTAL' ? budget : null,
+        budgetRemaining: null,
+        spend: parseFloat(spendByCampaign.get(id) || '0').toFixed(2),
+        createdAt: ttCampaign.create_time ? new Date(`${ttCampaign.create_time.replace(' ', 'T')}Z`) : null,
+        updatedAt: ttCampaign.modify_time ? new Date(`${ttCampaign.modify_time.replace(' ', 'T')}Z`) : null,
+      };
+    });
+  }
+
+  async getAccountInsights(accountId: string, range: InsightDateRange): Promise<PlatformInsight[]> {
+    const rows = await this.requestAllPages('/report/integrated/get/', {
+      advertiser_id: accountId,
+      report_type: 'BASIC',
+      data_level: 'AUCTION_ADVERTISER',
+      dimensions: ['stat_time_day'],
+      metrics: REPORT_METRICS,
+      start_date: range.since,
+      end_date: range.until,
+    });
+    return rows.map(toInsight);
+  }
+
+  async getCampaignInsights(accountId: string, range: InsightDateRange): Promise<PlatformCampaignInsight[]> {
+    const rows = await this.requestAllPages('/report/integrated/get/', {
+      advertiser_id: accountId,
+      report_type: 'BASIC',
+      data_level: 'AUCTION_CAMPAIGN',
+      dimensions: ['campaign_id', 'stat_time_day'],
+      metrics: [...REPORT_METRICS, 'campaign_name'],
+      start_date: range.since,
+      end_date: range.until,
+    });
+    return rows.map(row => ({
+      ...toInsight(row),
+      campaignId: String(row.dimensions.campaign_id),
+      campaignName: row.metrics?.campaign_name || "Unnamed Campaign",
+    }));
+  }
+
+  async updateCampaignStatus(accountId: string, campaignId: string, status: 'active' | 'paused'): Promise<void> {
+    await this.request('/campaign/status/update/', {}, {
+      advertiser_id: accountId,
+      campaign_ids: [campaignId],
+      operation_status: status === 'active' ? 'ENABLE' : 'DISABLE',
+    });
+  }
+
+  async createCampaign(accountId: string, campaign: NewPlatformCampaign): Promise<string> {
+    const data = await this.request('/campaign/create/', {}, {
+      advertiser_id: accountId,
+      campaign_name: campaign.name,
+      objective_type: OBJECTIVE_TYPES[campaign.objective] || campaign.objective,
+      budget_mode: 'BUDGET_MODE_INFINITE',
+      operation_status: 'DISABLE', // Start paused for safety
+    });
+    return String(data.campaign_id);
+  }
+}
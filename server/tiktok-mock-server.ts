@@ -0,0 +1,261 @@
+/**
+ * Local stand-in for the TikTok Business API, covering the endpoints the
+ * TikTok adapter calls. Run it with `npm run tiktok:mock` and set the TikTok
+ * API base URL in settings to http://localhost:5055/open_api/v1.3.
+ *
+ * State is kept in memory. Report numbers are derived from the campaign and
+ * day, so repeated syncs return the same data.
+ */
+import express, { type Request, type Response, type NextFunction } from "express";
+
+const PORT = parseInt(process.env.TIKTOK_MOCK_PORT || '5055', 10);
+const ACCESS_TOKEN = process.env.TIKTOK_MOCK_ACCESS_TOKEN || 'mock-access-token';
+const BASE_PATH = '/open_api/v1.3';
+
+interface MockCampaign {
+  campaign_id: string;
+  advertiser_id: string;
+  campaign_name: string;
+  objective_type: string;
+  operation_status: 'ENABLE' | 'DISABLE';
+  budget_mode: string;
+  budget: number;
+  create_time: string;
+  modify_time: string;
+}
+
+const advertisers = [
+  { advertiser_id: '7000000000000000001', name: 'Mock Advertiser One', status: 'STATUS_ENABLE' },
+  { advertiser_id: '7000000000000000002', name: 'Mock Advertiser Two', status: 'STATUS_LIMIT' },
+];
+
+function formatTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+let nextCampaignId = 1800000000000003;
+const campaigns: MockCampaign[] = [
+  {
+    campaign_id: '1800000000000001',
+    advertiser_id: advertisers[0].advertiser_id,
+    campaign_name: 'Mock Traffic Campaign',
+    objective_type: 'TRAFFIC',
+    operation_status: 'ENABLE',
+    budget_mode: 'BUDGET_MODE_DAY',
+    budget: 50,
+    create_time: '2024-01-01 00:00:00',
+    modify_time: '2024-01-01 00:00:00',
+  },
+  {
+    campaign_id: '1800000000000002',
+    advertiser_id: advertisers[0].advertiser_id,
+    campaign_name: 'Mock Conversions Campaign',
+    objective_type: 'WEB_CONVERSIONS',
+    operation_status: 'DISABLE',
+    budget_mode: 'BUDGET_MODE_TOTAL',
+    budget: 1000,
+    create_time: '2024-02-01 00:00:00',
+    modify_time: '2024-02-01 00:00:00',
+  },
+];
+
+function ok(res: Response, data: unknown) {
+  res.json({ code: 0, message: 'OK', request_id: `mock-${Date.now()}`, data });
+}
+
+// The real API reports most errors with HTTP 200 and a non-zero code
+function fail(res: Response, code: number, message: string) {
+  res.json({ code, message, request_id: `mock-${Date.now()}`, data: {} });
+}
+
+function parseJsonParam<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function paginate<T>(rows: T[], req: Request) {
+  const page = parseInt(req.query.page as string) || 1;
+  const pageSize = parseInt(req.query.page_size as string) || 10;
+  return {
+    list: rows.slice((page - 1) * pageSize, page * pageSize),
+    page_info: { page, page_size: pageSize, total_number: rows.length, total_page: Math.max(1, Math.ceil(rows.length / pageSize)) },
+  };
+}
+
+// Stable pseudo random number in [0, 1) for a key
+function seeded(key: string): number {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return (Math.abs(hash) % 1000) / 1000;
+}
+
+function dailyMetrics(campaign: MockCampaign, day: string) {
+  const impressions = Math.round(2000 + seeded(`${campaign.campaign_id}:${day}:i`) * 8000);
+  const clicks = Math.round(impressions * (0.005 + seeded(`${campaign.campaign_id}:${day}:c`) * 0.02));
+  const spend = campaign.operation_status === 'ENABLE' ? +(10 + seeded(`${campaign.campaign_id}:${day}:s`) * 40).toFixed(2) : 0;
+  const reach = Math.round(impressions * 0.8);
+  return {
+    spend,
+    impressions: spend > 0 ? impressions : 0,
+    clicks: spend > 0 ? clicks : 0,
+    reach: spend > 0 ? reach : 0,
+    conversion: spend > 0 ? Math.round(clicks * 0.05) : 0,
+  };
+}
+
+function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  for (let day = new Date(`${startDate}T00:00:00Z`); day <= new Date(`${endDate}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+    days.push(day.toISOString().split('T')[0]);
+  }
+  return days;
+}
+
+function toReportMetrics(totals: ReturnType<typeof dailyMetrics>) {
+  return {
+    spend: totals.spend.toFixed(2),
+    impressions: String(totals.impressions),
+    clicks: String(totals.clicks),
+    ctr: totals.impressions > 0 ? ((totals.clicks / totals.impressions) * 100).toFixed(2) : '0',
+    cpc: totals.clicks > 0 ? (totals.spend / totals.clicks).toFixed(2) : '0',
+    cpm: totals.impressions > 0 ? ((totals.spend / totals.impressions) * 1000).toFixed(2) : '0',
+    reach: String(totals.reach),
+    frequency: totals.reach > 0 ? (totals.impressions / totals.reach).toFixed(2) : '0',
+    conversion: String(totals.conversion),
+    complete_payment_roas: totals.spend > 0 ? ((totals.conversion * 25) / totals.spend).toFixed(2) : '0',
+  };
+}
+
+function sumMetrics(rows: ReturnType<typeof dailyMetrics>[]) {
+  return rows.reduce((sum, row) => ({
+    spend: sum.spend + row.spend,
+    impressions: sum.impressions + row.impressions,
+    clicks: sum.clicks + row.clicks,
+    reach: sum.reach + row.reach,
+    conversion: sum.conversion + row.conversion,
+  }), { spend: 0, impressions: 0, clicks: 0, reach: 0, conversion: 0 });
+}
+
+const app = express();
+app.use(express.json());
+
+app.use(BASE_PATH, (req: Request, res: Response, next: NextFunction) => {
+  console.log(`[TikTok Mock] ${req.method} ${req.path}`);
+  if (req.header('Access-Token') !== ACCESS_TOKEN) {
+    return fail(res, 40105, 'The access token is invalid or has expired');
+  }
+  next();
+});
+
+app.get(`${BASE_PATH}/user/info/`, (req: Request, res: Response) => {
+  ok(res, { core_user_id: '6900000000000000001', display_name: 'Mock TikTok User', email: 'mock@example.com' });
+});
+
+app.get(`${BASE_PATH}/oauth2/advertiser/get/`, (req: Request, res: Response) => {
+  if (!req.query.app_id || !req.query.secret) {
+    return fail(res, 40002, 'app_id and secret are required');
+  }
+  ok(res, { list: advertisers.map(advertiser => ({ advertiser_id: advertiser.advertiser_id, advertiser_name: advertiser.name })) });
+});
+
+app.get(`${BASE_PATH}/advertiser/info/`, (req: Request, res: Response) => {
+  const ids = parseJsonParam<string[]>(req.query.advertiser_ids, []);
+  ok(res, { list: advertisers.filter(advertiser => ids.includes(advertiser.advertiser_id)) });
+});
+
+app.get(`${BASE_PATH}/campaign/get/`, (req: Request, res: Response) => {
+  const advertiserId = req.query.advertiser_id as string;
+  if (!advertisers.some(advertiser => advertiser.advertiser_id === advertiserId)) {
+    return fail(res, 40001, `Advertiser ${advertiserId} is not authorized`);
+  }
+  const rows = campaigns
+    .filter(campaign => campaign.advertiser_id === advertiserId)
+    .map(campaign => ({ ...campaign, secondary_status: `CAMPAIGN_STATUS_${campaign.operation_status}` }));
+  ok(res, paginate(rows, req));
+});
+
+app.get(`${BASE_PATH}/report/integrated/get/`, (req: Request, res: Response) => {
+  const advertiserId = req.query.advertiser_id as string;
+  const dataLevel = req.query.data_level as string;
+  const dimensions = parseJsonParam<string[]>(req.query.dimensions, []);
+  const advertiserCampaigns = campaigns.filter(campaign => campaign.advertiser_id === advertiserId);
+
+  let rows: { dimensions: Record<string, string>; metrics: Record<string, string> }[];
+  if (req.query.query_lifetime === 'true') {
+    // Lifetime spend per campaign, from its creation until today
+    const today = new Date().toISOString().split('T')[0];
+    rows = advertiserCampaigns.map(campaign => ({
+      dimensions: { campaign_id: campaign.campaign_id },
+      metrics: toReportMetrics(sumMetrics(eachDay(campaign.create_time.slice(0, 10), today).map(day => dailyMetrics(campaign, day)))),
+    }));
+  } else {
+    const startDate = req.query.start_date as string;
+    const endDate = req.query.end_date as string;
+    if (!startDate || !endDate) {
+      return fail(res, 40002, 'start_date and end_date are required');
+    }
+    const days = eachDay(startDate, endDate);
+    if (dataLevel === 'AUCTION_CAMPAIGN' && dimensions.includes('campaign_id')) {
+      rows = advertiserCampaigns.flatMap(campaign => days.map(day => ({
+        dimensions: { campaign_id: campaign.campaign_id, stat_time_day: `${day} 00:00:00` },
+        metrics: { ...toReportMetrics(dailyMetrics(campaign, day)), campaign_name: campaign.campaign_name },
+      })));
+    } else {
+      rows = days.map(day => ({
+        dimensions: { stat_time_day: `${day} 00:00:00` },
+        metrics: toReportMetrics(sumMetrics(advertiserCampaigns.map(campaign => dailyMetrics(campaign, day)))),
+      }));
+    }
+  }
+  ok(res, paginate(rows, req));
+});
+
+app.post(`${BASE_PATH}/campaign/status/update/`, (req: Request, res: Response) => {
+  const { advertiser_id, campaign_ids, operation_status } = req.body || {};
+  if (!['ENABLE', 'DISABLE', 'DELETE'].includes(operation_status)) {
+    return fail(res, 40002, 'operation_status must be ENABLE, DISABLE or DELETE');
+  }
+  const updated = campaigns.filter(campaign => campaign.advertiser_id === advertiser_id && campaign_ids?.includes(campaign.campaign_id));
+  if (updated.length === 0) {
+    return fail(res, 40002, 'No matching campaigns');
+  }
+  for (const campaign of updated) {
+    campaign.operation_status = operation_status === 'ENABLE' ? 'ENABLE' : 'DISABLE';
+    campaign.modify_time = formatTime(new Date());
+  }
+  ok(res, { campaign_ids: updated.map(campaign => campaign.campaign_id) });
+});
+
+app.post(`${BASE_PATH}/campaign/create/`, (req: Request, res: Response) => {
+  const { advertiser_id, campaign_name, objective_type, budget_mode, budget, operation_status } = req.body || {};
+  if (!advertisers.some(advertiser => advertiser.advertiser_id === advertiser_id)) {
+    return fail(res, 40001, `Advertiser ${advertiser_id} is not authorized`);
+  }
+  if (!campaign_name || !objective_type) {
+    return fail(res, 40002, 'campaign_name and objective_type are required');
+  }
+  const now = formatTime(new Date());
+  const campaign: MockCampaign = {
+    campaign_id: String(nextCampaignId++),
+    advertiser_id,
+    campaign_name,
+    objective_type,
+    operation_status: operation_status === 'DISABLE' ? 'DISABLE' : 'ENABLE',
+    budget_mode: budget_mode || 'BUDGET_MODE_INFINITE',
+    budget: budget || 0,
+    create_time: now,
+    modify_time: now,
+  };
+  campaigns.push(campaign);
+  ok(res, { campaign_id: campaign.campaign_id });
+});
+
+app.listen(PORT, () => {
+  console.log(`[TikTok Mock] Listening on http://localhost:${PORT}${BASE_PATH} (access token: ${ACCESS_TOKEN})`);
+});
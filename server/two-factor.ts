@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import type { User } from "@shared/schema";
+import { encrypt, decrypt, hashPassword, verifyPassword, type EncryptedData } from "./encryption";
+import { storage } from "./storage";
+
+// TOTP configuration (RFC 6238 defaults understood by every authenticator app)
+const TOTP_ISSUER = 'Advantix Admin';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DRIFT_STEPS = 1; // Accept one step either side for clock drift
+const SECRET_LENGTH = 20; // 160-bit secret
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Login challenges between the password step and the code step
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+// Finance settings key holding a comma separated list of roles that must use 2FA
+export const TWO_FACTOR_REQUIRED_ROLES_KEY = 'two_factor_required_roles';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i];
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').replace(/\s+/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const char = cleaned[i];
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Generate a new base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_LENGTH));
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps import (also what QR codes encode)
+ */
+export function buildOtpauthUrl(username: string, secret: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Time-step a TOTP code belongs to, allowing for small clock drift, or null when it does not match
+function matchTotpStep(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s+/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const expected = generateHotp(key, currentStep + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return currentStep + drift;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify a user's TOTP code against a base32 secret. Each time-step is only
+ * accepted once, so a code that was already used is rejected.
+ */
+export async function verifyTotpCode(user: User, secret: string, code: string): Promise<boolean> {
+  const step = matchTotpStep(secret, code);
+  return step !== null && await storage.claimTotpStep(user.id, step);
+}
+
+/**
+ * Encrypt a TOTP secret for storage on the user row
+ */
+export function encryptTotpSecret(secret: string): string {
+  const encrypted = encrypt(secret);
+  if (!encrypted) {
+    throw new Error('ENCRYPTION_KEY is not configured - two-factor authentication cannot be enabled');
+  }
+  return JSON.stringify(encrypted);
+}
+
+/**
+ * Decrypt the stored TOTP secret of a user
+ */
+export function decryptTotpSecret(user: User): string | null {
+  if (!user.twoFactorSecret) return null;
+  try {
+    return decrypt(JSON.parse(user.twoFactorSecret) as EncryptedData);
+  } catch (error) {
+    console.error(`Failed to decrypt 2FA secret for user ${user.username}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Generate one-time recovery codes. Returns the plaintext codes (shown once)
+ * and the serialized bcrypt hashes to store.
+ */
+export async function generateRecoveryCodes(): Promise<{ codes: string[]; stored: string }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map(code => hashPassword(code)));
+  return { codes, stored: JSON.stringify(hashes) };
+}
+
+export function countRecoveryCodes(user: User): number {
+  if (!user.twoFactorRecoveryCodes) return 0;
+  try {
+    return (JSON.parse(user.twoFactorRecoveryCodes) as string[]).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Verify a code for a user with 2FA enabled - either a TOTP code or an unused
+ * recovery code. Recovery codes are removed once used.
+ */
+export async function verifyTwoFactorCode(user: User, code: string): Promise<{ valid: boolean; usedRecoveryCode: boolean }> {
+  const secret = decryptTotpSecret(user);
+  if (secret && await verifyTotpCode(user, secret, code)) {
+    return { valid: true, usedRecoveryCode: false };
+  }
+
+  const normalized = code.trim().toLowerCase();
+  if (!user.twoFactorRecoveryCodes || !/^[0-9a-f]{5}-[0-9a-f]{5}$/.test(normalized)) {
+    return { valid: false, usedRecoveryCode: false };
+  }
+
+  const hashes = JSON.parse(user.twoFactorRecoveryCodes) as string[];
+  for (let i = 0; i < hashes.length; i++) {
+    if (await verifyPassword(normalized, hashes[i])) {
+      const remaining = hashes.filter((_, index) => index !== i);
+      await storage.updateUserTwoFactor(user.id, { twoFactorRecoveryCodes: JSON.stringify(remaining) });
+      console.log(`Recovery code used by ${user.username}, ${remaining.length} remaining`);
+      return { valid: true, usedRecoveryCode: true };
+    }
+  }
+
+  return { valid: false, usedRecoveryCode: false };
+}
+
+/**
+ * Roles that must have 2FA enabled before they can log in
+ */
+export async function getTwoFactorRequiredRoles(): Promise<string[]> {
+  const setting = await storage.getFinanceSetting(TWO_FACTOR_REQUIRED_ROLES_KEY);
+  if (!setting?.value) return [];
+  return setting.value.split(',').map(role => role.trim()).filter(Boolean);
+}
+
+export async function isTwoFactorRequiredForRole(role: string): Promise<boolean> {
+  const roles = await getTwoFactorRequiredRoles();
+  return roles.includes(role);
+}
+
+// Pending login challenges, keyed by a random token handed to the login page
+interface LoginChallenge {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const loginChallenges = new Map<string, LoginChallenge>();
+
+export function createLoginChallenge(userId: string): string {
+  // Drop expired challenges so the map cannot grow unbounded
+  const now = Date.now();
+  loginChallenges.forEach((challenge, token) => {
+    if (challenge.expiresAt <= now) loginChallenges.delete(token);
+  });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  loginChallenges.set(token, { userId, expiresAt: now + CHALLENGE_TTL_MS, attempts: 0 });
+  return token;
+}
+
+/**
+ * Look up a pending challenge and count the attempt. Returns the user id, or
+ * null once the challenge is expired or out of attempts.
+ */
+export function checkLoginChallenge(token: string): string | null {
+  const challenge = loginChallenges.get(token);
+  if (!challenge) return null;
+
+  challenge.attempts++;
+  if (challenge.expiresAt <= Date.now() || challenge.attempts > CHALLENGE_MAX_ATTEMPTS) {
+    loginChallenges.delete(token);
+    return null;
+  }
+  return challenge.userId;
+}
+
+export function completeLoginChallenge(token: string): void {
+  loginChallenges.delete(token);
+}
@@ -1,9 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, decimal, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, decimal, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// User roles enum - must be declared before use
+// Built-in role keys. Additional roles live in the roles table.
 export const UserRole = {
   USER: 'user' as const,
   MANAGER: 'manager' as const,
@@ -19,21 +19,99 @@ export const users = pgTable("users", {
   name: text("name"),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("user"), // "user", "manager", "admin", "super_admin", "client"
+  email: text("email"), // Used for password reset links
+  role: text("role").notNull().default("user"), // Key of a row in the roles table
   clientId: varchar("client_id").references(() => clients.id, { onDelete: "restrict" }), // For client users
   isActive: boolean("is_active").default(true),
+  twoFactorEnabled: boolean("two_factor_enabled").default(false),
+  twoFactorSecret: text("two_factor_secret"), // Encrypted TOTP secret (JSON of EncryptedData)
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes"), // JSON array of bcrypt hashed one-time codes
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"), // TOTP time-step of the last accepted code, so no code is accepted twice
   createdAt: timestamp("created_at").defaultNow(),
-}, (table) => {
-  return {
-    roleCheck: sql`CHECK (${table.role} IN ('user', 'manager', 'admin', 'super_admin', 'client'))`
-  }
 });
 
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   token: text("token").notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // Slides forward on activity, capped at the max session lifetime
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  lastActivityAt: timestamp("last_activity_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Previous password hashes, used to stop users reusing recent passwords
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time password reset links issued by admins
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token sent by email
   expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// API keys for scripts and integrations. Only the SHA-256 of the key is stored.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, shown to identify it
+  keyHash: text("key_hash").notNull().unique(),
+  scope: text("scope").notNull().default("read"), // "read" or "write"
+  pageKeys: text("page_keys").notNull(), // JSON array of page keys the key may access
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  usageCount: integer("usage_count").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }).notNull(), // Requests act on behalf of this user
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    scopeCheck: sql`CHECK (${table.scope} IN ('read', 'write'))`,
+  }
+});
+
+// Failed login counters used for backoff and temporary lockouts
+export const loginThrottles = pgTable("login_throttles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // "username" or "ip"
+  key: text("key").notNull(), // The username or IP address being throttled
+  failureCount: integer("failure_count").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at"),
+  lockedUntil: timestamp("locked_until"), // Attempts are rejected until this time
+  lastFailureIp: text("last_failure_ip"), // IP of the latest failure, so unlocking a username can lift that IP's lockout too
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueScopeKey: unique("unique_login_throttle_scope_key").on(table.scope, table.key),
+    scopeCheck: sql`CHECK (${table.scope} IN ('username', 'ip'))`,
+  }
+});
+
+// Audit trail of every mutating API call
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"), // Kept so entries stay readable after the user is deleted
+  method: text("method").notNull(), // "POST", "PUT", "PATCH", "DELETE" (or "GET" for audited reads)
+  route: text("route").notNull(), // Express route pattern, e.g. "/api/campaigns/:id"
+  path: text("path").notNull(), // Actual request path
+  entityType: text("entity_type").notNull(), // e.g. "campaign", "finance_payment"
+  entityId: varchar("entity_id"),
+  action: text("action").notNull(), // "create", "update", "delete" or a named action like "reveal_secrets"
+  changes: text("changes"), // JSON: { field: { before, after } }
+  ipAddress: text("ip_address"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -57,7 +135,9 @@ export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"), // Last day the campaign runs, it is completed after this day
   comments: text("comments"),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "set null" }), // Notified of scheduled status changes
   adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "restrict" }).notNull(),
   clientId: varchar("client_id").references(() => clients.id, { onDelete: "set null" }),
   status: text("status").notNull().default("active"), // "active", "paused", "completed"
@@ -78,6 +158,52 @@ export const campaigns = pgTable("campaigns", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Date ranges a campaign runs in. Between flights it is paused, after the last one completed.
+export const campaignFlights = pgTable("campaign_flights", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  startDate: timestamp("start_date").notNull(), // First day on, UTC midnight
+  endDate: timestamp("end_date").notNull(), // Last day on, UTC midnight
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    dateRangeCheck: sql`CHECK (${table.endDate} >= ${table.startDate})`,
+  }
+});
+
+// Comment threads on campaigns. Replies point at the top-level comment they answer.
+export const campaignComments = pgTable("campaign_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => campaignComments.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  authorName: text("author_name").notNull(), // Username when written, kept if the user is deleted
+  body: text("body").notNull(),
+  mentionedUserIds: text("mentioned_user_ids"), // JSON array of users already notified of an @mention
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // Soft delete so replies keep their place in the thread
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Field level history of campaign changes, made by users or by Facebook sync
+export const campaignFieldChanges = pgTable("campaign_field_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  field: text("field").notNull(), // Campaign property, e.g. "budget"
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  source: text("source").notNull().default("user"), // "user" or "facebook_sync"
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  changedByName: text("changed_by_name").notNull(), // Username when changed, kept if the user is deleted
+  revertedChangeId: varchar("reverted_change_id").references((): AnyPgColumn => campaignFieldChanges.id, { onDelete: "set null" }), // Set when this change reverted an earlier one
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    sourceCheck: sql`CHECK (${table.source} IN ('user', 'facebook_sync', 'schedule'))`,
+  }
+});
+
 // Client Management
 export const clients = pgTable("clients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -155,6 +281,23 @@ export const campaignDailySpends = pgTable("campaign_daily_spends", {
   }
 });
 
+// Decisions taken on campaign-days where manual daily spend and Facebook reported spend differ
+export const spendReconciliationDecisions = pgTable("spend_reconciliation_decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  date: timestamp("date").notNull(), // Day reconciled, normalized to start of day like daily spends
+  manualAmount: decimal("manual_amount", { precision: 12, scale: 2 }).notNull(), // Manual spend when decided
+  facebookAmount: decimal("facebook_amount", { precision: 12, scale: 2 }).notNull(), // Facebook spend when decided
+  decision: text("decision").notNull(), // "accept_facebook" or "keep_manual"
+  decidedBy: varchar("decided_by").references(() => users.id, { onDelete: "set null" }),
+  decidedByName: text("decided_by_name").notNull(), // Username when decided, kept if the user is deleted
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    decisionCheck: sql`CHECK (${table.decision} IN ('accept_facebook', 'keep_manual'))`,
+  }
+});
+
 // Ad Copy Sets for Campaign Management
 export const adCopySets = pgTable("ad_copy_sets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -177,10 +320,22 @@ export const adCopySets = pgTable("ad_copy_sets", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Periods during which an ad copy set was live, used to attribute spend and insights to it
+export const adCopySetPeriods = pgTable("ad_copy_set_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adCopySetId: varchar("ad_copy_set_id").references(() => adCopySets.id, { onDelete: "cascade" }).notNull(),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"), // Null while the set is still active
+  startedBy: varchar("started_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Work Reports
 export const workReports = pgTable("work_reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "set null" }), // Optional client the work was done for
   title: text("title").notNull(),
   description: text("description").notNull(),
   hoursWorked: decimal("hours_worked", { precision: 4, scale: 2 }).notNull(),
@@ -202,10 +357,22 @@ export const pages = pgTable("pages", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Roles users can be assigned. The built-in roles are seeded as system roles and cannot be deleted.
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(), // Stored in users.role and role_permissions.role
+  name: text("name").notNull(),
+  description: text("description"),
+  isAdmin: boolean("is_admin").notNull().default(false), // Passes admin-only checks
+  isSystem: boolean("is_system").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Role-based page permissions
 export const rolePermissions = pgTable("role_permissions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  role: text("role").notNull(), // "user", "manager", "admin", "super_admin"
+  role: text("role").notNull(), // Key of a row in the roles table
   pageId: varchar("page_id").references(() => pages.id, { onDelete: "cascade" }).notNull(),
   canView: boolean("can_view").default(false),
   canEdit: boolean("can_edit").default(false),
@@ -214,26 +381,45 @@ export const rolePermissions = pgTable("role_permissions", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => {
   return {
-    roleCheck: sql`CHECK (${table.role} IN ('user', 'manager', 'admin', 'super_admin'))`,
     uniqueRolePage: sql`UNIQUE(${table.role}, ${table.pageId})`
   }
 });
 
-// Validation schemas with role constraints
-const UserRoleEnum = z.enum([UserRole.USER, UserRole.MANAGER, UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.CLIENT]);
+// Per-user overrides of the role defaults above. null means "inherit from role".
+export const userPagePermissions = pgTable("user_page_permissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  pageId: varchar("page_id").references(() => pages.id, { onDelete: "cascade" }).notNull(),
+  canView: boolean("can_view"),
+  canEdit: boolean("can_edit"),
+  canDelete: boolean("can_delete"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueUserPage: unique("unique_user_page_permission").on(table.userId, table.pageId),
+}));
+
+// Lowercase slug, as stored in users.role and role_permissions.role
+const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+// Role keys are also validated against the roles table by the API
+const RoleKeySchema = z.string().regex(ROLE_KEY_PATTERN, "Role must be a lowercase key of letters, numbers and underscores");
 
 export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
   username: true,
   password: true,
+  email: true,
 }).extend({
   name: z.string().min(1, "Name is required"),
+  // Only a floor - the configurable password policy is enforced by the API
   password: z.string().min(3, "Password must be at least 3 characters"),
+  email: z.string().email("Invalid email address").nullable().optional().or(z.literal("")),
 });
 
 // Admin-only user creation schema (for super admins)
 export const insertUserWithRoleSchema = insertUserSchema.extend({
-  role: UserRoleEnum.default(UserRole.USER),
+  role: RoleKeySchema.default(UserRole.USER),
   clientId: z.string().optional(),
 });
 
@@ -250,6 +436,96 @@ export const insertCampaignSchema = createInsertSchema(campaigns).omit({
   updatedAt: true,
 }).extend({
   startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+});
+
+// Replaces all flights of a campaign
+export const campaignFlightsSchema = z.object({
+  flights: z.array(z.object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  }).refine(flight => flight.endDate >= flight.startDate, "Flight end date must be on or after its start date"))
+    .max(100, "At most 100 flights per campaign"),
+});
+
+export const insertCampaignCommentSchema = createInsertSchema(campaignComments).omit({
+  id: true,
+  editedAt: true,
+  deletedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const campaignCommentBodySchema = z.object({
+  body: z.string().trim().min(1, "Comment is required"),
+  parentId: z.string().optional(),
+});
+
+export const CampaignBulkOperation = {
+  STATUS: 'status' as const,
+  CLIENT: 'client' as const,
+  AD_ACCOUNT: 'ad_account' as const,
+  BUDGET: 'budget' as const,
+  DELETE: 'delete' as const,
+} as const;
+
+const bulkCampaignIdsSchema = z.array(z.string()).min(1, "Select at least one campaign").max(500, "At most 500 campaigns at a time");
+
+export const bulkCampaignOperationSchema = z.discriminatedUnion("operation", [
+  z.object({
+    operation: z.literal(CampaignBulkOperation.STATUS),
+    campaignIds: bulkCampaignIdsSchema,
+    status: z.enum(["active", "paused", "completed", "draft"]),
+  }),
+  z.object({
+    operation: z.literal(CampaignBulkOperation.CLIENT),
+    campaignIds: bulkCampaignIdsSchema,
+    clientId: z.string().nullable(),
+  }),
+  z.object({
+    operation: z.literal(CampaignBulkOperation.AD_ACCOUNT),
+    campaignIds: bulkCampaignIdsSchema,
+    adAccountId: z.string().min(1, "Ad account is required"),
+  }),
+  z.object({
+    operation: z.literal(CampaignBulkOperation.BUDGET),
+    campaignIds: bulkCampaignIdsSchema,
+    mode: z.enum(["percent", "absolute"]), // Change by a percentage of the current budget or by an amount
+    value: z.number().finite(),
+  }),
+  z.object({
+    operation: z.literal(CampaignBulkOperation.DELETE),
+    campaignIds: bulkCampaignIdsSchema,
+  }),
+]);
+
+// Copy of a campaign, optionally moved to another client or ad account
+export const duplicateCampaignSchema = z.object({
+  name: z.string().trim().min(1, "Campaign name is required").optional(), // Defaults to "<name> (Copy)"
+  clientId: z.string().nullable().optional(), // Omitted keeps the source client, null leaves the copy without one
+  adAccountId: z.string().optional(),
+  includeAdCopySets: z.boolean().default(true),
+  includeComments: z.boolean().default(false),
+});
+
+// Saves a campaign and its active ad copy set as a reusable Ads Manager template
+export const saveCampaignTemplateSchema = z.object({
+  templateName: z.string().trim().min(1, "Template name is required"),
+  description: z.string().optional(),
+  isShared: z.boolean().default(false),
+});
+
+export const CampaignChangeSource = {
+  USER: 'user' as const,
+  FACEBOOK_SYNC: 'facebook_sync' as const,
+  SCHEDULE: 'schedule' as const, // End dates and flights applied by the campaign scheduler
+} as const;
+
+export const insertCampaignFieldChangeSchema = createInsertSchema(campaignFieldChanges).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  source: z.enum([CampaignChangeSource.USER, CampaignChangeSource.FACEBOOK_SYNC, CampaignChangeSource.SCHEDULE]),
 });
 
 export const insertClientSchema = createInsertSchema(clients).omit({
@@ -294,6 +570,11 @@ export const insertAdCopySetSchema = createInsertSchema(adCopySets).omit({
   updatedAt: true,
 });
 
+export const insertAdCopySetPeriodSchema = createInsertSchema(adCopySetPeriods).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertCampaignDailySpendSchema = createInsertSchema(campaignDailySpends).omit({
   id: true,
   createdAt: true,
@@ -303,18 +584,58 @@ export const insertCampaignDailySpendSchema = createInsertSchema(campaignDailySp
   amount: z.coerce.number().min(0, "Amount must be a positive number"),
 });
 
+export const ReconciliationDecision = {
+  ACCEPT_FACEBOOK: 'accept_facebook' as const,
+  KEEP_MANUAL: 'keep_manual' as const,
+} as const;
+
+export const insertSpendReconciliationDecisionSchema = createInsertSchema(spendReconciliationDecisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Amounts are looked up on the server when the decisions are applied
+export const spendReconciliationDecisionsSchema = z.object({
+  decisions: z.array(z.object({
+    campaignId: z.string(),
+    date: z.coerce.date(),
+    decision: z.enum([ReconciliationDecision.ACCEPT_FACEBOOK, ReconciliationDecision.KEEP_MANUAL]),
+  })).min(1, "No decisions to apply").max(5000, "At most 5000 decisions at a time"),
+});
+
+// Spend for many campaign-days at once, e.g. from the spend grid
+export const batchCampaignDailySpendSchema = z.object({
+  entries: z.array(insertCampaignDailySpendSchema).min(1, "Nothing to save").max(5000, "At most 5000 entries at a time"),
+});
+
 export const insertPageSchema = createInsertSchema(pages).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  key: z.string().regex(ROLE_KEY_PATTERN, "Key must start with a letter and use up to 50 lowercase letters, numbers and underscores"),
+  name: z.string().min(1, "Name is required"),
+});
+
 export const insertRolePermissionSchema = createInsertSchema(rolePermissions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  role: UserRoleEnum,
+  role: RoleKeySchema,
+});
+
+export const insertUserPagePermissionSchema = createInsertSchema(userPagePermissions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const loginSchema = z.object({
@@ -322,6 +643,37 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().min(1, "Code is required"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, "Code is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+export const ApiKeyScope = {
+  READ: 'read' as const,
+  WRITE: 'write' as const,
+} as const;
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  scope: z.enum([ApiKeyScope.READ, ApiKeyScope.WRITE]),
+  pageKeys: z.array(z.string()).min(1, "Select at least one page"),
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), "Expiry must be in the future"),
+});
+
 // Finance Management Tables
 
 // Tags for categorization
@@ -475,7 +827,20 @@ export const insertTelegramChatIdSchema = createInsertSchema(telegramChatIds).om
   updatedAt: true,
 });
 
+// Clients a staff user is assigned to. Users with assignments only see records of those clients.
+export const userClientAssignments = pgTable("user_client_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    uniqueUserClient: unique("unique_user_client_assignment").on(table.userId, table.clientId),
+  }
+});
+
 // User Menu Permissions - Controls access to specific menu items per user
+// Legacy per-user menu switches, superseded by userPagePermissions and only read to migrate existing rows
 export const userMenuPermissions = pgTable("user_menu_permissions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
@@ -504,6 +869,22 @@ export const userMenuPermissions = pgTable("user_menu_permissions", {
   }
 });
 
+export const insertLoginThrottleSchema = createInsertSchema(loginThrottles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserClientAssignmentSchema = createInsertSchema(userClientAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertUserMenuPermissionSchema = createInsertSchema(userMenuPermissions).omit({
   id: true,
   createdAt: true,
@@ -516,6 +897,23 @@ export type InsertUserWithRole = z.infer<typeof insertUserWithRoleSchema>;
 export type User = typeof users.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type LoginRequest = z.infer<typeof loginSchema>;
+export type TwoFactorLoginRequest = z.infer<typeof twoFactorLoginSchema>;
+
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export type InsertLoginThrottle = z.infer<typeof insertLoginThrottleSchema>;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+export type InsertUserClientAssignment = z.infer<typeof insertUserClientAssignmentSchema>;
+export type UserClientAssignment = typeof userClientAssignments.$inferSelect;
 
 export type InsertUserMenuPermission = z.infer<typeof insertUserMenuPermissionSchema>;
 export type UserMenuPermission = typeof userMenuPermissions.$inferSelect;
@@ -526,6 +924,35 @@ export type AdAccount = typeof adAccounts.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 
+export type CampaignFlight = typeof campaignFlights.$inferSelect;
+export type CampaignFlightsInput = z.infer<typeof campaignFlightsSchema>;
+
+export type InsertCampaignComment = z.infer<typeof insertCampaignCommentSchema>;
+export type CampaignComment = typeof campaignComments.$inferSelect;
+
+export type BulkCampaignOperation = z.infer<typeof bulkCampaignOperationSchema>;
+export type DuplicateCampaign = z.infer<typeof duplicateCampaignSchema>;
+export type SaveCampaignTemplate = z.infer<typeof saveCampaignTemplateSchema>;
+
+// Outcome for one campaign of a bulk operation
+export type BulkCampaignResult = { campaignId: string; campaignName: string | null; success: boolean; message?: string };
+
+export type InsertCampaignFieldChange = z.infer<typeof insertCampaignFieldChangeSchema>;
+export type CampaignFieldChange = typeof campaignFieldChanges.$inferSelect;
+
+export type InsertSpendReconciliationDecision = z.infer<typeof insertSpendReconciliationDecisionSchema>;
+export type SpendReconciliationDecision = typeof spendReconciliationDecisions.$inferSelect;
+
+// A campaign-day where manual and Facebook spend differ beyond the tolerance
+export type SpendReconciliationRow = {
+  campaignId: string;
+  campaignName: string;
+  date: string; // yyyy-mm-dd
+  manualAmount: number; // 0 when no manual spend was entered
+  facebookAmount: number;
+  difference: number; // facebookAmount - manualAmount
+};
+
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
 
@@ -538,15 +965,71 @@ export type WorkReport = typeof workReports.$inferSelect;
 export type InsertAdCopySet = z.infer<typeof insertAdCopySetSchema>;
 export type AdCopySet = typeof adCopySets.$inferSelect;
 
+export type InsertAdCopySetPeriod = z.infer<typeof insertAdCopySetPeriodSchema>;
+export type AdCopySetPeriod = typeof adCopySetPeriods.$inferSelect;
+
 export type InsertCampaignDailySpend = z.infer<typeof insertCampaignDailySpendSchema>;
 export type CampaignDailySpend = typeof campaignDailySpends.$inferSelect;
 
 export type InsertPage = z.infer<typeof insertPageSchema>;
 export type Page = typeof pages.$inferSelect;
 
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type Role = typeof roles.$inferSelect;
 export type InsertRolePermission = z.infer<typeof insertRolePermissionSchema>;
 export type RolePermission = typeof rolePermissions.$inferSelect;
 
+export type InsertUserPagePermission = z.infer<typeof insertUserPagePermissionSchema>;
+export type UserPagePermission = typeof userPagePermissions.$inferSelect;
+
+// Effective permissions of a user keyed by pageKey (role defaults with user overrides applied)
+export type PageAction = 'view' | 'edit' | 'delete';
+export type PagePermissionMap = Record<string, Record<PageAction, boolean>>;
+
+// The logged in user as returned by /api/auth/user
+export type AuthUser = { id: string; username: string; role: string; isAdmin: boolean };
+
+export const CampaignPacingStatus = {
+  AHEAD: 'ahead' as const, // Projected to overspend or run out before month end
+  ON_TRACK: 'on_track' as const,
+  BEHIND: 'behind' as const, // Projected to underspend
+  NO_BUDGET: 'no_budget' as const,
+  INACTIVE: 'inactive' as const, // Paused, completed or draft campaigns are not paced
+} as const;
+
+export type CampaignPacingStatusValue = typeof CampaignPacingStatus[keyof typeof CampaignPacingStatus];
+
+// Spend projection for one campaign as returned by /api/campaigns/pacing
+export interface CampaignPacing {
+  campaignId: string;
+  budgetType: 'daily' | 'total'; // Daily budgets are paced per month, total budgets against cumulative spend
+  monthBudget: number; // This month's share of a daily budget, or the whole total budget
+  spendToDate: number;
+  dailyRunRate: number; // Average daily spend over the recent trend window
+  projectedSpend: number; // Spend expected by month end (total budgets: by the campaign's end) at the current run rate
+  expectedSpendToDate: number; // Spend an evenly paced campaign would have reached by today
+  paceRatio: number | null; // projectedSpend / monthBudget
+  projectedExhaustionDate: string | null; // Day the budget runs out if that is before the end it is paced to
+  status: CampaignPacingStatusValue;
+}
+
+// Metrics attributed to one ad copy set over its active periods
+export interface AdCopySetPerformance {
+  adCopySetId: string;
+  setName: string;
+  isActive: boolean;
+  periods: { startedAt: string; endedAt: string | null }[];
+  activeDays: number; // Days attributed to this set
+  spend: number; // Manual daily spend
+  facebookSpend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  ctr: number | null; // Percent of impressions clicked
+  cpc: number | null; // Facebook spend per click
+  costPerConversion: number | null;
+}
+
 // Finance types
 export type InsertFinanceProject = z.infer<typeof insertFinanceProjectSchema>;
 export type FinanceProject = typeof financeProjects.$inferSelect;
@@ -581,6 +1064,9 @@ export const facebookSettings = pgTable("facebook_settings", {
   isConnected: boolean("is_connected").default(false),
   lastTestedAt: timestamp("last_tested_at"),
   connectionError: text("connection_error"),
+  autoSyncEnabled: boolean("auto_sync_enabled").notNull().default(false), // Background insight sync of every Facebook ad account
+  autoSyncIntervalMinutes: integer("auto_sync_interval_minutes").notNull().default(360),
+  resyncWindowDays: integer("resync_window_days").notNull().default(3), // Days before the last synced date that are fetched again for late attribution
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -594,6 +1080,29 @@ export const insertFacebookSettingSchema = createInsertSchema(facebookSettings).
 export type InsertFacebookSetting = z.infer<typeof insertFacebookSettingSchema>;
 export type FacebookSetting = typeof facebookSettings.$inferSelect;
 
+// TikTok Ads App Settings
+export const tiktokSettings = pgTable("tiktok_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appId: text("app_id").notNull(),
+  appSecret: text("app_secret").notNull(),
+  accessToken: text("access_token").notNull(),
+  apiBaseUrl: text("api_base_url"), // Overrides the TikTok Business API URL, e.g. to point at a local mock server
+  isConnected: boolean("is_connected").default(false),
+  lastTestedAt: timestamp("last_tested_at"),
+  connectionError: text("connection_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertTiktokSettingSchema = createInsertSchema(tiktokSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertTiktokSetting = z.infer<typeof insertTiktokSettingSchema>;
+export type TiktokSetting = typeof tiktokSettings.$inferSelect;
+
 // Client Mailbox Schemas
 export const clientMailboxEmailSchema = z.object({
   clientId: z.string().min(1, "Client is required"),
@@ -710,6 +1219,137 @@ export const insertClientEmailPreferenceSchema = createInsertSchema(clientEmailP
 export type InsertClientEmailPreference = z.infer<typeof insertClientEmailPreferenceSchema>;
 export type ClientEmailPreference = typeof clientEmailPreferences.$inferSelect;
 
+// Spend limit alerts, one per threshold crossing. An alert stays open while the
+// account is at or above its threshold and is resolved once spend drops below it.
+export const spendAlerts = pgTable("spend_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "cascade" }).notNull(),
+  threshold: integer("threshold").notNull(), // Percent of the spend limit
+  totalSpend: decimal("total_spend", { precision: 12, scale: 2 }).notNull(),
+  spendLimit: decimal("spend_limit", { precision: 12, scale: 2 }).notNull(),
+  emailSentTo: text("email_sent_to"), // Null when no client email went out
+  telegramSent: boolean("telegram_sent").notNull().default(false),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    thresholdCheck: sql`CHECK (${table.threshold} > 0)`,
+  }
+});
+
+export type SpendAlert = typeof spendAlerts.$inferSelect;
+
+// Spend limit ledger. An ad account's spend limit is the sum of its entries;
+// adAccounts.spendLimit is kept equal to it whenever an entry is added.
+export const adAccountLimitEntries = pgTable("ad_account_limit_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // "opening", "limit_increase", "top_up", "adjustment"
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // USD, only adjustments can be negative
+  date: timestamp("date").notNull(),
+  financePaymentId: varchar("finance_payment_id").references(() => financePayments.id, { onDelete: "set null" }), // Payment that funded it
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdByName: text("created_by_name").notNull(), // Username when added, kept if the user is deleted
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    typeCheck: sql`CHECK (${table.type} IN ('opening', 'limit_increase', 'top_up', 'adjustment'))`,
+    amountCheck: sql`CHECK (${table.type} = 'adjustment' OR ${table.amount} >= 0)`,
+  }
+});
+
+export const AdAccountLimitEntryType = {
+  OPENING: 'opening' as const, // The limit the account was created with
+  LIMIT_INCREASE: 'limit_increase' as const,
+  TOP_UP: 'top_up' as const,
+  ADJUSTMENT: 'adjustment' as const, // Corrections and direct edits of the limit
+} as const;
+
+// Entries added by users; opening entries are only written when an account is created
+export const insertAdAccountLimitEntrySchema = createInsertSchema(adAccountLimitEntries).omit({
+  id: true,
+  adAccountId: true,
+  createdBy: true,
+  createdByName: true,
+  createdAt: true,
+}).extend({
+  type: z.enum([AdAccountLimitEntryType.LIMIT_INCREASE, AdAccountLimitEntryType.TOP_UP, AdAccountLimitEntryType.ADJUSTMENT]),
+  amount: z.coerce.number().refine(amount => amount !== 0, "Amount cannot be zero"),
+  date: z.coerce.date(),
+  financePaymentId: z.string().nullable().optional(),
+}).refine(entry => entry.type === AdAccountLimitEntryType.ADJUSTMENT || entry.amount > 0, {
+  message: "Only adjustments can lower the limit",
+  path: ["amount"],
+});
+
+export type InsertAdAccountLimitEntry = z.infer<typeof insertAdAccountLimitEntrySchema>;
+export type AdAccountLimitEntry = typeof adAccountLimitEntries.$inferSelect;
+export type AdAccountLimitEntryAuthor = Pick<AdAccountLimitEntry, 'createdBy' | 'createdByName'>;
+export type AdAccountLimitEntryWithPayment = AdAccountLimitEntry & {
+  payment: Pick<FinancePayment, 'id' | 'amount' | 'currency' | 'date'> | null;
+};
+// Spend the monitor checks the limit against: campaign spend, or the entered total without campaigns
+export type AdAccountWithMonitoredSpend = AdAccount & { monitoredSpend: string };
+
+// Ad account status history, with the client notifications each change sent
+export const adAccountStatusChanges = pgTable("ad_account_status_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  changedByName: text("changed_by_name").notNull(), // Username when changed, kept if the user is deleted
+  emailSentTo: text("email_sent_to"), // Null when no email went out
+  smsSentTo: text("sms_sent_to"), // Null when no SMS went out
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAdAccountStatusChangeSchema = createInsertSchema(adAccountStatusChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAdAccountStatusChange = z.infer<typeof insertAdAccountStatusChangeSchema>;
+export type AdAccountStatusChange = typeof adAccountStatusChanges.$inferSelect;
+
+// Insight sync runs, scheduled or started by hand, across every synced ad account
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  platform: text("platform").notNull().default("facebook"),
+  trigger: text("trigger").notNull(), // "schedule" or "manual"
+  status: text("status").notNull().default("running"), // "running", "success", "partial", "failed"
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  accountsSynced: integer("accounts_synced").notNull().default(0),
+  rowsUpserted: integer("rows_upserted").notNull().default(0),
+  errors: text("errors"), // JSON: [{ adAccountId, accountName, message }]
+}, (table) => {
+  return {
+    triggerCheck: sql`CHECK (${table.trigger} IN ('schedule', 'manual'))`,
+    statusCheck: sql`CHECK (${table.status} IN ('running', 'success', 'partial', 'failed'))`,
+  }
+});
+
+export const SyncRunStatus = {
+  RUNNING: 'running' as const,
+  SUCCESS: 'success' as const,
+  PARTIAL: 'partial' as const, // Some ad accounts failed
+  FAILED: 'failed' as const,
+} as const;
+
+export const facebookSyncScheduleSchema = z.object({
+  autoSyncEnabled: z.boolean(),
+  autoSyncIntervalMinutes: z.coerce.number().int().min(15, "The interval must be at least 15 minutes").max(7 * 24 * 60),
+  resyncWindowDays: z.coerce.number().int().min(0).max(28),
+});
+
+export type FacebookSyncSchedule = z.infer<typeof facebookSyncScheduleSchema>;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type SyncRunError = { adAccountId: string | null; accountName: string | null; message: string }; // No account when the whole run failed
+
 // Facebook Ad Account Insights
 export const facebookAccountInsights = pgTable("facebook_account_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -786,6 +1426,7 @@ export type FacebookCampaignInsight = typeof facebookCampaignInsights.$inferSele
 // Facebook Ad Set Insights
 export const facebookAdSetInsights = pgTable("facebook_adset_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "cascade" }).notNull(),
   fbCampaignId: text("fb_campaign_id").notNull(),
   fbAdSetId: text("fb_adset_id").notNull(), // Facebook's ad set ID
   adSetName: text("adset_name").notNull(),
@@ -818,6 +1459,7 @@ export type FacebookAdSetInsight = typeof facebookAdSetInsights.$inferSelect;
 // Facebook Ad Insights
 export const facebookAdInsights = pgTable("facebook_ad_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adAccountId: varchar("ad_account_id").references(() => adAccounts.id, { onDelete: "cascade" }).notNull(),
   fbAdSetId: text("fb_adset_id").notNull(),
   fbAdId: text("fb_ad_id").notNull(), // Facebook's ad ID
   adName: text("ad_name").notNull(),